@@ -7,6 +7,7 @@ import { registerCustomProtocol, handleProtocolUrl } from './modules/protocol.js
 import { setupOAuthHandlers, handleOAuthCallback } from './modules/oauth.js';
 import { setupStorageHandlers } from './modules/storage.js';
 import { setupMsalHandlers } from './modules/msal.js';
+import { setupQuickCaptureHandlers, closeCaptureWindow, unregisterQuickCapture } from './modules/quickCapture.js';
 
 // Load environment variables from .env.local
 const __filename = fileURLToPath(import.meta.url);
@@ -192,6 +193,11 @@ function createWindow () {
         mainWindow.maximize();
         mainWindow.show();
     });
+
+    mainWindow.on('closed', () => {
+        mainWindow = null;
+        closeCaptureWindow();
+    });
 }
 
 // OAuth handlers are now in the oauth module
@@ -207,6 +213,7 @@ if (!gotTheLock) {
         initializeDatabaseHandlers();
         setupStorageHandlers();
         setupMsalHandlers();
+        setupQuickCaptureHandlers(() => mainWindow);
         createWindow();
         
         // Setup OAuth handlers after window is created
@@ -234,6 +241,10 @@ app.on('window-all-closed', () => {
     }
 });
 
+app.on('will-quit', () => {
+    unregisterQuickCapture();
+});
+
 app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
         createWindow();
@@ -11,7 +11,10 @@ const ALLOWED_EXTERNAL_DOMAINS = [
     'login.microsoftonline.com',
     'graph.microsoft.com',
     'portal.azure.com',
-    'todoist.com'
+    'todoist.com',
+    'github.com',
+    'www.notion.so',
+    'linear.app'
     // Removed wildcards and broad patterns
 ];
 
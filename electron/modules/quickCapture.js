@@ -0,0 +1,205 @@
+import { app, BrowserWindow, globalShortcut, ipcMain } from 'electron';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DatabaseManager } from '../../src/main/database/DatabaseManager.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+let captureWindow = null;
+let registeredShortcut = null;
+let restoreFocusToApp = false;
+
+// Quick capture settings are app settings, read in the main process so the hotkey works before any window loads
+const loadSettings = () => {
+    const result = DatabaseManager.getInstance().getSettings();
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to load settings');
+    }
+    return result.data.quick_capture;
+};
+
+const saveSettings = (quickCapture) => {
+    const result = DatabaseManager.getInstance().updateSettings({ quick_capture: quickCapture });
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to save settings');
+    }
+};
+
+const loadCaptureWindow = (window) => {
+    if (process.env.NODE_ENV === 'development') {
+        window.loadURL('http://localhost:5173/#/quick-capture');
+        return;
+    }
+
+    const indexPath = path.join(process.resourcesPath, 'dist/index.html');
+    window.loadFile(indexPath, { hash: '/quick-capture' }).catch(err => {
+        console.error('Failed to load quick capture window:', err);
+        window.loadFile(path.join(__dirname, '../../dist/index.html'), { hash: '/quick-capture' }).catch(err2 => {
+            console.error('Failed to load quick capture from alternative path:', err2);
+        });
+    });
+};
+
+const createCaptureWindow = () => {
+    captureWindow = new BrowserWindow({
+        width: 640,
+        height: 180,
+        show: false,
+        frame: false,
+        resizable: false,
+        alwaysOnTop: true,
+        skipTaskbar: true,
+        fullscreenable: false,
+        backgroundColor: '#ffffff',
+        webPreferences: {
+            preload: path.join(__dirname, '../preload.js'),
+            nodeIntegration: false,
+            contextIsolation: true,
+            webSecurity: true
+        }
+    });
+
+    loadCaptureWindow(captureWindow);
+
+    // Behave like a popup: clicking elsewhere dismisses it
+    captureWindow.on('blur', () => hideCaptureWindow());
+    captureWindow.on('closed', () => {
+        captureWindow = null;
+    });
+};
+
+const showCaptureWindow = (mainWindow) => {
+    if (!captureWindow) {
+        createCaptureWindow();
+    }
+
+    // Remember whether Openza was in front so hiding the popup does not raise the main window
+    restoreFocusToApp = !!mainWindow && !mainWindow.isDestroyed() && mainWindow.isFocused();
+
+    captureWindow.center();
+    if (captureWindow.webContents.isLoading()) {
+        captureWindow.once('ready-to-show', () => captureWindow.show());
+    } else {
+        captureWindow.show();
+    }
+    captureWindow.webContents.send('quick-capture-shown');
+};
+
+const hideCaptureWindow = () => {
+    if (!captureWindow || !captureWindow.isVisible()) {
+        return;
+    }
+    captureWindow.hide();
+
+    // macOS activates the next app window on hide, so give focus back to the previous app instead
+    if (process.platform === 'darwin' && !restoreFocusToApp) {
+        app.hide();
+    }
+};
+
+const registerShortcut = (shortcut, getMainWindow) => {
+    if (registeredShortcut) {
+        globalShortcut.unregister(registeredShortcut);
+        registeredShortcut = null;
+    }
+    if (!shortcut) {
+        return true;
+    }
+
+    // register() throws for malformed accelerators and returns false when another app owns the shortcut
+    const registered = globalShortcut.register(shortcut, () => showCaptureWindow(getMainWindow()));
+    if (registered) {
+        registeredShortcut = shortcut;
+    }
+    return registered;
+};
+
+// Global shortcut and IPC handlers for the quick capture window
+export const setupQuickCaptureHandlers = (getMainWindow) => {
+    try {
+        const settings = loadSettings();
+        if (!registerShortcut(settings.shortcut, getMainWindow)) {
+            console.warn(`Quick capture shortcut ${settings.shortcut} is already in use`);
+        }
+    } catch (error) {
+        console.error('Failed to register quick capture shortcut:', error.message);
+    }
+
+    ipcMain.handle('quick-capture-get-settings', () => {
+        try {
+            return { success: true, settings: { ...loadSettings(), registered: !!registeredShortcut } };
+        } catch (error) {
+            console.error('Failed to load quick capture settings:', error);
+            return { success: false, error: error.message };
+        }
+    });
+
+    ipcMain.handle('quick-capture-save-settings', (_event, updates) => {
+        let previous;
+        try {
+            previous = loadSettings();
+        } catch (error) {
+            console.error('Failed to load quick capture settings:', error);
+            return { success: false, error: error.message };
+        }
+        const next = { ...previous, ...updates };
+
+        try {
+            if (typeof next.shortcut !== 'string' || typeof next.projectId !== 'string') {
+                throw new Error('Invalid quick capture settings');
+            }
+
+            if (next.shortcut !== previous.shortcut) {
+                let registered = false;
+                try {
+                    registered = registerShortcut(next.shortcut, getMainWindow);
+                } catch {
+                    throw new Error(`"${next.shortcut}" is not a valid shortcut`);
+                }
+                if (!registered) {
+                    throw new Error(`"${next.shortcut}" is already used by another application`);
+                }
+            }
+
+            saveSettings(next);
+            return { success: true, settings: { ...next, registered: !!registeredShortcut } };
+        } catch (error) {
+            console.error('Failed to save quick capture settings:', error);
+            // Keep the shortcut that was working before
+            try {
+                registerShortcut(previous.shortcut, getMainWindow);
+            } catch {
+                // Nothing registered, same as before
+            }
+            return { success: false, error: error.message };
+        }
+    });
+
+    ipcMain.handle('quick-capture-close', () => {
+        hideCaptureWindow();
+        return { success: true };
+    });
+
+    // Let the main window refresh its task lists
+    ipcMain.handle('quick-capture-task-created', (_event, task) => {
+        hideCaptureWindow();
+        const mainWindow = getMainWindow();
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('quick-capture-task-created', task);
+        }
+        return { success: true };
+    });
+};
+
+// The hidden popup would otherwise keep the app alive after the main window closes
+export const closeCaptureWindow = () => {
+    if (captureWindow && !captureWindow.isDestroyed()) {
+        captureWindow.destroy();
+    }
+};
+
+export const unregisterQuickCapture = () => {
+    globalShortcut.unregisterAll();
+    registeredShortcut = null;
+};
@@ -2,8 +2,12 @@ const { contextBridge, ipcRenderer } = require('electron');
 
 contextBridge.exposeInMainWorld('electron', {
     send: (channel, data) => ipcRenderer.send(channel, data),
-    on: (channel, func) =>
-      ipcRenderer.on(channel, (event, ...args) => func(...args)),
+    // Returns a function that removes the listener again
+    on: (channel, func) => {
+      const listener = (event, ...args) => func(...args);
+      ipcRenderer.on(channel, listener);
+      return () => ipcRenderer.removeListener(channel, listener);
+    },
     
     // Secure storage methods
     secureStorage: {
@@ -41,31 +45,85 @@ contextBridge.exposeInMainWorld('electron', {
         debugCache: () => ipcRenderer.invoke('msal-debug-cache'),
     },
 
+    // Quick capture window and its global shortcut
+    quickCapture: {
+        getSettings: () => ipcRenderer.invoke('quick-capture-get-settings'),
+        saveSettings: (settings) => ipcRenderer.invoke('quick-capture-save-settings', settings),
+        close: () => ipcRenderer.invoke('quick-capture-close'),
+        taskCreated: (task) => ipcRenderer.invoke('quick-capture-task-created', task),
+    },
+
     // Database API
     database: {
         // Task operations
         createTask: (taskData) => ipcRenderer.invoke('db:createTask', taskData),
         getTaskById: (id) => ipcRenderer.invoke('db:getTaskById', id),
         getTasks: (filters) => ipcRenderer.invoke('db:getTasks', filters || {}),
-        updateTask: (id, updates) => ipcRenderer.invoke('db:updateTask', id, updates),
-        deleteTask: (id) => ipcRenderer.invoke('db:deleteTask', id),
+        getTaskTree: (id) => ipcRenderer.invoke('db:getTaskTree', id),
+        updateTask: (id, updates, options) => ipcRenderer.invoke('db:updateTask', id, updates, options),
+        deleteTask: (id, options) => ipcRenderer.invoke('db:deleteTask', id, options),
 
         // Project operations
         createProject: (projectData) => ipcRenderer.invoke('db:createProject', projectData),
         getProjectById: (id) => ipcRenderer.invoke('db:getProjectById', id),
         getProjects: (filters) => ipcRenderer.invoke('db:getProjects', filters || {}),
+        updateProject: (id, updates) => ipcRenderer.invoke('db:updateProject', id, updates),
+        deleteProject: (id, reassignTo) => ipcRenderer.invoke('db:deleteProject', id, reassignTo),
+        reorderProjects: (parentId, orderedIds) => ipcRenderer.invoke('db:reorderProjects', parentId, orderedIds),
+
+        // Section operations
+        getSections: (projectId) => ipcRenderer.invoke('db:getSections', projectId),
+        createSection: (sectionData) => ipcRenderer.invoke('db:createSection', sectionData),
+        updateSection: (id, updates) => ipcRenderer.invoke('db:updateSection', id, updates),
+        deleteSection: (id) => ipcRenderer.invoke('db:deleteSection', id),
+        reorderSections: (projectId, orderedIds) => ipcRenderer.invoke('db:reorderSections', projectId, orderedIds),
+
+        // Label operations
+        getLabels: () => ipcRenderer.invoke('db:getLabels'),
+        createLabel: (labelData) => ipcRenderer.invoke('db:createLabel', labelData),
+        updateLabel: (id, updates) => ipcRenderer.invoke('db:updateLabel', id, updates),
+        deleteLabel: (id) => ipcRenderer.invoke('db:deleteLabel', id),
+        addTaskLabel: (taskId, labelId) => ipcRenderer.invoke('db:addTaskLabel', taskId, labelId),
+        removeTaskLabel: (taskId, labelId) => ipcRenderer.invoke('db:removeTaskLabel', taskId, labelId),
+        setTaskLabels: (taskId, labelIds) => ipcRenderer.invoke('db:setTaskLabels', taskId, labelIds),
+
+        // Task enhancement operations
+        getTaskEnhancements: (taskId, type) => ipcRenderer.invoke('db:getTaskEnhancements', taskId, type),
+        createTaskEnhancement: (enhancementData) => ipcRenderer.invoke('db:createTaskEnhancement', enhancementData),
+        updateTaskEnhancement: (id, updates) => ipcRenderer.invoke('db:updateTaskEnhancement', id, updates),
+        deleteTaskEnhancement: (id) => ipcRenderer.invoke('db:deleteTaskEnhancement', id),
+        reorderTaskEnhancements: (taskId, orderedIds) => ipcRenderer.invoke('db:reorderTaskEnhancements', taskId, orderedIds),
+
+        // Time tracking operations
+        startTimer: (taskId, description) => ipcRenderer.invoke('db:startTimer', taskId, description),
+        stopTimer: () => ipcRenderer.invoke('db:stopTimer'),
+        getRunningTimer: () => ipcRenderer.invoke('db:getRunningTimer'),
+        getTimeEntries: (taskId) => ipcRenderer.invoke('db:getTimeEntries', taskId),
+        createTimeEntry: (entryData) => ipcRenderer.invoke('db:createTimeEntry', entryData),
+        updateTimeEntry: (id, updates) => ipcRenderer.invoke('db:updateTimeEntry', id, updates),
+        deleteTimeEntry: (id) => ipcRenderer.invoke('db:deleteTimeEntry', id),
 
         // Integration operations
         updateTaskIntegration: (taskId, integration, data) => 
             ipcRenderer.invoke('db:updateTaskIntegration', taskId, integration, data),
         getTasksByIntegration: (integration) => 
             ipcRenderer.invoke('db:getTasksByIntegration', integration),
+        getIntegration: (name) => ipcRenderer.invoke('db:getIntegration', name),
+        saveIntegrationState: (name, data) => ipcRenderer.invoke('db:saveIntegrationState', name, data),
+
+        // Sync operations
+        sync: (integration, accessToken) => ipcRenderer.invoke('db:sync', integration, accessToken),
+        getSyncConflicts: (filters) => ipcRenderer.invoke('db:getSyncConflicts', filters || {}),
+        saveSyncConflict: (conflictData) => ipcRenderer.invoke('db:saveSyncConflict', conflictData),
+        resolveSyncConflict: (id, resolution, choices) =>
+            ipcRenderer.invoke('db:resolveSyncConflict', id, resolution, choices),
 
         // Search operations
         searchTasks: (searchTerm) => ipcRenderer.invoke('db:searchTasks', searchTerm),
 
         // Statistics
         getTaskStatistics: () => ipcRenderer.invoke('db:getTaskStatistics'),
+        getProductivityStatistics: (range) => ipcRenderer.invoke('db:getProductivityStatistics', range),
 
         // Convenience methods
         getTodayTasks: () => ipcRenderer.invoke('db:getTodayTasks'),
@@ -80,6 +138,23 @@ contextBridge.exposeInMainWorld('electron', {
         bulkUpdateTasks: (updates) => ipcRenderer.invoke('db:bulkUpdateTasks', updates),
         bulkDeleteTasks: (taskIds) => ipcRenderer.invoke('db:bulkDeleteTasks', taskIds),
 
+        // Import/export
+        exportData: (format) => ipcRenderer.invoke('db:exportData', format),
+        importData: (format, content, options) => ipcRenderer.invoke('db:importData', format, content, options),
+
+        // Undo/redo
+        undo: () => ipcRenderer.invoke('db:undo'),
+        redo: () => ipcRenderer.invoke('db:redo'),
+
+        // Settings
+        getSettings: () => ipcRenderer.invoke('db:getSettings'),
+        updateSettings: (updates) => ipcRenderer.invoke('db:updateSettings', updates),
+
+        // Backups
+        getBackups: () => ipcRenderer.invoke('db:getBackups'),
+        createBackup: () => ipcRenderer.invoke('db:createBackup'),
+        restoreBackup: (fileName) => ipcRenderer.invoke('db:restoreBackup', fileName),
+
         // Maintenance
         vacuum: () => ipcRenderer.invoke('db:vacuum'),
         analyze: () => ipcRenderer.invoke('db:analyze'),
@@ -1,9 +1,14 @@
+import { useEffect } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { Router, RouterProvider, Route, RootRoute, createHashHistory } from '@tanstack/react-router'
 import Tasks from './components/Tasks'
 import Dashboard from './components/Dashboard'
 import DashboardLayout from './components/DashboardLayout'
 import Today from './components/Today'
 import Overdue from './components/Overdue'
+import SyncConflicts from './components/SyncConflicts'
+import Analytics from './components/Analytics'
+import QuickCapture from './components/QuickCapture'
 import NextAction from './components/NextAction'
 import FeaturePreview from './components/FeaturePreview'
 import AuthRoute from './components/AuthRoute'
@@ -11,6 +16,8 @@ import ProviderSelection from './components/auth/ProviderSelection'
 import MsToDoCallback from './components/auth/MsToDoCallback'
 import { TaskSourceProvider } from './contexts/TaskSourceContext'
 import ErrorBoundary from './components/ErrorBoundary'
+import { Toaster } from './components/ui/sonner'
+import { useUndo, useRedo } from './hooks/useDatabase'
 
 const rootRoute = new RootRoute()
 
@@ -88,6 +95,26 @@ const overdueRoute = new Route({
   ),
 })
 
+const analyticsRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: '/analytics',
+  component: () => (
+    <DashboardLayout>
+      <Analytics />
+    </DashboardLayout>
+  ),
+})
+
+const conflictsRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: '/conflicts',
+  component: () => (
+    <DashboardLayout>
+      <SyncConflicts />
+    </DashboardLayout>
+  ),
+})
+
 const settingsRoute = new Route({
   getParentRoute: () => rootRoute,
   path: '/settings',
@@ -108,13 +135,19 @@ const loginRoute = new Route({
   ),
 })
 
+const quickCaptureRoute = new Route({
+  getParentRoute: () => rootRoute,
+  path: '/quick-capture',
+  component: QuickCapture,
+})
+
 const msToDoCallbackRoute = new Route({
   getParentRoute: () => rootRoute,
   path: '/auth/mstodo/callback',
   component: MsToDoCallback,
 })
 
-const routeTree = rootRoute.addChildren([indexRoute, dashboardRoute, nextActionRoute, tasksRoute, profileRoute, todayRoute, overdueRoute, settingsRoute, loginRoute, msToDoCallbackRoute])
+const routeTree = rootRoute.addChildren([indexRoute, dashboardRoute, nextActionRoute, tasksRoute, profileRoute, todayRoute, overdueRoute, analyticsRoute, conflictsRoute, settingsRoute, loginRoute, quickCaptureRoute, msToDoCallbackRoute])
 
 // Create a hash history instance for Electron compatibility
 const hashHistory = createHashHistory({
@@ -148,9 +181,45 @@ declare module '@tanstack/react-router' {
 }
 
 function App() {
+  const queryClient = useQueryClient()
+
+  // Tasks saved from the quick capture window come from another renderer
+  useEffect(() => {
+    return window.electron.on('quick-capture-task-created', () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      queryClient.invalidateQueries({ queryKey: ['statistics'] })
+    })
+  }, [queryClient])
+
+  // Ctrl+Z and Ctrl+Shift+Z undo and redo task changes, except while typing
+  const { mutate: undo } = useUndo()
+  const { mutate: redo } = useRedo()
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') {
+        return
+      }
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable]')) {
+        return
+      }
+
+      event.preventDefault()
+      if (event.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
   return (
     <TaskSourceProvider>
       <RouterProvider router={router} />
+      <Toaster />
     </TaskSourceProvider>
   )
 }
@@ -0,0 +1,281 @@
+import { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { CheckCircle2, Clock, Target, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useProductivityStatistics } from '../hooks/useDatabase';
+import { formatDuration, toDateString } from '../utils/dateUtils';
+import type { ProductivityTrendPoint, StatisticsRange } from '../types/database';
+
+type RangePreset = '7d' | '30d' | '90d' | 'year';
+
+const RANGE_PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: '90d', label: '90 days' },
+  { value: 'year', label: 'This year' },
+];
+
+const ENERGY_LABELS: Record<string, string> = {
+  '1': '🟢 Low',
+  '2': '🟡 Medium',
+  '3': '🟠 High',
+  '4': '🔴 Peak',
+  '5': '⚡ Flow',
+};
+
+// Longer ranges are charted per week so the bars stay readable
+const WEEKLY_THRESHOLD_DAYS = 60;
+
+const getRange = (preset: RangePreset): StatisticsRange => {
+  const to = new Date();
+  const from = preset === 'year'
+    ? new Date(to.getFullYear(), 0, 1)
+    : new Date(to.getFullYear(), to.getMonth(), to.getDate() - (parseInt(preset) - 1));
+  return { from: toDateString(from), to: toDateString(to) };
+};
+
+const formatPointLabel = (date: string, weekly: boolean): string => {
+  const label = new Date(`${date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return weekly ? `Week of ${label}` : label;
+};
+
+const TrendChart: React.FC<{
+  points: ProductivityTrendPoint[];
+  valueKey: 'completed' | 'time_tracked';
+  weekly: boolean;
+  barClassName: string;
+  formatValue: (value: number) => string;
+}> = ({ points, valueKey, weekly, barClassName, formatValue }) => {
+  const max = Math.max(...points.map(point => point[valueKey]), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {points.map(point => (
+          <div
+            key={point.date}
+            className="flex-1 h-full flex items-end"
+            title={`${formatPointLabel(point.date, weekly)}: ${formatValue(point[valueKey])}`}
+          >
+            <div
+              className={cn('w-full rounded-t-sm', barClassName)}
+              style={{ height: `${(point[valueKey] / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      {points.length > 0 && (
+        <div className="flex justify-between mt-2 text-xs text-gray-500">
+          <span>{formatPointLabel(points[0].date, weekly)}</span>
+          <span>{formatPointLabel(points[points.length - 1].date, weekly)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DistributionBars: React.FC<{
+  distribution: Record<string, number>;
+  formatLabel: (key: string) => string;
+}> = ({ distribution, formatLabel }) => {
+  const entries = Object.entries(distribution).sort(([, a], [, b]) => b - a);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No completed tasks in this period</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map(([key, count]) => (
+        <div key={key} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="capitalize">{formatLabel(key)}</span>
+            <span className="text-gray-600">{count}</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div className="h-full bg-purple-500" style={{ width: `${(count / total) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Analytics = () => {
+  const [preset, setPreset] = useState<RangePreset>('30d');
+  const range = useMemo(() => getRange(preset), [preset]);
+  const { data: statistics, isLoading, error } = useProductivityStatistics(range);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-lg text-gray-600">Loading analytics...</div>
+      </div>
+    );
+  }
+
+  if (error || !statistics) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-pink-50 to-purple-100">
+        <div className="bg-white p-8 rounded-3xl shadow-2xl text-center">
+          <h2 className="text-2xl font-semibold mb-4 text-red-600">
+            Error loading analytics
+          </h2>
+          <p className="text-gray-600">
+            {error instanceof Error
+              ? error.message
+              : 'Please try again later'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const days = statistics.completions_by_day.length;
+  const weekly = days > WEEKLY_THRESHOLD_DAYS;
+  const trend = weekly ? statistics.completions_by_week : statistics.completions_by_day;
+
+  return (
+    <div className="h-full overflow-y-auto space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGE_PRESETS.map(option => (
+          <Button
+            key={option.value}
+            variant={preset === option.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setPreset(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+        <span className="text-sm text-gray-500 ml-auto">
+          Today: {statistics.tasks_completed_today} completed · This week: {statistics.tasks_completed_this_week}
+        </span>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completed</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{statistics.tasks_completed}</div>
+            <p className="text-xs text-gray-500">
+              {(statistics.tasks_completed / Math.max(days, 1)).toFixed(1)} per day on average
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Time Tracked</CardTitle>
+            <Clock className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDuration(statistics.total_time_tracked)}</div>
+            <p className="text-xs text-gray-500">
+              {statistics.average_task_duration
+                ? `${formatDuration(statistics.average_task_duration)} per completed task`
+                : 'No tracked time on completed tasks'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Estimate Accuracy</CardTitle>
+            <Target className="h-4 w-4 text-orange-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {statistics.estimate_accuracy !== undefined ? `${statistics.estimate_accuracy}%` : '—'}
+            </div>
+            <p className="text-xs text-gray-500">
+              {statistics.estimated_minutes
+                ? `${formatDuration(statistics.actual_minutes)} actual vs ${formatDuration(statistics.estimated_minutes)} estimated`
+                : 'Needs tasks with an estimate and tracked time'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Productivity Score</CardTitle>
+            <TrendingUp className="h-4 w-4 text-purple-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{statistics.productivity_score}%</div>
+            <p className="text-xs text-gray-500">Tasks due in this period that are done</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Trends */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">
+              Completions per {weekly ? 'week' : 'day'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TrendChart
+              points={trend}
+              valueKey="completed"
+              weekly={weekly}
+              barClassName="bg-green-500"
+              formatValue={value => `${value} completed`}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">
+              Time tracked per {weekly ? 'week' : 'day'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TrendChart
+              points={trend}
+              valueKey="time_tracked"
+              weekly={weekly}
+              barClassName="bg-blue-500"
+              formatValue={value => formatDuration(value)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Context and Energy Distribution */}
+      <div className="grid gap-6 sm:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Completed by Context</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DistributionBars distribution={statistics.context_distribution} formatLabel={context => context} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Completed by Energy Level</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DistributionBars
+              distribution={statistics.energy_distribution}
+              formatLabel={level => ENERGY_LABELS[level] || `Level ${level}`}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
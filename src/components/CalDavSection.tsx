@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Loader2, Search } from "lucide-react";
+import { authManager } from '../utils/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useIntegration, useSaveIntegrationState } from '../hooks/useDatabase';
+import { CalDavClient } from '../main/sync/caldav';
+import LocalSyncSection from './LocalSyncSection';
+import type { CalDavCalendar } from '../main/sync/caldav';
+
+const CalDavSection: React.FC = () => {
+  const { providers } = useAuth();
+  const { data: integration } = useIntegration('caldav');
+  const saveIntegrationState = useSaveIntegrationState();
+  const savedConfig = integration?.config?.caldav;
+
+  const [serverUrl, setServerUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [foundCalendars, setFoundCalendars] = useState<CalDavCalendar[]>();
+  const [calendarUrls, setCalendarUrls] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const getClient = () => {
+    const secret = password.trim() || providers.caldav.token;
+    if (!serverUrl.trim() || !username.trim()) {
+      throw new Error('Please enter the server URL and username');
+    }
+    if (!secret) {
+      throw new Error('Please enter your password');
+    }
+    return new CalDavClient(username.trim(), secret, serverUrl.trim());
+  };
+
+  const runWithStatus = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to reach the CalDAV server' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setServerUrl(savedConfig?.server_url || '');
+    setUsername(savedConfig?.username || '');
+    setCalendarUrls(savedConfig?.calendar_urls || []);
+  }, [savedConfig]);
+
+  // The calendars of the connected account, listed so the selection can be changed
+  const connectedCalendars = useQuery({
+    queryKey: ['caldav-calendars', savedConfig?.server_url, savedConfig?.username, providers.caldav.token],
+    queryFn: () => new CalDavClient(savedConfig!.username, providers.caldav.token!, savedConfig!.server_url).getCalendars(),
+    enabled: !!providers.caldav.token && !!savedConfig?.server_url,
+    retry: false,
+  });
+
+  const calendars = foundCalendars || connectedCalendars.data || [];
+  const shownStatus = status
+    || (connectedCalendars.error ? { type: 'error' as const, message: connectedCalendars.error.message } : null);
+
+  const handleLoadCalendars = () => runWithStatus(async () => {
+    setFoundCalendars(await getClient().getCalendars());
+  });
+
+  const toggleCalendar = (url: string) => {
+    setCalendarUrls(current => current.includes(url)
+      ? current.filter(calendarUrl => calendarUrl !== url)
+      : [...current, url]);
+  };
+
+  const handleSave = () => runWithStatus(async () => {
+    // Checks the credentials before anything is stored
+    const found = await getClient().getCalendars();
+    setFoundCalendars(found);
+
+    await saveIntegrationState.mutateAsync({
+      name: 'caldav',
+      data: {
+        config: {
+          ...integration?.config,
+          caldav: { server_url: serverUrl.trim(), username: username.trim(), calendar_urls: calendarUrls },
+        },
+      },
+    });
+
+    const secret = password.trim();
+    if (secret && secret !== providers.caldav.token) {
+      await authManager.setProviderToken('caldav', secret);
+    }
+    setPassword('');
+    setStatus({ type: 'success', message: `Connected, found ${found.length} task ${found.length === 1 ? 'list' : 'lists'}` });
+  });
+
+  const handleDisconnect = async () => {
+    try {
+      await authManager.clearProviderToken('caldav');
+      // Refresh the page to update the app state
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to disconnect CalDAV:', error);
+      setStatus({ type: 'error', message: 'Failed to disconnect CalDAV' });
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const canConnect = serverUrl.trim() && username.trim() && (password.trim() || providers.caldav.isAuthenticated);
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <h4 className="font-medium text-blue-900 mb-1.5 text-sm">How to connect a CalDAV server:</h4>
+        <ol className="text-sm text-blue-800 space-y-0.5 ml-4">
+          <li>1. Copy the CalDAV address of your server, e.g. https://cloud.example.com/remote.php/dav</li>
+          <li>2. Create an app password if your server supports them (Nextcloud: Settings → Security)</li>
+          <li>3. Enter both below with your username and choose the task lists to follow</li>
+        </ol>
+      </div>
+
+      <div className="space-y-2.5">
+        <div>
+          <label htmlFor="caldav-server-url" className="block text-sm font-medium text-gray-700 mb-1">
+            Server URL
+          </label>
+          <input
+            id="caldav-server-url"
+            type="url"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            placeholder="https://cloud.example.com/remote.php/dav"
+            className={inputClass}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="caldav-username" className="block text-sm font-medium text-gray-700 mb-1">
+            Username
+          </label>
+          <input
+            id="caldav-username"
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            className={inputClass}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="caldav-password" className="block text-sm font-medium text-gray-700 mb-1">
+            App Password
+          </label>
+          <div className="flex space-x-2">
+            <input
+              id="caldav-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={providers.caldav.isAuthenticated ? 'Saved, enter a new password to replace it' : ''}
+              className={inputClass}
+              disabled={isLoading}
+            />
+            <Button
+              variant="outline"
+              onClick={handleLoadCalendars}
+              disabled={isLoading || !canConnect}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Find Task Lists
+            </Button>
+          </div>
+        </div>
+
+        {calendars.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Task Lists
+            </span>
+            <div className="space-y-1">
+              {calendars.map(calendar => (
+                <label key={calendar.url} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={calendarUrls.includes(calendar.url)}
+                    onChange={() => toggleCalendar(calendar.url)}
+                    className="h-4 w-4 rounded border-gray-300"
+                    disabled={isLoading}
+                  />
+                  {calendar.color && (
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: calendar.color }} />
+                  )}
+                  <span>{calendar.name}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Tasks of the checked lists are shown, or of all lists when none is checked.
+            </p>
+          </div>
+        )}
+
+        {shownStatus && (
+          <div className={`flex items-center space-x-2 text-sm ${shownStatus.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {shownStatus.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{shownStatus.message}</span>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <Button
+            onClick={handleSave}
+            disabled={isLoading || !canConnect}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
+              </>
+            ) : providers.caldav.isAuthenticated ? (
+              'Save'
+            ) : (
+              'Save & Connect'
+            )}
+          </Button>
+          {providers.caldav.isAuthenticated && (
+            <Button
+              variant="outline"
+              onClick={handleDisconnect}
+              className="text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {providers.caldav.isAuthenticated && (
+        <LocalSyncSection
+          integration="caldav"
+          description="Copy tasks of the chosen lists into the local database, with categories as labels and related tasks as subtasks. Local edits are written back unless the task changed on the server in the meantime."
+        />
+      )}
+    </div>
+  );
+};
+
+export default CalDavSection;
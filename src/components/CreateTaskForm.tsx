@@ -1,9 +1,18 @@
 import { useState } from 'react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
+import RecurrenceInput from './RecurrenceInput';
+import QuickAddInput from './QuickAddInput';
 import { useCreateTask, useProjects } from '../hooks/useDatabase';
+import { useUnifiedTasks, useProviderStatus } from '../hooks/useUnifiedTasks';
+import { useCreateProviderTask } from '../hooks/useTaskActions';
+import { getTaskProviders, getTaskProvider } from '../providers';
+import type { TaskProvider } from '../providers';
 import { CreateTaskData, TaskContext } from '../types/database';
 
+// Where a new task is saved
+type Destination = 'local' | TaskProvider;
+
 interface CreateTaskFormProps {
   onClose?: () => void;
   onSuccess?: () => void;
@@ -24,6 +33,29 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
 
   const { data: projects } = useProjects();
   const createTaskMutation = useCreateTask();
+  const createProviderTask = useCreateProviderTask();
+
+  // Shares the provider queries of the task views
+  const { available } = useProviderStatus();
+  const { providerData } = useUnifiedTasks(['global-tasks', 'all'], { includeAllProviders: true });
+  const destinations = getTaskProviders().filter(provider => provider.capabilities.create && available[provider.id]);
+
+  // A provider project as default project, e.g. mstodo_list_..., makes its provider the
+  // destination, also when a sync copied the project into the local database
+  const [selectedDestination, setSelectedDestination] = useState<Destination>();
+  const destination: Destination = selectedDestination
+    ?? destinations.find(provider => providerData[provider.id]?.projects.some(project => project.id === defaultProjectId))?.id
+    ?? 'local';
+  const isLocal = destination === 'local';
+  const destinationName = isLocal ? 'Local' : getTaskProvider(destination)?.name;
+  const destinationProjects = (isLocal ? projects : providerData[destination]?.projects) || [];
+
+  // Provider tasks always go to one of its projects, the first unless another is chosen
+  const projectId = isLocal || destinationProjects.some(project => project.id === formData.project_id)
+    ? formData.project_id
+    : destinationProjects[0]?.id;
+  const isPending = createTaskMutation.isPending || createProviderTask.isPending;
+  const error = isLocal ? createTaskMutation.error : createProviderTask.error;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -33,7 +65,11 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
     }
 
     try {
-      await createTaskMutation.mutateAsync(formData);
+      if (isLocal) {
+        await createTaskMutation.mutateAsync(formData);
+      } else {
+        await createProviderTask.mutateAsync({ provider: destination, data: { ...formData, project_id: projectId } });
+      }
       
       // Reset form
       setFormData({
@@ -54,6 +90,11 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
     }
   };
 
+  const handleDestinationChange = (value: Destination) => {
+    setSelectedDestination(value);
+    handleInputChange('project_id', value === 'local' ? '' : undefined);
+  };
+
   const handleInputChange = (field: keyof CreateTaskData, value: any) => {
     setFormData(prev => ({
       ...prev,
@@ -64,12 +105,56 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
   return (
     <Card className="p-6 max-w-2xl">
       <div className="mb-4">
-        <h2 className="text-xl font-semibold">Create Local Task</h2>
+        <h2 className="text-xl font-semibold">Create {destinationName} Task</h2>
         <p className="text-sm text-gray-600 mt-1">
-          Create a new task with enhanced local features
+          {isLocal
+            ? 'Create a new task with enhanced local features'
+            : `Create a new task in ${destinationName}`}
         </p>
       </div>
 
+      {/* Destination */}
+      {destinations.length > 0 && (
+        <div className="mb-4">
+          <label htmlFor="destination" className="block text-sm font-medium mb-1">
+            Save to
+          </label>
+          <select
+            id="destination"
+            value={destination}
+            onChange={(e) => handleDestinationChange(e.target.value as Destination)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="local">Local database</option>
+            {destinations.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Quick Add */}
+      {isLocal && (
+        <div className="mb-4 pb-4 border-b">
+          <label className="block text-sm font-medium mb-1">
+            Quick Add
+          </label>
+          <QuickAddInput
+            defaultProjectId={defaultProjectId}
+            autoFocus
+            onCreated={() => {
+              onSuccess?.();
+              onClose?.();
+            }}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Press Enter to create, or fill in the details below
+          </p>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Title */}
         <div>
@@ -111,12 +196,12 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
             </label>
             <select
               id="project"
-              value={formData.project_id || ''}
+              value={projectId || ''}
               onChange={(e) => handleInputChange('project_id', e.target.value || undefined)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="">No Project</option>
-              {projects?.map((project) => (
+              {isLocal && <option value="">No Project</option>}
+              {destinationProjects.map((project) => (
                 <option key={project.id} value={project.id}>
                   {project.name}
                 </option>
@@ -142,43 +227,47 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
             </select>
           </div>
 
-          {/* Context */}
-          <div>
-            <label htmlFor="context" className="block text-sm font-medium mb-1">
-              Context
-            </label>
-            <select
-              id="context"
-              value={formData.context || 'work'}
-              onChange={(e) => handleInputChange('context', e.target.value as TaskContext)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="work">💼 Work</option>
-              <option value="personal">👤 Personal</option>
-              <option value="errands">🏃 Errands</option>
-              <option value="home">🏠 Home</option>
-              <option value="office">🏢 Office</option>
-            </select>
-          </div>
+          {isLocal && (
+            <>
+              {/* Context */}
+              <div>
+                <label htmlFor="context" className="block text-sm font-medium mb-1">
+                  Context
+                </label>
+                <select
+                  id="context"
+                  value={formData.context || 'work'}
+                  onChange={(e) => handleInputChange('context', e.target.value as TaskContext)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="work">💼 Work</option>
+                  <option value="personal">👤 Personal</option>
+                  <option value="errands">🏃 Errands</option>
+                  <option value="home">🏠 Home</option>
+                  <option value="office">🏢 Office</option>
+                </select>
+              </div>
 
-          {/* Energy Level */}
-          <div>
-            <label htmlFor="energy" className="block text-sm font-medium mb-1">
-              Energy Level
-            </label>
-            <select
-              id="energy"
-              value={formData.energy_level || 2}
-              onChange={(e) => handleInputChange('energy_level', parseInt(e.target.value))}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value={1}>🟢 Low</option>
-              <option value={2}>🟡 Medium</option>
-              <option value={3}>🟠 High</option>
-              <option value={4}>🔴 Peak</option>
-              <option value={5}>⚡ Flow State</option>
-            </select>
-          </div>
+              {/* Energy Level */}
+              <div>
+                <label htmlFor="energy" className="block text-sm font-medium mb-1">
+                  Energy Level
+                </label>
+                <select
+                  id="energy"
+                  value={formData.energy_level || 2}
+                  onChange={(e) => handleInputChange('energy_level', parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={1}>🟢 Low</option>
+                  <option value={2}>🟡 Medium</option>
+                  <option value={3}>🟠 High</option>
+                  <option value={4}>🔴 Peak</option>
+                  <option value={5}>⚡ Flow State</option>
+                </select>
+              </div>
+            </>
+          )}
 
           {/* Due Date */}
           <div>
@@ -195,51 +284,71 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
           </div>
 
           {/* Estimated Duration */}
-          <div>
-            <label htmlFor="duration" className="block text-sm font-medium mb-1">
-              Est. Duration (minutes)
-            </label>
-            <input
-              id="duration"
-              type="number"
-              min="5"
-              step="5"
-              value={formData.estimated_duration || ''}
-              onChange={(e) => handleInputChange('estimated_duration', e.target.value ? parseInt(e.target.value) : undefined)}
-              placeholder="30"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
+          {isLocal && (
+            <div>
+              <label htmlFor="duration" className="block text-sm font-medium mb-1">
+                Est. Duration (minutes)
+              </label>
+              <input
+                id="duration"
+                type="number"
+                min="5"
+                step="5"
+                value={formData.estimated_duration || ''}
+                onChange={(e) => handleInputChange('estimated_duration', e.target.value ? parseInt(e.target.value) : undefined)}
+                placeholder="30"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
         </div>
 
-        {/* Focus Time Checkbox */}
-        <div className="flex items-center space-x-2">
-          <input
-            id="focus_time"
-            type="checkbox"
-            checked={formData.focus_time || false}
-            onChange={(e) => handleInputChange('focus_time', e.target.checked)}
-            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-          />
-          <label htmlFor="focus_time" className="text-sm font-medium">
-            🧠 Requires deep focus
-          </label>
-        </div>
+        {isLocal && (
+          <>
+            {/* Repeat */}
+            <div>
+              <label htmlFor="recurrence" className="block text-sm font-medium mb-1">
+                Repeat
+              </label>
+              <RecurrenceInput
+                id="recurrence"
+                value={formData.recurrence}
+                onChange={(recurrence) => handleInputChange('recurrence', recurrence)}
+              />
+            </div>
 
-        {/* Notes */}
-        <div>
-          <label htmlFor="notes" className="block text-sm font-medium mb-1">
-            Notes
-          </label>
-          <textarea
-            id="notes"
-            value={formData.notes || ''}
-            onChange={(e) => handleInputChange('notes', e.target.value)}
-            placeholder="Any additional notes or thoughts..."
-            rows={3}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-        </div>
+            {/* Focus Time Checkbox */}
+            <div className="flex items-center space-x-2">
+              <input
+                id="focus_time"
+                type="checkbox"
+                checked={formData.focus_time || false}
+                onChange={(e) => handleInputChange('focus_time', e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <label htmlFor="focus_time" className="text-sm font-medium">
+                🧠 Requires deep focus
+              </label>
+            </div>
+
+            {/* Notes */}
+            <div>
+              <label htmlFor="notes" className="block text-sm font-medium mb-1">
+                Notes
+              </label>
+              <textarea
+                id="notes"
+                value={formData.notes || ''}
+                onChange={(e) => handleInputChange('notes', e.target.value)}
+                placeholder="Any additional notes or thoughts..."
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error.message}</p>}
 
         {/* Submit Buttons */}
         <div className="flex justify-end space-x-3 pt-4 border-t">
@@ -250,9 +359,9 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
           )}
           <Button 
             type="submit" 
-            disabled={!formData.title.trim() || createTaskMutation.isPending}
+            disabled={!formData.title.trim() || isPending || (!isLocal && !projectId)}
           >
-            {createTaskMutation.isPending ? 'Creating...' : 'Create Task'}
+            {isPending ? 'Creating...' : 'Create Task'}
           </Button>
         </div>
       </form>
@@ -262,9 +371,9 @@ export function CreateTaskForm({ onClose, onSuccess, defaultProjectId }: CreateT
         <div className="flex items-center justify-between text-xs text-gray-500">
           <span className="flex items-center space-x-1">
             <span className="inline-block w-2 h-2 bg-blue-500 rounded-full"></span>
-            <span>Local Task</span>
+            <span>{destinationName} Task</span>
           </span>
-          <span>Enhanced features: time tracking, energy levels, context</span>
+          {isLocal && <span>Enhanced features: time tracking, energy levels, context</span>}
         </div>
       </div>
     </Card>
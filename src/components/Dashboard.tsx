@@ -1,40 +1,68 @@
+import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { LayoutDashboard, Plus } from 'lucide-react';
-import { useTaskStatistics, useTasks } from '../hooks/useDatabase';
+import { CheckCircle2, Clock, LayoutDashboard } from 'lucide-react';
+import { useProductivityStatistics, useTaskStatistics } from '../hooks/useDatabase';
 import { useUnifiedTasks } from '../hooks/useUnifiedTasks';
 import { useTaskSource } from '../contexts/TaskSourceContext';
+import { formatDuration, toDateString } from '../utils/dateUtils';
+import type { StatisticsRange, Task, TaskStatistics } from '../types/database';
+
+interface TaskSummary {
+  total: number;
+  active: number;
+  completed: number;
+  overdue: number;
+  byContext: Record<string, number>;
+  byEnergyLevel: Record<string, number>;
+}
+
+// The dashboard shows the work of the last seven days; the analytics page covers longer ranges
+const getLastWeekRange = (): StatisticsRange => {
+  const to = new Date();
+  const from = new Date(to.getFullYear(), to.getMonth(), to.getDate() - 6);
+  return { from: toDateString(from), to: toDateString(to) };
+};
+
+const summarizeStatistics = (statistics: TaskStatistics): TaskSummary => ({
+  total: statistics.total,
+  active: statistics.pending + statistics.in_progress,
+  completed: statistics.completed,
+  overdue: statistics.overdue,
+  byContext: statistics.by_context,
+  byEnergyLevel: statistics.by_energy_level,
+});
+
+// Provider tasks are fetched rather than stored, so they are counted here
+const summarizeTasks = (tasks: Task[]): TaskSummary => ({
+  total: tasks.length,
+  active: tasks.filter(task => task.status === 'pending' || task.status === 'in_progress').length,
+  completed: tasks.filter(task => task.status === 'completed').length,
+  overdue: tasks.filter(task => task.due_date && task.status !== 'completed' && new Date(task.due_date) < new Date()).length,
+  byContext: tasks.reduce((acc, task) => {
+    acc[task.context] = (acc[task.context] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>),
+  byEnergyLevel: tasks.reduce((acc, task) => {
+    acc[task.energy_level] = (acc[task.energy_level] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>),
+});
 
 const Dashboard = () => {
   const { taskSource } = useTaskSource();
-  const { data: statistics, isLoading: statsLoading } = useTaskStatistics();
-  
-  // Fetch data based on selected task source
-  const { data: localTasks, isLoading: localTasksLoading } = useTasks();
-  const { data: unifiedData, isLoading: unifiedTasksLoading } = useUnifiedTasks(
-    ['dashboard', taskSource], 
-    taskSource === 'all' 
+  const isLocal = taskSource === 'local';
+  const range = useMemo(getLastWeekRange, []);
+  const { data: statistics, isLoading: statsLoading, error: statsError } = useTaskStatistics();
+  const { data: productivity, isLoading: productivityLoading, error: productivityError } = useProductivityStatistics(range);
+  const { data: unifiedData, isLoading: unifiedTasksLoading, error: unifiedTasksError } = useUnifiedTasks(
+    ['dashboard', taskSource],
+    taskSource === 'all'
       ? { includeAllProviders: true }
       : { provider: undefined } // Use active provider only
   );
-  
-  // Choose the appropriate data source based on task source
-  const tasks = taskSource === 'local' 
-    ? (localTasks || [])
-    : (unifiedData?.tasks || []);
-    
-  const tasksLoading = taskSource === 'local' ? localTasksLoading : unifiedTasksLoading;
-  
-  // Debug logging
-  console.log('Dashboard data source:', { 
-    taskSource, 
-    tasksCount: tasks.length,
-    localTasksCount: localTasks?.length || 0,
-    unifiedTasksCount: unifiedData?.tasks?.length || 0,
-    isLocalMode: taskSource === 'local'
-  });
-  
-
-  const isLoading = statsLoading || tasksLoading;
+
+  const isLoading = statsLoading || productivityLoading || (!isLocal && unifiedTasksLoading);
+  const error = statsError || productivityError || (!isLocal ? unifiedTasksError : null);
 
   if (isLoading) {
     return (
@@ -44,25 +72,18 @@ const Dashboard = () => {
     );
   }
 
-  // Calculate statistics from unified tasks (includes all providers)
-  const totalTasks = tasks.length;
-  const completedTasks = tasks.filter(task => task.status === 'completed').length;
-  const activeTasks = tasks.filter(task => task.status === 'pending' || task.status === 'in_progress').length;
-  const overdueTasks = tasks.filter(task => {
-    if (!task.due_date || task.status === 'completed') return false;
-    return new Date(task.due_date) < new Date();
-  }).length;
-  
-  // Calculate context and energy level distributions
-  const tasksByContext = tasks.reduce((acc, task) => {
-    acc[task.context] = (acc[task.context] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-  
-  const tasksByEnergyLevel = tasks.reduce((acc, task) => {
-    acc[task.energy_level.toString()] = (acc[task.energy_level.toString()] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
+  if (error || !statistics || !productivity) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full">
+        <div className="text-lg text-red-600">Error loading dashboard</div>
+        <p className="text-sm text-gray-600">{error?.message || 'Please try again later'}</p>
+      </div>
+    );
+  }
+
+  const summary = isLocal ? summarizeStatistics(statistics) : summarizeTasks(unifiedData?.tasks || []);
+  const tasksByContext = summary.byContext;
+  const tasksByEnergyLevel = summary.byEnergyLevel;
 
   return (
     <div className="space-y-6">
@@ -74,8 +95,8 @@ const Dashboard = () => {
             <LayoutDashboard className="h-4 w-4 text-gray-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalTasks}</div>
-            <p className="text-xs text-gray-500">Local and synced tasks</p>
+            <div className="text-2xl font-bold">{summary.total}</div>
+            <p className="text-xs text-gray-500">{isLocal ? 'Local and synced tasks' : 'Tasks from your providers'}</p>
           </CardContent>
         </Card>
 
@@ -85,7 +106,7 @@ const Dashboard = () => {
             <LayoutDashboard className="h-4 w-4 text-blue-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activeTasks}</div>
+            <div className="text-2xl font-bold">{summary.active}</div>
             <p className="text-xs text-gray-500">Pending and in progress</p>
           </CardContent>
         </Card>
@@ -96,7 +117,7 @@ const Dashboard = () => {
             <LayoutDashboard className="h-4 w-4 text-green-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{completedTasks}</div>
+            <div className="text-2xl font-bold">{summary.completed}</div>
             <p className="text-xs text-gray-500">Tasks finished</p>
           </CardContent>
         </Card>
@@ -107,12 +128,48 @@ const Dashboard = () => {
             <LayoutDashboard className="h-4 w-4 text-red-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{overdueTasks}</div>
+            <div className="text-2xl font-bold">{summary.overdue}</div>
             <p className="text-xs text-gray-500">Past due date</p>
           </CardContent>
         </Card>
       </div>
 
+      {/* This Week, counted from local tasks and timers */}
+      <div className="grid gap-6 sm:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completed Today</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{productivity.tasks_completed_today}</div>
+            <p className="text-xs text-gray-500">Local tasks finished today</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Completed This Week</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-blue-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{productivity.tasks_completed_this_week}</div>
+            <p className="text-xs text-gray-500">Local tasks since Monday</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Time Tracked</CardTitle>
+            <Clock className="h-4 w-4 text-purple-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDuration(productivity.total_time_tracked)}</div>
+            <p className="text-xs text-gray-500">Local timers, last 7 days</p>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Context and Energy Distribution */}
       {(Object.keys(tasksByContext).length > 0 || Object.keys(tasksByEnergyLevel).length > 0) && (
         <div className="grid gap-6 sm:grid-cols-2">
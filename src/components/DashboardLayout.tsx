@@ -7,13 +7,16 @@ import {
   Settings,
   Calendar,
   AlertCircle,
-  Tags
+  Tags,
+  GitMerge,
+  BarChart3
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import Projects from './Projects';
 import SettingsOverlay from './SettingsOverlay';
 import TaskSourceSelector from './TaskSourceSelector';
 import { CreateTaskButton } from './CreateTaskModal';
+import { useSyncConflicts } from '../hooks/useDatabase';
 import logoSvg from '@/assets/logo.svg';
 
 interface DashboardLayoutProps {
@@ -46,12 +49,23 @@ const menuItems = [
     href: "/tasks",
     icon: CheckSquare,
   },
+  {
+    title: "Analytics",
+    href: "/analytics",
+    icon: BarChart3,
+  },
+  {
+    title: "Sync Conflicts",
+    href: "/conflicts",
+    icon: GitMerge,
+  },
 ];
 
 const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [logoError, setLogoError] = useState(false);
   const location = useLocation();
+  const { data: pendingConflicts } = useSyncConflicts({ status: 'pending' });
 
   const getPageTitle = () => {
     const path = location.pathname;
@@ -67,6 +81,10 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
         return 'Overdue';
       case '/tasks':
         return 'Tasks';
+      case '/analytics':
+        return 'Analytics';
+      case '/conflicts':
+        return 'Sync Conflicts';
       case '/profile':
         return 'Profile';
       case '/settings':
@@ -117,6 +135,8 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
               {/* Create Task Button */}
               <div className="px-2 mb-3">
                 <CreateTaskButton
+                  // New tasks go to the project being viewed, including provider projects
+                  defaultProjectId={(location.search as { projectId?: string }).projectId}
                   variant="primary"
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium"
                 />
@@ -136,6 +156,11 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
                     <Link to={item.href} className="flex items-center w-full">
                       <item.icon className="mr-2 h-4 w-4" />
                       {item.title}
+                      {item.href === '/conflicts' && !!pendingConflicts?.length && (
+                        <span className="ml-auto rounded-full bg-amber-100 px-2 text-xs font-medium text-amber-700">
+                          {pendingConflicts.length}
+                        </span>
+                      )}
                     </Link>
                   </Button>
                 ))}
@@ -0,0 +1,338 @@
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Download, Upload, Loader2, Archive, RotateCcw } from "lucide-react";
+import { useExportData, useImportData, useBackups, useCreateBackup, useRestoreBackup } from '../hooks/useDatabase';
+import { CSV_FIELDS, parseCsv } from '../main/database/transfer';
+import { isTodoistCsv, convertTodoistCsv, convertMsToDoExport, mergeArchives } from '../utils/providerImport';
+import type { CsvField, DataArchive, DataFormat } from '../types/database';
+
+const FORMATS: Array<{ format: DataFormat; label: string; extension: string; type: string }> = [
+  { format: 'json', label: 'JSON', extension: 'json', type: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', type: 'text/csv' },
+  { format: 'ical', label: 'iCalendar', extension: 'ics', type: 'text/calendar' },
+];
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  id: 'Id',
+  title: 'Title',
+  description: 'Description',
+  project: 'Project',
+  priority: 'Priority (1-4)',
+  status: 'Status',
+  due_date: 'Due date',
+  due_time: 'Due time',
+  recurrence: 'Recurrence (RRULE)',
+  labels: 'Labels',
+  estimated_duration: 'Estimated minutes',
+  context: 'Context',
+  notes: 'Notes',
+  completed_at: 'Completed at',
+};
+
+interface PendingImport {
+  name: string;
+  format: DataFormat;
+  content: string;
+  headers: string[];
+  // Exports of other apps, converted to an Openza archive
+  archive?: DataArchive;
+  source?: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const getFormat = (fileName: string): DataFormat | undefined =>
+  FORMATS.find(({ extension }) => fileName.toLowerCase().endsWith(`.${extension}`))?.format;
+
+const DataSection: React.FC = () => {
+  const exportData = useExportData();
+  const importData = useImportData();
+  const { data: backups = [] } = useBackups();
+  const createBackup = useCreateBackup();
+  const restoreBackup = useRestoreBackup();
+  const [confirmRestore, setConfirmRestore] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [columnMap, setColumnMap] = useState<Partial<Record<CsvField, string>>>({});
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string; details?: string[] } | null>(null);
+
+  const handleExport = async (format: DataFormat) => {
+    setStatus(null);
+    try {
+      const content = await exportData.mutateAsync(format);
+      const { extension, type } = FORMATS.find(item => item.format === format)!;
+      const url = URL.createObjectURL(new Blob([content], { type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `openza-${new Date().toISOString().slice(0, 10)}.${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to export data' });
+    }
+  };
+
+  const handleFilesChosen = async (fileList: FileList | null) => {
+    setStatus(null);
+    setPending(null);
+    const files = Array.from(fileList || []);
+    if (files.length === 0) {
+      return;
+    }
+
+    const contents = await Promise.all(files.map(file => file.text()));
+    // A Todoist backup has one CSV file per project
+    if (files.every((file, index) => getFormat(file.name) === 'csv' && isTodoistCsv(contents[index]))) {
+      const archive = mergeArchives(files.map((file, index) => convertTodoistCsv(file.name, contents[index])));
+      setPending({
+        name: files.length === 1 ? files[0].name : `${files.length} files`,
+        format: 'json',
+        content: '',
+        headers: [],
+        archive,
+        source: 'Todoist',
+      });
+      return;
+    }
+
+    if (files.length > 1) {
+      setStatus({ type: 'error', message: 'Only the CSV files of a Todoist backup can be imported together' });
+      return;
+    }
+
+    const [file] = files;
+    const [content] = contents;
+    const format = getFormat(file.name);
+    if (!format) {
+      setStatus({ type: 'error', message: 'Choose a .json, .csv or .ics file' });
+      return;
+    }
+
+    if (format === 'json') {
+      const archive = convertMsToDoExport(content);
+      if (archive) {
+        setPending({ name: file.name, format, content: '', headers: [], archive, source: 'Microsoft To-Do' });
+        return;
+      }
+    }
+
+    const headers = format === 'csv' ? parseCsv(content)[0] || [] : [];
+    // Columns named like a field are preselected
+    setColumnMap(Object.fromEntries(CSV_FIELDS.flatMap(field => {
+      const header = headers.find(name => name.trim().toLowerCase() === field);
+      return header ? [[field, header]] : [];
+    })));
+    setPending({ name: file.name, format, content, headers });
+  };
+
+  const handleImport = async () => {
+    if (!pending) {
+      return;
+    }
+
+    const result = await importData.mutateAsync({
+      format: pending.format,
+      content: pending.archive ? JSON.stringify(pending.archive) : pending.content,
+      options: pending.format === 'csv' ? { column_map: columnMap } : undefined,
+    });
+
+    const summary = `Imported ${result.processed} ${result.processed === 1 ? 'item' : 'items'}, skipped ${result.skipped || 0} already in Openza`;
+    setStatus({
+      type: result.success ? 'success' : 'error',
+      message: result.success ? summary : result.processed > 0 ? `${summary}, ${result.errors.length} failed` : 'Import failed',
+      details: result.errors.slice(0, 5).map(error => `${error.id}: ${error.error}`),
+    });
+    if (result.success) {
+      setPending(null);
+      if (fileInput.current) {
+        fileInput.current.value = '';
+      }
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setStatus(null);
+    try {
+      await createBackup.mutateAsync();
+      setStatus({ type: 'success', message: 'Backup created' });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to back up database' });
+    }
+  };
+
+  const handleRestore = async (fileName: string) => {
+    setStatus(null);
+    setConfirmRestore(null);
+    try {
+      const previous = await restoreBackup.mutateAsync(fileName);
+      setStatus({
+        type: 'success',
+        message: `Backup restored. The data it replaced was saved as the backup of ${new Date(previous.created_at).toLocaleString()}`,
+      });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to restore backup' });
+    }
+  };
+
+  const selectClass = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Export</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          JSON keeps all projects, labels, tasks and time entries and can be imported again. CSV and iCalendar hold tasks only, for spreadsheets and other task apps.
+        </p>
+        <div className="flex space-x-2">
+          {FORMATS.map(({ format, label }) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport(format)}
+              disabled={exportData.isPending}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Import</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Import an Openza export, a CSV file with one task per row or an iCalendar file with tasks. Todoist backups (choose all of their CSV files) and Microsoft To-Do lists exported as JSON keep their ids, so connecting the account later links these tasks instead of adding them again. Items that are already in Openza are skipped.
+        </p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,.ics"
+          multiple
+          onChange={(e) => handleFilesChosen(e.target.files)}
+          className="block w-full text-sm text-gray-700 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border file:border-gray-300 file:bg-white file:text-sm hover:file:bg-gray-50"
+        />
+
+        {pending?.source && (
+          <p className="mt-2 text-sm text-gray-700">
+            Read as {pending.source} export: {pending.archive!.projects.length} {pending.archive!.projects.length === 1 ? 'project' : 'projects'}, {pending.archive!.tasks.length} {pending.archive!.tasks.length === 1 ? 'task' : 'tasks'}
+          </p>
+        )}
+
+        {pending?.format === 'csv' && (
+          <div className="mt-3 space-y-1.5">
+            <span className="block text-sm font-medium text-gray-700">Columns</span>
+            {CSV_FIELDS.map(field => (
+              <div key={field} className="grid grid-cols-2 gap-2 items-center">
+                <label htmlFor={`csv-column-${field}`} className="text-sm text-gray-700">
+                  {FIELD_LABELS[field]}{field === 'title' && ' *'}
+                </label>
+                <select
+                  id={`csv-column-${field}`}
+                  value={columnMap[field] || ''}
+                  onChange={(e) => setColumnMap(current => ({ ...current, [field]: e.target.value || undefined }))}
+                  className={selectClass}
+                >
+                  <option value="">Not imported</option>
+                  {pending.headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pending && (
+          <Button
+            onClick={handleImport}
+            disabled={importData.isPending || (pending.format === 'csv' && !columnMap.title)}
+            className="mt-3 bg-blue-600 hover:bg-blue-700"
+          >
+            {importData.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {pending.name}
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-1">Backups</h3>
+        <p className="text-xs text-gray-500 mb-2">
+          A copy of the database is made every day and the last 7 are kept. Restoring replaces all current data; it is backed up first.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleCreateBackup}
+          disabled={createBackup.isPending || restoreBackup.isPending}
+        >
+          {createBackup.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Archive className="h-4 w-4 mr-2" />
+          )}
+          Back up now
+        </Button>
+
+        {backups.length > 0 && (
+          <ul className="mt-3 space-y-1.5">
+            {backups.map(backup => (
+              <li key={backup.file_name} className="flex items-center justify-between text-sm text-gray-700">
+                <span>
+                  {new Date(backup.created_at).toLocaleString()}
+                  <span className="ml-2 text-xs text-gray-500">{formatSize(backup.size)}</span>
+                </span>
+                {confirmRestore === backup.file_name ? (
+                  <span className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => setConfirmRestore(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRestore(backup.file_name)}
+                      disabled={restoreBackup.isPending}
+                      className="bg-red-600 hover:bg-red-700"
+                    >
+                      Replace current data
+                    </Button>
+                  </span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setConfirmRestore(backup.file_name)}
+                    disabled={restoreBackup.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {status && (
+        <div className={`text-sm ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+          <div className="flex items-center space-x-2">
+            {status.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{status.message}</span>
+          </div>
+          {status.details && status.details.length > 0 && (
+            <ul className="mt-1 ml-6 text-xs list-disc">
+              {status.details.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataSection;
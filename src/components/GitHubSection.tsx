@@ -0,0 +1,230 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Loader2, ExternalLink } from "lucide-react";
+import { authManager } from '../utils/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useIntegration, useSaveIntegrationState } from '../hooks/useDatabase';
+import { GitHubClient, GITHUB_API_URL } from '../main/sync/github';
+import { openGitHubTokenSettings } from '../utils/secureShell';
+import LocalSyncSection from './LocalSyncSection';
+import type { GitHubConfig } from '../types/database';
+
+const GitHubSection: React.FC = () => {
+  const { providers } = useAuth();
+  const { data: integration } = useIntegration('github');
+  const saveIntegrationState = useSaveIntegrationState();
+  const savedConfig = integration?.config?.github;
+
+  const [token, setToken] = useState('');
+  const [repository, setRepository] = useState('');
+  const [labelFilter, setLabelFilter] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [apiUrl, setApiUrl] = useState('');
+  const [isValidating, setIsValidating] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    if (savedConfig) {
+      setRepository(savedConfig.repository);
+      setLabelFilter(savedConfig.label_filter?.join(', ') || '');
+      setAssigneeFilter(savedConfig.assignee_filter || '');
+      setApiUrl(savedConfig.api_url || '');
+    }
+  }, [savedConfig]);
+
+  const handleSave = async () => {
+    const accessToken = token.trim() || providers.github.token;
+    if (!accessToken || !repository.trim()) {
+      setStatus({ type: 'error', message: 'Please enter a token and a repository' });
+      return;
+    }
+
+    setIsValidating(true);
+    setStatus(null);
+    try {
+      const config: GitHubConfig = {
+        repository: repository.trim(),
+        label_filter: labelFilter.split(',').map(label => label.trim()).filter(Boolean),
+        assignee_filter: assigneeFilter.trim() || undefined,
+        api_url: apiUrl.trim() || undefined,
+      };
+
+      // Checks the token and that it can see the repository
+      const client = new GitHubClient(accessToken, config.api_url || GITHUB_API_URL);
+      const user = await client.getAuthenticatedUser();
+      const repo = await client.getRepository(config.repository);
+      if (!repo.has_issues) {
+        throw new Error(`Issues are disabled for ${repo.full_name}`);
+      }
+
+      await saveIntegrationState.mutateAsync({ name: 'github', data: { config: { ...integration?.config, github: config } } });
+      if (accessToken !== providers.github.token) {
+        await authManager.setProviderToken('github', accessToken);
+      }
+      setToken('');
+      setStatus({ type: 'success', message: `Connected to ${repo.full_name} as ${user.login}` });
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to connect to GitHub' });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    try {
+      await authManager.clearProviderToken('github');
+      // Refresh the page to update the app state
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to disconnect GitHub:', error);
+      setStatus({ type: 'error', message: 'Failed to disconnect GitHub' });
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <h4 className="font-medium text-blue-900 mb-1.5 text-sm">How to create a personal access token:</h4>
+        <ol className="text-sm text-blue-800 space-y-0.5 ml-4">
+          <li>1. Open GitHub Settings → Developer settings → Personal access tokens</li>
+          <li>2. Create a token with read and write access to issues of the repository</li>
+          <li>3. Paste it below together with the repository</li>
+        </ol>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2 text-blue-700 border-blue-300 hover:bg-blue-100"
+          onClick={() => openGitHubTokenSettings()}
+        >
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open GitHub Token Settings
+        </Button>
+      </div>
+
+      <div className="space-y-2.5">
+        <div>
+          <label htmlFor="github-token" className="block text-sm font-medium text-gray-700 mb-1">
+            Personal Access Token
+          </label>
+          <input
+            id="github-token"
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder={providers.github.isAuthenticated ? 'Saved, enter a new token to replace it' : 'github_pat_...'}
+            className={inputClass}
+            disabled={isValidating}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="github-repository" className="block text-sm font-medium text-gray-700 mb-1">
+            Repository
+          </label>
+          <input
+            id="github-repository"
+            type="text"
+            value={repository}
+            onChange={(e) => setRepository(e.target.value)}
+            placeholder="owner/name"
+            className={inputClass}
+            disabled={isValidating}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="github-labels" className="block text-sm font-medium text-gray-700 mb-1">
+              Only issues labeled
+            </label>
+            <input
+              id="github-labels"
+              type="text"
+              value={labelFilter}
+              onChange={(e) => setLabelFilter(e.target.value)}
+              placeholder="bug, help wanted"
+              className={inputClass}
+              disabled={isValidating}
+            />
+          </div>
+          <div>
+            <label htmlFor="github-assignee" className="block text-sm font-medium text-gray-700 mb-1">
+              Only issues assigned to
+            </label>
+            <input
+              id="github-assignee"
+              type="text"
+              value={assigneeFilter}
+              onChange={(e) => setAssigneeFilter(e.target.value)}
+              placeholder="login, * or none"
+              className={inputClass}
+              disabled={isValidating}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="github-api-url" className="block text-sm font-medium text-gray-700 mb-1">
+            API URL
+          </label>
+          <input
+            id="github-api-url"
+            type="text"
+            value={apiUrl}
+            onChange={(e) => setApiUrl(e.target.value)}
+            placeholder={GITHUB_API_URL}
+            className={inputClass}
+            disabled={isValidating}
+          />
+          <p className="text-xs text-gray-500 mt-1">Only needed for GitHub Enterprise Server.</p>
+        </div>
+
+        {status && (
+          <div className={`flex items-center space-x-2 text-sm ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {status.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{status.message}</span>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <Button
+            onClick={handleSave}
+            disabled={isValidating || !repository.trim() || (!token.trim() && !providers.github.isAuthenticated)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isValidating ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Validating...
+              </>
+            ) : providers.github.isAuthenticated ? (
+              'Save'
+            ) : (
+              'Save & Connect'
+            )}
+          </Button>
+          {providers.github.isAuthenticated && (
+            <Button
+              variant="outline"
+              onClick={handleDisconnect}
+              className="text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {providers.github.isAuthenticated && savedConfig && (
+        <LocalSyncSection
+          integration="github"
+          description="Copy issues into the local database as tasks, with milestones as projects. Completing or reopening a task closes or reopens its issue."
+        />
+      )}
+    </div>
+  );
+};
+
+export default GitHubSection;
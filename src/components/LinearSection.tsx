@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Loader2, ExternalLink, Search } from "lucide-react";
+import { authManager } from '../utils/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useIntegration, useSaveIntegrationState } from '../hooks/useDatabase';
+import { LinearClient, LINEAR_API_URL } from '../main/sync/linear';
+import { openLinearApiSettings } from '../utils/secureShell';
+import LocalSyncSection from './LocalSyncSection';
+import type { LinearTeam } from '../main/sync/linear';
+
+const LinearSection: React.FC = () => {
+  const { providers } = useAuth();
+  const { data: integration } = useIntegration('linear');
+  const saveIntegrationState = useSaveIntegrationState();
+  const savedConfig = integration?.config?.linear;
+
+  const [apiKey, setApiKey] = useState('');
+  const [foundTeams, setFoundTeams] = useState<LinearTeam[]>();
+  const [teamIds, setTeamIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const getClient = () => {
+    const key = apiKey.trim() || providers.linear.token;
+    if (!key) {
+      throw new Error('Please enter your API key');
+    }
+    return new LinearClient(key, savedConfig?.api_url || LINEAR_API_URL);
+  };
+
+  const runWithStatus = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to reach Linear' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setTeamIds(savedConfig?.team_ids || []);
+  }, [savedConfig]);
+
+  // The teams of the connected account, listed so the filter can be changed
+  const connectedTeams = useQuery({
+    queryKey: ['linear-teams', savedConfig?.api_url, providers.linear.token],
+    queryFn: () => new LinearClient(providers.linear.token!, savedConfig?.api_url || LINEAR_API_URL).getTeams(),
+    enabled: !!providers.linear.token,
+    retry: false,
+  });
+
+  const teams = foundTeams || connectedTeams.data || [];
+  const shownStatus = status
+    || (connectedTeams.error ? { type: 'error' as const, message: connectedTeams.error.message } : null);
+
+  const handleLoadTeams = () => runWithStatus(async () => {
+    setFoundTeams(await getClient().getTeams());
+  });
+
+  const toggleTeam = (teamId: string) => {
+    setTeamIds(current => current.includes(teamId)
+      ? current.filter(id => id !== teamId)
+      : [...current, teamId]);
+  };
+
+  const handleSave = () => runWithStatus(async () => {
+    // Checks the key before anything is stored
+    const viewer = await getClient().getViewer();
+
+    await saveIntegrationState.mutateAsync({
+      name: 'linear',
+      data: { config: { ...integration?.config, linear: { ...savedConfig, team_ids: teamIds } } },
+    });
+
+    const key = apiKey.trim();
+    if (key && key !== providers.linear.token) {
+      await authManager.setProviderToken('linear', key);
+    }
+    setApiKey('');
+    setStatus({ type: 'success', message: `Connected as ${viewer.name}` });
+  });
+
+  const handleDisconnect = async () => {
+    try {
+      await authManager.clearProviderToken('linear');
+      // Refresh the page to update the app state
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to disconnect Linear:', error);
+      setStatus({ type: 'error', message: 'Failed to disconnect Linear' });
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <h4 className="font-medium text-blue-900 mb-1.5 text-sm">How to create a personal API key:</h4>
+        <ol className="text-sm text-blue-800 space-y-0.5 ml-4">
+          <li>1. Open Linear Settings → Security &amp; access</li>
+          <li>2. Create a personal API key with read and write access</li>
+          <li>3. Paste it below and choose the teams to follow</li>
+        </ol>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2 text-blue-700 border-blue-300 hover:bg-blue-100"
+          onClick={() => openLinearApiSettings()}
+        >
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open Linear API Settings
+        </Button>
+      </div>
+
+      <div className="space-y-2.5">
+        <div>
+          <label htmlFor="linear-api-key" className="block text-sm font-medium text-gray-700 mb-1">
+            Personal API Key
+          </label>
+          <div className="flex space-x-2">
+            <input
+              id="linear-api-key"
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder={providers.linear.isAuthenticated ? 'Saved, enter a new key to replace it' : 'lin_api_...'}
+              className={inputClass}
+              disabled={isLoading}
+            />
+            <Button
+              variant="outline"
+              onClick={handleLoadTeams}
+              disabled={isLoading || (!apiKey.trim() && !providers.linear.isAuthenticated)}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Find Teams
+            </Button>
+          </div>
+        </div>
+
+        {teams.length > 0 && (
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">
+              Teams
+            </span>
+            <div className="space-y-1">
+              {teams.map(team => (
+                <label key={team.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={teamIds.includes(team.id)}
+                    onChange={() => toggleTeam(team.id)}
+                    className="h-4 w-4 rounded border-gray-300"
+                    disabled={isLoading}
+                  />
+                  <span>{team.name}</span>
+                  <span className="text-xs text-gray-500">{team.key}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Issues assigned to you in the checked teams are shown, or in all teams when none is checked.
+            </p>
+          </div>
+        )}
+
+        {shownStatus && (
+          <div className={`flex items-center space-x-2 text-sm ${shownStatus.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {shownStatus.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{shownStatus.message}</span>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <Button
+            onClick={handleSave}
+            disabled={isLoading || (!apiKey.trim() && !providers.linear.isAuthenticated)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
+              </>
+            ) : providers.linear.isAuthenticated ? (
+              'Save'
+            ) : (
+              'Save & Connect'
+            )}
+          </Button>
+          {providers.linear.isAuthenticated && (
+            <Button
+              variant="outline"
+              onClick={handleDisconnect}
+              className="text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {providers.linear.isAuthenticated && (
+        <LocalSyncSection
+          integration="linear"
+          description="Copy issues assigned to you into the local database as tasks, grouped by Linear project, cycle or team. Changing a task's status moves its issue to the matching workflow state."
+        />
+      )}
+    </div>
+  );
+};
+
+export default LinearSection;
@@ -0,0 +1,348 @@
+import { useMemo, useState } from 'react';
+import { Link } from '@tanstack/react-router';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  Inbox,
+  Ellipsis,
+  Plus,
+  Star,
+  StarOff,
+  Archive,
+  ArchiveRestore,
+  Pencil,
+  Trash2,
+  FolderPlus,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from './ui/dropdown-menu';
+import ProjectForm from './ProjectForm';
+import {
+  useProjects,
+  useCreateProject,
+  useUpdateProject,
+  useDeleteProject,
+  useReorderProjects,
+} from '../hooks/useDatabase';
+import { cn } from '@/lib/utils';
+import { INBOX_PROJECT_ID, isLocalProject } from '../utils/projects';
+import type { Project, UpdateProjectData } from '../types/database';
+
+type ProjectDialog =
+  | { type: 'create'; parentId?: string }
+  | { type: 'edit'; project: Project }
+  | { type: 'delete'; project: Project };
+
+interface ProjectRow {
+  project: Project;
+  depth: number;
+}
+
+interface LocalProjectsProps {
+  className?: string;
+}
+
+/**
+ * Sidebar section of the local projects, nested below their parents.
+ * Projects are reordered by dragging one onto another, which places it above
+ * that one at the same level; the edit form moves it to another parent.
+ */
+const LocalProjects: React.FC<LocalProjectsProps> = ({ className }) => {
+  const { data: projects = [] } = useProjects();
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+  const deleteProject = useDeleteProject();
+  const reorderProjects = useReorderProjects();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialog, setDialog] = useState<ProjectDialog | null>(null);
+  const [reassignTo, setReassignTo] = useState(INBOX_PROJECT_ID);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const localProjects = useMemo(() => projects.filter(isLocalProject), [projects]);
+  const activeProjects = localProjects.filter(project => !project.is_archived);
+  const archivedProjects = localProjects.filter(project => project.is_archived);
+
+  // Depth first, in sort_order. A project below an archived one is shown at the top level.
+  const rows = useMemo(() => {
+    const active = localProjects.filter(project => !project.is_archived);
+    const activeIds = new Set(active.map(project => project.id));
+    const result: ProjectRow[] = [];
+    const addRows = (parentId: string | null, depth: number) => {
+      active
+        .filter(project => (project.parent_id && activeIds.has(project.parent_id) ? project.parent_id : null) === parentId)
+        .forEach(project => {
+          result.push({ project, depth });
+          addRows(project.id, depth + 1);
+        });
+    };
+    addRows(null, 0);
+    return result;
+  }, [localProjects]);
+
+  const showError = (error: Error) => toast.error(error.message);
+
+  const closeDialog = () => {
+    setDialog(null);
+    createProject.reset();
+    updateProject.reset();
+    deleteProject.reset();
+  };
+
+  const handleSave = (data: UpdateProjectData & { name: string }) => {
+    if (dialog?.type === 'edit') {
+      updateProject.mutate({ id: dialog.project.id, updates: data }, { onSuccess: closeDialog });
+    } else {
+      createProject.mutate({ ...data, parent_id: data.parent_id || undefined }, { onSuccess: closeDialog });
+    }
+  };
+
+  const handleDelete = (project: Project) => {
+    deleteProject.mutate({ id: project.id, reassignTo }, { onSuccess: closeDialog });
+  };
+
+  const setArchived = (project: Project, isArchived: boolean) => {
+    updateProject.mutate({ id: project.id, updates: { is_archived: isArchived } }, { onError: showError });
+  };
+
+  const handleDrop = (target: Project) => {
+    const dragged = activeProjects.find(project => project.id === draggedId);
+    setDraggedId(null);
+    if (!dragged || dragged.id === target.id) {
+      return;
+    }
+
+    const parentId = target.parent_id ?? null;
+    const orderedIds = activeProjects
+      .filter(project => (project.parent_id ?? null) === parentId && project.id !== dragged.id)
+      .map(project => project.id);
+    orderedIds.splice(orderedIds.indexOf(target.id), 0, dragged.id);
+    reorderProjects.mutate({ parentId, orderedIds }, { onError: showError });
+  };
+
+  const renderMenu = (project: Project) => {
+    const isInbox = project.id === INBOX_PROJECT_ID;
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="p-1 rounded text-gray-500 hover:bg-gray-200 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+            title="Project actions"
+          >
+            <Ellipsis className="h-3.5 w-3.5" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {project.is_archived ? (
+            <DropdownMenuItem onSelect={() => setArchived(project, false)}>
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+              Unarchive
+            </DropdownMenuItem>
+          ) : (
+            <>
+              <DropdownMenuItem onSelect={() => setDialog({ type: 'edit', project })}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => setDialog({ type: 'create', parentId: project.id })}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                Add subproject
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => updateProject.mutate(
+                  { id: project.id, updates: { is_favorite: !project.is_favorite } },
+                  { onError: showError }
+                )}
+              >
+                {project.is_favorite ? <StarOff className="mr-2 h-4 w-4" /> : <Star className="mr-2 h-4 w-4" />}
+                {project.is_favorite ? 'Remove from Favorites' : 'Add to Favorites'}
+              </DropdownMenuItem>
+              {!isInbox && (
+                <DropdownMenuItem onSelect={() => setArchived(project, true)}>
+                  <Archive className="mr-2 h-4 w-4" />
+                  Archive
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+          {!isInbox && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-red-600 focus:text-red-700"
+                onSelect={() => {
+                  setReassignTo(INBOX_PROJECT_ID);
+                  setDialog({ type: 'delete', project });
+                }}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  const renderProject = (project: Project, depth: number) => {
+    const ProjectIcon = project.id === INBOX_PROJECT_ID ? Inbox : Folder;
+    return (
+      <div
+        key={project.id}
+        draggable={!project.is_archived}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedId(project.id);
+        }}
+        onDragOver={(e) => {
+          if (draggedId && !project.is_archived) {
+            e.preventDefault();
+          }
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(project);
+        }}
+        onDragEnd={() => setDraggedId(null)}
+        className={cn(
+          'group flex items-center rounded-md hover:bg-gray-100',
+          draggedId === project.id && 'opacity-50'
+        )}
+        style={{ paddingLeft: `${depth * 0.75}rem` }}
+      >
+        <Link
+          to="/tasks"
+          search={{ projectId: project.id }}
+          className="flex flex-1 min-w-0 items-center h-7 xl:h-8 px-2 text-xs sm:text-sm font-normal"
+        >
+          <ProjectIcon className="mr-2 h-3 w-3 flex-shrink-0" style={{ color: project.color }} />
+          <span className="flex-1 text-left break-words">{project.name}</span>
+          {!!project.task_count && (
+            <span className="ml-1 text-xs text-gray-500">{project.task_count}</span>
+          )}
+        </Link>
+        {renderMenu(project)}
+      </div>
+    );
+  };
+
+  const dialogProject = dialog && dialog.type !== 'create' ? dialog.project : undefined;
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="flex items-center">
+        <Button
+          variant="ghost"
+          className="flex-1 justify-start text-gray-700 hover:bg-gray-100 h-7 xl:h-8 px-2"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? (
+            <ChevronDown className="mr-2 h-4 w-4" />
+          ) : (
+            <ChevronRight className="mr-2 h-4 w-4" />
+          )}
+          <span className="font-medium text-xs sm:text-sm">Local Projects</span>
+          <span className="ml-auto text-xs text-gray-500">{activeProjects.length}</span>
+        </Button>
+        <button
+          onClick={() => setDialog({ type: 'create' })}
+          className="p-1 ml-1 rounded text-gray-500 hover:bg-gray-100"
+          title="New project"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-2 xl:ml-3 space-y-0.5">
+          {rows.map(({ project, depth }) => renderProject(project, depth))}
+
+          {archivedProjects.length > 0 && (
+            <>
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="flex items-center w-full h-7 px-2 text-xs text-gray-500 hover:text-gray-700"
+              >
+                {showArchived ? <ChevronDown className="mr-1 h-3 w-3" /> : <ChevronRight className="mr-1 h-3 w-3" />}
+                Archived ({archivedProjects.length})
+              </button>
+              {showArchived && archivedProjects.map(project => renderProject(project, 1))}
+            </>
+          )}
+        </div>
+      )}
+
+      {dialog && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/50" onClick={closeDialog} />
+          <div className="relative z-10 w-full max-w-md mx-4 bg-white rounded-2xl shadow-xl p-6">
+            {dialog.type === 'delete' ? (
+              <div className="space-y-4">
+                <h2 className="text-lg font-semibold text-gray-900">Delete {dialog.project.name}?</h2>
+                <p className="text-sm text-gray-600">
+                  Its tasks move to the project chosen below and its subprojects move up a level.
+                </p>
+                <div>
+                  <label htmlFor="project-reassign" className="block text-sm font-medium mb-1">
+                    Move tasks to
+                  </label>
+                  <select
+                    id="project-reassign"
+                    value={reassignTo}
+                    onChange={(e) => setReassignTo(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {activeProjects.filter(project => project.id !== dialog.project.id).map(project => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {deleteProject.error && <p className="text-sm text-red-600">{deleteProject.error.message}</p>}
+                <div className="flex justify-end space-x-3">
+                  <Button variant="outline" onClick={closeDialog}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleDelete(dialog.project)}
+                    disabled={deleteProject.isPending}
+                  >
+                    {deleteProject.isPending ? 'Deleting...' : 'Delete Project'}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                  {dialog.type === 'edit' ? 'Edit Project' : 'New Project'}
+                </h2>
+                <ProjectForm
+                  project={dialogProject}
+                  projects={activeProjects}
+                  defaultParentId={dialog.type === 'create' ? dialog.parentId : undefined}
+                  onSave={handleSave}
+                  onCancel={closeDialog}
+                  isSaving={createProject.isPending || updateProject.isPending}
+                  error={createProject.error || updateProject.error}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocalProjects;
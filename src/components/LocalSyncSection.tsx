@@ -0,0 +1,54 @@
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Loader2, RefreshCw } from "lucide-react";
+import { useIntegration, useSyncIntegration } from '../hooks/useDatabase';
+import type { TaskProvider } from '../providers';
+
+interface LocalSyncSectionProps {
+  integration: TaskProvider;
+  description: string;
+}
+
+const LocalSyncSection: React.FC<LocalSyncSectionProps> = ({ integration, description }) => {
+  const { data: integrationState } = useIntegration(integration);
+  const syncIntegration = useSyncIntegration();
+
+  return (
+    <div className="border-t border-gray-200 pt-3 space-y-2">
+      <h4 className="font-medium text-gray-900 text-sm">Local Database Sync</h4>
+      <p className="text-sm text-gray-600">{description}</p>
+      <div className="flex items-center space-x-3">
+        <Button
+          variant="outline"
+          onClick={() => syncIntegration.mutate(integration)}
+          disabled={syncIntegration.isPending}
+        >
+          {syncIntegration.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Sync Now
+        </Button>
+        <span className="text-xs text-gray-500">
+          {integrationState?.last_sync_at
+            ? `Last synced ${new Date(integrationState.last_sync_at).toLocaleString()}`
+            : 'Never synced'}
+        </span>
+      </div>
+      {syncIntegration.isSuccess && (
+        <div className="flex items-center space-x-2 text-sm text-green-600">
+          <CheckCircle2 className="h-4 w-4" />
+          <span>Synced {syncIntegration.data.operations.length} changes</span>
+        </div>
+      )}
+      {syncIntegration.isError && (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          <span>{syncIntegration.error.message}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocalSyncSection;
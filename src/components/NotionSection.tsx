@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Loader2, ExternalLink, Search } from "lucide-react";
+import { authManager } from '../utils/auth';
+import { useAuth } from '../hooks/useAuth';
+import { useIntegration, useSaveIntegrationState } from '../hooks/useDatabase';
+import {
+  NotionClient,
+  NOTION_API_URL,
+  NOTION_PROPERTY_TYPES,
+  getCompatibleProperties,
+  getNotionDatabaseTitle,
+  getNotionMappings,
+} from '../main/sync/notion';
+import { openNotionIntegrations } from '../utils/secureShell';
+import LocalSyncSection from './LocalSyncSection';
+import type { NotionDatabase, NotionMappedField } from '../main/sync/notion';
+
+const FIELD_LABELS: Record<NotionMappedField, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  due_date: 'Due date',
+  priority: 'Priority',
+  labels: 'Labels',
+};
+
+const NotionSection: React.FC = () => {
+  const { providers } = useAuth();
+  const { data: integration } = useIntegration('notion');
+  const saveIntegrationState = useSaveIntegrationState();
+  const savedConfig = integration?.config?.notion;
+
+  const [token, setToken] = useState('');
+  const [foundDatabases, setFoundDatabases] = useState<NotionDatabase[]>([]);
+  // Undefined until the user picks a database or edits the mapping, showing the saved ones
+  const [chosenDatabase, setChosenDatabase] = useState<NotionDatabase | null>();
+  const [editedMappings, setEditedMappings] = useState<Record<string, string>>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const getClient = () => {
+    const accessToken = token.trim() || providers.notion.token;
+    if (!accessToken) {
+      throw new Error('Please enter your integration secret');
+    }
+    return new NotionClient(accessToken, savedConfig?.api_url || NOTION_API_URL);
+  };
+
+  const runWithStatus = async (action: () => Promise<void>) => {
+    setIsLoading(true);
+    setStatus(null);
+    try {
+      await action();
+    } catch (error) {
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Failed to reach Notion' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The saved database, shown with its mapping once connected
+  const savedDatabase = useQuery({
+    queryKey: ['notion-database', savedConfig?.database_id, savedConfig?.api_url, providers.notion.token],
+    queryFn: () => new NotionClient(providers.notion.token!, savedConfig?.api_url || NOTION_API_URL).getDatabase(savedConfig!.database_id),
+    enabled: !!savedConfig?.database_id && !!providers.notion.token,
+    retry: false,
+  });
+
+  const database = chosenDatabase === undefined ? savedDatabase.data || null : chosenDatabase;
+  const databases = foundDatabases.length > 0 || !savedDatabase.data ? foundDatabases : [savedDatabase.data];
+  const mappings = editedMappings
+    || (savedConfig && savedDatabase.data && database === savedDatabase.data ? getNotionMappings(savedConfig, savedDatabase.data) : {});
+  const shownStatus = status
+    || (savedDatabase.error ? { type: 'error' as const, message: savedDatabase.error.message } : null);
+
+  const handleLoadDatabases = () => runWithStatus(async () => {
+    const found = await getClient().searchDatabases();
+    setFoundDatabases(found);
+    if (found.length === 0) {
+      setStatus({ type: 'error', message: 'No databases found. Share a database with your integration in Notion first.' });
+    }
+  });
+
+  const handleSelectDatabase = (databaseId: string) => runWithStatus(async () => {
+    if (!databaseId) {
+      setChosenDatabase(null);
+      return;
+    }
+    // Search results can be stale, fetch the current schema
+    const selected = await getClient().getDatabase(databaseId);
+    setChosenDatabase(selected);
+    setEditedMappings(getNotionMappings({ database_id: selected.id, property_mappings: {} }, selected));
+  });
+
+  const handleSave = () => runWithStatus(async () => {
+    if (!database || !mappings.title) {
+      throw new Error('Please choose a database and its title property');
+    }
+
+    await saveIntegrationState.mutateAsync({
+      name: 'notion',
+      data: {
+        config: {
+          ...integration?.config,
+          notion: { ...savedConfig, database_id: database.id, property_mappings: mappings },
+        },
+      },
+    });
+
+    const accessToken = token.trim();
+    if (accessToken && accessToken !== providers.notion.token) {
+      await authManager.setProviderToken('notion', accessToken);
+    }
+    setToken('');
+    setStatus({ type: 'success', message: `Connected to ${getNotionDatabaseTitle(database)}` });
+  });
+
+  const handleDisconnect = async () => {
+    try {
+      await authManager.clearProviderToken('notion');
+      // Refresh the page to update the app state
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to disconnect Notion:', error);
+      setStatus({ type: 'error', message: 'Failed to disconnect Notion' });
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+        <h4 className="font-medium text-blue-900 mb-1.5 text-sm">How to connect a Notion database:</h4>
+        <ol className="text-sm text-blue-800 space-y-0.5 ml-4">
+          <li>1. Create an internal integration and copy its secret</li>
+          <li>2. In Notion, open your task database → ••• → Connections and add the integration</li>
+          <li>3. Paste the secret below and pick the database</li>
+        </ol>
+        <Button
+          variant="outline"
+          size="sm"
+          className="mt-2 text-blue-700 border-blue-300 hover:bg-blue-100"
+          onClick={() => openNotionIntegrations()}
+        >
+          <ExternalLink className="h-4 w-4 mr-2" />
+          Open Notion Integrations
+        </Button>
+      </div>
+
+      <div className="space-y-2.5">
+        <div>
+          <label htmlFor="notion-token" className="block text-sm font-medium text-gray-700 mb-1">
+            Integration Secret
+          </label>
+          <div className="flex space-x-2">
+            <input
+              id="notion-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder={providers.notion.isAuthenticated ? 'Saved, enter a new secret to replace it' : 'ntn_...'}
+              className={inputClass}
+              disabled={isLoading}
+            />
+            <Button
+              variant="outline"
+              onClick={handleLoadDatabases}
+              disabled={isLoading || (!token.trim() && !providers.notion.isAuthenticated)}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Find Databases
+            </Button>
+          </div>
+        </div>
+
+        {databases.length > 0 && (
+          <div>
+            <label htmlFor="notion-database" className="block text-sm font-medium text-gray-700 mb-1">
+              Database
+            </label>
+            <select
+              id="notion-database"
+              value={database?.id || ''}
+              onChange={(e) => handleSelectDatabase(e.target.value)}
+              className={inputClass}
+              disabled={isLoading}
+            >
+              <option value="">Choose a database</option>
+              {databases.map(db => (
+                <option key={db.id} value={db.id}>
+                  {getNotionDatabaseTitle(db)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {database && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-gray-900 text-sm">Property mapping</h4>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(NOTION_PROPERTY_TYPES) as NotionMappedField[]).map(field => (
+                <div key={field}>
+                  <label htmlFor={`notion-map-${field}`} className="block text-xs font-medium text-gray-600 mb-1">
+                    {FIELD_LABELS[field]}
+                  </label>
+                  <select
+                    id={`notion-map-${field}`}
+                    value={mappings[field] || ''}
+                    onChange={(e) => setEditedMappings({ ...mappings, [field]: e.target.value })}
+                    className={inputClass}
+                    disabled={isLoading}
+                  >
+                    {field !== 'title' && <option value="">Not mapped</option>}
+                    {getCompatibleProperties(database, field).map(property => (
+                      <option key={property.id} value={property.name}>
+                        {property.name} ({property.type.replace('_', '-')})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Status and due date changes made in Openza are written back to the mapped properties.
+            </p>
+          </div>
+        )}
+
+        {shownStatus && (
+          <div className={`flex items-center space-x-2 text-sm ${shownStatus.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {shownStatus.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{shownStatus.message}</span>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <Button
+            onClick={handleSave}
+            disabled={isLoading || !database}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading...
+              </>
+            ) : providers.notion.isAuthenticated ? (
+              'Save'
+            ) : (
+              'Save & Connect'
+            )}
+          </Button>
+          {providers.notion.isAuthenticated && (
+            <Button
+              variant="outline"
+              onClick={handleDisconnect}
+              className="text-red-600 border-red-300 hover:bg-red-50"
+            >
+              Disconnect
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {providers.notion.isAuthenticated && savedConfig && (
+        <LocalSyncSection
+          integration="notion"
+          description="Copy the pages of your database into the local database as tasks, and send local status and due date changes back to Notion."
+        />
+      )}
+    </div>
+  );
+};
+
+export default NotionSection;
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import type { Project, UpdateProjectData } from '../types/database';
+
+interface ProjectFormProps {
+  project?: Project; // Edited project, a new one is created without it
+  projects: Project[]; // Local projects that can be the parent
+  defaultParentId?: string;
+  onSave: (data: UpdateProjectData & { name: string }) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+  error?: Error | null;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Projects below the given one, which cannot become its parent
+const getSubprojectIds = (projectId: string, projects: Project[]): Set<string> => {
+  const ids = new Set<string>();
+  const collect = (parentId: string) => {
+    projects.filter(project => project.parent_id === parentId && !ids.has(project.id)).forEach(project => {
+      ids.add(project.id);
+      collect(project.id);
+    });
+  };
+  collect(projectId);
+  return ids;
+};
+
+/**
+ * Name, color, parent and favorite of a local project.
+ */
+const ProjectForm: React.FC<ProjectFormProps> = ({
+  project,
+  projects,
+  defaultParentId,
+  onSave,
+  onCancel,
+  isSaving = false,
+  error,
+}) => {
+  const [name, setName] = useState(project?.name || '');
+  const [color, setColor] = useState(project?.color || '#808080');
+  const [parentId, setParentId] = useState(project?.parent_id || defaultParentId || '');
+  const [isFavorite, setIsFavorite] = useState(project?.is_favorite || false);
+
+  const excludedIds = project ? getSubprojectIds(project.id, projects).add(project.id) : new Set<string>();
+  const parentOptions = projects.filter(item => !excludedIds.has(item.id) && !item.is_archived);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      name: name.trim(),
+      color,
+      parent_id: parentId || null,
+      is_favorite: isFavorite,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="project-name" className="block text-sm font-medium mb-1">
+          Name *
+        </label>
+        <input
+          id="project-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+          required
+          autoFocus
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="project-parent" className="block text-sm font-medium mb-1">
+            Parent project
+          </label>
+          <select
+            id="project-parent"
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">None</option>
+            {parentOptions.map(item => (
+              <option key={item.id} value={item.id}>
+                {item.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="project-color" className="block text-sm font-medium mb-1">
+            Color
+          </label>
+          <input
+            id="project-color"
+            type="color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className="h-10 w-full border border-gray-300 rounded-md cursor-pointer"
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={isFavorite}
+          onChange={(e) => setIsFavorite(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300"
+        />
+        Show in Favorites
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!name.trim() || isSaving}>
+          {isSaving ? 'Saving...' : project ? 'Save' : 'Create Project'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProjectForm;
@@ -3,11 +3,15 @@ import { getAllProjects } from '../utils/todoistClient';
 import type { Project } from '@doist/todoist-api-typescript';
 import { Button } from './ui/button';
 import { ChevronDown, ChevronRight, Folder, Star, Inbox, Users } from 'lucide-react';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Link } from '@tanstack/react-router';
 import { cn } from '@/lib/utils';
 import { useAuth } from '../hooks/useAuth';
 import { useUnifiedTasks } from '../hooks/useUnifiedTasks';
+import { useProjects } from '../hooks/useDatabase';
+import { getTaskProvider } from '../providers';
+import LocalProjects from './LocalProjects';
+import { isLocalProject } from '../utils/projects';
 import type { Project as UnifiedProject } from '../types/database';
 
 interface ProjectsProps {
@@ -16,7 +20,8 @@ interface ProjectsProps {
 
 const Projects: React.FC<ProjectsProps> = ({ className }) => {
   const [isExpanded, setIsExpanded] = useState(true);
-  const { isAuthenticated, activeProvider } = useAuth();
+  const { activeProvider } = useAuth();
+  const { data: databaseProjects = [] } = useProjects();
 
   // Use unified projects that respect the active provider
   const { data: unifiedData, isLoading, error } = useUnifiedTasks(
@@ -25,43 +30,21 @@ const Projects: React.FC<ProjectsProps> = ({ className }) => {
   );
 
   const projects = unifiedData?.projects || [];
+  const providerName = (activeProvider && getTaskProvider(activeProvider)?.name) || 'Provider';
 
+  // Open tasks per provider project; local projects count theirs in the database
+  const taskCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    (unifiedData?.tasks || []).filter(task => task.status !== 'completed' && task.project_id).forEach(task => {
+      counts.set(task.project_id!, (counts.get(task.project_id!) || 0) + 1);
+    });
+    return counts;
+  }, [unifiedData?.tasks]);
 
-  if (isLoading) {
-    return (
-      <div className={cn("px-3 py-2", className)}>
-        <div className="text-sm text-gray-500">Loading projects...</div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div className={cn("px-3 py-2", className)}>
-        <div className="text-sm text-red-500">Error loading projects</div>
-      </div>
-    );
-  }
-
-  if (!projects || projects.length === 0) {
-    return (
-      <div className={cn("space-y-1", className)}>
-        <Button
-          variant="ghost"
-          className="w-full justify-start text-gray-700 hover:bg-gray-100 h-7 xl:h-8 px-2"
-          onClick={() => setIsExpanded(!isExpanded)}
-        >
-          {isExpanded ? (
-            <ChevronDown className="mr-2 h-4 w-4" />
-          ) : (
-            <ChevronRight className="mr-2 h-4 w-4" />
-          )}
-          <span className="font-medium text-xs sm:text-sm">Projects</span>
-          <span className="ml-auto text-xs text-gray-500">0</span>
-        </Button>
-      </div>
-    );
-  }
+  const favorites = [
+    ...databaseProjects.filter(project => isLocalProject(project) && project.is_favorite && !project.is_archived),
+    ...projects.filter(project => project.is_favorite),
+  ];
 
   // Sort projects: favorites first, then by name
   const sortedProjects = [...projects].sort((a, b) => {
@@ -70,6 +53,9 @@ const Projects: React.FC<ProjectsProps> = ({ className }) => {
     return a.name.localeCompare(b.name);
   });
 
+  const getTaskCount = (project: UnifiedProject) =>
+    isLocalProject(project) && project.task_count !== undefined ? project.task_count : taskCounts.get(project.id);
+
   const getProjectIcon = (project: UnifiedProject) => {
     // Check if it's a Microsoft To-Do project by looking at the id prefix
     if (project.id.startsWith('mstodo_list_')) {
@@ -116,50 +102,86 @@ const Projects: React.FC<ProjectsProps> = ({ className }) => {
     return colorMap[colorName] || 'text-gray-500';
   };
 
-  return (
-    <div className={cn("space-y-1", className)}>
+  const renderProjectLink = (project: UnifiedProject, showFavorite: boolean) => {
+    const ProjectIcon = getProjectIcon(project);
+    const taskCount = getTaskCount(project);
+    return (
       <Button
+        key={project.id}
         variant="ghost"
-        className="w-full justify-start text-gray-700 hover:bg-gray-100 h-7 xl:h-8 px-2"
-        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full justify-start text-sm h-7 xl:h-8 font-normal hover:bg-gray-100 px-2"
+        asChild
       >
-        {isExpanded ? (
-          <ChevronDown className="mr-2 h-4 w-4" />
-        ) : (
-          <ChevronRight className="mr-2 h-4 w-4" />
-        )}
-        <span className="font-medium text-xs sm:text-sm">Projects</span>
-        <span className="ml-auto text-xs text-gray-500">{projects.length}</span>
+        <Link to="/tasks" search={{ projectId: project.id }}>
+          <ProjectIcon 
+            className={cn(
+              "mr-2 h-3 w-3",
+              getProjectColor(project)
+            )} 
+          />
+          <span className="flex-1 text-left text-xs sm:text-sm break-words">{project.name}</span>
+          {!!taskCount && (
+            <span className="ml-1 text-xs text-gray-500">{taskCount}</span>
+          )}
+          {showFavorite && project.is_favorite && (
+            <Star className="ml-1 h-3 w-3 text-yellow-500 fill-current" />
+          )}
+        </Link>
       </Button>
+    );
+  };
+
+  const renderProviderProjects = () => {
+    if (isLoading) {
+      return <div className="px-3 py-2 text-sm text-gray-500">Loading projects...</div>;
+    }
 
-      {isExpanded && (
-        <div className="ml-2 xl:ml-3 space-y-0.5">
-          {sortedProjects.map((project) => {
-            const ProjectIcon = getProjectIcon(project);
-            return (
-              <Button
-                key={project.id}
-                variant="ghost"
-                className="w-full justify-start text-sm h-7 xl:h-8 font-normal hover:bg-gray-100 px-2"
-                asChild
-              >
-                <Link to="/tasks" search={{ projectId: project.id }}>
-                  <ProjectIcon 
-                    className={cn(
-                      "mr-2 h-3 w-3",
-                      getProjectColor(project)
-                    )} 
-                  />
-                  <span className="flex-1 text-left text-xs sm:text-sm break-words">{project.name}</span>
-                  {project.is_favorite && (
-                    <Star className="ml-1 h-3 w-3 text-yellow-500 fill-current" />
-                  )}
-                </Link>
-              </Button>
-            );
-          })}
+    if (error) {
+      return <div className="px-3 py-2 text-sm text-red-500">Error loading projects</div>;
+    }
+
+    return (
+      <div className="space-y-1">
+        <Button
+          variant="ghost"
+          className="w-full justify-start text-gray-700 hover:bg-gray-100 h-7 xl:h-8 px-2"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? (
+            <ChevronDown className="mr-2 h-4 w-4" />
+          ) : (
+            <ChevronRight className="mr-2 h-4 w-4" />
+          )}
+          <span className="font-medium text-xs sm:text-sm">{providerName} Projects</span>
+          <span className="ml-auto text-xs text-gray-500">{projects.length}</span>
+        </Button>
+
+        {isExpanded && (
+          <div className="ml-2 xl:ml-3 space-y-0.5">
+            {sortedProjects.map(project => renderProjectLink(project, true))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {favorites.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center h-7 xl:h-8 px-2 text-gray-700">
+            <Star className="mr-2 h-4 w-4 text-yellow-500" />
+            <span className="font-medium text-xs sm:text-sm">Favorites</span>
+          </div>
+          <div className="ml-2 xl:ml-3 space-y-0.5">
+            {favorites.map(project => renderProjectLink(project, false))}
+          </div>
         </div>
       )}
+
+      <LocalProjects />
+
+      {(isLoading || error || projects.length > 0) && renderProviderProjects()}
     </div>
   );
 };
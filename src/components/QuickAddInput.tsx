@@ -0,0 +1,208 @@
+import { useMemo, useRef, useState } from 'react';
+import { Calendar, Clock, Folder, Tag, Flag, Timer, Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCreateTask, useProjects, useLabels, useCreateLabel, useSetTaskLabels } from '../hooks/useDatabase';
+import { parseQuickAdd } from '../utils/quickAdd';
+import { formatDueDate, formatDuration } from '../utils/dateUtils';
+import { describeRRule } from '../main/database/recurrence';
+import type { QuickAddToken, QuickAddTokenType } from '../utils/quickAdd';
+import type { Task, Project, Label } from '../types/database';
+
+interface QuickAddInputProps {
+  defaultProjectId?: string;
+  autoFocus?: boolean;
+  onCreated?: (task: Task) => void;
+  className?: string;
+}
+
+const TOKEN_STYLES: Record<QuickAddTokenType, string> = {
+  date: 'bg-green-100',
+  time: 'bg-green-100',
+  recurrence: 'bg-teal-100',
+  project: 'bg-blue-100',
+  label: 'bg-purple-100',
+  priority: 'bg-red-100',
+  duration: 'bg-orange-100',
+};
+
+const PRIORITY_LABELS: Record<number, string> = {
+  1: '🔴 High',
+  2: '🟡 Medium',
+  3: '🟢 Normal',
+  4: '⚪ Low',
+};
+
+// Text runs for the highlight layer, with the tokens in between
+const splitByTokens = (input: string, tokens: QuickAddToken[]) => {
+  const parts: { text: string; token?: QuickAddToken }[] = [];
+  let position = 0;
+  for (const token of tokens) {
+    parts.push({ text: input.slice(position, token.start) });
+    parts.push({ text: input.slice(token.start, token.end), token });
+    position = token.end;
+  }
+  parts.push({ text: input.slice(position) });
+  return parts;
+};
+
+const Chip: React.FC<{ icon: React.ReactNode; className?: string; children: React.ReactNode }> = ({ icon, className, children }) => (
+  <span className={cn('inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-gray-700', className)}>
+    {icon}
+    {children}
+  </span>
+);
+
+/**
+ * Single line task entry that understands dates, times, repeats, #project,
+ * @label, p1-p4 and ~duration as you type, and creates the task on Enter
+ */
+const QuickAddInput: React.FC<QuickAddInputProps> = ({ defaultProjectId, autoFocus, onCreated, className }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string>();
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const { data: projects } = useProjects();
+  const { data: labels } = useLabels();
+  const createTaskMutation = useCreateTask();
+  const createLabelMutation = useCreateLabel();
+  const setTaskLabelsMutation = useSetTaskLabels();
+
+  const parsed = useMemo(
+    () => parseQuickAdd(input, { projects, labels }),
+    [input, projects, labels]
+  );
+  const { task, tokens } = parsed;
+  const project = projects?.find((p: Project) => p.id === task.project_id);
+  const unknownProject = tokens.find(token => token.type === 'project' && !token.valid);
+  const isPending = createTaskMutation.isPending || createLabelMutation.isPending || setTaskLabelsMutation.isPending;
+
+  const handleSubmit = async () => {
+    if (!task.title || unknownProject || isPending) {
+      return;
+    }
+
+    try {
+      setError(undefined);
+      const newTask = await createTaskMutation.mutateAsync({
+        ...task,
+        project_id: task.project_id || defaultProjectId || undefined,
+      });
+
+      if (parsed.labels.length > 0) {
+        const labelIds: string[] = [];
+        for (const name of parsed.labels) {
+          const existing = labels?.find((label: Label) => label.name === name);
+          labelIds.push(existing ? existing.id : (await createLabelMutation.mutateAsync({ name })).id);
+        }
+        await setTaskLabelsMutation.mutateAsync({ taskId: newTask.id, labelIds });
+      }
+
+      setInput('');
+      onCreated?.(newTask);
+    } catch (error) {
+      console.error('Failed to create task:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create task');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Stay out of any surrounding form
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative">
+        {/* Highlight layer, kept behind the transparent input and scrolled with it */}
+        <div
+          aria-hidden
+          className="absolute inset-0 px-3 py-2 border border-transparent overflow-hidden whitespace-pre pointer-events-none"
+        >
+          <div ref={highlightRef} className="text-transparent">
+            {splitByTokens(input, tokens).map((part, index) => (
+              part.token ? (
+                <mark
+                  key={index}
+                  className={cn(
+                    'rounded-sm text-transparent',
+                    part.token.valid ? TOKEN_STYLES[part.token.type] : 'bg-red-100 underline decoration-wavy decoration-red-500'
+                  )}
+                >
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            ))}
+          </div>
+        </div>
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => {
+            if (highlightRef.current) {
+              highlightRef.current.style.transform = `translateX(-${e.currentTarget.scrollLeft}px)`;
+            }
+          }}
+          autoFocus={autoFocus}
+          disabled={isPending}
+          placeholder="e.g. Call bank tomorrow 3pm #Work @urgent p1 ~30m"
+          className="relative w-full px-3 py-2 bg-transparent border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {tokens.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {task.due_date && (
+            <Chip icon={<Calendar className="h-3 w-3" />} className="bg-green-100">
+              {formatDueDate(task.due_date).text}
+            </Chip>
+          )}
+          {task.due_time && (
+            <Chip icon={<Clock className="h-3 w-3" />} className="bg-green-100">
+              {task.due_time}
+            </Chip>
+          )}
+          {task.recurrence && (
+            <Chip icon={<Repeat className="h-3 w-3" />} className="bg-teal-100">
+              {describeRRule(task.recurrence)}
+            </Chip>
+          )}
+          {project && (
+            <Chip icon={<Folder className="h-3 w-3" />} className="bg-blue-100">
+              {project.name}
+            </Chip>
+          )}
+          {parsed.labels.map(name => (
+            <Chip key={name} icon={<Tag className="h-3 w-3" />} className="bg-purple-100">
+              {name}
+              {!labels?.some((label: Label) => label.name === name) && ' (new)'}
+            </Chip>
+          ))}
+          {task.priority && (
+            <Chip icon={<Flag className="h-3 w-3" />} className="bg-red-100">
+              {PRIORITY_LABELS[task.priority]}
+            </Chip>
+          )}
+          {task.estimated_duration !== undefined && (
+            <Chip icon={<Timer className="h-3 w-3" />} className="bg-orange-100">
+              {formatDuration(task.estimated_duration)}
+            </Chip>
+          )}
+        </div>
+      )}
+
+      {unknownProject && (
+        <p className="text-sm text-red-600">No project named "{unknownProject.text.slice(1)}"</p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default QuickAddInput;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Zap } from 'lucide-react';
+import QuickAddInput from './QuickAddInput';
+import type { Task } from '../types/database';
+
+/**
+ * Contents of the frameless window opened by the global quick capture shortcut
+ */
+const QuickCapture = () => {
+  const [projectId, setProjectId] = useState('proj_inbox');
+  // Remounting the input clears it and takes focus each time the window is shown
+  const [session, setSession] = useState(0);
+
+  useEffect(() => {
+    // The target project may have changed in settings since the window was last shown
+    const loadSettings = async () => {
+      const result = await window.electron.quickCapture.getSettings();
+      if (result.success && result.settings) {
+        setProjectId(result.settings.projectId);
+      }
+    };
+
+    loadSettings();
+    return window.electron.on('quick-capture-shown', () => {
+      setSession(current => current + 1);
+      loadSettings();
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        window.electron.quickCapture.close();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className="h-screen p-4 bg-white">
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700">
+        <Zap className="h-4 w-4 text-blue-500" />
+        Quick Capture
+        <span className="ml-auto text-xs font-normal text-gray-400">Enter to save · Esc to close</span>
+      </div>
+      <QuickAddInput
+        key={session}
+        defaultProjectId={projectId}
+        autoFocus
+        onCreated={(task: Task) => window.electron.quickCapture.taskCreated(task)}
+      />
+    </div>
+  );
+};
+
+export default QuickCapture;
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertCircle, Keyboard } from "lucide-react";
+import { useProjects } from '../hooks/useDatabase';
+import type { Project } from '../types/database';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Enter: 'Enter',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  Insert: 'Insert',
+};
+
+// Electron accelerator for a key press, or undefined until a usable combination is held
+const toAccelerator = (e: React.KeyboardEvent): string | undefined => {
+  if (MODIFIER_KEYS.includes(e.key)) {
+    return undefined;
+  }
+
+  const isFunctionKey = /^F\d{1,2}$/.test(e.key);
+  const key = KEY_NAMES[e.key] || (isFunctionKey ? e.key : e.key.length === 1 ? e.key.toUpperCase() : undefined);
+  // A global shortcut without Ctrl, Alt or Cmd would swallow normal typing everywhere
+  if (!key || (!isFunctionKey && !e.ctrlKey && !e.altKey && !e.metaKey)) {
+    return undefined;
+  }
+
+  return [
+    e.ctrlKey && 'Control',
+    e.metaKey && 'Super',
+    e.altKey && 'Alt',
+    e.shiftKey && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+};
+
+const QuickCaptureSection: React.FC = () => {
+  const { data: projects } = useProjects();
+  const [shortcut, setShortcut] = useState('');
+  const [projectId, setProjectId] = useState('proj_inbox');
+  const [isRegistered, setIsRegistered] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const result = await window.electron.quickCapture.getSettings();
+      if (result.success && result.settings) {
+        setShortcut(result.settings.shortcut);
+        setProjectId(result.settings.projectId);
+        setIsRegistered(result.settings.registered);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      const result = await window.electron.quickCapture.saveSettings({ shortcut, projectId });
+      if (result.success && result.settings) {
+        setIsRegistered(result.settings.registered);
+        setStatus({ type: 'success', message: 'Quick capture settings saved' });
+      } else {
+        setStatus({ type: 'error', message: result.error || 'Failed to save quick capture settings' });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="quick-capture-shortcut" className="block text-sm font-medium text-gray-700 mb-1">
+          Global shortcut
+        </label>
+        <div className="relative">
+          <Keyboard className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            id="quick-capture-shortcut"
+            type="text"
+            readOnly
+            value={shortcut}
+            onKeyDown={(e) => {
+              if (e.key === 'Tab') {
+                return;
+              }
+              e.preventDefault();
+              const accelerator = toAccelerator(e);
+              if (accelerator) {
+                setShortcut(accelerator);
+                setStatus(null);
+              }
+            }}
+            placeholder="Press a key combination"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Click the field and press the keys you want, e.g. Ctrl+Shift+Space. Works even when Openza is in the background.
+        </p>
+        {!isRegistered && (
+          <p className="text-xs text-amber-700 mt-1">
+            The current shortcut could not be registered, another application may be using it.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="quick-capture-project" className="block text-sm font-medium text-gray-700 mb-1">
+          Save captured tasks to
+        </label>
+        <select
+          id="quick-capture-project"
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {projects?.map((project: Project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Typing #project in the capture window overrides this.
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button onClick={handleSave} disabled={isSaving || !shortcut}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+        {status && (
+          <div className={`flex items-center space-x-2 text-sm ${status.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {status.type === 'success' ? <CheckCircle2 className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{status.message}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuickCaptureSection;
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { parseRecurrenceText, formatRRule, describeRecurrence, describeRRule } from '../main/database/recurrence';
+
+interface RecurrenceInputProps {
+  id?: string;
+  value?: string; // RRULE
+  onChange: (recurrence: string | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Free text repeat field ("every monday", "every 2 weeks") that reports the
+ * parsed RRULE, or undefined while the text is empty or not understood
+ */
+const RecurrenceInput: React.FC<RecurrenceInputProps> = ({ id, value, onChange, className }) => {
+  const [text, setText] = useState(() => (value ? describeRRule(value) : ''));
+  const rule = text.trim() ? parseRecurrenceText(text) : undefined;
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = next.trim() ? parseRecurrenceText(next) : undefined;
+    onChange(parsed && formatRRule(parsed));
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <input
+        id={id}
+        type="text"
+        value={text}
+        onChange={(e) => handleChange(e.target.value)}
+        placeholder="e.g. every monday, every 2 weeks"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {text.trim() && (
+        <p className={cn('flex items-center gap-1 text-xs', rule ? 'text-green-700' : 'text-red-600')}>
+          <Repeat className="h-3 w-3" />
+          {rule ? `Repeats ${describeRecurrence(rule)}` : 'Not recognised, try "every weekday" or "every month on the 1st"'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceInput;
@@ -1,22 +1,29 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Suspense } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { X, ExternalLink, Key, CheckCircle2, AlertCircle, Loader2, Shield, RefreshCw, Puzzle, Info } from "lucide-react";
+import { X, ExternalLink, Key, CheckCircle2, AlertCircle, Loader2, Shield, RefreshCw, Puzzle, Info, Zap, Database, ListTree } from "lucide-react";
 import { createTodoistClient } from '../utils/todoistClient';
 import { msToDoAuthManager } from '../utils/msToDoAuth';
 import { authManager } from '../utils/auth';
 import { useAuth } from '../hooks/useAuth';
+import { providerTasksKey } from '../hooks/useUnifiedTasks';
 import { secureStorage, STORAGE_KEYS } from '../utils/secureStorage';
 import { openTodoistSettings, openMicrosoftAuthUrl } from '../utils/secureShell';
 import { useQueryClient } from '@tanstack/react-query';
+import LocalSyncSection from './LocalSyncSection';
+import QuickCaptureSection from './QuickCaptureSection';
+import TasksSection from './TasksSection';
+import DataSection from './DataSection';
 import packageJson from '../../package.json';
+import { getTaskProviders, getTaskProvider } from '../providers';
+import type { TaskProvider } from '../utils/auth';
 
 interface SettingsOverlayProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-type SettingsCategory = 'active-provider' | 'todoist' | 'microsoft-todo' | 'about';
+type SettingsCategory = 'active-provider' | 'todoist' | 'microsoft-todo' | 'quick-capture' | 'tasks' | 'data' | 'about' | TaskProvider;
 
 const settingsCategories = [
   {
@@ -37,6 +44,31 @@ const settingsCategories = [
     icon: Puzzle,
     description: 'Connect your Microsoft To-Do account'
   },
+  // Providers that bring their own settings section
+  ...getTaskProviders().flatMap(provider => provider.settings ? [{
+    id: provider.id as SettingsCategory,
+    label: provider.name,
+    icon: provider.settings.icon,
+    description: provider.settings.description
+  }] : []),
+  {
+    id: 'quick-capture' as SettingsCategory,
+    label: 'Quick Capture',
+    icon: Zap,
+    description: 'Add tasks from anywhere with a shortcut'
+  },
+  {
+    id: 'tasks' as SettingsCategory,
+    label: 'Tasks',
+    icon: ListTree,
+    description: 'How subtasks are completed'
+  },
+  {
+    id: 'data' as SettingsCategory,
+    label: 'Data',
+    icon: Database,
+    description: 'Export, import and back up your tasks'
+  },
   {
     id: 'about' as SettingsCategory,
     label: 'About',
@@ -49,6 +81,8 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
   const queryClient = useQueryClient();
   const { providers, activeProvider } = useAuth();
   const [selectedCategory, setSelectedCategory] = useState<SettingsCategory>('active-provider');
+  const connectedProviders = getTaskProviders().filter(provider => providers[provider.id].isAuthenticated);
+  const providerNames = getTaskProviders().map(provider => provider.name);
   const [apiKey, setApiKey] = useState('');
   const [isValidating, setIsValidating] = useState(false);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'success' | 'error'>('idle');
@@ -202,7 +236,7 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
         await new Promise(resolve => setTimeout(resolve, 100));
         
         // Force React Query to refetch all task-related queries
-        await queryClient.invalidateQueries({ queryKey: ['unified-tasks'] });
+        await queryClient.invalidateQueries({ queryKey: providerTasksKey('msToDo') });
         await queryClient.invalidateQueries({ queryKey: ['mstodo'] });
         
         setValidationStatus('success');
@@ -244,7 +278,7 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
     }
   };
 
-  const handleSetActiveProvider = async (provider: 'todoist' | 'msToDo') => {
+  const handleSetActiveProvider = async (provider: TaskProvider) => {
     try {
       await authManager.setActiveProvider(provider);
       // Refresh to update the app state
@@ -335,44 +369,34 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
                     <p className="text-sm text-gray-600">Switch between connected services</p>
                   </div>
 
-                  {(providers.todoist.isAuthenticated || providers.msToDo.isAuthenticated) ? (
+                  {connectedProviders.length > 0 ? (
                     <div className="space-y-3">
                       <div className="bg-purple-50 border border-purple-200 rounded-lg p-3">
                         <p className="text-sm text-purple-800 mb-3">
                           Current active provider: <span className="font-medium">
-                            {activeProvider === 'todoist' ? 'Todoist' : activeProvider === 'msToDo' ? 'Microsoft To-Do' : 'None'}
+                            {(activeProvider && getTaskProvider(activeProvider)?.name) || 'None'}
                           </span>
                         </p>
 
                         <div className="flex space-x-2">
-                          {providers.todoist.isAuthenticated && (
+                          {connectedProviders.map(provider => (
                             <Button
-                              variant={activeProvider === 'todoist' ? 'default' : 'outline'}
+                              key={provider.id}
+                              variant={activeProvider === provider.id ? 'default' : 'outline'}
                               size="sm"
-                              onClick={() => handleSetActiveProvider('todoist')}
-                              disabled={activeProvider === 'todoist'}
+                              onClick={() => handleSetActiveProvider(provider.id)}
+                              disabled={activeProvider === provider.id}
                             >
-                              Use Todoist
+                              Use {provider.name}
                             </Button>
-                          )}
-
-                          {providers.msToDo.isAuthenticated && (
-                            <Button
-                              variant={activeProvider === 'msToDo' ? 'default' : 'outline'}
-                              size="sm"
-                              onClick={() => handleSetActiveProvider('msToDo')}
-                              disabled={activeProvider === 'msToDo'}
-                            >
-                              Use Microsoft To-Do
-                            </Button>
-                          )}
+                          ))}
                         </div>
                       </div>
                     </div>
                   ) : (
                     <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
                       <p className="text-sm text-amber-800">
-                        No providers connected yet. Please connect to Todoist or Microsoft To-Do first.
+                        No providers connected yet. Please connect to {providerNames.slice(0, -1).join(', ')} or {providerNames[providerNames.length - 1]} first.
                       </p>
                     </div>
                   )}
@@ -495,6 +519,13 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
                         )}
                       </div>
                     </div>
+
+                    {currentToken && (
+                      <LocalSyncSection
+                        integration="todoist"
+                        description="Copy your Todoist projects, labels and tasks into the local database and send local edits back to Todoist."
+                      />
+                    )}
                   </div>
                 </div>
               )}
@@ -561,7 +592,69 @@ const SettingsOverlay = ({ isOpen, onClose }: SettingsOverlayProps) => {
                         </Button>
                       )}
                     </div>
+
+                    {providers.msToDo.isAuthenticated && (
+                      <LocalSyncSection
+                        integration="msToDo"
+                        description="Copy your Microsoft To-Do lists and tasks into the local database so they stay available offline, and send local status and importance changes back."
+                      />
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {getTaskProviders().map(provider => provider.settings && selectedCategory === provider.id && (
+                <div key={provider.id} className="space-y-4">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900 mb-0.5">{provider.name}</h2>
+                      <p className="text-sm text-gray-600">{provider.settings.description}</p>
+                    </div>
+                    <div className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-full ${
+                      providers[provider.id].isAuthenticated
+                        ? 'bg-green-100 text-green-700'
+                        : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      <span>{providers[provider.id].isAuthenticated ? 'Connected' : 'Not Connected'}</span>
+                    </div>
+                  </div>
+
+                  <Suspense fallback={<Loader2 className="h-5 w-5 animate-spin text-gray-400" />}>
+                    <provider.settings.Section />
+                  </Suspense>
+                </div>
+              ))}
+
+              {selectedCategory === 'quick-capture' && (
+                <div className="space-y-4">
+                  <div className="mb-3">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-0.5">Quick Capture</h2>
+                    <p className="text-sm text-gray-600">Add tasks from anywhere with a shortcut</p>
+                  </div>
+
+                  <QuickCaptureSection />
+                </div>
+              )}
+
+              {selectedCategory === 'tasks' && (
+                <div className="space-y-4">
+                  <div className="mb-3">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-0.5">Tasks</h2>
+                    <p className="text-sm text-gray-600">How subtasks are completed</p>
                   </div>
+
+                  <TasksSection />
+                </div>
+              )}
+
+              {selectedCategory === 'data' && (
+                <div className="space-y-4">
+                  <div className="mb-3">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-0.5">Data</h2>
+                    <p className="text-sm text-gray-600">Export or import your tasks</p>
+                  </div>
+
+                  <DataSection />
                 </div>
               )}
 
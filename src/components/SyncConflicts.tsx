@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, CheckCircle2, GitMerge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { describeRRule } from '../main/database/recurrence';
+import { useSyncConflicts, useResolveSyncConflict } from '../hooks/useDatabase';
+import type { SyncConflict, SyncConflictField, SyncField } from '../types/database';
+
+type FieldChoices = Partial<Record<SyncField, 'local' | 'remote'>>;
+
+const FIELD_LABELS: Record<SyncField, string> = {
+  title: 'Title',
+  description: 'Description',
+  priority: 'Priority',
+  status: 'Status',
+  due_date: 'Due date',
+  recurrence: 'Repeats',
+};
+
+const INTEGRATION_LABELS: Record<string, string> = {
+  todoist: 'Todoist',
+  msToDo: 'Microsoft To-Do',
+};
+
+const formatValue = (field: SyncField, value: SyncConflictField['local']): string => {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)';
+  }
+  if (field === 'priority') {
+    return `P${value}`;
+  }
+  if (field === 'status') {
+    return String(value).replace('_', ' ');
+  }
+  if (field === 'recurrence') {
+    return describeRRule(String(value));
+  }
+  return String(value);
+};
+
+const ConflictCard: React.FC<{ conflict: SyncConflict }> = ({ conflict }) => {
+  const [choices, setChoices] = useState<FieldChoices>({});
+  const resolveConflict = useResolveSyncConflict();
+  const source = INTEGRATION_LABELS[conflict.integration] || conflict.integration;
+
+  const choose = (field: SyncField, side: 'local' | 'remote') =>
+    setChoices(current => ({ ...current, [field]: side }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{conflict.task_title || conflict.task_id}</CardTitle>
+        <CardDescription>
+          Changed here and in {source}
+          {conflict.remote_updated_at && ` (remote edit ${new Date(conflict.remote_updated_at).toLocaleString()})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {conflict.fields.map(({ field, local, remote, base }) => {
+          const choice = choices[field] || 'local';
+          return (
+            <div key={field} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-900">{FIELD_LABELS[field]}</span>
+                <span className="text-xs text-gray-500">Last synced: {formatValue(field, base)}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {(['local', 'remote'] as const).map(side => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => choose(field, side)}
+                    className={cn(
+                      "rounded-md border p-3 text-left text-sm transition-colors",
+                      choice === side ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:bg-gray-50"
+                    )}
+                  >
+                    <div className="text-xs text-gray-500 mb-1">{side === 'local' ? 'Local' : source}</div>
+                    <div className="text-gray-900 break-words">{formatValue(field, side === 'local' ? local : remote)}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={resolveConflict.isPending}
+            onClick={() => resolveConflict.mutate({ id: conflict.id, resolution: 'local' })}
+          >
+            Keep local
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={resolveConflict.isPending}
+            onClick={() => resolveConflict.mutate({ id: conflict.id, resolution: 'remote' })}
+          >
+            Keep {source}
+          </Button>
+          <Button
+            size="sm"
+            disabled={resolveConflict.isPending}
+            onClick={() => resolveConflict.mutate({ id: conflict.id, resolution: 'merge', choices })}
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge selected
+          </Button>
+          {resolveConflict.isError && (
+            <span className="flex items-center text-sm text-red-600">
+              <AlertCircle className="h-4 w-4 mr-1" />
+              {resolveConflict.error.message}
+            </span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+const SyncConflicts = () => {
+  const { data: conflicts, isLoading, error } = useSyncConflicts({ status: 'pending' });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-pink-50 to-purple-100">
+        <div className="bg-white p-8 rounded-3xl shadow-2xl text-center">
+          <h2 className="text-2xl font-semibold mb-4 text-gray-900">
+            Loading conflicts...
+          </h2>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    console.error('Error loading sync conflicts:', error);
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-pink-50 to-purple-100">
+        <div className="bg-white p-8 rounded-3xl shadow-2xl text-center">
+          <h2 className="text-2xl font-semibold mb-4 text-red-600">
+            Error loading sync conflicts
+          </h2>
+          <p className="text-gray-600">
+            {error instanceof Error
+              ? error.message
+              : 'Please try again later'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!conflicts || conflicts.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-center p-8">
+        <CheckCircle2 className="h-10 w-10 text-green-500 mb-3" />
+        <h2 className="text-lg font-semibold text-gray-900">No sync conflicts</h2>
+        <p className="text-sm text-gray-600">Tasks edited both here and in a connected app will show up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-4 xl:p-6 space-y-4">
+      <p className="text-sm text-gray-600">
+        These tasks were changed locally and in a connected app since the last sync.
+        Pick which value to keep for each field; conflicting fields are not synced until resolved.
+      </p>
+      {conflicts.map((conflict: SyncConflict) => (
+        <ConflictCard key={conflict.id} conflict={conflict} />
+      ))}
+    </div>
+  );
+};
+
+export default SyncConflicts;
@@ -1,35 +1,24 @@
+import { IndentIncrease, IndentDecrease } from 'lucide-react';
 import { Task, Project } from '../types/database';
 import LabelBadge, { getLabelColor } from './LabelBadge';
+import TaskTimer from './TaskTimer';
 import { formatDueDate } from '../utils/dateUtils';
+import { describeRRule } from '../main/database/recurrence';
 import { cn } from '@/lib/utils';
+import { getTaskProvider, getTaskProviderForTask } from '../providers';
+import { useTaskActions } from '../hooks/useTaskActions';
+import type { TaskProvider } from '../providers';
 
-// Priority configuration - provider-specific
+// Priority configuration, providers can override single levels
 const PRIORITY_CONFIG = {
-  // Default/Unified system
   default: {
     1: { label: 'High', color: 'bg-red-500', textColor: 'text-white', icon: '🔥' },
     2: { label: 'Medium', color: 'bg-yellow-500', textColor: 'text-white', icon: '⚡' },
     3: { label: 'Normal', color: 'bg-blue-500', textColor: 'text-white', icon: '📋' },
     4: { label: 'Low', color: 'bg-gray-500', textColor: 'text-white', icon: '⏳' },
   },
-  // MS To-Do specific (uses "Important" terminology)
-  msToDo: {
-    1: { label: 'Important', color: 'bg-blue-600', textColor: 'text-white', icon: '⭐' },
-    2: { label: 'Medium', color: 'bg-yellow-500', textColor: 'text-white', icon: '⚡' },
-    3: { label: 'Normal', color: 'bg-blue-500', textColor: 'text-white', icon: '📋' },
-    4: { label: 'Low', color: 'bg-gray-500', textColor: 'text-white', icon: '⏳' },
-  },
-  // Todoist specific
-  todoist: {
-    1: { label: 'High', color: 'bg-red-500', textColor: 'text-white', icon: '🔥' },
-    2: { label: 'Medium', color: 'bg-yellow-500', textColor: 'text-white', icon: '⚡' },
-    3: { label: 'Normal', color: 'bg-blue-500', textColor: 'text-white', icon: '📋' },
-    4: { label: 'Low', color: 'bg-gray-500', textColor: 'text-white', icon: '⏳' },
-  },
 } as const;
 
-type TaskProvider = 'msToDo' | 'todoist' | 'default';
-
 interface TaskCardProps {
   task: Task;
   project?: Project;
@@ -38,6 +27,8 @@ interface TaskCardProps {
   variant?: 'default' | 'overdue';
   className?: string;
   showPriority?: boolean;
+  onIndent?: () => void; // Makes the task a subtask of the one above it
+  onOutdent?: () => void; // Moves the task up to its parent's level
 }
 
 // Priority Badge Component
@@ -48,10 +39,10 @@ const PriorityBadge: React.FC<{
 }> = ({ 
   priority, 
   variant = 'default',
-  provider = 'default'
+  provider
 }) => {
-  const providerConfig = PRIORITY_CONFIG[provider] || PRIORITY_CONFIG.default;
-  const config = providerConfig[priority as keyof typeof providerConfig] || providerConfig[2];
+  const level = (priority in PRIORITY_CONFIG.default ? priority : 2) as keyof typeof PRIORITY_CONFIG.default;
+  const config = (provider && getTaskProvider(provider)?.priorities?.[level]) || PRIORITY_CONFIG.default[level];
   
   if (variant === 'compact') {
     return (
@@ -106,16 +97,13 @@ const TaskCard: React.FC<TaskCardProps> = ({
   showProjectBadge = true,
   variant = 'default',
   className,
-  showPriority = true
+  showPriority = true,
+  onIndent,
+  onOutdent
 }) => {
   // Determine task provider for context-specific priority display
-  const getTaskProvider = (): TaskProvider => {
-    if (task.source_task?.msToDo) return 'msToDo';
-    if (task.source_task?.todoist) return 'todoist';
-    return 'default';
-  };
-
-  const taskProvider = getTaskProvider();
+  const taskProvider = getTaskProviderForTask(task);
+  const { canComplete, setCompleted } = useTaskActions(task);
 
   // Get border color from first label if available
   const getBorderClass = () => {
@@ -137,7 +125,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
   return (
     <div
       className={cn(
-        'flex items-start gap-2 p-2 xl:p-3 rounded-lg hover:bg-gray-50 transition-all duration-200 border cursor-pointer overflow-hidden hover:shadow-sm',
+        'group flex items-start gap-2 p-2 xl:p-3 rounded-lg hover:bg-gray-50 transition-all duration-200 border cursor-pointer overflow-hidden hover:shadow-sm',
         borderClass,
         className
       )}
@@ -146,8 +134,16 @@ const TaskCard: React.FC<TaskCardProps> = ({
       <input
         type="checkbox"
         checked={task.status === 'completed'}
-        className="h-4 w-4 rounded border-gray-300 text-pink-500 focus:ring-pink-500 flex-shrink-0 mt-0.5"
-        readOnly
+        className={cn(
+          'h-4 w-4 rounded border-gray-300 text-pink-500 focus:ring-pink-500 flex-shrink-0 mt-0.5',
+          canComplete ? 'cursor-pointer' : 'cursor-not-allowed'
+        )}
+        title={canComplete ? undefined : `${taskProvider?.name ?? 'These'} tasks cannot be completed from Openza`}
+        onChange={(e) => {
+          if (canComplete) {
+            setCompleted(e.target.checked);
+          }
+        }}
         onClick={(e) => e.stopPropagation()}
       />
       <div className="flex-1 min-w-0 w-full">
@@ -182,7 +178,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
             )}
             {/* Priority Badge - moved to right, only show for High and Medium */}
             {showPriority && (task.priority === 1 || task.priority === 2) && (
-              <PriorityBadge priority={task.priority} variant="text" provider={taskProvider} />
+              <PriorityBadge priority={task.priority} variant="text" provider={taskProvider?.id} />
             )}
           </div>
         </div>
@@ -222,6 +218,9 @@ const TaskCard: React.FC<TaskCardProps> = ({
                   const dueInfo = formatDueDate(task.due_date);
                   return dueInfo.text;
                 })()}
+                {task.recurrence && (
+                  <span className="ml-1" title={`Repeats ${describeRRule(task.recurrence)}`}>↻</span>
+                )}
               </p>
             )}
             
@@ -244,25 +243,74 @@ const TaskCard: React.FC<TaskCardProps> = ({
                   {task.estimated_duration}min
                 </span>
               )}
+              {task.checklist && (
+                <span
+                  className={cn(
+                    'text-xs',
+                    task.checklist.completed === task.checklist.total ? 'text-green-600' : 'text-gray-500'
+                  )}
+                  title="Checklist progress"
+                >
+                  ☑ {task.checklist.completed}/{task.checklist.total}
+                </span>
+              )}
+              {task.subtasks && (
+                <span
+                  className={cn(
+                    'text-xs',
+                    task.subtasks.completed === task.subtasks.total ? 'text-green-600' : 'text-gray-500'
+                  )}
+                  title="Subtasks completed"
+                >
+                  ↳ {task.subtasks.completed}/{task.subtasks.total}
+                </span>
+              )}
             </div>
           </div>
           
           <div className="flex items-center gap-2">
+            {(onIndent || onOutdent) && (
+              <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                {onOutdent && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onOutdent();
+                    }}
+                    className="p-0.5 rounded hover:bg-gray-100 text-gray-500"
+                    title="Move out of the parent task"
+                  >
+                    <IndentDecrease className="h-3.5 w-3.5" />
+                  </button>
+                )}
+                {onIndent && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onIndent();
+                    }}
+                    className="p-0.5 rounded hover:bg-gray-100 text-gray-500"
+                    title="Make subtask of the task above"
+                  >
+                    <IndentIncrease className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+            <TaskTimer task={task} />
             {/* Task source indicator - subtle */}
             {!task.source_task ? (
               <span className="text-xs px-1 py-0.5 text-gray-500 flex items-center gap-1">
                 <span className="w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
                 Local
               </span>
-            ) : task.source_task.todoist ? (
-              <span className="text-xs px-1 py-0.5 text-gray-500 flex items-center gap-1">
-                <span className="w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
-                Todoist
-              </span>
-            ) : task.source_task.msToDo ? (
-              <span className="text-xs px-1 py-0.5 text-gray-500 flex items-center gap-1">
+            ) : taskProvider ? (
+              <span
+                className="text-xs px-1 py-0.5 text-gray-500 flex items-center gap-1"
+                title={taskProvider.describeTask?.(task)}
+              >
                 <span className="w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
-                MS To-Do
+                {taskProvider.shortName}
               </span>
             ) : null}
           </div>
@@ -273,5 +321,4 @@ const TaskCard: React.FC<TaskCardProps> = ({
 };
 
 export default TaskCard;
-export { PriorityBadge, PRIORITY_CONFIG };
-export type { TaskProvider };
\ No newline at end of file
+export { PriorityBadge, PRIORITY_CONFIG };
\ No newline at end of file
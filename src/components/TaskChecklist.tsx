@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  useTaskEnhancements,
+  useCreateTaskEnhancement,
+  useUpdateTaskEnhancement,
+  useDeleteTaskEnhancement,
+  useReorderTaskEnhancements,
+} from '../hooks/useDatabase';
+import type { Task, TaskEnhancement } from '../types/database';
+
+interface TaskChecklistProps {
+  task: Task;
+}
+
+const TaskChecklist: React.FC<TaskChecklistProps> = ({ task }) => {
+  const { data: items = [] } = useTaskEnhancements(task.id, 'checkpoint');
+  const createItem = useCreateTaskEnhancement();
+  const updateItem = useUpdateTaskEnhancement();
+  const deleteItem = useDeleteTaskEnhancement();
+  const reorderItems = useReorderTaskEnhancements();
+  const [newItem, setNewItem] = useState('');
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  const completedCount = items.filter((item: TaskEnhancement) => item.completed).length;
+  const error = deleteError || (createItem.error || updateItem.error || reorderItems.error)?.message;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = newItem.trim();
+    if (!content) return;
+    createItem.mutate(
+      { task_id: task.id, type: 'checkpoint', content },
+      { onSuccess: () => setNewItem('') }
+    );
+  };
+
+  const handleDelete = async (item: TaskEnhancement) => {
+    try {
+      setDeleteError(null);
+      if (item.integrations?.msToDo) {
+        const { deleteMsToDoChecklistItem } = await import('../utils/msToDoSync');
+        await deleteMsToDoChecklistItem(task, item);
+      }
+      deleteItem.mutate({ id: item.id, taskId: task.id });
+    } catch (error) {
+      setDeleteError(error instanceof Error ? error.message : 'Failed to delete checklist item');
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = items.map((item: TaskEnhancement) => item.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderItems.mutate({ taskId: task.id, orderedIds: ids });
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 && (
+        <div className="flex items-center gap-2">
+          <div className="h-1.5 flex-1 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all"
+              style={{ width: `${(completedCount / items.length) * 100}%` }}
+            />
+          </div>
+          <span className="text-xs text-gray-500">{completedCount}/{items.length}</span>
+        </div>
+      )}
+
+      {items.map((item: TaskEnhancement, index: number) => (
+        <div key={item.id} className="group flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={item.completed}
+            onChange={() => updateItem.mutate({ id: item.id, updates: { completed: !item.completed } })}
+            className="h-4 w-4 rounded border-gray-300 text-pink-500 focus:ring-pink-500 flex-shrink-0"
+          />
+          <span className={cn('flex-1 break-words', item.completed ? 'line-through text-gray-400' : 'text-gray-900')}>
+            {item.content}
+          </span>
+          <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+            <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)} title="Move up">
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={index === items.length - 1}
+              onClick={() => move(index, 1)}
+              title="Move down"
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => handleDelete(item)} title="Delete item">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          placeholder="Add checklist item"
+          className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+        />
+        <Button type="submit" variant="ghost" size="icon" disabled={!newItem.trim()} title="Add item">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default TaskChecklist;
@@ -1,7 +1,16 @@
-import React from 'react';
-import { X } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Trash2, Pencil } from 'lucide-react';
+import { Button } from './ui/button';
 import ProjectBadge from './ProjectBadge';
 import LabelBadge from './LabelBadge';
+import TaskTimer from './TaskTimer';
+import TimeEntries from './TimeEntries';
+import TaskChecklist from './TaskChecklist';
+import TaskSubtasks from './TaskSubtasks';
+import TaskRecurrence from './TaskRecurrence';
+import TaskEditForm from './TaskEditForm';
+import { useTaskActions } from '../hooks/useTaskActions';
+import { getTaskProviderForTask } from '../providers';
 import { formatDueDate, formatCreatedDate } from '../utils/dateUtils';
 import type { Task, Project } from '../types/database';
 import type { Label } from '@doist/todoist-api-typescript';
@@ -18,12 +27,45 @@ interface TaskDetailProps {
 }
 
 const TaskDetail: React.FC<TaskDetailProps> = ({ task, onClose, isModal, project, labels = [], hideCloseButton = false }) => {
+  const { isLocalTask, canEdit, canDelete, update, remove, isPending, error } = useTaskActions(task);
+  const provider = isLocalTask ? undefined : getTaskProviderForTask(task);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const handleDelete = () => {
+    // Local deletes can be undone from the toast, deletes in a provider cannot
+    if (!isLocalTask && !isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      return;
+    }
+    remove({ onSuccess: onClose });
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-xl p-6 max-h-[calc(100vh-4rem)] overflow-y-auto">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-900 truncate flex-1 mr-2">
           {task.title}
         </h2>
+        {canEdit && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors flex-shrink-0"
+            title="Edit task"
+          >
+            <Pencil className="h-5 w-5 text-gray-500" />
+          </button>
+        )}
+        {canDelete && (
+          <button
+            onClick={handleDelete}
+            disabled={isPending}
+            className="p-2 hover:bg-red-50 rounded-full transition-colors flex-shrink-0"
+            title="Delete task"
+          >
+            <Trash2 className="h-5 w-5 text-gray-500 hover:text-red-600" />
+          </button>
+        )}
         {!hideCloseButton && (
           <button
             onClick={onClose}
@@ -34,85 +76,138 @@ const TaskDetail: React.FC<TaskDetailProps> = ({ task, onClose, isModal, project
         )}
       </div>
 
-      <div className={`${isModal ? 'space-y-6' : 'space-y-6 overflow-y-auto max-h-[calc(100vh-12rem)]'}`}>
-
-        {task.description && (
-          <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Description</h3>
-            <p className="text-gray-900 whitespace-pre-wrap break-words">{task.description}</p>
+      {isConfirmingDelete && (
+        <div className="flex items-center justify-between gap-3 mb-6 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+          <span>Delete this task from {provider?.name}? This cannot be undone.</span>
+          <div className="flex gap-2 flex-shrink-0">
+            <Button variant="outline" size="sm" onClick={() => setIsConfirmingDelete(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isPending}>
+              Delete
+            </Button>
           </div>
-        )}
+        </div>
+      )}
 
-        {task.due_date && (
-          <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Due Date</h3>
-            <p className={`font-medium ${(() => {
-              const dueInfo = formatDueDate(task.due_date);
-              if (dueInfo.isOverdue && task.status !== 'completed') {
-                return 'text-red-600';
-              } else if (dueInfo.isToday) {
-                return 'text-orange-600';
-              } else if (dueInfo.isTomorrow) {
-                return 'text-blue-600';
-              } else {
-                return 'text-gray-900';
-              }
-            })()}`}>
-              {formatDueDate(task.due_date).text}
-              {task.source_task?.todoist?.due?.isRecurring && ' ↻'}
-            </p>
-          </div>
-        )}
+      {isEditing ? (
+        <TaskEditForm
+          task={task}
+          onSave={(updates) => update(updates, { onSuccess: () => setIsEditing(false) })}
+          onCancel={() => setIsEditing(false)}
+          isSaving={isPending}
+          error={error}
+        />
+      ) : (
+        <div className={`${isModal ? 'space-y-6' : 'space-y-6 overflow-y-auto max-h-[calc(100vh-12rem)]'}`}>
+
+          {task.description && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Description</h3>
+              <p className="text-gray-900 whitespace-pre-wrap break-words">{task.description}</p>
+            </div>
+          )}
+
+          {task.due_date && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Due Date</h3>
+              <p className={`font-medium ${(() => {
+                const dueInfo = formatDueDate(task.due_date);
+                if (dueInfo.isOverdue && task.status !== 'completed') {
+                  return 'text-red-600';
+                } else if (dueInfo.isToday) {
+                  return 'text-orange-600';
+                } else if (dueInfo.isTomorrow) {
+                  return 'text-blue-600';
+                } else {
+                  return 'text-gray-900';
+                }
+              })()}`}>
+                {formatDueDate(task.due_date).text}
+                {(task.recurrence || task.source_task?.todoist?.due?.is_recurring) && ' ↻'}
+              </p>
+            </div>
+          )}
+
+          {(isLocalTask || task.recurrence) && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Repeats</h3>
+              <TaskRecurrence task={task} editable={isLocalTask} />
+            </div>
+          )}
+
+          {project && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Project</h3>
+              <ProjectBadge project={project} variant="full" />
+            </div>
+          )}
+
+          {task.source_task?.todoist?.labels && task.source_task.todoist.labels.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Labels</h3>
+              <div className="flex flex-wrap gap-2">
+                {task.source_task.todoist.labels.map((labelName) => {
+                  const labelObj = labels.find(l => l.name === labelName);
+                  if (!labelObj) return null;
+                  return (
+                    <LabelBadge 
+                      key={labelObj.id} 
+                      label={labelObj} 
+                      variant="default"
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          )}
 
-        {project && (
           <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Project</h3>
-            <ProjectBadge project={project} variant="full" />
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Status</h3>
+            <p className="text-gray-900">
+              {task.status === 'completed' ? 'Completed' : 'Active'}
+            </p>
           </div>
-        )}
 
-        {task.source_task?.todoist?.labels && task.source_task.todoist.labels.length > 0 && (
-          <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Labels</h3>
-            <div className="flex flex-wrap gap-2">
-              {task.source_task.todoist.labels.map((labelName) => {
-                const labelObj = labels.find(l => l.name === labelName);
-                if (!labelObj) return null;
-                return (
-                  <LabelBadge 
-                    key={labelObj.id} 
-                    label={labelObj} 
-                    variant="default"
-                  />
-                );
-              })}
+          {isLocalTask && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Checklist</h3>
+              <TaskChecklist task={task} />
             </div>
-          </div>
-        )}
+          )}
 
-        <div>
-          <h3 className="text-sm font-medium text-gray-500 mb-1">Status</h3>
-          <p className="text-gray-900">
-            {task.status === 'completed' ? 'Completed' : 'Active'}
-          </p>
-        </div>
+          {isLocalTask && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Subtasks</h3>
+              <TaskSubtasks task={task} />
+            </div>
+          )}
 
-        <div>
-          <h3 className="text-sm font-medium text-gray-500 mb-1">Created</h3>
-          <p className="text-gray-900">
-            {formatCreatedDate(task.created_at)}
-          </p>
-        </div>
+          {isLocalTask && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Time Tracking</h3>
+              <TaskTimer task={task} variant="full" className="mb-3" />
+              <TimeEntries taskId={task.id} />
+            </div>
+          )}
 
-        {task.status === 'completed' && (
           <div>
-            <h3 className="text-sm font-medium text-gray-500 mb-1">Completed At</h3>
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Created</h3>
             <p className="text-gray-900">
-              {task.completed_at ? formatCreatedDate(task.completed_at) : 'Completed'}
+              {formatCreatedDate(task.created_at)}
             </p>
           </div>
-        )}
-      </div>
+
+          {task.status === 'completed' && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Completed At</h3>
+              <p className="text-gray-900">
+                {task.completed_at ? formatCreatedDate(task.completed_at) : 'Completed'}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import type { Task, UpdateTaskData } from '../types/database';
+
+interface TaskEditFormProps {
+  task: Task;
+  onSave: (updates: UpdateTaskData) => void;
+  onCancel: () => void;
+  isSaving?: boolean;
+  error?: Error | null;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Title, description, due date and priority of a task.
+ * Only changed fields are saved, so providers are not sent values they may
+ * handle differently, such as the due date of a repeating Todoist task.
+ */
+const TaskEditForm: React.FC<TaskEditFormProps> = ({ task, onSave, onCancel, isSaving = false, error }) => {
+  const [title, setTitle] = useState(task.title);
+  const [description, setDescription] = useState(task.description || '');
+  const [dueDate, setDueDate] = useState(task.due_date || '');
+  const [priority, setPriority] = useState(task.priority);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const updates: UpdateTaskData = {};
+    if (title.trim() !== task.title) updates.title = title.trim();
+    if (description !== (task.description || '')) updates.description = description;
+    if (dueDate !== (task.due_date || '')) updates.due_date = dueDate || null;
+    if (priority !== task.priority) updates.priority = priority;
+
+    if (Object.keys(updates).length === 0) {
+      onCancel();
+      return;
+    }
+    onSave(updates);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor={`${task.id}-title`} className="block text-sm font-medium mb-1">
+          Title *
+        </label>
+        <input
+          id={`${task.id}-title`}
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className={inputClassName}
+          required
+          autoFocus
+        />
+      </div>
+
+      <div>
+        <label htmlFor={`${task.id}-description`} className="block text-sm font-medium mb-1">
+          Description
+        </label>
+        <textarea
+          id={`${task.id}-description`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={3}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`${task.id}-due-date`} className="block text-sm font-medium mb-1">
+            Due Date
+          </label>
+          <input
+            id={`${task.id}-due-date`}
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label htmlFor={`${task.id}-priority`} className="block text-sm font-medium mb-1">
+            Priority
+          </label>
+          <select
+            id={`${task.id}-priority`}
+            value={priority}
+            onChange={(e) => setPriority(parseInt(e.target.value))}
+            className={inputClassName}
+          >
+            <option value={1}>🔴 High</option>
+            <option value={2}>🟡 Medium</option>
+            <option value={3}>🟢 Normal</option>
+            <option value={4}>⚪ Low</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!title.trim() || isSaving}>
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default TaskEditForm;
@@ -1,6 +1,23 @@
-import { useMemo } from 'react';
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Plus } from 'lucide-react';
+import { toast } from 'sonner';
 import { Task, Project } from '../types/database';
+import type { Section } from '../types/database';
+import {
+  useUpdateTask,
+  useProjects,
+  useCreateSection,
+  useUpdateSection,
+  useDeleteSection,
+  useReorderSections,
+} from '../hooks/useDatabase';
+import { useProviderTaskMutation } from '../hooks/useTaskActions';
+import { getTaskProviderForTask } from '../providers';
+import { isLocalProject } from '../utils/projects';
 import TaskCard from './TaskCard';
+import TaskSectionHeader from './TaskSectionHeader';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
 
 export type TaskFilter = 
   | 'all' 
@@ -12,6 +29,7 @@ export type TaskFilter =
 interface TaskListProps {
   tasks: Task[];
   projects?: Project[];
+  sections?: Section[]; // Group the tasks of a project view
   filter: TaskFilter;
   title: string;
   emptyMessage?: string;
@@ -22,9 +40,28 @@ interface TaskListProps {
   onTaskClick?: (task: Task, event?: React.MouseEvent) => void;
 }
 
+interface TaskRow {
+  task: Task;
+  depth: number;
+  subtaskCount: number; // Listed direct subtasks
+  indentParentId?: string; // The previous sibling, the task's parent once indented
+  outdentParentId?: string | null; // The parent's parent, the task's parent once outdented
+}
+
+// Only tasks of the database can be indented. Synced tasks keep the provider's
+// hierarchy, as a parent changed here is not pushed and the next sync resets it.
+const canChangeParent = (task: Task) => !!task.is_local && !getTaskProviderForTask(task);
+
+interface TaskGroup {
+  section?: Section; // Tasks outside any section without it
+  rows: TaskRow[];
+  taskCount: number; // Listed top-level tasks
+}
+
 const TaskList: React.FC<TaskListProps> = ({
   tasks,
   projects = [],
+  sections = [],
   filter,
   title,
   emptyMessage = "No tasks found",
@@ -33,6 +70,28 @@ const TaskList: React.FC<TaskListProps> = ({
   hideTitle = false,
   onTaskClick
 }) => {
+  const { data: localProjects = [] } = useProjects();
+  const updateTask = useUpdateTask();
+  const providerMutation = useProviderTaskMutation();
+  const createSection = useCreateSection();
+  const updateSection = useUpdateSection();
+  const deleteSection = useDeleteSection();
+  const reorderSections = useReorderSections();
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [collapsedSectionIds, setCollapsedSectionIds] = useState<Set<string>>(new Set());
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [newSection, setNewSection] = useState('');
+
+  // A project view is grouped by the project's sections; local projects can add their own
+  const projectId = typeof filter === 'object' && filter.type === 'project' ? filter.projectId : undefined;
+  const projectSections = useMemo(
+    () => sections.filter(section => section.project_id === projectId).sort((a, b) => a.sort_order - b.sort_order),
+    [sections, projectId]
+  );
+  const localProject = localProjects.find(project => project.id === projectId);
+  const canEditSections = !!localProject && isLocalProject(localProject);
+  const isGrouped = projectSections.length > 0 || canEditSections;
+
   // Create project map for quick lookups
   const projectMap = useMemo(() => {
     return new Map(projects.map(project => [project.id, project]));
@@ -128,9 +187,167 @@ const TaskList: React.FC<TaskListProps> = ({
     });
   }, [tasks, filter, sortByLabels, sortByProject, projectMap]);
 
+  // Subtasks go below their parent, in the same order as the top level. A
+  // subtask whose parent is not listed, e.g. as it is not due today, is shown
+  // at the top level. Top-level tasks are grouped by section.
+  const groups = useMemo(() => {
+    const taskMap = new Map(tasks.map(task => [task.id, task]));
+    const listedIds = new Set(filteredTasks.map(task => task.id));
+    const subtasks = new Map<string, Task[]>();
+    const topLevel: Task[] = [];
+
+    filteredTasks.forEach(task => {
+      if (task.parent_id && listedIds.has(task.parent_id)) {
+        subtasks.set(task.parent_id, [...(subtasks.get(task.parent_id) || []), task]);
+      } else {
+        topLevel.push(task);
+      }
+    });
+
+    const addRows = (result: TaskRow[], siblings: Task[], depth: number) => {
+      siblings.forEach((task, index) => {
+        const children = subtasks.get(task.id) || [];
+        const previous = siblings[index - 1];
+        const canNest = canChangeParent(task);
+        result.push({
+          task,
+          depth,
+          subtaskCount: children.length,
+          indentParentId: canNest && previous?.is_local ? previous.id : undefined,
+          outdentParentId: canNest && task.parent_id ? taskMap.get(task.parent_id)?.parent_id ?? null : undefined,
+        });
+        if (!collapsedIds.has(task.id)) {
+          addRows(result, children, depth + 1);
+        }
+      });
+    };
+
+    const sectionIds = new Set(projectSections.map(section => section.id));
+    const getSectionId = (task: Task) => task.section_id && sectionIds.has(task.section_id) ? task.section_id : undefined;
+
+    return [undefined, ...projectSections].map((section): TaskGroup => {
+      const groupTasks = topLevel.filter(task => getSectionId(task) === section?.id);
+      const rows: TaskRow[] = [];
+      if (!collapsedSectionIds.has(section?.id ?? '')) {
+        addRows(rows, groupTasks, 0);
+      }
+      return { section, rows, taskCount: groupTasks.length };
+    });
+  }, [tasks, filteredTasks, collapsedIds, projectSections, collapsedSectionIds]);
+
+  const hasSubtasks = groups.some(group => group.rows.some(row => row.subtaskCount > 0));
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds(current => {
+      const next = new Set(current);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const moveTask = (task: Task, parentId: string | null) => {
+    updateTask.mutate(
+      { id: task.id, updates: { parent_id: parentId } },
+      { onError: (error) => toast.error(error.message) }
+    );
+  };
+
+  const canMoveToSection = (task: Task) => task.is_local || !!getTaskProviderForTask(task)?.capabilities.update;
+
+  const moveToSection = (task: Task, sectionId: string | null) => {
+    setDraggedTask(null);
+    if ((task.section_id || null) === sectionId) {
+      return;
+    }
+    if (task.is_local) {
+      updateTask.mutate(
+        { id: task.id, updates: { section_id: sectionId } },
+        { onError: (error) => toast.error(error.message) }
+      );
+    } else {
+      providerMutation.mutate({ type: 'update', task, updates: { section_id: sectionId } });
+    }
+  };
+
+  const toggleSectionCollapsed = (sectionId: string) => {
+    setCollapsedSectionIds(current => {
+      const next = new Set(current);
+      if (next.has(sectionId)) {
+        next.delete(sectionId);
+      } else {
+        next.add(sectionId);
+      }
+      return next;
+    });
+  };
+
+  const moveSection = (index: number, offset: number) => {
+    const orderedIds = projectSections.map(section => section.id);
+    const [sectionId] = orderedIds.splice(index, 1);
+    orderedIds.splice(index + offset, 0, sectionId);
+    reorderSections.mutate({ projectId: projectId!, orderedIds }, { onError: (error) => toast.error(error.message) });
+  };
+
+  const handleAddSection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSection.trim() || !projectId) return;
+    createSection.mutate(
+      { name: newSection.trim(), project_id: projectId },
+      { onSuccess: () => setNewSection(''), onError: (error) => toast.error(error.message) }
+    );
+  };
+
   const shouldShowProjectBadge = filter === 'all' || filter === 'today' || filter === 'overdue' || filter === 'labeled' || (typeof filter === 'object' && Object.keys(filter).length === 0);
   const isOverdueView = filter === 'overdue';
 
+  const renderRow = ({ task, depth, subtaskCount, indentParentId, outdentParentId }: TaskRow) => {
+    const taskProject = projectMap.get(task.project_id || '');
+    const isCollapsed = collapsedIds.has(task.id);
+    // Top-level tasks are dragged onto a section header to move them there
+    const isDraggable = isGrouped && depth === 0 && canMoveToSection(task);
+    return (
+      <div
+        key={task.id}
+        draggable={isDraggable}
+        onDragStart={isDraggable ? (e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedTask(task);
+        } : undefined}
+        onDragEnd={() => setDraggedTask(null)}
+        className={cn('flex items-start gap-1', draggedTask?.id === task.id && 'opacity-50')}
+        style={{ paddingLeft: `${depth * 1.25}rem` }}
+      >
+        {hasSubtasks && (
+          subtaskCount > 0 ? (
+            <button
+              onClick={() => toggleCollapsed(task.id)}
+              className="mt-2.5 xl:mt-3.5 p-0.5 rounded hover:bg-gray-100 text-gray-500 flex-shrink-0"
+              title={isCollapsed ? `Show ${subtaskCount} subtasks` : 'Hide subtasks'}
+            >
+              {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+            </button>
+          ) : (
+            <span className="w-4.5 flex-shrink-0" />
+          )
+        )}
+        <TaskCard
+          task={task}
+          project={taskProject}
+          onTaskClick={onTaskClick || (() => {})}
+          showProjectBadge={shouldShowProjectBadge}
+          variant={isOverdueView ? 'overdue' : 'default'}
+          className="flex-1 min-w-0"
+          onIndent={indentParentId ? () => moveTask(task, indentParentId) : undefined}
+          onOutdent={outdentParentId !== undefined ? () => moveTask(task, outdentParentId) : undefined}
+        />
+      </div>
+    );
+  };
+
   return (
     <div className={hideTitle ? "h-full flex flex-col" : "h-full bg-gradient-to-br from-blue-50 via-pink-50 to-purple-100 flex flex-col"}>
       {!hideTitle && (
@@ -142,19 +359,46 @@ const TaskList: React.FC<TaskListProps> = ({
         <div className={`${hideTitle ? 'h-full' : 'bg-white rounded-2xl shadow-xl'} p-3 h-full flex flex-col`}>
           <div className="flex-1 overflow-y-auto">
             <div className="space-y-1">
-            {filteredTasks.map((task) => {
-              const taskProject = projectMap.get(task.project_id || '');
+            {groups.map(({ section, rows, taskCount }) => {
+              const sectionIndex = section ? projectSections.indexOf(section) : -1;
+              const isEditable = canEditSections && !!section;
               return (
-                <TaskCard
-                  key={task.id}
-                  task={task}
-                  project={taskProject}
-                  onTaskClick={onTaskClick || (() => {})}
-                  showProjectBadge={shouldShowProjectBadge}
-                  variant={isOverdueView ? 'overdue' : 'default'}
-                />
+                <Fragment key={section?.id ?? ''}>
+                  {isGrouped && (section || projectSections.length > 0) && (
+                    <TaskSectionHeader
+                      section={section}
+                      taskCount={taskCount}
+                      isCollapsed={collapsedSectionIds.has(section?.id ?? '')}
+                      onToggle={() => toggleSectionCollapsed(section?.id ?? '')}
+                      isDragging={!!draggedTask}
+                      onDropTask={() => draggedTask && moveToSection(draggedTask, section?.id ?? null)}
+                      onRename={isEditable ? (name) => updateSection.mutate(
+                        { id: section.id, updates: { name } },
+                        { onError: (error) => toast.error(error.message) }
+                      ) : undefined}
+                      onMoveUp={isEditable && sectionIndex > 0 ? () => moveSection(sectionIndex, -1) : undefined}
+                      onMoveDown={isEditable && sectionIndex < projectSections.length - 1 ? () => moveSection(sectionIndex, 1) : undefined}
+                      onDelete={isEditable ? () => deleteSection.mutate(section.id, { onError: (error) => toast.error(error.message) }) : undefined}
+                    />
+                  )}
+                  {rows.map(row => renderRow(row))}
+                </Fragment>
               );
             })}
+              {canEditSections && (
+                <form onSubmit={handleAddSection} className="flex items-center gap-2 pt-3">
+                  <input
+                    type="text"
+                    value={newSection}
+                    onChange={(e) => setNewSection(e.target.value)}
+                    placeholder="Add section"
+                    className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  />
+                  <Button type="submit" variant="ghost" size="icon" disabled={!newSection.trim() || createSection.isPending} title="Add section">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
               {filteredTasks.length === 0 && (
                 <p className="text-center text-muted-foreground py-8">{emptyMessage}</p>
               )}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Pencil, Check, X, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import RecurrenceInput from './RecurrenceInput';
+import { useUpdateTask } from '../hooks/useDatabase';
+import { describeRRule } from '../main/database/recurrence';
+import type { Task } from '../types/database';
+
+interface TaskRecurrenceProps {
+  task: Task;
+  editable?: boolean;
+}
+
+/**
+ * How a task repeats, with inline editing for tasks stored locally
+ */
+const TaskRecurrence: React.FC<TaskRecurrenceProps> = ({ task, editable = false }) => {
+  const updateTask = useUpdateTask();
+  const [isEditing, setIsEditing] = useState(false);
+  const [recurrence, setRecurrence] = useState(task.recurrence);
+
+  const handleSave = () => {
+    updateTask.mutate(
+      { id: task.id, updates: { recurrence: recurrence || null } },
+      { onSuccess: () => setIsEditing(false) }
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-start gap-2">
+          <RecurrenceInput value={task.recurrence} onChange={setRecurrence} className="flex-1" />
+          <Button variant="ghost" size="icon" onClick={handleSave} disabled={updateTask.isPending} title="Save">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setIsEditing(false)} title="Cancel">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">Leave empty to stop repeating.</p>
+        {updateTask.error && <p className="text-sm text-red-600">{updateTask.error.message}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <p className="flex items-center gap-1 text-gray-900">
+        {task.recurrence ? (
+          <>
+            <Repeat className="h-4 w-4 text-gray-500" />
+            {describeRRule(task.recurrence)}
+          </>
+        ) : (
+          <span className="text-gray-500">Does not repeat</span>
+        )}
+      </p>
+      {editable && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => {
+            setRecurrence(task.recurrence);
+            setIsEditing(true);
+          }}
+          title="Edit repeat"
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskRecurrence;
@@ -0,0 +1,170 @@
+import { useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Ellipsis, Pencil, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+} from './ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { Section } from '../types/database';
+
+interface TaskSectionHeaderProps {
+  section?: Section; // Tasks outside any section without it
+  taskCount: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  isDragging: boolean; // A task is being dragged, the header accepts it
+  onDropTask: () => void;
+  // Only sections of local projects can be changed
+  onRename?: (name: string) => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onDelete?: () => void;
+}
+
+/**
+ * Heading of a section in a project's task list. Tasks dropped on it move into the section.
+ */
+const TaskSectionHeader: React.FC<TaskSectionHeaderProps> = ({
+  section,
+  taskCount,
+  isCollapsed,
+  onToggle,
+  isDragging,
+  onDropTask,
+  onRename,
+  onMoveUp,
+  onMoveDown,
+  onDelete,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(section?.name || '');
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  // Renaming starts once the menu has closed, so it does not take the focus back from the name input
+  const renameOnClose = useRef(false);
+  const hasMenu = !!(onRename || onMoveUp || onMoveDown || onDelete);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim() && name.trim() !== section?.name) {
+      onRename?.(name.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  const cancelRename = () => {
+    setName(section?.name || '');
+    setIsRenaming(false);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (isDragging) {
+          e.preventDefault();
+          setIsDropTarget(true);
+        }
+      }}
+      onDragLeave={() => setIsDropTarget(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDropTarget(false);
+        onDropTask();
+      }}
+      className={cn(
+        'group flex items-center gap-1 mt-3 first:mt-0 pb-1 border-b border-gray-200',
+        isDropTarget && 'border-blue-500 bg-blue-50 rounded-t-md'
+      )}
+    >
+      <button
+        onClick={onToggle}
+        className="p-0.5 rounded hover:bg-gray-100 text-gray-500"
+        title={isCollapsed ? 'Show tasks' : 'Hide tasks'}
+      >
+        {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isRenaming ? (
+        <form onSubmit={handleRename} className="flex-1">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={cancelRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                cancelRename();
+              }
+            }}
+            className="w-full rounded-md border border-gray-300 px-2 py-0.5 text-sm"
+            autoFocus
+          />
+        </form>
+      ) : (
+        <h2 className={cn('flex-1 text-sm font-semibold', section ? 'text-gray-900' : 'text-gray-500')}>
+          {section?.name || 'No section'}
+        </h2>
+      )}
+      <span className="text-xs text-gray-500">{taskCount}</span>
+
+      {hasMenu && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="p-1 rounded text-gray-500 hover:bg-gray-200 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+              title="Section actions"
+            >
+              <Ellipsis className="h-3.5 w-3.5" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent
+            align="end"
+            onCloseAutoFocus={(e) => {
+              if (renameOnClose.current) {
+                e.preventDefault();
+                renameOnClose.current = false;
+                setIsRenaming(true);
+              }
+            }}
+          >
+            {onRename && (
+              <DropdownMenuItem
+                onSelect={() => {
+                  renameOnClose.current = true;
+                }}
+              >
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename
+              </DropdownMenuItem>
+            )}
+            {onMoveUp && (
+              <DropdownMenuItem onSelect={onMoveUp}>
+                <ArrowUp className="mr-2 h-4 w-4" />
+                Move up
+              </DropdownMenuItem>
+            )}
+            {onMoveDown && (
+              <DropdownMenuItem onSelect={onMoveDown}>
+                <ArrowDown className="mr-2 h-4 w-4" />
+                Move down
+              </DropdownMenuItem>
+            )}
+            {onDelete && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-red-600 focus:text-red-700" onSelect={onDelete}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete section
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+};
+
+export default TaskSectionHeader;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { useTaskSource } from '../contexts/TaskSourceContext';
+import { getTaskProvider } from '../providers';
 import { useAuth } from '../hooks/useAuth';
 
 interface TaskSourceSelectorProps {
@@ -29,7 +30,7 @@ const TaskSourceSelector: React.FC<TaskSourceSelectorProps> = ({ className = ''
         <option value="local">Local Only</option>
         {availableSources.provider && (
           <option value="provider">
-            {activeProvider === 'todoist' ? 'Todoist Only' : 'Microsoft To-Do Only'}
+            {(activeProvider && getTaskProvider(activeProvider)?.name) || 'Provider'} Only
           </option>
         )}
         {availableSources.all && <option value="all">All Sources</option>}
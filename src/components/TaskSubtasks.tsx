@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useTaskTree, useCreateTask, useUpdateTask } from '../hooks/useDatabase';
+import type { Task } from '../types/database';
+
+interface TaskSubtasksProps {
+  task: Task;
+}
+
+// Subtasks of any depth of a local task, indented below their parents
+const TaskSubtasks: React.FC<TaskSubtasksProps> = ({ task }) => {
+  const { data: tree = [] } = useTaskTree(task.id);
+  const createTask = useCreateTask();
+  const updateTask = useUpdateTask();
+  const [newSubtask, setNewSubtask] = useState('');
+
+  // The tree starts with the task itself
+  const subtasks = tree.slice(1);
+  const completedCount = subtasks.filter(subtask => subtask.status === 'completed').length;
+  const error = (createTask.error || updateTask.error)?.message;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = newSubtask.trim();
+    if (!title) return;
+    createTask.mutate(
+      { title, project_id: task.project_id, parent_id: task.id },
+      { onSuccess: () => setNewSubtask('') }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {subtasks.length > 0 && (
+        <div className="flex items-center gap-2">
+          <div className="h-1.5 flex-1 rounded-full bg-gray-100 overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-all"
+              style={{ width: `${(completedCount / subtasks.length) * 100}%` }}
+            />
+          </div>
+          <span className="text-xs text-gray-500">{completedCount}/{subtasks.length}</span>
+        </div>
+      )}
+
+      {subtasks.map(subtask => (
+        <div
+          key={subtask.id}
+          className="flex items-center gap-2 text-sm"
+          style={{ paddingLeft: `${((subtask.depth ?? 1) - 1) * 1.25}rem` }}
+        >
+          <input
+            type="checkbox"
+            checked={subtask.status === 'completed'}
+            onChange={() => updateTask.mutate({
+              id: subtask.id,
+              updates: { status: subtask.status === 'completed' ? 'pending' : 'completed' },
+            })}
+            className="h-4 w-4 rounded border-gray-300 text-pink-500 focus:ring-pink-500 flex-shrink-0"
+          />
+          <span className={cn('flex-1 break-words', subtask.status === 'completed' ? 'line-through text-gray-400' : 'text-gray-900')}>
+            {subtask.title}
+          </span>
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd} className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newSubtask}
+          onChange={(e) => setNewSubtask(e.target.value)}
+          placeholder="Add subtask"
+          className="flex-1 rounded-md border border-gray-300 px-2 py-1 text-sm"
+        />
+        <Button type="submit" variant="ghost" size="icon" disabled={!newSubtask.trim()} title="Add subtask">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default TaskSubtasks;
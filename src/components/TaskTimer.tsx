@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { Play, Square, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useRunningTimer, useStartTimer, useStopTimer } from '../hooks/useDatabase';
+import { formatDuration, formatElapsed } from '../utils/dateUtils';
+import type { Task } from '../types/database';
+
+interface TaskTimerProps {
+  task: Task;
+  variant?: 'compact' | 'full';
+  className?: string;
+}
+
+/**
+ * Start/stop control for a task's timer. The running timer lives in the
+ * database, so the elapsed time picks up again after the app restarts.
+ */
+const TaskTimer: React.FC<TaskTimerProps> = ({ task, variant = 'compact', className }) => {
+  const { data: runningTimer } = useRunningTimer();
+  const startTimer = useStartTimer();
+  const stopTimer = useStopTimer();
+  const [now, setNow] = useState(() => Date.now());
+
+  const isRunning = runningTimer?.task_id === task.id;
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  // Provider tasks shown straight from their API have no row to track time against
+  if (!isRunning && !task.is_local) {
+    return null;
+  }
+
+  const elapsedSeconds = isRunning ? Math.max(0, (now - Date.parse(runningTimer!.start_time)) / 1000) : 0;
+  const error = startTimer.error || stopTimer.error;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (isRunning) {
+      stopTimer.mutate();
+    } else {
+      startTimer.mutate({ taskId: task.id });
+    }
+  };
+
+  if (variant === 'compact') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={startTimer.isPending || stopTimer.isPending}
+        className={cn(
+          'inline-flex items-center gap-1 text-xs px-1 py-0.5 rounded transition-colors',
+          isRunning ? 'bg-green-100 text-green-700' : 'text-gray-500 hover:bg-gray-100',
+          className
+        )}
+        title={error?.message || (isRunning ? 'Stop timer' : 'Start timer')}
+      >
+        {isRunning ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+        {isRunning
+          ? formatElapsed(elapsedSeconds)
+          : !!task.actual_duration && formatDuration(task.actual_duration)}
+      </button>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-3">
+        <Button
+          variant={isRunning ? 'default' : 'outline'}
+          size="sm"
+          onClick={handleClick}
+          disabled={startTimer.isPending || stopTimer.isPending}
+        >
+          {isRunning ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          {isRunning ? 'Stop timer' : 'Start timer'}
+        </Button>
+        {isRunning && (
+          <span className="font-mono text-sm text-green-700">{formatElapsed(elapsedSeconds)}</span>
+        )}
+        <span className="flex items-center gap-1 text-sm text-gray-600">
+          <Clock className="h-4 w-4" />
+          {formatDuration(task.actual_duration || 0)} tracked
+          {task.estimated_duration ? ` of ${formatDuration(task.estimated_duration)} estimated` : ''}
+        </span>
+      </div>
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+    </div>
+  );
+};
+
+export default TaskTimer;
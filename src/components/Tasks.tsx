@@ -9,7 +9,7 @@ const Tasks = () => {
   const search = useSearch({ from: '/tasks' });
   const projectId = (search as any)?.projectId;
 
-  const { tasks, projects, isLoading, error } = useGlobalTasks(projectId);
+  const { tasks, projects, sections, isLoading, error } = useGlobalTasks(projectId);
 
 
   // Create proper filter based on projectId
@@ -39,6 +39,7 @@ const Tasks = () => {
           <TasksWithTabs
             tasks={tasks}
             projects={projects}
+            sections={sections}
             filter={taskFilter}
             title={pageTitle}
             emptyMessage="No tasks found"
@@ -0,0 +1,68 @@
+import { AlertCircle } from "lucide-react";
+import { useSettings, useUpdateSettings } from '../hooks/useDatabase';
+import type { SubtaskCompletion } from '../types/database';
+
+const SUBTASK_COMPLETION_OPTIONS: { value: SubtaskCompletion; label: string; description: string }[] = [
+  {
+    value: 'cascade',
+    label: 'Complete its subtasks too',
+    description: 'Open subtasks of any depth are completed along with the task.',
+  },
+  {
+    value: 'block',
+    label: 'Require subtasks to be completed first',
+    description: 'The task cannot be completed while it has open subtasks.',
+  },
+  {
+    value: 'independent',
+    label: 'Leave subtasks open',
+    description: 'Only the task itself is completed.',
+  },
+];
+
+// Settings of local tasks, stored in the database
+const TasksSection: React.FC = () => {
+  const { data: settings } = useSettings();
+  const updateSettings = useUpdateSettings();
+
+  return (
+    <div className="space-y-4">
+      <fieldset>
+        <legend className="block text-sm font-medium text-gray-700 mb-2">
+          Completing a task with open subtasks
+        </legend>
+        <div className="space-y-2">
+          {SUBTASK_COMPLETION_OPTIONS.map(option => (
+            <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="subtask-completion"
+                value={option.value}
+                checked={settings?.subtask_completion === option.value}
+                onChange={() => updateSettings.mutate({ subtask_completion: option.value })}
+                disabled={!settings || updateSettings.isPending}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Applies to local tasks. Todoist and Microsoft To-Do tasks follow the rules of their service.
+        </p>
+      </fieldset>
+
+      {updateSettings.error && (
+        <div className="flex items-center space-x-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          <span>{updateSettings.error.message}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TasksSection;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, ChevronDown } from 'lucide-react';
 import { Task, Project } from '../types/database';
+import type { Section } from '../types/database';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/tabs';
 import TaskList, { TaskFilter } from './TaskList';
 import TaskDetail from './TaskDetail';
@@ -13,6 +14,7 @@ export type TabType =
 interface TasksWithTabsProps {
   tasks: Task[];
   projects?: Project[];
+  sections?: Section[];
   filter: TaskFilter;
   title: string;
   emptyMessage?: string;
@@ -25,6 +27,7 @@ interface TasksWithTabsProps {
 const TasksWithTabs: React.FC<TasksWithTabsProps> = ({
   tasks,
   projects = [],
+  sections,
   filter,
   title,
   emptyMessage = "No tasks found",
@@ -227,6 +230,7 @@ const TasksWithTabs: React.FC<TasksWithTabsProps> = ({
           <TaskList
             tasks={tasks}
             projects={projects}
+            sections={sections}
             filter={filter}
             title=""
             emptyMessage={emptyMessage}
@@ -242,7 +246,9 @@ const TasksWithTabs: React.FC<TasksWithTabsProps> = ({
           .filter(tab => tab.type === 'task')
           .map((tab, index) => {
             const taskTab = tab as { type: 'task'; id: string; task: Task };
-            const project = projectMap.get(taskTab.task.project_id || '');
+            // The tab keeps the task as it was when opened; show its current version
+            const task = tasks.find(item => item.id === taskTab.task.id) || taskTab.task;
+            const project = projectMap.get(task.project_id || '');
             
             return (
               <TabsContent 
@@ -251,7 +257,7 @@ const TasksWithTabs: React.FC<TasksWithTabsProps> = ({
                 className="flex-1 mt-0 overflow-y-auto p-6"
               >
                 <TaskDetail 
-                  task={taskTab.task} 
+                  task={task} 
                   onClose={() => closeTab(tab.id)} 
                   project={project}
                   hideCloseButton={false}
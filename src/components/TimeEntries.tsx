@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Pencil, Trash2, Plus, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  useTimeEntries,
+  useCreateTimeEntry,
+  useUpdateTimeEntry,
+  useDeleteTimeEntry,
+} from '../hooks/useDatabase';
+import { formatDuration } from '../utils/dateUtils';
+import type { TimeEntry } from '../types/database';
+
+interface TimeEntriesProps {
+  taskId: string;
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toInputValue = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromInputValue = (value: string): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const EntryForm: React.FC<{
+  entry?: TimeEntry;
+  onSave: (startTime: string, endTime: string) => void;
+  onCancel: () => void;
+}> = ({ entry, onSave, onCancel }) => {
+  const [start, setStart] = useState(toInputValue(entry?.start_time));
+  const [end, setEnd] = useState(toInputValue(entry?.end_time));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="datetime-local"
+        value={start}
+        onChange={(e) => setStart(e.target.value)}
+        className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+      />
+      <span className="text-gray-400">–</span>
+      <input
+        type="datetime-local"
+        value={end}
+        onChange={(e) => setEnd(e.target.value)}
+        className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={!start || !end}
+        onClick={() => onSave(fromInputValue(start)!, fromInputValue(end)!)}
+        title="Save entry"
+      >
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={onCancel} title="Cancel">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+/**
+ * Recorded time for a task, with manual editing of finished entries
+ */
+const TimeEntries: React.FC<TimeEntriesProps> = ({ taskId }) => {
+  const { data: entries = [] } = useTimeEntries(taskId);
+  const createEntry = useCreateTimeEntry();
+  const updateEntry = useUpdateTimeEntry();
+  const deleteEntry = useDeleteTimeEntry();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const error = createEntry.error || updateEntry.error || deleteEntry.error;
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry: TimeEntry) => (
+        <div key={entry.id} className="text-sm">
+          {editingId === entry.id ? (
+            <EntryForm
+              entry={entry}
+              onCancel={() => setEditingId(null)}
+              onSave={(start_time, end_time) =>
+                updateEntry.mutate(
+                  { id: entry.id, updates: { start_time, end_time } },
+                  { onSuccess: () => setEditingId(null) }
+                )
+              }
+            />
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-700">
+                {new Date(entry.start_time).toLocaleDateString()} · {formatTime(entry.start_time)}
+                {' – '}
+                {entry.end_time ? formatTime(entry.end_time) : 'running'}
+              </span>
+              <div className="flex items-center gap-1">
+                <span className="text-gray-500 mr-1">
+                  {entry.duration !== undefined && entry.duration !== null ? formatDuration(entry.duration) : ''}
+                </span>
+                {entry.end_time && (
+                  <Button variant="ghost" size="icon" onClick={() => setEditingId(entry.id)} title="Edit entry">
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" onClick={() => deleteEntry.mutate(entry.id)} title="Delete entry">
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {isAdding ? (
+        <EntryForm
+          onCancel={() => setIsAdding(false)}
+          onSave={(start_time, end_time) =>
+            createEntry.mutate(
+              { task_id: taskId, start_time, end_time },
+              { onSuccess: () => setIsAdding(false) }
+            )
+          }
+        />
+      ) : (
+        <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)}>
+          <Plus className="h-4 w-4" />
+          Add time manually
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+    </div>
+  );
+};
+
+export default TimeEntries;
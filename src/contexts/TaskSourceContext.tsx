@@ -1,9 +1,16 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useAuth } from '../hooks/useAuth';
 import { useProviderStatus } from '../hooks/useUnifiedTasks';
+import { getTaskProvider } from '../providers';
+import type { TaskProvider } from '../providers';
 
 export type TaskSource = 'local' | 'provider' | 'all';
 
+const getProviderSourceLabel = (provider: TaskProvider | null): string => {
+  const definition = provider && getTaskProvider(provider);
+  return definition ? `${definition.name} Only` : 'Provider Only';
+};
+
 interface TaskSourceContextType {
   taskSource: TaskSource;
   setTaskSource: (source: TaskSource) => void;
@@ -57,9 +64,7 @@ export const TaskSourceProvider: React.FC<TaskSourceProviderProps> = ({ children
       case 'local':
         return 'Local Only';
       case 'provider':
-        if (activeProvider === 'todoist') return 'Todoist Only';
-        if (activeProvider === 'msToDo') return 'Microsoft To-Do Only';
-        return 'Provider Only';
+        return getProviderSourceLabel(activeProvider);
       case 'all':
         return 'All Sources';
       default:
@@ -1,6 +1,7 @@
 // React hooks for database operations using TanStack Query
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import {
   Task,
   Project,
@@ -11,14 +12,45 @@ import {
   ProjectFilters,
   TaskStatistics,
 } from '../types/database.js';
+import type {
+  UpdateProjectData,
+  CreateSectionData,
+  UpdateSectionData,
+  StatisticsRange,
+  TaskEnhancementType,
+  CreateTaskEnhancementData,
+  UpdateTaskEnhancementData,
+  CreateTimeEntryData,
+  UpdateTimeEntryData,
+  CreateLabelData,
+  UpdateLabelData,
+  IntegrationName,
+  UpdateIntegrationData,
+  SyncResult,
+  SyncConflictFilters,
+  ConflictResolution,
+  SyncField,
+  DataFormat,
+  ImportOptions,
+  AppSettings,
+} from '../types/database.js';
+import { getTaskProvider } from '../providers';
+import type { TaskProvider } from '../providers';
 
 // Query keys for consistent caching
 export const QUERY_KEYS = {
   tasks: (filters?: TaskFilters) => ['tasks', filters],
   task: (id: string) => ['task', id],
+  taskTree: (id: string) => ['tasks', 'tree', id],
   projects: (filters?: ProjectFilters) => ['projects', filters],
   project: (id: string) => ['project', id],
+  sections: (projectId?: string) => ['sections', projectId],
+  labels: () => ['labels'],
+  taskEnhancements: (taskId: string, type?: TaskEnhancementType) => ['task-enhancements', taskId, type],
+  timeEntries: (taskId: string) => ['time-entries', taskId],
+  runningTimer: () => ['running-timer'],
   statistics: () => ['statistics'],
+  productivityStatistics: (range: StatisticsRange) => ['statistics', 'productivity', range],
   search: (term: string) => ['search', term],
   todayTasks: () => ['tasks', 'today'],
   overdueTasks: () => ['tasks', 'overdue'],
@@ -28,6 +60,10 @@ export const QUERY_KEYS = {
   tasksByContext: (context: string) => ['tasks', 'context', context],
   highPriorityTasks: () => ['tasks', 'high-priority'],
   tasksByIntegration: (integration: string) => ['tasks', 'integration', integration],
+  integration: (name: string) => ['integration', name],
+  syncConflicts: (filters?: SyncConflictFilters) => ['sync-conflicts', filters],
+  backups: () => ['database', 'backups'],
+  settings: () => ['settings'],
 } as const;
 
 // Task hooks
@@ -60,6 +96,22 @@ export function useTask(id: string) {
   });
 }
 
+// The task followed by its subtasks of any depth, in outline order
+export function useTaskTree(id: string) {
+  return useQuery({
+    queryKey: QUERY_KEYS.taskTree(id),
+    queryFn: async () => {
+      const result = await window.electron.database.getTaskTree(id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch subtasks');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+    enabled: !!id,
+  });
+}
+
 export function useCreateTask() {
   const queryClient = useQueryClient();
   
@@ -74,6 +126,8 @@ export function useCreateTask() {
     onSuccess: (newTask) => {
       // Invalidate all task lists
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      // Project task counts change with the tasks
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
       // Add to specific task cache
       queryClient.setQueryData(QUERY_KEYS.task(newTask.id), newTask);
       // Invalidate statistics
@@ -96,8 +150,13 @@ export function useUpdateTask() {
     onSuccess: (updatedTask) => {
       // Update specific task cache
       queryClient.setQueryData(QUERY_KEYS.task(updatedTask.id), updatedTask);
+      // Completing a task can complete its subtasks too
+      if (updatedTask.subtasks) {
+        queryClient.invalidateQueries({ queryKey: ['task'] });
+      }
       // Invalidate all task lists
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
       // Invalidate statistics
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
     },
@@ -106,6 +165,7 @@ export function useUpdateTask() {
 
 export function useDeleteTask() {
   const queryClient = useQueryClient();
+  const showUndoToast = useUndoToast();
   
   return useMutation({
     mutationFn: async (id: string) => {
@@ -120,8 +180,10 @@ export function useDeleteTask() {
       queryClient.removeQueries({ queryKey: QUERY_KEYS.task(deletedId) });
       // Invalidate all task lists
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
       // Invalidate statistics
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+      showUndoToast('Task deleted');
     },
   });
 }
@@ -176,6 +238,484 @@ export function useCreateProject() {
   });
 }
 
+export function useUpdateProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateProjectData }) => {
+      const result = await window.electron.database.updateProject(id, updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update project');
+      }
+      return result.data!;
+    },
+    onSuccess: (updatedProject) => {
+      queryClient.setQueryData(QUERY_KEYS.project(updatedProject.id), updatedProject);
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+}
+
+export function useDeleteProject() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, reassignTo }: { id: string; reassignTo?: string }) => {
+      const result = await window.electron.database.deleteProject(id, reassignTo);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete project');
+      }
+      return id;
+    },
+    onSuccess: (deletedId) => {
+      queryClient.removeQueries({ queryKey: QUERY_KEYS.project(deletedId) });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+      // The project's tasks moved to another project
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+    },
+  });
+}
+
+export function useReorderProjects() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ parentId, orderedIds }: { parentId: string | null; orderedIds: string[] }) => {
+      const result = await window.electron.database.reorderProjects(parentId, orderedIds);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reorder projects');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+    },
+  });
+}
+
+// Section hooks
+export function useSections(projectId?: string) {
+  return useQuery({
+    queryKey: QUERY_KEYS.sections(projectId),
+    queryFn: async () => {
+      const result = await window.electron.database.getSections(projectId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch sections');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useCreateSection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sectionData: CreateSectionData) => {
+      const result = await window.electron.database.createSection(sectionData);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create section');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+    },
+  });
+}
+
+export function useUpdateSection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateSectionData }) => {
+      const result = await window.electron.database.updateSection(id, updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update section');
+      }
+      return result.data!;
+    },
+    onSuccess: (_section, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+      // The section's tasks moved along with it
+      if (updates.project_id) {
+        queryClient.invalidateQueries({ queryKey: ['tasks'] });
+        queryClient.invalidateQueries({ queryKey: ['projects'] });
+      }
+    },
+  });
+}
+
+export function useDeleteSection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await window.electron.database.deleteSection(id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete section');
+      }
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+      // The section's tasks are left without one
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+    },
+  });
+}
+
+export function useReorderSections() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ projectId, orderedIds }: { projectId: string; orderedIds: string[] }) => {
+      const result = await window.electron.database.reorderSections(projectId, orderedIds);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reorder sections');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+    },
+  });
+}
+
+// Label hooks
+export function useLabels() {
+  return useQuery({
+    queryKey: QUERY_KEYS.labels(),
+    queryFn: async () => {
+      const result = await window.electron.database.getLabels();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch labels');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useCreateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (labelData: CreateLabelData) => {
+      const result = await window.electron.database.createLabel(labelData);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create label');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.labels() });
+    },
+  });
+}
+
+export function useUpdateLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateLabelData }) => {
+      const result = await window.electron.database.updateLabel(id, updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update label');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.labels() });
+      // Tasks carry label names and colors
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+    },
+  });
+}
+
+export function useDeleteLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await window.electron.database.deleteLabel(id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete label');
+      }
+      return id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.labels() });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+    },
+  });
+}
+
+export function useAddTaskLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, labelId }: { taskId: string; labelId: string }) => {
+      const result = await window.electron.database.addTaskLabel(taskId, labelId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add label to task');
+      }
+      return result.data!;
+    },
+    onSuccess: (updatedTask) => {
+      queryClient.setQueryData(QUERY_KEYS.task(updatedTask.id), updatedTask);
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+  });
+}
+
+export function useRemoveTaskLabel() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, labelId }: { taskId: string; labelId: string }) => {
+      const result = await window.electron.database.removeTaskLabel(taskId, labelId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove label from task');
+      }
+      return result.data!;
+    },
+    onSuccess: (updatedTask) => {
+      queryClient.setQueryData(QUERY_KEYS.task(updatedTask.id), updatedTask);
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+  });
+}
+
+export function useSetTaskLabels() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taskId, labelIds }: { taskId: string; labelIds: string[] }) => {
+      const result = await window.electron.database.setTaskLabels(taskId, labelIds);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to set task labels');
+      }
+      return taskId;
+    },
+    onSuccess: (taskId) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.task(taskId) });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+  });
+}
+
+// Task enhancement hooks
+export function useTaskEnhancements(taskId: string, type?: TaskEnhancementType) {
+  return useQuery({
+    queryKey: QUERY_KEYS.taskEnhancements(taskId, type),
+    queryFn: async () => {
+      const result = await window.electron.database.getTaskEnhancements(taskId, type);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch task enhancements');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+    enabled: !!taskId,
+  });
+}
+
+// Enhancement changes move the checklist progress shown on task lists
+function useInvalidateTaskEnhancements() {
+  const queryClient = useQueryClient();
+
+  return (taskId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['task-enhancements', taskId] });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.task(taskId) });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+  };
+}
+
+export function useCreateTaskEnhancement() {
+  const invalidate = useInvalidateTaskEnhancements();
+
+  return useMutation({
+    mutationFn: async (enhancementData: CreateTaskEnhancementData) => {
+      const result = await window.electron.database.createTaskEnhancement(enhancementData);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create task enhancement');
+      }
+      return result.data!;
+    },
+    onSuccess: (enhancement) => invalidate(enhancement.task_id),
+  });
+}
+
+export function useUpdateTaskEnhancement() {
+  const invalidate = useInvalidateTaskEnhancements();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateTaskEnhancementData }) => {
+      const result = await window.electron.database.updateTaskEnhancement(id, updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update task enhancement');
+      }
+      return result.data!;
+    },
+    onSuccess: (enhancement) => invalidate(enhancement.task_id),
+  });
+}
+
+export function useDeleteTaskEnhancement() {
+  const invalidate = useInvalidateTaskEnhancements();
+
+  return useMutation({
+    mutationFn: async ({ id, taskId }: { id: string; taskId: string }) => {
+      const result = await window.electron.database.deleteTaskEnhancement(id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete task enhancement');
+      }
+      return taskId;
+    },
+    onSuccess: (taskId) => invalidate(taskId),
+  });
+}
+
+export function useReorderTaskEnhancements() {
+  const invalidate = useInvalidateTaskEnhancements();
+
+  return useMutation({
+    mutationFn: async ({ taskId, orderedIds }: { taskId: string; orderedIds: string[] }) => {
+      const result = await window.electron.database.reorderTaskEnhancements(taskId, orderedIds);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reorder task enhancements');
+      }
+      return taskId;
+    },
+    onSuccess: (taskId) => invalidate(taskId),
+  });
+}
+
+// Time tracking hooks
+export function useRunningTimer() {
+  return useQuery({
+    queryKey: QUERY_KEYS.runningTimer(),
+    queryFn: async () => {
+      const result = await window.electron.database.getRunningTimer();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch running timer');
+      }
+      return result.data ?? null;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useTimeEntries(taskId: string) {
+  return useQuery({
+    queryKey: QUERY_KEYS.timeEntries(taskId),
+    queryFn: async () => {
+      const result = await window.electron.database.getTimeEntries(taskId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch time entries');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+    enabled: !!taskId,
+  });
+}
+
+// Timer and entry changes move actual_duration, so task queries are refreshed too
+function useInvalidateTimeTracking() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.runningTimer() });
+    queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+    queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    queryClient.invalidateQueries({ queryKey: ['task'] });
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+  };
+}
+
+export function useStartTimer() {
+  const invalidate = useInvalidateTimeTracking();
+
+  return useMutation({
+    mutationFn: async ({ taskId, description }: { taskId: string; description?: string }) => {
+      const result = await window.electron.database.startTimer(taskId, description);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to start timer');
+      }
+      return result.data!;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useStopTimer() {
+  const invalidate = useInvalidateTimeTracking();
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await window.electron.database.stopTimer();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to stop timer');
+      }
+      return result.data!;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateTimeEntry() {
+  const invalidate = useInvalidateTimeTracking();
+
+  return useMutation({
+    mutationFn: async (entryData: CreateTimeEntryData) => {
+      const result = await window.electron.database.createTimeEntry(entryData);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create time entry');
+      }
+      return result.data!;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useUpdateTimeEntry() {
+  const invalidate = useInvalidateTimeTracking();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateTimeEntryData }) => {
+      const result = await window.electron.database.updateTimeEntry(id, updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update time entry');
+      }
+      return result.data!;
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteTimeEntry() {
+  const invalidate = useInvalidateTimeTracking();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await window.electron.database.deleteTimeEntry(id);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete time entry');
+      }
+      return id;
+    },
+    onSuccess: invalidate,
+  });
+}
+
 // Convenience hooks for common queries
 export function useTodayTasks() {
   return useQuery({
@@ -308,6 +848,20 @@ export function useTaskStatistics() {
   });
 }
 
+export function useProductivityStatistics(range: StatisticsRange) {
+  return useQuery({
+    queryKey: QUERY_KEYS.productivityStatistics(range),
+    queryFn: async () => {
+      const result = await window.electron.database.getProductivityStatistics(range);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch productivity statistics');
+      }
+      return result.data!;
+    },
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
 // Integration hooks
 export function useTasksByIntegration(integration: string) {
   return useQuery({
@@ -346,9 +900,121 @@ export function useUpdateTaskIntegration() {
   });
 }
 
+export function useIntegration(name: IntegrationName) {
+  return useQuery({
+    queryKey: QUERY_KEYS.integration(name),
+    queryFn: async () => {
+      const result = await window.electron.database.getIntegration(name);
+      // An integration that has never synced has no row yet
+      return result.success ? result.data! : null;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useSaveIntegrationState() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, data }: { name: IntegrationName; data: UpdateIntegrationData }) => {
+      const result = await window.electron.database.saveIntegrationState(name, data);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save integration');
+      }
+      return result.data!;
+    },
+    onSuccess: (_integration, { name }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.integration(name) });
+    },
+  });
+}
+
+// Sync hooks
+export function useSyncIntegration() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (integration: TaskProvider) => {
+      const provider = getTaskProvider(integration)!;
+      let result: SyncResult;
+
+      if (provider.syncLocal) {
+        result = await provider.syncLocal();
+      } else {
+        let accessToken: string | null;
+        if (provider.auth.type === 'token') {
+          // Pasted tokens are not managed by TokenManager
+          const { secureStorage } = await import('../utils/secureStorage');
+          accessToken = await secureStorage.getItem(provider.auth.storageKey);
+        } else {
+          const { tokenManager } = await import('../utils/tokenManager');
+          accessToken = await tokenManager.getValidAccessToken(integration as 'todoist' | 'msToDo');
+        }
+        if (!accessToken) {
+          throw new Error(`Not authenticated with ${provider.name}`);
+        }
+        result = await window.electron.database.sync(integration, accessToken);
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to sync');
+      }
+      return result;
+    },
+    onSuccess: (_result, integration) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.integration(integration) });
+      queryClient.invalidateQueries({ queryKey: ['sync-conflicts'] });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+    },
+  });
+}
+
+// Sync conflict hooks
+export function useSyncConflicts(filters?: SyncConflictFilters) {
+  return useQuery({
+    queryKey: QUERY_KEYS.syncConflicts(filters),
+    queryFn: async () => {
+      const result = await window.electron.database.getSyncConflicts(filters);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch sync conflicts');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useResolveSyncConflict() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, resolution, choices }: {
+      id: string;
+      resolution: ConflictResolution;
+      choices?: Partial<Record<SyncField, 'local' | 'remote'>>;
+    }) => {
+      const result = await window.electron.database.resolveSyncConflict(id, resolution, choices);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to resolve sync conflict');
+      }
+      return result.data!;
+    },
+    onSuccess: (conflict) => {
+      queryClient.invalidateQueries({ queryKey: ['sync-conflicts'] });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.task(conflict.task_id) });
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+    },
+  });
+}
+
 // Bulk operations
 export function useBulkUpdateTasks() {
   const queryClient = useQueryClient();
+  const showUndoToast = useUndoToast();
   
   return useMutation({
     mutationFn: async (updates: Array<{ id: string; data: UpdateTaskData }>) => {
@@ -358,16 +1024,19 @@ export function useBulkUpdateTasks() {
       }
       return result;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       // Invalidate all task-related queries
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+      showUndoToast(result.processed === 1 ? 'Task updated' : `${result.processed} tasks updated`);
     },
   });
 }
 
 export function useBulkDeleteTasks() {
   const queryClient = useQueryClient();
+  const showUndoToast = useUndoToast();
   
   return useMutation({
     mutationFn: async (taskIds: string[]) => {
@@ -384,7 +1053,173 @@ export function useBulkDeleteTasks() {
       });
       // Invalidate all task-related queries
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+      showUndoToast(result.processed === 1 ? 'Task deleted' : `${result.processed} tasks deleted`);
+    },
+  });
+}
+
+// Undo/redo hooks
+function useJournalMutation(direction: 'undo' | 'redo') {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await window.electron.database[direction]();
+      if (!result.success) {
+        throw new Error(result.error || `Failed to ${direction}`);
+      }
+      return result.data;
+    },
+    onSuccess: (entry) => {
+      if (!entry) {
+        toast(direction === 'undo' ? 'Nothing to undo' : 'Nothing to redo');
+        return;
+      }
+
+      // Restored tasks bring back their labels, checklist items and time entries
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+      queryClient.invalidateQueries({ queryKey: ['task-enhancements'] });
+      queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.runningTimer() });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+      toast(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${entry.description}`);
+    },
+    onError: (error) => {
+      toast.error((error as Error).message);
+    },
+  });
+}
+
+export function useUndo() {
+  return useJournalMutation('undo');
+}
+
+export function useRedo() {
+  return useJournalMutation('redo');
+}
+
+// Toast offering to undo the change just made
+function useUndoToast() {
+  const { mutate: undo } = useUndo();
+
+  return (message: string) => {
+    toast(message, { action: { label: 'Undo', onClick: () => undo() } });
+  };
+}
+
+// Settings hooks
+export function useSettings() {
+  return useQuery({
+    queryKey: QUERY_KEYS.settings(),
+    queryFn: async () => {
+      const result = await window.electron.database.getSettings();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch settings');
+      }
+      return result.data!;
+    },
+    staleTime: Infinity,
+  });
+}
+
+export function useUpdateSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (updates: Partial<AppSettings>) => {
+      const result = await window.electron.database.updateSettings(updates);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save settings');
+      }
+      return result.data!;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(QUERY_KEYS.settings(), settings);
+    },
+  });
+}
+
+// Import/export hooks
+export function useExportData() {
+  return useMutation({
+    mutationFn: async (format: DataFormat) => {
+      const result = await window.electron.database.exportData(format);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to export data');
+      }
+      return result.data!;
+    },
+  });
+}
+
+export function useImportData() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ format, content, options }: { format: DataFormat; content: string; options?: ImportOptions }) => {
+      return window.electron.database.importData(format, content, options);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['task'] });
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['sections'] });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.labels() });
+      queryClient.invalidateQueries({ queryKey: ['time-entries'] });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.statistics() });
+    },
+  });
+}
+
+// Backup hooks
+export function useBackups() {
+  return useQuery({
+    queryKey: QUERY_KEYS.backups(),
+    queryFn: async () => {
+      const result = await window.electron.database.getBackups();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch backups');
+      }
+      return result.data || [];
+    },
+  });
+}
+
+export function useCreateBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await window.electron.database.createBackup();
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to back up database');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.backups() });
+    },
+  });
+}
+
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (fileName: string) => {
+      const result = await window.electron.database.restoreBackup(fileName);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore backup');
+      }
+      return result.data!;
+    },
+    onSuccess: () => {
+      // Every cached query comes from the replaced database
+      queryClient.invalidateQueries();
     },
   });
 }
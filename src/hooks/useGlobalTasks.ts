@@ -2,13 +2,15 @@ import { useMemo } from 'react';
 import { useAuth } from './useAuth';
 import { useTaskSource } from '../contexts/TaskSourceContext';
 import { useUnifiedTasks } from './useUnifiedTasks';
-import { useTasks, useProjects } from './useDatabase';
+import { useTasks, useProjects, useSections } from './useDatabase';
 import { useErrorHandler } from './useErrorHandler';
-import type { Task, Project } from '../types/database';
+import { getTaskProviders } from '../providers';
+import type { Task, Project, Section } from '../types/database';
 
 interface GlobalTasksData {
   tasks: Task[];
   projects: Project[];
+  sections: Section[];
   isLoading: boolean;
   error: Error | null;
 }
@@ -35,6 +37,7 @@ export const useGlobalTasks = (projectId?: string): GlobalTasksData => {
     projectId ? { project_id: projectId } : {}
   );
   const { data: localProjects, isLoading: localProjectsLoading } = useProjects();
+  const { data: localSections } = useSections(projectId);
 
   // Unified provider tasks (Todoist, Microsoft To-Do, etc.)
   const { data: unifiedData, isLoading: unifiedLoading, error: unifiedError } = useUnifiedTasks(
@@ -89,6 +92,14 @@ export const useGlobalTasks = (projectId?: string): GlobalTasksData => {
     }
   }, [taskSource, localProjects, unifiedData?.projects]);
 
+  // Sections of the shown projects
+  const sections = useMemo((): Section[] => {
+    const local = taskSource === 'provider' ? [] : localSections || [];
+    const unified = taskSource === 'local' ? [] : unifiedData?.sections || [];
+    const result = [...local, ...unified];
+    return projectId ? result.filter(section => section.project_id === projectId) : result;
+  }, [taskSource, localSections, unifiedData?.sections, projectId]);
+
   // Determine loading state
   const isLoading = useMemo(() => {
     switch (taskSource) {
@@ -125,8 +136,9 @@ export const useGlobalTasks = (projectId?: string): GlobalTasksData => {
     if (sourceError) {
       // Skip authentication errors - they're handled by the auth system
       const errorMessage = sourceError instanceof Error ? sourceError.message : String(sourceError);
-      if (errorMessage.includes('No Microsoft To-Do access token') || 
-          errorMessage.includes('No Todoist access token') ||
+      const isOAuthError = sourceError instanceof Error && getTaskProviders()
+        .some(provider => provider.auth.type === 'oauth' && provider.isAuthError?.(sourceError));
+      if (isOAuthError ||
           errorMessage.includes('Please sign in again') ||
           errorMessage.includes('Authentication session expired')) {
         return null; // Don't treat auth errors as application errors
@@ -142,6 +154,7 @@ export const useGlobalTasks = (projectId?: string): GlobalTasksData => {
   return {
     tasks,
     projects,
+    sections,
     isLoading,
     error,
   };
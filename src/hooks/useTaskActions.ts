@@ -0,0 +1,174 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useUpdateTask, useDeleteTask } from './useDatabase';
+import { providerTasksKey } from './useUnifiedTasks';
+import { getTaskProvider, getTaskProviderForTask } from '../providers';
+import type { ProviderTaskData, TaskProvider, TaskProviderDefinition } from '../providers';
+import type { Task, CreateTaskData, UpdateTaskData } from '../types/database';
+
+type ProviderTaskChange =
+  | { type: 'update'; task: Task; updates: UpdateTaskData }
+  | { type: 'complete'; task: Task; completed: boolean }
+  | { type: 'delete'; task: Task };
+
+interface ActionOptions {
+  onSuccess?: () => void;
+}
+
+const requireProvider = (task: Task): TaskProviderDefinition => {
+  const provider = getTaskProviderForTask(task);
+  if (!provider) {
+    throw new Error(`No provider found for task ${task.id}`);
+  }
+  return provider;
+};
+
+// The provider's tasks as they look once the change is made
+const applyChange = (tasks: Task[], change: ProviderTaskChange): Task[] => {
+  switch (change.type) {
+    case 'update':
+      return tasks.map(task => task.id === change.task.id ? { ...task, ...change.updates } as Task : task);
+    case 'complete':
+      return tasks.map(task => task.id === change.task.id
+        ? { ...task, status: change.completed ? 'completed' : 'pending' }
+        : task);
+    case 'delete':
+      return tasks.filter(task => task.id !== change.task.id);
+  }
+};
+
+/**
+ * Writes a task change back to the provider the task was fetched from.
+ *
+ * The change shows at once in every cached query of the provider and is
+ * rolled back when the provider refuses it. The queries are refetched
+ * afterwards, as completing a repeating task moves its due date.
+ */
+export function useProviderTaskMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (change: ProviderTaskChange): Promise<Task | undefined> => {
+      const provider = requireProvider(change.task);
+      switch (change.type) {
+        case 'update':
+          if (!provider.updateTask) {
+            throw new Error(`${provider.name} tasks cannot be edited`);
+          }
+          return provider.updateTask(change.task, change.updates);
+        case 'complete':
+          if (!provider.completeTask) {
+            throw new Error(`${provider.name} tasks cannot be completed`);
+          }
+          await provider.completeTask(change.task, change.completed);
+          return undefined;
+        case 'delete':
+          if (!provider.deleteTask) {
+            throw new Error(`${provider.name} tasks cannot be deleted`);
+          }
+          await provider.deleteTask(change.task);
+          return undefined;
+      }
+    },
+    onMutate: async (change) => {
+      const queryKey = providerTasksKey(requireProvider(change.task).id);
+      // Keep a refetch in flight from overwriting the optimistic update
+      await queryClient.cancelQueries({ queryKey });
+
+      const previous = queryClient.getQueriesData<ProviderTaskData>({ queryKey });
+      queryClient.setQueriesData<ProviderTaskData>({ queryKey }, data =>
+        data && { ...data, tasks: applyChange(data.tasks, change) });
+      return { previous };
+    },
+    onSuccess: (updatedTask, change) => {
+      if (updatedTask) {
+        queryClient.setQueriesData<ProviderTaskData>({ queryKey: providerTasksKey(requireProvider(change.task).id) }, data =>
+          data && { ...data, tasks: data.tasks.map(task => task.id === updatedTask.id ? updatedTask : task) });
+      }
+    },
+    onError: (error, change, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+      toast.error(`${requireProvider(change.task).name}: ${(error as Error).message}`);
+    },
+    onSettled: (_data, _error, change) => {
+      queryClient.invalidateQueries({ queryKey: providerTasksKey(requireProvider(change.task).id) });
+    },
+  });
+}
+
+/**
+ * Creates a task in a provider instead of the local database.
+ * The new task is added to the cached provider queries before they refetch.
+ */
+export function useCreateProviderTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ provider, data }: { provider: TaskProvider; data: CreateTaskData }) => {
+      const definition = getTaskProvider(provider);
+      if (!definition?.createTask) {
+        throw new Error(`Tasks cannot be created in ${definition?.name ?? provider}`);
+      }
+      return definition.createTask(data);
+    },
+    onSuccess: (createdTask, { provider }) => {
+      queryClient.setQueriesData<ProviderTaskData>({ queryKey: providerTasksKey(provider) }, data =>
+        data && { ...data, tasks: [createdTask, ...data.tasks] });
+      queryClient.invalidateQueries({ queryKey: providerTasksKey(provider) });
+    },
+  });
+}
+
+/**
+ * Complete, edit and delete a task wherever it is stored.
+ * Local tasks, including ones copied from a provider by a sync, go through the
+ * database; tasks fetched from a provider are changed there.
+ */
+export function useTaskActions(task: Task) {
+  const isLocalTask = !!task.is_local;
+  const provider = isLocalTask ? undefined : getTaskProviderForTask(task);
+
+  const updateTask = useUpdateTask();
+  const deleteTask = useDeleteTask();
+  const providerMutation = useProviderTaskMutation();
+
+  const update = (updates: UpdateTaskData, options?: ActionOptions) => {
+    if (isLocalTask) {
+      updateTask.mutate({ id: task.id, updates }, options);
+    } else {
+      providerMutation.mutate({ type: 'update', task, updates }, options);
+    }
+  };
+
+  const setCompleted = (completed: boolean) => {
+    if (isLocalTask) {
+      // Refused e.g. while subtasks are open and the settings require them done first
+      updateTask.mutate(
+        { id: task.id, updates: { status: completed ? 'completed' : 'pending' } },
+        { onError: (error) => toast.error(error.message) }
+      );
+    } else {
+      providerMutation.mutate({ type: 'complete', task, completed });
+    }
+  };
+
+  const remove = (options?: ActionOptions) => {
+    if (isLocalTask) {
+      deleteTask.mutate(task.id, options);
+    } else {
+      providerMutation.mutate({ type: 'delete', task }, options);
+    }
+  };
+
+  return {
+    isLocalTask,
+    canEdit: isLocalTask || !!provider?.capabilities.update,
+    canComplete: isLocalTask || !!provider?.capabilities.complete,
+    canDelete: isLocalTask || !!provider?.capabilities.delete,
+    update,
+    setCompleted,
+    remove,
+    isPending: updateTask.isPending || deleteTask.isPending || providerMutation.isPending,
+    error: updateTask.error || deleteTask.error || providerMutation.error,
+  };
+}
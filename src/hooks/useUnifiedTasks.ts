@@ -1,18 +1,36 @@
 import { useMemo } from 'react';
+import { useQueries } from '@tanstack/react-query';
+import type { UseQueryResult } from '@tanstack/react-query';
 import { useAuth } from './useAuth';
-import { useConvertedTasks } from './useConvertedTasks';
-import { useMsToDoTasks } from './useMsToDoTasks';
-import type { Task, Project, Label } from '../types/database';
+import { getTaskProviders } from '../providers';
+import type { ProviderTaskData } from '../providers';
+import type { Task, Project, Section, Label } from '../types/database';
 import type { TaskProvider } from '../utils/auth';
 
 export interface UnifiedTaskData {
   tasks: Task[];
   projects: Project[];
+  sections: Section[];
   labels: Label[];
   activeProvider: TaskProvider | null;
   availableProviders: TaskProvider[];
 }
 
+// Prefix of every query holding a provider's tasks, for updating them all at once
+export const providerTasksKey = (provider: TaskProvider) => ['provider-tasks', provider];
+
+// Keeps the queries' results with the data of each provider that has loaded.
+// Defined once so useQueries only recombines when a query result changes.
+const combineProviderQueries = (queries: UseQueryResult<ProviderTaskData>[]) => {
+  const providerData: Partial<Record<TaskProvider, ProviderTaskData>> = {};
+  getTaskProviders().forEach((provider, index) => {
+    if (queries[index].data) {
+      providerData[provider.id] = queries[index].data;
+    }
+  });
+  return { queries, providerData };
+};
+
 export interface UseUnifiedTasksOptions {
   provider?: TaskProvider;
   includeAllProviders?: boolean;
@@ -31,96 +49,67 @@ export const useUnifiedTasks = (
 
   // Determine which provider(s) to use
   const targetProvider = forcedProvider || activeProvider;
-  
+  const registered = getTaskProviders();
+
   // Get available providers
-  const availableProviders = useMemo(() => {
-    const available: TaskProvider[] = [];
-    if (providers.todoist.isAuthenticated) available.push('todoist');
-    if (providers.msToDo.isAuthenticated) available.push('msToDo');
-    return available;
-  }, [providers]);
-
-  // Fetch data from Todoist
-  const todoistQuery = useConvertedTasks([...queryKey, 'todoist']);
-  
-  // Fetch data from Microsoft To-Do
-  const msToDoQuery = useMsToDoTasks([...queryKey, 'mstodo']);
+  const availableProviders = useMemo(
+    () => getTaskProviders().map(provider => provider.id).filter(id => providers[id].isAuthenticated),
+    [providers]
+  );
+
+  // Providers whose tasks are shown
+  const included = useMemo(
+    () => availableProviders.filter(id => includeAllProviders || id === targetProvider),
+    [availableProviders, includeAllProviders, targetProvider]
+  );
+
+  // One query per registered provider, only enabled when it is authenticated.
+  // Converted tasks are cached so task changes can be applied to them directly.
+  const { queries, providerData } = useQueries({
+    queries: registered.map(provider => ({
+      queryKey: [...providerTasksKey(provider.id), ...queryKey, providers[provider.id].isAuthenticated],
+      queryFn: async (): Promise<ProviderTaskData> => provider.convert(await provider.fetch(providers[provider.id].token)),
+      staleTime: 5 * 60 * 1000, // 5 minutes
+      enabled: providers[provider.id].isAuthenticated,
+      retry: (failureCount: number, error: Error) => {
+        // Retrying cannot fix an authentication error
+        if (provider.isAuthError?.(error)) {
+          return false;
+        }
+        return failureCount < 3;
+      },
+    })),
+    combine: combineProviderQueries,
+  });
+
+  const includedQueries = registered
+    .map((provider, index) => ({ id: provider.id, query: queries[index] }))
+    .filter(({ id }) => included.includes(id));
 
   // Determine loading and error states
-  const isLoading = useMemo(() => {
-    if (includeAllProviders) {
-      return (
-        (providers.todoist.isAuthenticated && todoistQuery.isLoading) ||
-        (providers.msToDo.isAuthenticated && msToDoQuery.isLoading)
-      );
-    }
-    
-    if (targetProvider === 'todoist') {
-      return providers.todoist.isAuthenticated && todoistQuery.isLoading;
-    }
-    
-    if (targetProvider === 'msToDo') {
-      return providers.msToDo.isAuthenticated && msToDoQuery.isLoading;
-    }
-    
-    return false;
-  }, [includeAllProviders, targetProvider, providers, todoistQuery.isLoading, msToDoQuery.isLoading]);
-
-  const error = useMemo(() => {
-    if (includeAllProviders) {
-      return todoistQuery.error || msToDoQuery.error;
-    }
-    
-    if (targetProvider === 'todoist') {
-      return todoistQuery.error;
-    }
-    
-    if (targetProvider === 'msToDo') {
-      return msToDoQuery.error;
-    }
-    
-    return null;
-  }, [includeAllProviders, targetProvider, todoistQuery.error, msToDoQuery.error]);
+  const isLoading = includedQueries.some(({ query }) => query.isLoading);
+  const error = includedQueries.find(({ query }) => query.error)?.query.error || null;
 
   // Combine data from all sources
   const data = useMemo((): UnifiedTaskData | null => {
     const result: UnifiedTaskData = {
       tasks: [],
       projects: [],
+      sections: [],
       labels: [],
       activeProvider: targetProvider,
       availableProviders,
     };
 
-    if (includeAllProviders) {
-      // Combine data from all authenticated providers
-      if (providers.todoist.isAuthenticated && todoistQuery.data) {
-        result.tasks.push(...todoistQuery.data.tasks);
-        result.projects.push(...todoistQuery.data.projects);
-        result.labels.push(...todoistQuery.data.labels);
-      }
-      
-      if (providers.msToDo.isAuthenticated && msToDoQuery.data) {
-        result.tasks.push(...msToDoQuery.data.tasks);
-        result.projects.push(...msToDoQuery.data.projects);
-        result.labels.push(...msToDoQuery.data.labels);
-      }
-    } else {
-      // Use data from the target provider only
-      let sourceData = null;
-      
-      if (targetProvider === 'todoist' && todoistQuery.data) {
-        sourceData = todoistQuery.data;
-      } else if (targetProvider === 'msToDo' && msToDoQuery.data) {
-        sourceData = msToDoQuery.data;
-      }
-      
+    included.forEach(id => {
+      const sourceData = providerData[id];
       if (sourceData) {
-        result.tasks = sourceData.tasks;
-        result.projects = sourceData.projects;
-        result.labels = sourceData.labels;
+        result.tasks.push(...sourceData.tasks);
+        result.projects.push(...sourceData.projects);
+        result.sections.push(...(sourceData.sections || []));
+        result.labels.push(...sourceData.labels);
       }
-    }
+    });
 
     // Sort tasks by creation date (most recent first)
     result.tasks.sort((a, b) => 
@@ -134,14 +123,7 @@ export const useUnifiedTasks = (
     result.labels.sort((a, b) => a.name.localeCompare(b.name));
 
     return result;
-  }, [
-    includeAllProviders,
-    targetProvider,
-    availableProviders,
-    providers,
-    todoistQuery.data,
-    msToDoQuery.data,
-  ]);
+  }, [targetProvider, availableProviders, included, providerData]);
 
   return {
     data,
@@ -149,16 +131,10 @@ export const useUnifiedTasks = (
     error,
     // Helper methods
     refetch: () => {
-      if (includeAllProviders || targetProvider === 'todoist') {
-        todoistQuery.refetch?.();
-      }
-      if (includeAllProviders || targetProvider === 'msToDo') {
-        msToDoQuery.refetch?.();
-      }
+      includedQueries.forEach(({ query }) => query.refetch());
     },
     // Provider-specific data access
-    todoistData: todoistQuery.data,
-    msToDoData: msToDoQuery.data,
+    providerData,
   };
 };
 
@@ -184,11 +160,10 @@ export const useProviderStatus = () => {
   
   return {
     activeProvider,
-    available: {
-      todoist: providers.todoist.isAuthenticated,
-      msToDo: providers.msToDo.isAuthenticated,
-    },
-    hasAnyProvider: providers.todoist.isAuthenticated || providers.msToDo.isAuthenticated,
-    hasMultipleProviders: providers.todoist.isAuthenticated && providers.msToDo.isAuthenticated,
+    available: Object.fromEntries(
+      getTaskProviders().map(provider => [provider.id, providers[provider.id].isAuthenticated])
+    ) as Record<TaskProvider, boolean>,
+    hasAnyProvider: Object.values(providers).some(p => p.isAuthenticated),
+    hasMultipleProviders: Object.values(providers).filter(p => p.isAuthenticated).length > 1,
   };
 };
\ No newline at end of file
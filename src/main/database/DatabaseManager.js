@@ -2,20 +2,81 @@ import Database from 'better-sqlite3';
 import { app } from 'electron';
 import path from 'path';
 import fs from 'fs';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { parseRRule, formatRRule, getNextOccurrence, anchorRule } from './recurrence.js';
+import { Migrator, loadMigrations } from './migrator.js';
+import { createBackupFileName } from './backups.js';
+
+// Each task's labels as a JSON array, so task queries return them without a lookup per row
+const TASK_LABELS_COLUMN = `(
+  SELECT json_group_array(json_object(
+    'id', l.id, 'name', l.name, 'color', l.color, 'description', l.description,
+    'sort_order', l.sort_order, 'integrations', l.integrations, 'created_at', l.created_at
+  ))
+  FROM (
+    SELECT l.* FROM task_labels tl
+    JOIN labels l ON tl.label_id = l.id
+    WHERE tl.task_id = t.id
+    ORDER BY l.sort_order, l.name
+  ) l
+) as labels`;
+
+// Checklist progress from the task's checkpoint enhancements
+const TASK_CHECKLIST_COLUMNS = `
+  (SELECT COUNT(*) FROM task_enhancements e WHERE e.task_id = t.id AND e.type = 'checkpoint') as checklist_total,
+  (SELECT COUNT(*) FROM task_enhancements e WHERE e.task_id = t.id AND e.type = 'checkpoint' AND e.completed = 1) as checklist_completed`;
+
+// Progress of the task's direct subtasks
+const TASK_SUBTASK_COLUMNS = `
+  (SELECT COUNT(*) FROM tasks s WHERE s.parent_id = t.id) as subtasks_total,
+  (SELECT COUNT(*) FROM tasks s WHERE s.parent_id = t.id AND s.status = 'completed') as subtasks_completed`;
+
+// Ids of the subtasks of any depth of the task bound to the parameter, parents
+// before their children. UNION rather than UNION ALL ends on a parent_id cycle.
+const TASK_DESCENDANTS_QUERY = `
+  WITH RECURSIVE descendants(id) AS (
+    SELECT id FROM tasks WHERE parent_id = ?
+    UNION
+    SELECT child.id FROM tasks child JOIN descendants d ON child.parent_id = d.id
+  )
+  SELECT id FROM descendants`;
+
+// Open tasks of each project, so project lists do not need the tasks to count them
+const PROJECT_TASK_COUNT_COLUMN = `(
+  SELECT COUNT(*) FROM tasks t WHERE t.project_id = projects.id AND t.status NOT IN ('completed', 'cancelled')
+) as task_count`;
+
+// Ids of the subprojects of any depth of the project bound to the parameter
+const PROJECT_DESCENDANTS_QUERY = `
+  WITH RECURSIVE descendants(id) AS (
+    SELECT id FROM projects WHERE parent_id = ?
+    UNION
+    SELECT child.id FROM projects child JOIN descendants d ON child.parent_id = d.id
+  )
+  SELECT id FROM descendants`;
+
+// Takes the tasks of deleted projects unless another project is chosen
+const INBOX_PROJECT_ID = 'proj_inbox';
+
+const DEFAULT_SETTINGS = {
+  subtask_completion: 'cascade',
+  quick_capture: {
+    shortcut: 'CommandOrControl+Shift+Space',
+    projectId: 'proj_inbox',
+  },
+};
+
+// Undo history kept in operation_journal
+const MAX_JOURNAL_ENTRIES = 100;
 
 export class DatabaseManager {
   static instance;
 
   constructor() {
-    const dbPath = path.join(app.getPath('userData'), 'openza.db');
-    console.log('Database path:', dbPath);
+    this.dbPath = path.join(app.getPath('userData'), 'openza.db');
+    console.log('Database path:', this.dbPath);
     
-    this.db = new Database(dbPath);
+    this.db = new Database(this.dbPath);
     this.configureDatabase();
     this.initializeDatabase();
   }
@@ -39,11 +100,6 @@ export class DatabaseManager {
 
   initializeDatabase() {
     try {
-      // Read and execute schema
-      const schemaPath = path.join(__dirname, 'schema.sql');
-      const schema = fs.readFileSync(schemaPath, 'utf8');
-      this.db.exec(schema);
-      
       this.runMigrations();
       console.log('Database initialized successfully');
     } catch (error) {
@@ -52,42 +108,40 @@ export class DatabaseManager {
     }
   }
 
+  // Schema changes are the SQL files in ./migrations, see migrator.ts
   runMigrations() {
-    const currentVersion = this.getSchemaVersion();
-    const migrations = this.getMigrations();
-    
-    for (const [version, migration] of migrations) {
-      if (version > currentVersion) {
-        console.log(`Running migration to version ${version}`);
-        this.db.transaction(() => {
-          migration(this.db);
-          this.setSchemaVersion(version);
-        })();
-      }
+    const migrator = new Migrator(this.db);
+
+    // Development only: OPENZA_MIGRATE_TO=<version> reverts to that version
+    // first, so migrations edited since they were applied run again
+    const target = process.env.OPENZA_MIGRATE_TO;
+    if (target && !app.isPackaged) {
+      migrator.rollback(Number(target));
     }
-  }
 
-  getSchemaVersion() {
-    try {
-      const result = this.db.prepare('PRAGMA user_version').get();
-      return result.user_version;
-    } catch {
-      return 0;
+    if (migrator.getCurrentVersion() > 0 && migrator.getPendingMigrations().length > 0) {
+      migrator.verify();
+      this.backupBeforeMigration();
     }
+    migrator.migrate();
+  }
+
+  // Synchronous copy, as migrations run while the database opens; they are not run without one
+  backupBeforeMigration() {
+    const directory = this.getBackupDirectory();
+    fs.mkdirSync(directory, { recursive: true });
+    const file = path.join(directory, createBackupFileName());
+    console.log('Backing up database before migrating:', file);
+    this.db.prepare('VACUUM INTO ?').run(file);
   }
 
-  setSchemaVersion(version) {
-    this.db.exec(`PRAGMA user_version = ${version}`);
+  // The version this build migrates to; databases above it come from a newer release
+  getLatestSchemaVersion() {
+    return Math.max(0, ...loadMigrations().map(migration => migration.version));
   }
 
-  getMigrations() {
-    return new Map([
-      [1, (db) => {
-        // Initial schema already applied in initializeDatabase
-        console.log('Migration 1: Initial schema');
-      }],
-      // Future migrations will be added here
-    ]);
+  getBackupDirectory() {
+    return path.join(path.dirname(this.dbPath), 'backups');
   }
 
   // Task operations
@@ -95,26 +149,39 @@ export class DatabaseManager {
     try {
       const id = taskData.id || this.generateId();
       const now = new Date().toISOString();
+      const rule = taskData.recurrence ? parseRRule(taskData.recurrence) : undefined;
+
+      if (taskData.recurrence && !rule) {
+        return { success: false, error: 'Invalid recurrence rule' };
+      }
+
+      // A task in a section belongs to the section's project
+      const section = taskData.section_id ? this.getSectionById(taskData.section_id).data : undefined;
+      if (taskData.section_id && !section) {
+        return { success: false, error: 'Section not found' };
+      }
       
       const stmt = this.db.prepare(`
         INSERT INTO tasks (
-          id, title, description, project_id, parent_id, priority, status,
-          due_date, due_time, estimated_duration, energy_level, 
+          id, title, description, project_id, section_id, parent_id, priority, status,
+          due_date, due_time, recurrence, estimated_duration, energy_level,
           context, focus_time, notes, source_task, integrations,
-          created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          completed_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
         id,
         taskData.title,
         taskData.description || null,
-        taskData.project_id || null,
+        section?.project_id || taskData.project_id || null,
+        section?.id || null,
         taskData.parent_id || null,
         taskData.priority || 2,
         taskData.status || 'pending',
         taskData.due_date || null,
         taskData.due_time || null,
+        rule ? formatRRule(rule) : null,
         taskData.estimated_duration || null,
         taskData.energy_level || 2,
         taskData.context || 'work',
@@ -122,6 +189,7 @@ export class DatabaseManager {
         taskData.notes || null,
         taskData.source_task ? JSON.stringify(taskData.source_task) : null,
         taskData.integrations ? JSON.stringify(taskData.integrations) : null,
+        taskData.status === 'completed' ? now : null,
         now,
         now
       );
@@ -137,7 +205,7 @@ export class DatabaseManager {
   getTaskById(id) {
     try {
       const stmt = this.db.prepare(`
-        SELECT t.*, p.name as project_name, p.color as project_color
+        SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS}
         FROM tasks t
         LEFT JOIN projects p ON t.project_id = p.id
         WHERE t.id = ?
@@ -159,7 +227,7 @@ export class DatabaseManager {
   getTasks(filters = {}) {
     try {
       let query = `
-        SELECT t.*, p.name as project_name, p.color as project_color
+        SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS}
         FROM tasks t
         LEFT JOIN projects p ON t.project_id = p.id
         WHERE 1=1
@@ -182,9 +250,21 @@ export class DatabaseManager {
         params.push(filters.project_id);
       }
 
+      if (filters.section_id !== undefined) {
+        if (filters.section_id === null) {
+          query += ` AND t.section_id IS NULL`;
+        } else {
+          query += ` AND t.section_id = ?`;
+          params.push(filters.section_id);
+        }
+      }
+
       if (filters.parent_id !== undefined) {
         if (filters.parent_id === null) {
           query += ` AND t.parent_id IS NULL`;
+        } else if (filters.include_subtasks) {
+          query += ` AND t.id IN (${TASK_DESCENDANTS_QUERY})`;
+          params.push(filters.parent_id);
         } else {
           query += ` AND t.parent_id = ?`;
           params.push(filters.parent_id);
@@ -220,9 +300,24 @@ export class DatabaseManager {
         query += ` AND json_extract(t.integrations, '$.${filters.has_integration}') IS NOT NULL`;
       }
 
+      if (filters.labels && filters.labels.length > 0) {
+        const labelMatch = `
+          SELECT COUNT(DISTINCT l.name) FROM task_labels tl
+          JOIN labels l ON tl.label_id = l.id
+          WHERE tl.task_id = t.id AND l.name IN (${filters.labels.map(() => '?').join(',')})
+        `;
+        if (filters.labels_match === 'all') {
+          query += ` AND (${labelMatch}) = ?`;
+          params.push(...filters.labels, new Set(filters.labels).size);
+        } else {
+          query += ` AND (${labelMatch}) > 0`;
+          params.push(...filters.labels);
+        }
+      }
+
       if (filters.search) {
         query = `
-          SELECT t.*, p.name as project_name, p.color as project_color,
+          SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS},
                  ts.rank
           FROM task_search ts
           JOIN tasks t ON t.rowid = ts.rowid
@@ -261,11 +356,37 @@ export class DatabaseManager {
       const setParts = [];
       const params = [];
 
+      if (updates.parent_id && (updates.parent_id === id || this.getDescendantIds(id).includes(updates.parent_id))) {
+        return { success: false, error: 'A task cannot become a subtask of itself or of its own subtasks' };
+      }
+
+      if (updates.recurrence) {
+        const rule = parseRRule(updates.recurrence);
+        if (!rule) {
+          return { success: false, error: 'Invalid recurrence rule' };
+        }
+        updates = { ...updates, recurrence: formatRRule(rule) };
+      }
+
+      // A task in a section belongs to the section's project
+      if (updates.section_id) {
+        const section = this.getSectionById(updates.section_id);
+        if (!section.success) {
+          return { success: false, error: section.error };
+        }
+        updates = { ...updates, project_id: section.data.project_id };
+      }
+
       // Build dynamic UPDATE query
       Object.entries(updates).forEach(([key, value]) => {
-        if (key === 'integrations' && value) {
+        if (key === 'updated_at') {
+          return;
+        } else if ((key === 'integrations' || key === 'source_task') && value) {
           setParts.push(`${key} = ?`);
           params.push(JSON.stringify(value));
+        } else if (typeof value === 'boolean') {
+          setParts.push(`${key} = ?`);
+          params.push(value ? 1 : 0);
         } else if (value !== undefined) {
           setParts.push(`${key} = ?`);
           params.push(value);
@@ -276,13 +397,35 @@ export class DatabaseManager {
         return { success: false, error: 'No fields to update' };
       }
 
+      // Moved to another project, the task leaves its section
+      if (updates.project_id !== undefined && updates.section_id === undefined) {
+        setParts.push('section_id = CASE WHEN (SELECT project_id FROM sections WHERE id = section_id) = ? THEN section_id END');
+        params.push(updates.project_id);
+      }
+
+      // Keep the original completion time when an already completed task is saved again
+      if (updates.status !== undefined && updates.completed_at === undefined) {
+        setParts.push(`completed_at = CASE WHEN ? = 'completed' THEN COALESCE(completed_at, ?) ELSE NULL END`);
+        params.push(updates.status, new Date().toISOString());
+      }
+
       setParts.push('updated_at = ?');
-      params.push(new Date().toISOString());
+      params.push(updates.updated_at || new Date().toISOString());
       params.push(id);
 
       const query = `UPDATE tasks SET ${setParts.join(', ')} WHERE id = ?`;
       const stmt = this.db.prepare(query);
-      const result = stmt.run(...params);
+      const previous = updates.status === 'completed' ? this.getTaskById(id).data : undefined;
+
+      const result = this.db.transaction(() => {
+        const changes = stmt.run(...params);
+        // Synced providers create the next occurrence themselves
+        const isSynced = Object.keys(previous?.integrations || {}).length > 0;
+        if (changes.changes > 0 && previous?.recurrence && previous.status !== 'completed' && !isSynced) {
+          this.createNextOccurrence(previous);
+        }
+        return changes;
+      })();
 
       if (result.changes === 0) {
         return { success: false, error: 'Task not found' };
@@ -296,15 +439,17 @@ export class DatabaseManager {
     }
   }
 
+  // Subtasks are deleted along with the task
   deleteTask(id) {
     try {
       const stmt = this.db.prepare('DELETE FROM tasks WHERE id = ?');
-      const result = stmt.run(id);
+      const changes = this.runInTransaction(() =>
+        [id, ...this.getDescendantIds(id)].reduce((count, taskId) => count + stmt.run(taskId).changes, 0));
       
       return { 
-        success: result.changes > 0, 
-        data: result.changes > 0,
-        changes: result.changes 
+        success: changes > 0, 
+        data: changes > 0,
+        changes 
       };
     } catch (error) {
       console.error('Error deleting task:', error);
@@ -312,6 +457,84 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Updates a task the way the user changed it. Completing a task with open
+   * subtasks follows the subtask_completion setting: 'cascade' completes them
+   * too, 'block' refuses and 'independent' leaves them open. Syncs use
+   * updateTask, as they mirror what the provider did.
+   */
+  updateTaskWithSubtasks(id, updates) {
+    if (updates.status !== 'completed') {
+      return this.updateTask(id, updates);
+    }
+
+    try {
+      const openSubtasks = this.db.prepare(`
+        SELECT id FROM tasks WHERE id IN (${TASK_DESCENDANTS_QUERY}) AND status NOT IN ('completed', 'cancelled')
+      `).all(id);
+      const rule = this.getSettings().data?.subtask_completion ?? DEFAULT_SETTINGS.subtask_completion;
+
+      if (openSubtasks.length === 0 || rule === 'independent') {
+        return this.updateTask(id, updates);
+      }
+      if (rule === 'block') {
+        const count = openSubtasks.length === 1 ? '1 open subtask' : `${openSubtasks.length} open subtasks`;
+        return { success: false, error: `Complete the task's ${count} first` };
+      }
+
+      return this.runInTransaction(() => {
+        for (const subtask of openSubtasks) {
+          const completed = this.updateTask(subtask.id, { status: 'completed' });
+          if (!completed.success) {
+            throw new Error(completed.error);
+          }
+        }
+        const result = this.updateTask(id, updates);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        return result;
+      });
+    } catch (error) {
+      console.error('Error completing task with subtasks:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getDescendantIds(id) {
+    return (this.db.prepare(TASK_DESCENDANTS_QUERY).all(id)).map(row => row.id);
+  }
+
+  // A task followed by its subtasks of any depth in outline order, each with its depth below the task
+  getTaskTree(id) {
+    try {
+      const rows = this.db.prepare(`
+        WITH RECURSIVE tree(id, depth, path) AS (
+          SELECT id, 0, '|' || id || '/' FROM tasks WHERE id = ?
+          UNION ALL
+          SELECT child.id, tree.depth + 1, tree.path || child.created_at || '|' || child.id || '/'
+          FROM tasks child
+          JOIN tree ON child.parent_id = tree.id
+          WHERE instr(tree.path, '|' || child.id || '/') = 0
+        )
+        SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS},
+               tree.depth
+        FROM tree
+        JOIN tasks t ON t.id = tree.id
+        LEFT JOIN projects p ON t.project_id = p.id
+        ORDER BY tree.path
+      `).all(id);
+
+      if (rows.length === 0) {
+        return { success: false, error: 'Task not found' };
+      }
+      return { success: true, data: rows.map(row => this.mapRowToTask(row)) };
+    } catch (error) {
+      console.error('Error getting task tree:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
   // Project operations
   createProject(projectData) {
     try {
@@ -332,7 +555,7 @@ export class DatabaseManager {
         projectData.color || '#808080',
         projectData.icon || null,
         projectData.parent_id || null,
-        projectData.sort_order || 0,
+        projectData.sort_order ?? this.getNextProjectOrder(projectData.parent_id || null),
         projectData.is_favorite ? 1 : 0, // Convert boolean to integer
         projectData.integrations ? JSON.stringify(projectData.integrations) : null,
         now,
@@ -349,7 +572,7 @@ export class DatabaseManager {
 
   getProjectById(id) {
     try {
-      const stmt = this.db.prepare('SELECT * FROM projects WHERE id = ?');
+      const stmt = this.db.prepare(`SELECT *, ${PROJECT_TASK_COUNT_COLUMN} FROM projects WHERE id = ?`);
       const row = stmt.get(id);
       
       if (!row) {
@@ -366,7 +589,7 @@ export class DatabaseManager {
 
   getProjects(filters = {}) {
     try {
-      let query = 'SELECT * FROM projects WHERE 1=1';
+      let query = `SELECT *, ${PROJECT_TASK_COUNT_COLUMN} FROM projects WHERE 1=1`;
       const params = [];
 
       if (filters.parent_id !== undefined) {
@@ -380,12 +603,12 @@ export class DatabaseManager {
 
       if (filters.is_favorite !== undefined) {
         query += ' AND is_favorite = ?';
-        params.push(filters.is_favorite);
+        params.push(filters.is_favorite ? 1 : 0);
       }
 
       if (filters.is_archived !== undefined) {
         query += ' AND is_archived = ?';
-        params.push(filters.is_archived);
+        params.push(filters.is_archived ? 1 : 0);
       }
 
       if (filters.has_integration) {
@@ -411,178 +634,1674 @@ export class DatabaseManager {
     }
   }
 
-  // Integration operations
-  updateTaskIntegration(taskId, integration, data) {
+  updateProject(id, updates) {
     try {
-      const stmt = this.db.prepare(`
-        UPDATE tasks 
-        SET integrations = json_set(
-          COALESCE(integrations, '{}'),
-          '$.' || ?, 
-          ?
-        ),
-        updated_at = ?
-        WHERE id = ?
-      `);
-      
-      const result = stmt.run(
-        integration,
-        JSON.stringify(data),
-        new Date().toISOString(),
-        taskId
-      );
+      if (updates.parent_id && (updates.parent_id === id || this.getProjectDescendantIds(id).includes(updates.parent_id))) {
+        return { success: false, error: 'A project cannot be moved into itself or one of its subprojects' };
+      }
+
+      const setParts = [];
+      const params = [];
+
+      Object.entries(updates).forEach(([key, value]) => {
+        if (key === 'integrations' && value) {
+          setParts.push(`${key} = ?`);
+          params.push(JSON.stringify(value));
+        } else if (typeof value === 'boolean') {
+          setParts.push(`${key} = ?`);
+          params.push(value ? 1 : 0);
+        } else if (value !== undefined) {
+          setParts.push(`${key} = ?`);
+          params.push(value);
+        }
+      });
+
+      if (setParts.length === 0) {
+        return { success: false, error: 'No fields to update' };
+      }
+
+      setParts.push('updated_at = ?');
+      params.push(new Date().toISOString());
+      params.push(id);
+
+      const stmt = this.db.prepare(`UPDATE projects SET ${setParts.join(', ')} WHERE id = ?`);
+      const result = stmt.run(...params);
 
       if (result.changes === 0) {
-        return { success: false, error: 'Task not found' };
+        return { success: false, error: 'Project not found' };
       }
 
-      const task = this.getTaskById(taskId);
-      return { success: true, data: task.data, changes: result.changes };
+      const project = this.getProjectById(id);
+      return { success: true, data: project.data, changes: result.changes };
     } catch (error) {
-      console.error('Error updating task integration:', error);
+      console.error('Error updating project:', error);
       return { success: false, error: error.message };
     }
   }
 
-  getTasksByIntegration(integration) {
+  getProjectByExternalId(integration, externalId) {
     try {
       const stmt = this.db.prepare(`
-        SELECT t.*, p.name as project_name, p.color as project_color
-        FROM tasks t
-        LEFT JOIN projects p ON t.project_id = p.id
-        WHERE json_extract(t.integrations, '$.' || ?) IS NOT NULL
+        SELECT *, ${PROJECT_TASK_COUNT_COLUMN} FROM projects
+        WHERE json_extract(integrations, '$.' || ? || '.id') = ?
       `);
-      
-      const rows = stmt.all(integration);
-      const tasks = rows.map(row => this.mapRowToTask(row));
-      
-      return { success: true, data: tasks };
+      const row = stmt.get(integration, externalId);
+
+      if (!row) {
+        return { success: false, error: 'Project not found' };
+      }
+
+      return { success: true, data: this.mapRowToProject(row) };
     } catch (error) {
-      console.error('Error getting tasks by integration:', error);
+      console.error('Error getting project by external id:', error);
       return { success: false, error: error.message };
     }
   }
 
-  // Search operations
-  searchTasks(searchTerm) {
-    return this.getTasks({ search: searchTerm });
-  }
+  /**
+   * Deletes a project. Its tasks move to reassignTo, the Inbox by default, and
+   * its subprojects move up to the project's own parent. The Inbox itself
+   * cannot be deleted.
+   */
+  deleteProject(id, reassignTo = INBOX_PROJECT_ID) {
+    if (id === INBOX_PROJECT_ID) {
+      return { success: false, error: 'The Inbox cannot be deleted' };
+    }
+    if (reassignTo === id) {
+      return { success: false, error: 'Tasks cannot be moved to the project being deleted' };
+    }
 
-  // Statistics
-  getTaskStatistics() {
     try {
-      const totalStmt = this.db.prepare('SELECT COUNT(*) as count FROM tasks');
-      const statusStmt = this.db.prepare('SELECT status, COUNT(*) as count FROM tasks GROUP BY status');
-      const projectStmt = this.db.prepare(`
-        SELECT p.name, COUNT(t.id) as count 
-        FROM projects p 
-        LEFT JOIN tasks t ON p.id = t.project_id 
-        GROUP BY p.id, p.name
-      `);
-      const contextStmt = this.db.prepare('SELECT context, COUNT(*) as count FROM tasks GROUP BY context');
-      const energyStmt = this.db.prepare('SELECT energy_level, COUNT(*) as count FROM tasks GROUP BY energy_level');
-      const overdueStmt = this.db.prepare(`
-        SELECT COUNT(*) as count FROM tasks 
-        WHERE due_date < date('now') AND status != 'completed'
-      `);
+      const project = this.getProjectById(id);
+      if (!project.success) {
+        return { success: false, error: project.error };
+      }
 
-      const total = totalStmt.get().count;
-      const statusRows = statusStmt.all();
-      const projectRows = projectStmt.all();
-      const contextRows = contextStmt.all();
-      const energyRows = energyStmt.all();
-      const overdue = overdueStmt.get().count;
+      const now = new Date().toISOString();
+      const changes = this.runInTransaction(() => {
+        this.db.prepare('UPDATE tasks SET project_id = ?, section_id = NULL, updated_at = ? WHERE project_id = ?').run(reassignTo, now, id);
+        this.db.prepare('UPDATE projects SET parent_id = ?, updated_at = ? WHERE parent_id = ?')
+          .run(project.data.parent_id ?? null, now, id);
+        return this.db.prepare('DELETE FROM projects WHERE id = ?').run(id).changes;
+      });
 
-      const stats = {
-        total,
-        completed: statusRows.find(r => r.status === 'completed')?.count || 0,
-        pending: statusRows.find(r => r.status === 'pending')?.count || 0,
-        in_progress: statusRows.find(r => r.status === 'in_progress')?.count || 0,
-        overdue,
-        by_project: Object.fromEntries(projectRows.map(r => [r.name, r.count])),
-        by_context: Object.fromEntries(contextRows.map(r => [r.context, r.count])),
-        by_energy_level: Object.fromEntries(energyRows.map(r => [r.energy_level, r.count])),
-      };
+      return { success: changes > 0, data: changes > 0, changes };
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      return { success: false, error: error.message };
+    }
+  }
 
-      return { success: true, data: stats };
+  // Places the projects under parentId, null for the top level, in the given order
+  reorderProjects(parentId, orderedIds) {
+    try {
+      if (parentId && orderedIds.some(id => id === parentId || this.getProjectDescendantIds(id).includes(parentId))) {
+        return { success: false, error: 'A project cannot be moved into itself or one of its subprojects' };
+      }
+
+      const stmt = this.db.prepare('UPDATE projects SET parent_id = ?, sort_order = ?, updated_at = ? WHERE id = ?');
+      const now = new Date().toISOString();
+      this.db.transaction(() => {
+        orderedIds.forEach((id, index) => stmt.run(parentId, index, now, id));
+      })();
+
+      return this.getProjects();
     } catch (error) {
-      console.error('Error getting task statistics:', error);
+      console.error('Error reordering projects:', error);
       return { success: false, error: error.message };
     }
   }
 
-  // Utility methods
-  mapRowToTask(row) {
-    return {
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      project_id: row.project_id,
-      parent_id: row.parent_id,
-      priority: row.priority,
-      status: row.status,
-      due_date: row.due_date,
-      due_time: row.due_time,
-      estimated_duration: row.estimated_duration,
-      actual_duration: row.actual_duration,
-      energy_level: row.energy_level,
-      context: row.context,
-      focus_time: Boolean(row.focus_time),
-      notes: row.notes,
-      source_task: row.source_task ? JSON.parse(row.source_task) : undefined,
-      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-      completed_at: row.completed_at,
-      
-      // Joined data
-      project_name: row.project_name,
-      project_color: row.project_color,
-    };
+  getProjectDescendantIds(id) {
+    return (this.db.prepare(PROJECT_DESCENDANTS_QUERY).all(id)).map(row => row.id);
   }
 
-  mapRowToProject(row) {
-    return {
-      id: row.id,
-      name: row.name,
-      description: row.description,
-      color: row.color,
-      icon: row.icon,
-      parent_id: row.parent_id,
-      sort_order: row.sort_order,
-      is_favorite: Boolean(row.is_favorite),
-      is_archived: Boolean(row.is_archived),
-      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
-      created_at: row.created_at,
-      updated_at: row.updated_at,
-    };
+  getNextProjectOrder(parentId) {
+    const row = this.db.prepare('SELECT MAX(sort_order) as max_order FROM projects WHERE parent_id IS ?')
+      .get(parentId);
+    return row.max_order === null ? 0 : row.max_order + 1;
   }
 
-  generateId(prefix = 'task_') {
-    return prefix + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  // Section operations
+  createSection(sectionData) {
+    try {
+      const id = sectionData.id || this.generateId('section_');
+      const now = new Date().toISOString();
+
+      this.db.prepare(`
+        INSERT INTO sections (id, name, project_id, sort_order, integrations, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        sectionData.name,
+        sectionData.project_id,
+        sectionData.sort_order ?? this.getNextSectionOrder(sectionData.project_id),
+        sectionData.integrations ? JSON.stringify(sectionData.integrations) : null,
+        now,
+        now
+      );
+
+      const section = this.getSectionById(id);
+      return { success: true, data: section.data, changes: 1 };
+    } catch (error) {
+      console.error('Error creating section:', error);
+      return { success: false, error: error.message };
+    }
   }
 
-  // Database maintenance
-  vacuum() {
+  getSectionById(id) {
     try {
-      this.db.exec('VACUUM');
-      return { success: true, data: true };
+      const row = this.db.prepare('SELECT * FROM sections WHERE id = ?').get(id);
+
+      if (!row) {
+        return { success: false, error: 'Section not found' };
+      }
+
+      return { success: true, data: this.mapRowToSection(row) };
     } catch (error) {
-      console.error('Error running VACUUM:', error);
+      console.error('Error getting section:', error);
       return { success: false, error: error.message };
     }
   }
 
-  analyze() {
+  // Sections of one project, or of all projects
+  getSections(projectId) {
     try {
-      this.db.exec('ANALYZE');
-      return { success: true, data: true };
+      const rows = projectId
+        ? this.db.prepare('SELECT * FROM sections WHERE project_id = ? ORDER BY sort_order ASC, name ASC').all(projectId)
+        : this.db.prepare('SELECT * FROM sections ORDER BY project_id, sort_order ASC, name ASC').all();
+
+      return { success: true, data: rows.map(row => this.mapRowToSection(row)) };
     } catch (error) {
-      console.error('Error running ANALYZE:', error);
+      console.error('Error getting sections:', error);
       return { success: false, error: error.message };
     }
   }
 
+  // A section moved to another project takes its tasks along
+  updateSection(id, updates) {
+    try {
+      const setParts = [];
+      const params = [];
+
+      Object.entries(updates).forEach(([key, value]) => {
+        if (key === 'integrations' && value) {
+          setParts.push(`${key} = ?`);
+          params.push(JSON.stringify(value));
+        } else if (value !== undefined) {
+          setParts.push(`${key} = ?`);
+          params.push(value);
+        }
+      });
+
+      if (setParts.length === 0) {
+        return { success: false, error: 'No fields to update' };
+      }
+
+      const now = new Date().toISOString();
+      setParts.push('updated_at = ?');
+      params.push(now, id);
+
+      const changes = this.runInTransaction(() => {
+        const result = this.db.prepare(`UPDATE sections SET ${setParts.join(', ')} WHERE id = ?`).run(...params);
+        if (updates.project_id) {
+          this.db.prepare('UPDATE tasks SET project_id = ?, updated_at = ? WHERE section_id = ? AND project_id IS NOT ?')
+            .run(updates.project_id, now, id, updates.project_id);
+        }
+        return result.changes;
+      });
+
+      if (changes === 0) {
+        return { success: false, error: 'Section not found' };
+      }
+
+      const section = this.getSectionById(id);
+      return { success: true, data: section.data, changes };
+    } catch (error) {
+      console.error('Error updating section:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // The section's tasks stay in its project, outside any section
+  deleteSection(id) {
+    try {
+      const changes = this.db.prepare('DELETE FROM sections WHERE id = ?').run(id).changes;
+      return { success: changes > 0, data: changes > 0, changes };
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  reorderSections(projectId, orderedIds) {
+    try {
+      const stmt = this.db.prepare('UPDATE sections SET sort_order = ?, updated_at = ? WHERE id = ? AND project_id = ?');
+      const now = new Date().toISOString();
+      this.db.transaction(() => {
+        orderedIds.forEach((id, index) => stmt.run(index, now, id, projectId));
+      })();
+
+      return this.getSections(projectId);
+    } catch (error) {
+      console.error('Error reordering sections:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getNextSectionOrder(projectId) {
+    const row = this.db.prepare('SELECT MAX(sort_order) as max_order FROM sections WHERE project_id = ?')
+      .get(projectId);
+    return row.max_order === null ? 0 : row.max_order + 1;
+  }
+
+  // Label operations
+  createLabel(labelData) {
+    try {
+      const id = labelData.id || this.generateId('label_');
+      const now = new Date().toISOString();
+
+      const stmt = this.db.prepare(`
+        INSERT INTO labels (
+          id, name, color, description, sort_order, integrations, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      stmt.run(
+        id,
+        labelData.name,
+        labelData.color || '#808080',
+        labelData.description || null,
+        labelData.sort_order || 0,
+        labelData.integrations ? JSON.stringify(labelData.integrations) : null,
+        now
+      );
+
+      const label = this.getLabelById(id);
+      return { success: true, data: label.data, changes: 1 };
+    } catch (error) {
+      console.error('Error creating label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getLabelById(id) {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM labels WHERE id = ?');
+      const row = stmt.get(id);
+
+      if (!row) {
+        return { success: false, error: 'Label not found' };
+      }
+
+      return { success: true, data: this.mapRowToLabel(row) };
+    } catch (error) {
+      console.error('Error getting label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getLabelByName(name) {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM labels WHERE name = ?');
+      const row = stmt.get(name);
+
+      if (!row) {
+        return { success: false, error: 'Label not found' };
+      }
+
+      return { success: true, data: this.mapRowToLabel(row) };
+    } catch (error) {
+      console.error('Error getting label by name:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  updateLabel(id, updates) {
+    try {
+      const setParts = [];
+      const params = [];
+
+      Object.entries(updates).forEach(([key, value]) => {
+        if (key === 'integrations' && value) {
+          setParts.push(`${key} = ?`);
+          params.push(JSON.stringify(value));
+        } else if (value !== undefined) {
+          setParts.push(`${key} = ?`);
+          params.push(value);
+        }
+      });
+
+      if (setParts.length === 0) {
+        return { success: false, error: 'No fields to update' };
+      }
+
+      params.push(id);
+
+      const stmt = this.db.prepare(`UPDATE labels SET ${setParts.join(', ')} WHERE id = ?`);
+      const result = stmt.run(...params);
+
+      if (result.changes === 0) {
+        return { success: false, error: 'Label not found' };
+      }
+
+      const label = this.getLabelById(id);
+      return { success: true, data: label.data, changes: result.changes };
+    } catch (error) {
+      console.error('Error updating label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getLabels() {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM labels ORDER BY sort_order ASC, name ASC');
+      const rows = stmt.all();
+
+      return { success: true, data: rows.map(row => this.mapRowToLabel(row)) };
+    } catch (error) {
+      console.error('Error getting labels:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  deleteLabel(id) {
+    try {
+      // task_labels rows go with it through ON DELETE CASCADE
+      const stmt = this.db.prepare('DELETE FROM labels WHERE id = ?');
+      const result = stmt.run(id);
+
+      return {
+        success: result.changes > 0,
+        data: result.changes > 0,
+        changes: result.changes
+      };
+    } catch (error) {
+      console.error('Error deleting label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  addTaskLabel(taskId, labelId) {
+    try {
+      this.db.prepare('INSERT OR IGNORE INTO task_labels (task_id, label_id) VALUES (?, ?)').run(taskId, labelId);
+      return this.getTaskById(taskId);
+    } catch (error) {
+      console.error('Error adding task label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  removeTaskLabel(taskId, labelId) {
+    try {
+      this.db.prepare('DELETE FROM task_labels WHERE task_id = ? AND label_id = ?').run(taskId, labelId);
+      return this.getTaskById(taskId);
+    } catch (error) {
+      console.error('Error removing task label:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  setTaskLabels(taskId, labelIds) {
+    try {
+      const deleteStmt = this.db.prepare('DELETE FROM task_labels WHERE task_id = ?');
+      const insertStmt = this.db.prepare('INSERT OR IGNORE INTO task_labels (task_id, label_id) VALUES (?, ?)');
+
+      this.db.transaction(() => {
+        deleteStmt.run(taskId);
+        labelIds.forEach(labelId => insertStmt.run(taskId, labelId));
+      })();
+
+      return { success: true, data: true, changes: labelIds.length };
+    } catch (error) {
+      console.error('Error setting task labels:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Set a synced task's labels by name. Labels are matched by name so provider
+   * labels merge with local ones; missing ones are created.
+   */
+  setTaskLabelsByName(taskId, labels) {
+    const labelIds = [];
+
+    for (const label of labels) {
+      const existing = this.getLabelByName(label.name);
+      const result = existing.success ? existing : this.createLabel(label);
+      if (result.success) {
+        labelIds.push(result.data.id);
+      }
+    }
+
+    return this.setTaskLabels(taskId, labelIds);
+  }
+
+  // Task enhancement operations
+  createTaskEnhancement(enhancementData) {
+    try {
+      const id = enhancementData.id || this.generateId('enh_');
+      const now = new Date().toISOString();
+
+      this.db.prepare(`
+        INSERT INTO task_enhancements (
+          id, task_id, type, content, sort_order, completed, integrations, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        enhancementData.task_id,
+        enhancementData.type,
+        enhancementData.content,
+        enhancementData.sort_order ?? this.getNextEnhancementOrder(enhancementData.task_id),
+        enhancementData.completed ? 1 : 0,
+        enhancementData.integrations ? JSON.stringify(enhancementData.integrations) : null,
+        now,
+        now
+      );
+
+      return { success: true, data: this.getTaskEnhancementById(id).data, changes: 1 };
+    } catch (error) {
+      console.error('Error creating task enhancement:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTaskEnhancementById(id) {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM task_enhancements WHERE id = ?');
+      const row = stmt.get(id);
+
+      if (!row) {
+        return { success: false, error: 'Task enhancement not found' };
+      }
+
+      return { success: true, data: this.mapRowToTaskEnhancement(row) };
+    } catch (error) {
+      console.error('Error getting task enhancement:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTaskEnhancements(taskId, type) {
+    try {
+      let query = 'SELECT * FROM task_enhancements WHERE task_id = ?';
+      const params = [taskId];
+
+      if (type) {
+        query += ' AND type = ?';
+        params.push(type);
+      }
+
+      const rows = this.db.prepare(`${query} ORDER BY sort_order ASC, created_at ASC`).all(...params);
+      return { success: true, data: rows.map(row => this.mapRowToTaskEnhancement(row)) };
+    } catch (error) {
+      console.error('Error getting task enhancements:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  updateTaskEnhancement(id, updates) {
+    try {
+      const setParts = [];
+      const values = [];
+
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value !== undefined && key !== 'updated_at') {
+          setParts.push(`${key} = ?`);
+          if (key === 'integrations') {
+            values.push(JSON.stringify(value));
+          } else if (typeof value === 'boolean') {
+            values.push(value ? 1 : 0);
+          } else {
+            values.push(value);
+          }
+        }
+      });
+
+      setParts.push('updated_at = ?');
+      values.push(updates.updated_at || new Date().toISOString());
+      values.push(id);
+
+      const stmt = this.db.prepare(`UPDATE task_enhancements SET ${setParts.join(', ')} WHERE id = ?`);
+      const result = stmt.run(...values);
+
+      if (result.changes === 0) {
+        return { success: false, error: 'Task enhancement not found' };
+      }
+
+      return { success: true, data: this.getTaskEnhancementById(id).data, changes: result.changes };
+    } catch (error) {
+      console.error('Error updating task enhancement:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  deleteTaskEnhancement(id) {
+    try {
+      const stmt = this.db.prepare('DELETE FROM task_enhancements WHERE id = ?');
+      const result = stmt.run(id);
+
+      return {
+        success: result.changes > 0,
+        data: result.changes > 0,
+        changes: result.changes
+      };
+    } catch (error) {
+      console.error('Error deleting task enhancement:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Persist a new order for a task's enhancements, given their ids in display order
+   */
+  reorderTaskEnhancements(taskId, orderedIds) {
+    try {
+      const stmt = this.db.prepare('UPDATE task_enhancements SET sort_order = ? WHERE id = ? AND task_id = ?');
+
+      this.db.transaction(() => {
+        orderedIds.forEach((id, index) => stmt.run(index, id, taskId));
+      })();
+
+      return this.getTaskEnhancements(taskId);
+    } catch (error) {
+      console.error('Error reordering task enhancements:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getNextEnhancementOrder(taskId) {
+    const row = this.db.prepare('SELECT MAX(sort_order) as max_order FROM task_enhancements WHERE task_id = ?')
+      .get(taskId);
+    return row.max_order === null ? 0 : row.max_order + 1;
+  }
+
+  // Time tracking operations
+  createTimeEntry(entryData) {
+    try {
+      const id = entryData.id || this.generateId('time_');
+      const duration = entryData.end_time ? this.getDurationMinutes(entryData.start_time, entryData.end_time) : null;
+
+      if (duration !== null && duration < 0) {
+        return { success: false, error: 'End time must be after start time' };
+      }
+
+      if (!entryData.end_time && this.getRunningTimer().data) {
+        return { success: false, error: 'Another timer is already running' };
+      }
+
+      this.db.transaction(() => {
+        this.db.prepare(`
+          INSERT INTO time_entries (
+            id, task_id, start_time, end_time, duration, description,
+            energy_used, focus_quality, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          id,
+          entryData.task_id,
+          entryData.start_time,
+          entryData.end_time || null,
+          duration,
+          entryData.description || null,
+          entryData.energy_used || null,
+          entryData.focus_quality || null,
+          new Date().toISOString()
+        );
+        this.updateActualDuration(entryData.task_id);
+      })();
+
+      return { success: true, data: this.getTimeEntryById(id).data, changes: 1 };
+    } catch (error) {
+      console.error('Error creating time entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTimeEntryById(id) {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM time_entries WHERE id = ?');
+      const row = stmt.get(id);
+
+      if (!row) {
+        return { success: false, error: 'Time entry not found' };
+      }
+
+      return { success: true, data: this.mapRowToTimeEntry(row) };
+    } catch (error) {
+      console.error('Error getting time entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Entries of one task, or of all tasks for exports
+  getTimeEntries(taskId) {
+    try {
+      const rows = (taskId
+        ? this.db.prepare('SELECT * FROM time_entries WHERE task_id = ? ORDER BY start_time DESC').all(taskId)
+        : this.db.prepare('SELECT * FROM time_entries ORDER BY start_time DESC').all());
+
+      return { success: true, data: rows.map(row => this.mapRowToTimeEntry(row)) };
+    } catch (error) {
+      console.error('Error getting time entries:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  updateTimeEntry(id, updates) {
+    try {
+      const existing = this.getTimeEntryById(id);
+      if (!existing.success) {
+        return existing;
+      }
+
+      const entry = { ...existing.data, ...updates };
+      const duration = entry.end_time ? this.getDurationMinutes(entry.start_time, entry.end_time) : null;
+
+      if (duration !== null && duration < 0) {
+        return { success: false, error: 'End time must be after start time' };
+      }
+
+      this.db.transaction(() => {
+        this.db.prepare(`
+          UPDATE time_entries
+          SET start_time = ?, end_time = ?, duration = ?, description = ?, energy_used = ?, focus_quality = ?
+          WHERE id = ?
+        `).run(
+          entry.start_time,
+          entry.end_time || null,
+          duration,
+          entry.description || null,
+          entry.energy_used || null,
+          entry.focus_quality || null,
+          id
+        );
+        this.updateActualDuration(entry.task_id);
+      })();
+
+      return this.getTimeEntryById(id);
+    } catch (error) {
+      console.error('Error updating time entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  deleteTimeEntry(id) {
+    try {
+      const existing = this.getTimeEntryById(id);
+      if (!existing.success) {
+        return { success: false, error: existing.error };
+      }
+
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM time_entries WHERE id = ?').run(id);
+        this.updateActualDuration(existing.data.task_id);
+      })();
+
+      return { success: true, data: true, changes: 1 };
+    } catch (error) {
+      console.error('Error deleting time entry:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getRunningTimer() {
+    try {
+      const row = this.db.prepare('SELECT * FROM time_entries WHERE end_time IS NULL').get();
+      return { success: true, data: row ? this.mapRowToTimeEntry(row) : null };
+    } catch (error) {
+      console.error('Error getting running timer:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Start timing a task. Only one timer runs at a time, so a timer running
+   * on another task is stopped first.
+   */
+  startTimer(taskId, description) {
+    try {
+      const running = this.getRunningTimer();
+      if (running.data?.task_id === taskId) {
+        return { success: true, data: running.data };
+      }
+
+      if (!this.getTaskById(taskId).success) {
+        return { success: false, error: 'Task not found' };
+      }
+
+      return this.db.transaction(() => {
+        if (running.data) {
+          this.stopTimer();
+        }
+        return this.createTimeEntry({ task_id: taskId, start_time: new Date().toISOString(), description });
+      })();
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  stopTimer() {
+    try {
+      const running = this.getRunningTimer();
+      if (!running.data) {
+        return { success: false, error: 'No timer is running' };
+      }
+
+      return this.updateTimeEntry(running.data.id, { end_time: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Roll finished entries up into the task's actual_duration
+  updateActualDuration(taskId) {
+    this.db.prepare(`
+      UPDATE tasks
+      SET actual_duration = (SELECT SUM(duration) FROM time_entries WHERE task_id = ? AND duration IS NOT NULL)
+      WHERE id = ?
+    `).run(taskId, taskId);
+  }
+
+  getDurationMinutes(startTime, endTime) {
+    return Math.round((Date.parse(endTime) - Date.parse(startTime)) / 60000);
+  }
+
+  // Integration operations
+  updateTaskIntegration(taskId, integration, data) {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE tasks 
+        SET integrations = json_set(
+          COALESCE(integrations, '{}'),
+          '$.' || ?, 
+          ?
+        ),
+        updated_at = ?
+        WHERE id = ?
+      `);
+      
+      const result = stmt.run(
+        integration,
+        JSON.stringify(data),
+        new Date().toISOString(),
+        taskId
+      );
+
+      if (result.changes === 0) {
+        return { success: false, error: 'Task not found' };
+      }
+
+      const task = this.getTaskById(taskId);
+      return { success: true, data: task.data, changes: result.changes };
+    } catch (error) {
+      console.error('Error updating task integration:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTasksByIntegration(integration) {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS}
+        FROM tasks t
+        LEFT JOIN projects p ON t.project_id = p.id
+        WHERE json_extract(t.integrations, '$.' || ?) IS NOT NULL
+      `);
+      
+      const rows = stmt.all(integration);
+      const tasks = rows.map(row => this.mapRowToTask(row));
+      
+      return { success: true, data: tasks };
+    } catch (error) {
+      console.error('Error getting tasks by integration:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTaskByExternalId(integration, externalId) {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT t.*, p.name as project_name, p.color as project_color, ${TASK_LABELS_COLUMN}, ${TASK_CHECKLIST_COLUMNS}, ${TASK_SUBTASK_COLUMNS}
+        FROM tasks t
+        LEFT JOIN projects p ON t.project_id = p.id
+        WHERE json_extract(t.source_task, '$.' || ? || '.id') = ?
+      `);
+      const row = stmt.get(integration, externalId);
+
+      if (!row) {
+        return { success: false, error: 'Task not found' };
+      }
+
+      return { success: true, data: this.mapRowToTask(row) };
+    } catch (error) {
+      console.error('Error getting task by external id:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getIntegration(name) {
+    try {
+      const stmt = this.db.prepare('SELECT * FROM integrations WHERE name = ?');
+      const row = stmt.get(name);
+
+      if (!row) {
+        return { success: false, error: 'Integration not found' };
+      }
+
+      return { success: true, data: this.mapRowToIntegration(row) };
+    } catch (error) {
+      console.error('Error getting integration:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  saveIntegrationState(name, data) {
+    try {
+      const existing = this.db.prepare('SELECT * FROM integrations WHERE name = ?').get(name);
+
+      if (existing) {
+        const stmt = this.db.prepare(`
+          UPDATE integrations SET
+            is_active = COALESCE(?, is_active),
+            config = COALESCE(?, config),
+            last_sync_at = COALESCE(?, last_sync_at),
+            sync_token = COALESCE(?, sync_token)
+          WHERE id = ?
+        `);
+
+        stmt.run(
+          data.is_active === undefined ? null : (data.is_active ? 1 : 0),
+          data.config ? JSON.stringify(data.config) : null,
+          data.last_sync_at || null,
+          data.sync_token || null,
+          existing.id
+        );
+      } else {
+        const stmt = this.db.prepare(`
+          INSERT INTO integrations (
+            id, name, is_active, config, last_sync_at, sync_token, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        stmt.run(
+          this.generateId('int_'),
+          name,
+          data.is_active ? 1 : 0,
+          data.config ? JSON.stringify(data.config) : null,
+          data.last_sync_at || null,
+          data.sync_token || null,
+          new Date().toISOString()
+        );
+      }
+
+      return this.getIntegration(name);
+    } catch (error) {
+      console.error('Error saving integration state:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Sync conflict operations
+  saveSyncConflict(conflictData) {
+    try {
+      const existing = this.db.prepare(`
+        SELECT * FROM sync_conflicts
+        WHERE task_id = ? AND integration = ? AND status = 'pending'
+      `).get(conflictData.task_id, conflictData.integration);
+
+      if (existing) {
+        // Fold new field conflicts into the pending one, newest values win
+        const fields = new Map(
+          (JSON.parse(existing.fields) ).map(f => [f.field, f])
+        );
+        conflictData.fields.forEach(f => fields.set(f.field, { ...f, base: fields.get(f.field)?.base ?? f.base }));
+
+        this.db.prepare(`
+          UPDATE sync_conflicts
+          SET fields = ?, local_updated_at = ?, remote_updated_at = ?
+          WHERE id = ?
+        `).run(
+          JSON.stringify([...fields.values()]),
+          conflictData.local_updated_at || null,
+          conflictData.remote_updated_at || null,
+          existing.id
+        );
+
+        return this.getSyncConflictById(existing.id);
+      }
+
+      const id = this.generateId('conflict_');
+      const stmt = this.db.prepare(`
+        INSERT INTO sync_conflicts (
+          id, task_id, integration, external_id, fields,
+          local_updated_at, remote_updated_at, status, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+      `);
+
+      stmt.run(
+        id,
+        conflictData.task_id,
+        conflictData.integration,
+        conflictData.external_id || null,
+        JSON.stringify(conflictData.fields),
+        conflictData.local_updated_at || null,
+        conflictData.remote_updated_at || null,
+        new Date().toISOString()
+      );
+
+      return this.getSyncConflictById(id);
+    } catch (error) {
+      console.error('Error saving sync conflict:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getSyncConflictById(id) {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT c.*, t.title as task_title
+        FROM sync_conflicts c
+        LEFT JOIN tasks t ON c.task_id = t.id
+        WHERE c.id = ?
+      `);
+      const row = stmt.get(id);
+
+      if (!row) {
+        return { success: false, error: 'Conflict not found' };
+      }
+
+      return { success: true, data: this.mapRowToSyncConflict(row) };
+    } catch (error) {
+      console.error('Error getting sync conflict:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getSyncConflicts(filters = {}) {
+    try {
+      let query = `
+        SELECT c.*, t.title as task_title
+        FROM sync_conflicts c
+        LEFT JOIN tasks t ON c.task_id = t.id
+        WHERE 1=1
+      `;
+      const params = [];
+
+      if (filters.status) {
+        query += ' AND c.status = ?';
+        params.push(filters.status);
+      }
+
+      if (filters.integration) {
+        query += ' AND c.integration = ?';
+        params.push(filters.integration);
+      }
+
+      if (filters.task_id) {
+        query += ' AND c.task_id = ?';
+        params.push(filters.task_id);
+      }
+
+      query += ' ORDER BY c.created_at DESC';
+
+      const rows = this.db.prepare(query).all(...params);
+      return { success: true, data: rows.map(row => this.mapRowToSyncConflict(row)) };
+    } catch (error) {
+      console.error('Error getting sync conflicts:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  resolveSyncConflict(
+    id,
+    resolution,
+    choices = {}
+  ) {
+    try {
+      const conflict = this.getSyncConflictById(id);
+      if (!conflict.success) {
+        return conflict;
+      }
+      if (conflict.data.status === 'resolved') {
+        return { success: false, error: 'Conflict already resolved' };
+      }
+
+      // Local values are already in the task, so only remote picks need writing.
+      // The next sync pushes whatever still differs from the provider.
+      const updates = {};
+      conflict.data.fields.forEach(f => {
+        const choice = resolution === 'merge' ? choices[f.field] || 'local' : resolution;
+        if (choice === 'remote') {
+          // A field the remote side cleared is written as null; updateTask skips undefined ones
+          Object.assign(updates, { [f.field]: f.remote ?? null });
+        }
+      });
+
+      this.db.transaction(() => {
+        if (Object.keys(updates).length > 0) {
+          const result = this.updateTask(conflict.data.task_id, updates);
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+        }
+
+        this.db.prepare(`
+          UPDATE sync_conflicts SET status = 'resolved', resolution = ?, resolved_at = ?
+          WHERE id = ?
+        `).run(resolution, new Date().toISOString(), id);
+      })();
+
+      return this.getSyncConflictById(id);
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Search operations
+  searchTasks(searchTerm) {
+    return this.getTasks({ search: searchTerm });
+  }
+
+  // Statistics
+  getTaskStatistics() {
+    try {
+      const totalStmt = this.db.prepare('SELECT COUNT(*) as count FROM tasks');
+      const statusStmt = this.db.prepare('SELECT status, COUNT(*) as count FROM tasks GROUP BY status');
+      const projectStmt = this.db.prepare(`
+        SELECT p.name, COUNT(t.id) as count 
+        FROM projects p 
+        LEFT JOIN tasks t ON p.id = t.project_id 
+        GROUP BY p.id, p.name
+      `);
+      const contextStmt = this.db.prepare('SELECT context, COUNT(*) as count FROM tasks GROUP BY context');
+      const energyStmt = this.db.prepare('SELECT energy_level, COUNT(*) as count FROM tasks GROUP BY energy_level');
+      const overdueStmt = this.db.prepare(`
+        SELECT COUNT(*) as count FROM tasks 
+        WHERE due_date < date('now') AND status != 'completed'
+      `);
+
+      const total = totalStmt.get().count;
+      const statusRows = statusStmt.all();
+      const projectRows = projectStmt.all();
+      const contextRows = contextStmt.all();
+      const energyRows = energyStmt.all();
+      const overdue = overdueStmt.get().count;
+
+      const stats = {
+        total,
+        completed: statusRows.find(r => r.status === 'completed')?.count || 0,
+        pending: statusRows.find(r => r.status === 'pending')?.count || 0,
+        in_progress: statusRows.find(r => r.status === 'in_progress')?.count || 0,
+        overdue,
+        by_project: Object.fromEntries(projectRows.map(r => [r.name, r.count])),
+        by_context: Object.fromEntries(contextRows.map(r => [r.context, r.count])),
+        by_energy_level: Object.fromEntries(energyRows.map(r => [r.energy_level, r.count])),
+      };
+
+      return { success: true, data: stats };
+    } catch (error) {
+      console.error('Error getting task statistics:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Productivity figures for tasks completed and time tracked within a date range.
+   * Dates are grouped in local time; the productivity score is the share of tasks
+   * due in the range that have been completed.
+   */
+  getProductivityStatistics(range) {
+    try {
+      const completedInRange = `
+        FROM tasks
+        WHERE status = 'completed' AND completed_at IS NOT NULL
+          AND date(completed_at, 'localtime') BETWEEN ? AND ?
+      `;
+      const rangeParams = [range.from, range.to];
+
+      const completionRows = this.db.prepare(`
+        SELECT date(completed_at, 'localtime') as day, COUNT(*) as count ${completedInRange} GROUP BY day
+      `).all(...rangeParams);
+
+      const trackedRows = this.db.prepare(`
+        SELECT date(start_time, 'localtime') as day, SUM(duration) as minutes
+        FROM time_entries
+        WHERE duration IS NOT NULL AND date(start_time, 'localtime') BETWEEN ? AND ?
+        GROUP BY day
+      `).all(...rangeParams);
+
+      const durationRow = this.db.prepare(`
+        SELECT AVG(actual_duration) as average ${completedInRange} AND actual_duration > 0
+      `).get(...rangeParams);
+
+      // Per task accuracy: 100 when actual matches the estimate, falling to 0 at double or more off
+      const estimateRow = this.db.prepare(`
+        SELECT
+          AVG(MAX(0, 100 - ABS(actual_duration - estimated_duration) * 100.0 / estimated_duration)) as accuracy,
+          SUM(estimated_duration) as estimated,
+          SUM(actual_duration) as actual
+        ${completedInRange} AND estimated_duration > 0 AND actual_duration > 0
+      `).get(...rangeParams);
+
+      const energyRows = this.db.prepare(`
+        SELECT energy_level, COUNT(*) as count ${completedInRange} GROUP BY energy_level
+      `).all(...rangeParams);
+
+      const contextRows = this.db.prepare(`
+        SELECT context, COUNT(*) as count ${completedInRange} GROUP BY context
+      `).all(...rangeParams);
+
+      const dueRow = this.db.prepare(`
+        SELECT COUNT(*) as due, SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as done
+        FROM tasks
+        WHERE due_date BETWEEN ? AND ?
+      `).get(...rangeParams);
+
+      const today = this.formatLocalDate(new Date());
+      const weekStart = this.getWeekStart(today);
+      const countCompletedSince = this.db.prepare(`
+        SELECT COUNT(*) as count FROM tasks
+        WHERE status = 'completed' AND completed_at IS NOT NULL AND date(completed_at, 'localtime') >= ?
+      `);
+
+      // Fill in empty days so trends have a point for every day in the range
+      const completionsByDay = new Map(completionRows.map(row => [row.day, row.count]));
+      const trackedByDay = new Map(trackedRows.map(row => [row.day, row.minutes]));
+      const byDay = [];
+      for (let day = new Date(`${range.from}T00:00:00`); this.formatLocalDate(day) <= range.to; day.setDate(day.getDate() + 1)) {
+        const date = this.formatLocalDate(day);
+        byDay.push({ date, completed: completionsByDay.get(date) || 0, time_tracked: trackedByDay.get(date) || 0 });
+      }
+
+      const byWeek = [];
+      byDay.forEach(point => {
+        const date = this.getWeekStart(point.date);
+        const week = byWeek.find(existing => existing.date === date);
+        if (week) {
+          week.completed += point.completed;
+          week.time_tracked += point.time_tracked;
+        } else {
+          byWeek.push({ ...point, date });
+        }
+      });
+
+      const tasksCompleted = completionRows.reduce((sum, row) => sum + row.count, 0);
+      const stats = {
+        range,
+        tasks_completed_today: (countCompletedSince.get(today) ).count,
+        tasks_completed_this_week: (countCompletedSince.get(weekStart) ).count,
+        tasks_completed: tasksCompleted,
+        total_time_tracked: trackedRows.reduce((sum, row) => sum + row.minutes, 0),
+        average_task_duration: Math.round(durationRow.average || 0),
+        estimate_accuracy: estimateRow.accuracy === null ? undefined : Math.round(estimateRow.accuracy),
+        estimated_minutes: estimateRow.estimated || 0,
+        actual_minutes: estimateRow.actual || 0,
+        productivity_score: dueRow.due > 0
+          ? Math.round(((dueRow.done || 0) / dueRow.due) * 100)
+          : (tasksCompleted > 0 ? 100 : 0),
+        completions_by_day: byDay,
+        completions_by_week: byWeek,
+        energy_distribution: Object.fromEntries(energyRows.map(row => [row.energy_level, row.count])),
+        context_distribution: Object.fromEntries(contextRows.map(row => [row.context, row.count])),
+      };
+
+      return { success: true, data: stats };
+    } catch (error) {
+      console.error('Error getting productivity statistics:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Continue a completed recurring task as a new task due on the next occurrence.
+   * Labels and checklist items carry over, and the series moves to the new task
+   * so completing the old one again does not repeat it twice.
+   */
+  createNextOccurrence(task) {
+    const due = task.due_date || this.formatLocalDate(new Date());
+    const parsed = parseRRule(task.recurrence);
+    const rule = parsed && anchorRule(parsed, due);
+    const dueDate = rule && rule.count !== 1 ? getNextOccurrence(rule, due) : undefined;
+
+    if (dueDate) {
+      const next = this.createTask({
+        title: task.title,
+        description: task.description,
+        project_id: task.project_id,
+        parent_id: task.parent_id,
+        priority: task.priority,
+        due_date: dueDate,
+        due_time: task.due_time,
+        recurrence: formatRRule({ ...rule, count: rule.count ? rule.count - 1 : undefined }),
+        estimated_duration: task.estimated_duration,
+        energy_level: task.energy_level,
+        context: task.context,
+        focus_time: task.focus_time,
+        notes: task.notes,
+      });
+
+      if (!next.success) {
+        throw new Error(next.error || 'Failed to create next occurrence');
+      }
+
+      this.setTaskLabels(next.data.id, (task.labels || []).map(label => label.id));
+
+      const checklist = this.getTaskEnhancements(task.id, 'checkpoint');
+      for (const item of checklist.data || []) {
+        this.createTaskEnhancement({ task_id: next.data.id, type: 'checkpoint', content: item.content });
+      }
+    }
+
+    this.db.prepare('UPDATE tasks SET recurrence = NULL WHERE id = ?').run(task.id);
+  }
+
+  formatLocalDate(date) {
+    const pad = (value) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  // Weeks start on Monday
+  getWeekStart(date) {
+    const day = new Date(`${date}T00:00:00`);
+    day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+    return this.formatLocalDate(day);
+  }
+
+  // Utility methods
+  mapRowToTask(row) {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      project_id: row.project_id,
+      section_id: row.section_id ?? undefined,
+      parent_id: row.parent_id,
+      priority: row.priority,
+      status: row.status,
+      due_date: row.due_date,
+      due_time: row.due_time,
+      recurrence: row.recurrence,
+      estimated_duration: row.estimated_duration,
+      actual_duration: row.actual_duration,
+      energy_level: row.energy_level,
+      context: row.context,
+      focus_time: Boolean(row.focus_time),
+      notes: row.notes,
+      source_task: row.source_task ? JSON.parse(row.source_task) : undefined,
+      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at,
+      
+      // Joined data
+      project_name: row.project_name,
+      project_color: row.project_color,
+      labels: row.labels ? JSON.parse(row.labels).map((label) => this.mapRowToLabel(label)) : undefined,
+      checklist: row.checklist_total ? { completed: row.checklist_completed, total: row.checklist_total } : undefined,
+      subtasks: row.subtasks_total ? { completed: row.subtasks_completed, total: row.subtasks_total } : undefined,
+      depth: row.depth ?? undefined,
+      is_local: true,
+    };
+  }
+
+  mapRowToProject(row) {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      color: row.color,
+      icon: row.icon,
+      parent_id: row.parent_id,
+      sort_order: row.sort_order,
+      is_favorite: Boolean(row.is_favorite),
+      is_archived: Boolean(row.is_archived),
+      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+
+      // Joined data
+      task_count: row.task_count ?? undefined,
+    };
+  }
+
+  mapRowToSection(row) {
+    return {
+      id: row.id,
+      name: row.name,
+      project_id: row.project_id,
+      sort_order: row.sort_order,
+      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  mapRowToLabel(row) {
+    return {
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      description: row.description,
+      sort_order: row.sort_order,
+      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
+      created_at: row.created_at,
+    };
+  }
+
+  mapRowToTaskEnhancement(row) {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      type: row.type,
+      content: row.content,
+      sort_order: row.sort_order,
+      completed: Boolean(row.completed),
+      integrations: row.integrations ? JSON.parse(row.integrations) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  mapRowToTimeEntry(row) {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      duration: row.duration,
+      description: row.description,
+      energy_used: row.energy_used,
+      focus_quality: row.focus_quality,
+      created_at: row.created_at,
+    };
+  }
+
+  mapRowToIntegration(row) {
+    return {
+      id: row.id,
+      name: row.name,
+      is_active: Boolean(row.is_active),
+      config: row.config ? JSON.parse(row.config) : undefined,
+      last_sync_at: row.last_sync_at,
+      sync_token: row.sync_token,
+      created_at: row.created_at,
+    };
+  }
+
+  mapRowToSyncConflict(row) {
+    return {
+      id: row.id,
+      task_id: row.task_id,
+      integration: row.integration,
+      external_id: row.external_id,
+      fields: JSON.parse(row.fields),
+      local_updated_at: row.local_updated_at,
+      remote_updated_at: row.remote_updated_at,
+      status: row.status,
+      resolution: row.resolution,
+      created_at: row.created_at,
+      resolved_at: row.resolved_at,
+
+      // Joined data
+      task_title: row.task_title,
+    };
+  }
+
+  generateId(prefix = 'task_') {
+    return prefix + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  }
+
+  // Settings
+  getSettings() {
+    try {
+      const rows = this.db.prepare('SELECT key, value FROM settings').all();
+      const stored = Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+      return { success: true, data: { ...DEFAULT_SETTINGS, ...stored } };
+    } catch (error) {
+      console.error('Error getting settings:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  updateSettings(updates) {
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `);
+      const now = new Date().toISOString();
+      this.db.transaction(() => {
+        Object.entries(updates).forEach(([key, value]) => {
+          if (value !== undefined) {
+            stmt.run(key, JSON.stringify(value), now);
+          }
+        });
+      })();
+      return this.getSettings();
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Operation journal
+
+  // Runs a task change and journals the affected tasks before and after it.
+  // Tasks it creates, like the next occurrence of a repeating task, are
+  // affected too, so undoing removes them again.
+  recordOperation(description, taskIds, operation) {
+    const lastRowId = (this.db.prepare('SELECT COALESCE(MAX(rowid), 0) AS rowid FROM tasks').get()).rowid;
+    const before = new Map(taskIds.map(id => [id, this.getTaskSnapshot(id)]));
+
+    const result = operation();
+
+    try {
+      const created = this.db.prepare('SELECT id FROM tasks WHERE rowid > ?').all(lastRowId)
+        .map(row => row.id);
+      const ids = [...new Set([...taskIds, ...created])];
+      const undo = ids.map(id => before.get(id) || { id });
+      const redo = ids.map(id => this.getTaskSnapshot(id));
+
+      // Failed operations change nothing
+      if (JSON.stringify(undo) === JSON.stringify(redo)) {
+        return result;
+      }
+
+      this.db.transaction(() => {
+        // A new change replaces what could be redone
+        this.db.prepare('DELETE FROM operation_journal WHERE undone = 1').run();
+        this.db.prepare('INSERT INTO operation_journal (description, undo, redo, created_at) VALUES (?, ?, ?, ?)')
+          .run(description, JSON.stringify(undo), JSON.stringify(redo), new Date().toISOString());
+        this.db.prepare('DELETE FROM operation_journal WHERE id <= (SELECT MAX(id) FROM operation_journal) - ?')
+          .run(MAX_JOURNAL_ENTRIES);
+      })();
+    } catch (error) {
+      console.error('Error recording operation:', error);
+    }
+
+    return result;
+  }
+
+  // Reverts the newest operation; no data when there is nothing to undo
+  undo() {
+    const row = this.db.prepare('SELECT * FROM operation_journal WHERE undone = 0 ORDER BY id DESC LIMIT 1').get();
+    return this.replayOperation(row, 'undo');
+  }
+
+  // Applies the most recently undone operation again
+  redo() {
+    const row = this.db.prepare('SELECT * FROM operation_journal WHERE undone = 1 ORDER BY id LIMIT 1').get();
+    return this.replayOperation(row, 'redo');
+  }
+
+  replayOperation(row, direction) {
+    if (!row) {
+      return { success: true };
+    }
+
+    try {
+      const undone = direction === 'undo';
+      this.runInTransaction(() => {
+        JSON.parse(row[direction]).forEach(snapshot => this.restoreTaskSnapshot(snapshot));
+        this.db.prepare('UPDATE operation_journal SET undone = ? WHERE id = ?').run(undone ? 1 : 0, row.id);
+      });
+
+      return {
+        success: true,
+        data: { id: row.id, description: row.description, undone, created_at: row.created_at },
+      };
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      // An entry that no longer applies, e.g. to a task of a deleted project,
+      // is dropped so the ones before it can still be undone
+      this.db.prepare('DELETE FROM operation_journal WHERE id = ?').run(row.id);
+      return { success: false, error: error.message };
+    }
+  }
+
+  getTaskSnapshot(id) {
+    const task = this.db.prepare('SELECT * FROM tasks WHERE id = ?').get(id);
+    if (!task) {
+      return { id };
+    }
+
+    return {
+      id,
+      task,
+      label_ids: this.db.prepare('SELECT label_id FROM task_labels WHERE task_id = ? ORDER BY label_id').all(id)
+        .map(row => row.label_id),
+      enhancements: this.db.prepare('SELECT * FROM task_enhancements WHERE task_id = ? ORDER BY id').all(id),
+      time_entries: this.db.prepare('SELECT * FROM time_entries WHERE task_id = ? ORDER BY id').all(id),
+    };
+  }
+
+  restoreTaskSnapshot(snapshot) {
+    if (!snapshot.task) {
+      this.db.prepare('DELETE FROM tasks WHERE id = ?').run(snapshot.id);
+      return;
+    }
+
+    const columns = Object.keys(snapshot.task);
+    if (this.db.prepare('SELECT 1 FROM tasks WHERE id = ?').get(snapshot.id)) {
+      this.db.prepare(`UPDATE tasks SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`)
+        .run(...Object.values(snapshot.task), snapshot.id);
+    } else {
+      // Checklist items and time entries were deleted along with the task
+      this.insertRow('tasks', snapshot.task);
+      snapshot.enhancements?.forEach(row => this.insertRow('task_enhancements', row));
+      snapshot.time_entries?.forEach(row => this.insertRow('time_entries', row));
+    }
+
+    // Labels deleted in the meantime are left out
+    this.db.prepare('DELETE FROM task_labels WHERE task_id = ?').run(snapshot.id);
+    const insertLabel = this.db.prepare('INSERT INTO task_labels (task_id, label_id) SELECT ?, id FROM labels WHERE id = ?');
+    snapshot.label_ids?.forEach(labelId => insertLabel.run(snapshot.id, labelId));
+  }
+
+  // A running timer that conflicts with a newer one is dropped
+  insertRow(table, row) {
+    const columns = Object.keys(row);
+    this.db.prepare(`INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+      .run(...Object.values(row));
+  }
+
+  // Database maintenance
+  vacuum() {
+    try {
+      this.db.exec('VACUUM');
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error running VACUUM:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  analyze() {
+    try {
+      this.db.exec('ANALYZE');
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error running ANALYZE:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // PRAGMA integrity_check and foreign_key_check; an empty report means no problems were found
+  checkIntegrity() {
+    try {
+      const errors = this.db.pragma('integrity_check')
+        .map(row => row.integrity_check)
+        .filter(message => message !== 'ok');
+      const violations = this.db.pragma('foreign_key_check');
+      return { success: true, data: { errors, foreign_key_violations: violations } };
+    } catch (error) {
+      console.error('Error checking database integrity:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Online copy through SQLite's backup API, so the database stays usable meanwhile
+  async backupTo(destination) {
+    try {
+      await this.db.backup(destination);
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error backing up database:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Swaps in a copy of source as the database file and reopens it. Copies of
+  // older schema versions are migrated on open. The copy is renamed over the
+  // database file, so a failed copy leaves the current file intact.
+  replaceWith(source) {
+    const copy = `${this.dbPath}-restore`;
+    try {
+      fs.copyFileSync(source, copy);
+      this.db.close();
+      // A leftover WAL would be replayed onto the new file
+      fs.rmSync(`${this.dbPath}-wal`, { force: true });
+      fs.rmSync(`${this.dbPath}-shm`, { force: true });
+      fs.renameSync(copy, this.dbPath);
+
+      this.db = new Database(this.dbPath);
+      this.configureDatabase();
+      this.initializeDatabase();
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error replacing database:', error);
+      fs.rmSync(copy, { force: true });
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Opens the database file again when a failed replaceWith left it closed
+  reopen() {
+    try {
+      if (!this.db.open) {
+        this.db = new Database(this.dbPath);
+        this.configureDatabase();
+        this.initializeDatabase();
+      }
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error reopening database:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // Runs fn in a single transaction. Foreign keys are checked at commit so
+  // callers can insert rows before the rows they reference.
+  runInTransaction(fn) {
+    return this.db.transaction(() => {
+      this.db.pragma('defer_foreign_keys = ON');
+      return fn();
+    })();
+  }
+
   close() {
     if (this.db) {
       this.db.close();
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DatabaseManager } from './DatabaseManager.js';
+
+const db = DatabaseManager.getInstance();
+
+describe('resolveSyncConflict', () => {
+  it('takes remote values, including fields the remote side cleared', () => {
+    const task = db.createTask({ title: 'Local title', description: 'Local notes', due_date: '2026-10-20' }).data!;
+    const conflict = db.saveSyncConflict({
+      task_id: task.id,
+      integration: 'todoist',
+      fields: [
+        { field: 'title', local: 'Local title', remote: 'Remote title', base: 'Title' },
+        { field: 'description', local: 'Local notes', remote: undefined, base: 'Notes' },
+        { field: 'due_date', local: '2026-10-20', remote: undefined, base: '2026-10-19' },
+      ],
+    }).data!;
+
+    const result = db.resolveSyncConflict(conflict.id, 'remote');
+
+    expect(result.success).toBe(true);
+    expect(result.data!.status).toBe('resolved');
+    const resolved = db.getTaskById(task.id).data!;
+    expect(resolved.title).toBe('Remote title');
+    expect(resolved.description).toBeFalsy();
+    expect(resolved.due_date).toBeFalsy();
+  });
+
+  it('keeps local values not picked when merging', () => {
+    const task = db.createTask({ title: 'Local title', description: 'Local notes' }).data!;
+    const conflict = db.saveSyncConflict({
+      task_id: task.id,
+      integration: 'todoist',
+      fields: [
+        { field: 'title', local: 'Local title', remote: 'Remote title', base: 'Title' },
+        { field: 'description', local: 'Local notes', remote: undefined, base: 'Notes' },
+      ],
+    }).data!;
+
+    db.resolveSyncConflict(conflict.id, 'merge', { description: 'remote' });
+
+    expect(db.getTaskById(task.id).data).toMatchObject({ title: 'Local title', description: null });
+  });
+});
+
+describe('recurring tasks', () => {
+  it('continue a monthly series on the day it started after a short month', () => {
+    let task = db.createTask({ title: 'Pay rent', due_date: '2026-01-31', recurrence: 'FREQ=MONTHLY' }).data!;
+    const dueDates = [task.due_date];
+
+    for (let i = 0; i < 3; i++) {
+      db.updateTaskWithSubtasks(task.id, { status: 'completed' });
+      task = db.getTasks({ search: 'Pay rent' }).data!.find(candidate => candidate.status === 'pending')!;
+      dueDates.push(task.due_date);
+    }
+
+    expect(dueDates).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30']);
+  });
+});
+
+describe('operation journal', () => {
+  const update = (id: string, title: string) =>
+    db.recordOperation('Task updated', [id], () => db.updateTaskWithSubtasks(id, { title }));
+
+  it('undoes and redoes an update', () => {
+    const task = db.createTask({ title: 'Draft' }).data!;
+    update(task.id, 'Final');
+
+    expect(db.undo().data).toMatchObject({ description: 'Task updated', undone: true });
+    expect(db.getTaskById(task.id).data!.title).toBe('Draft');
+
+    expect(db.redo().data).toMatchObject({ description: 'Task updated', undone: false });
+    expect(db.getTaskById(task.id).data!.title).toBe('Final');
+  });
+
+  it('brings back a deleted task with its subtasks and time entries', () => {
+    const task = db.createTask({ title: 'Parent' }).data!;
+    const subtask = db.createTask({ title: 'Child', parent_id: task.id }).data!;
+    db.createTimeEntry({ task_id: task.id, start_time: '2026-10-18T09:00:00.000Z', end_time: '2026-10-18T09:30:00.000Z' });
+
+    db.recordOperation('Task deleted', [task.id, ...db.getDescendantIds(task.id)], () => db.deleteTask(task.id));
+    expect(db.getTaskById(subtask.id).success).toBe(false);
+
+    db.undo();
+
+    expect(db.getTaskById(subtask.id).data!.parent_id).toBe(task.id);
+    expect(db.getTimeEntries(task.id).data).toHaveLength(1);
+    expect(db.getTaskById(task.id).data!.actual_duration).toBe(30);
+
+    db.redo();
+    expect(db.getTaskById(task.id).success).toBe(false);
+    expect(db.getTaskById(subtask.id).success).toBe(false);
+  });
+
+  it('undoes a bulk operation in one step', () => {
+    const tasks = ['First', 'Second'].map(title => db.createTask({ title }).data!);
+
+    db.recordOperation('2 tasks updated', tasks.map(task => task.id), () =>
+      tasks.forEach(task => db.updateTaskWithSubtasks(task.id, { status: 'completed' })));
+    db.undo();
+
+    expect(tasks.map(task => db.getTaskById(task.id).data!.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('forgets what could be redone once a new change is made', () => {
+    const task = db.createTask({ title: 'Draft' }).data!;
+    update(task.id, 'Second draft');
+    db.undo();
+
+    update(task.id, 'Other draft');
+
+    expect(db.redo()).toEqual({ success: true });
+    expect(db.getTaskById(task.id).data!.title).toBe('Other draft');
+  });
+});
+
+describe('labels', () => {
+  const labelNames = (taskId: string) => (db.getTaskById(taskId).data!.labels || []).map(label => label.name);
+
+  it('are assigned to tasks, replaced and removed again', () => {
+    const task = db.createTask({ title: 'Write report' }).data!;
+    const reports = db.createLabel({ name: 'reports' }).data!;
+    const waiting = db.createLabel({ name: 'waiting' }).data!;
+    const errands = db.createLabel({ name: 'errands' }).data!;
+
+    db.addTaskLabel(task.id, reports.id);
+    db.addTaskLabel(task.id, reports.id);
+    db.addTaskLabel(task.id, waiting.id);
+    expect(labelNames(task.id).sort()).toEqual(['reports', 'waiting']);
+    expect(db.getTasks({ labels: ['waiting'] }).data!.map(found => found.id)).toEqual([task.id]);
+
+    db.removeTaskLabel(task.id, waiting.id);
+    expect(labelNames(task.id)).toEqual(['reports']);
+
+    db.setTaskLabels(task.id, [errands.id, waiting.id]);
+    expect(labelNames(task.id).sort()).toEqual(['errands', 'waiting']);
+
+    db.deleteLabel(errands.id);
+    expect(labelNames(task.id)).toEqual(['waiting']);
+  });
+});
+
+describe('timers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const at = (time: string) => vi.setSystemTime(new Date(`2026-10-18T${time}:00.000Z`));
+
+  it('add the time of each stopped timer to the task, less deleted entries', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const task = db.createTask({ title: 'Write report' }).data!;
+    const other = db.createTask({ title: 'Answer mail' }).data!;
+
+    at('09:00');
+    db.startTimer(task.id);
+    at('09:25');
+    expect(db.stopTimer().data).toMatchObject({ task_id: task.id, duration: 25 });
+    expect(db.getTaskById(task.id).data!.actual_duration).toBe(25);
+
+    at('10:00');
+    db.startTimer(task.id);
+    at('10:10');
+    // Starting another timer stops the running one
+    db.startTimer(other.id);
+
+    expect(db.getRunningTimer().data!.task_id).toBe(other.id);
+    expect(db.getTaskById(task.id).data!.actual_duration).toBe(35);
+    expect(db.getTaskById(other.id).data!.actual_duration).toBeFalsy();
+
+    const first = db.getTimeEntries(task.id).data!.find(entry => entry.duration === 25)!;
+    db.deleteTimeEntry(first.id);
+    expect(db.getTaskById(task.id).data!.actual_duration).toBe(10);
+
+    db.stopTimer();
+    expect(db.stopTimer()).toMatchObject({ success: false, error: 'No timer is running' });
+  });
+});
+
+describe('deleteProject', () => {
+  it('moves its tasks to the Inbox and its subprojects up to its parent', () => {
+    const area = db.createProject({ name: 'Area' }).data!;
+    const project = db.createProject({ name: 'Project', parent_id: area.id }).data!;
+    const subproject = db.createProject({ name: 'Subproject', parent_id: project.id }).data!;
+    const section = db.createSection({ name: 'Next', project_id: project.id }).data!;
+    const task = db.createTask({ title: 'Plan', project_id: project.id, section_id: section.id }).data!;
+    const subtask = db.createTask({ title: 'Outline', project_id: subproject.id }).data!;
+
+    expect(db.deleteProject(project.id).success).toBe(true);
+
+    expect(db.getProjectById(project.id).success).toBe(false);
+    expect(db.getTaskById(task.id).data).toMatchObject({ project_id: 'proj_inbox', section_id: undefined });
+    expect(db.getProjectById(subproject.id).data!.parent_id).toBe(area.id);
+    expect(db.getTaskById(subtask.id).data!.project_id).toBe(subproject.id);
+    expect(db.getSections(project.id).data).toEqual([]);
+  });
+
+  it('refuses to delete the Inbox', () => {
+    expect(db.deleteProject('proj_inbox')).toEqual({ success: false, error: 'The Inbox cannot be deleted' });
+  });
+});
+
+describe('sections', () => {
+  it('are reordered within their project', () => {
+    const project = db.createProject({ name: 'Kitchen' }).data!;
+    const [first, second, third] = ['Plan', 'Buy', 'Build']
+      .map(name => db.createSection({ name, project_id: project.id }).data!);
+
+    const reordered = db.reorderSections(project.id, [third.id, first.id, second.id]).data!;
+
+    expect(reordered.map(section => section.name)).toEqual(['Build', 'Plan', 'Buy']);
+    expect(reordered.map(section => section.sort_order)).toEqual([0, 1, 2]);
+  });
+
+  it('leave their tasks in the project when deleted', () => {
+    const project = db.createProject({ name: 'Garden' }).data!;
+    const section = db.createSection({ name: 'Spring', project_id: project.id }).data!;
+    const task = db.createTask({ title: 'Sow beans', project_id: project.id, section_id: section.id }).data!;
+
+    expect(db.deleteSection(section.id).success).toBe(true);
+
+    expect(db.getSections(project.id).data).toEqual([]);
+    expect(db.getTaskById(task.id).data).toMatchObject({ project_id: project.id, section_id: undefined });
+  });
+});
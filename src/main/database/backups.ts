@@ -0,0 +1,227 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type { DatabaseManager } from './DatabaseManager.js';
+import type { DatabaseBackup, DatabaseResult } from '../../types/database.js';
+
+const BACKUP_INTERVAL = 24 * 60 * 60 * 1000;
+// Checked hourly rather than on a daily timer, which a sleeping machine would keep postponing
+const CHECK_INTERVAL = 60 * 60 * 1000;
+const MAX_BACKUPS = 7;
+
+const BACKUP_FILE = /^openza-[\dTZ-]+\.db$/;
+
+export const createBackupFileName = (date = new Date()) =>
+  `openza-${date.toISOString().replace(/[:.]/g, '-')}.db`;
+
+/**
+ * Copies of the database in a folder under userData.
+ *
+ * A backup is taken when the newest one is a day old and only the last
+ * MAX_BACKUPS are kept. Restoring checks the copy first: it has to be an
+ * intact Openza database of a schema version this build can migrate. The
+ * current database is backed up before it is replaced, so a restore can be
+ * undone by restoring that backup.
+ */
+export class DatabaseBackups {
+  private db: DatabaseManager;
+  private directory: string;
+  private timer?: NodeJS.Timeout;
+  // Backups, restores and syncs run one at a time, as a restore closes the database
+  private queue: Promise<unknown> = Promise.resolve();
+  private restoring = false;
+
+  constructor(db: DatabaseManager, directory: string) {
+    this.db = db;
+    this.directory = directory;
+  }
+
+  start() {
+    this.stop();
+    this.backupIfDue();
+    this.timer = setInterval(() => this.backupIfDue(), CHECK_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  getBackups(): DatabaseResult<DatabaseBackup[]> {
+    try {
+      if (!fs.existsSync(this.directory)) {
+        return { success: true, data: [] };
+      }
+
+      const backups = fs.readdirSync(this.directory)
+        .filter(fileName => BACKUP_FILE.test(fileName))
+        .map(fileName => this.describeBackup(fileName))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return { success: true, data: backups };
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  createBackup(): Promise<DatabaseResult<DatabaseBackup>> {
+    return this.enqueue(async () => {
+      const result = await this.writeBackup();
+      if (result.success) {
+        this.removeOldBackups();
+      }
+      return result;
+    });
+  }
+
+  // Resolves to the backup of the database as it was before the restore
+  restoreBackup(fileName: string): Promise<DatabaseResult<DatabaseBackup>> {
+    return this.enqueue(async () => {
+      this.restoring = true;
+      try {
+        return await this.restore(fileName);
+      } finally {
+        this.restoring = false;
+      }
+    });
+  }
+
+  // Writes are refused meanwhile, as they would be lost with the replaced database
+  isRestoring() {
+    return this.restoring;
+  }
+
+  // Syncs go through the same queue, as a restore must not swap the database
+  // underneath one
+  enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async restore(fileName: string): Promise<DatabaseResult<DatabaseBackup>> {
+    // Only files of the backup folder can be restored
+    if (!BACKUP_FILE.test(fileName) || !fs.existsSync(path.join(this.directory, fileName))) {
+      return { success: false, error: `Backup ${fileName} not found` };
+    }
+
+    const source = path.join(this.directory, fileName);
+    const problem = this.validateBackup(source);
+    if (problem) {
+      return { success: false, error: problem };
+    }
+
+    const current = await this.writeBackup();
+    if (!current.success) {
+      return { success: false, error: `Could not back up the current database: ${current.error}` };
+    }
+
+    const replaced = this.db.replaceWith(source);
+    if (!replaced.success) {
+      return { success: false, error: this.putBack(current.data!, replaced.error) };
+    }
+
+    this.removeOldBackups();
+    return current;
+  }
+
+  // Puts the database of before a failed restore back, or reopens whatever
+  // the database file holds as a last resort, and describes what went wrong
+  private putBack(previous: DatabaseBackup, error?: string): string {
+    const restored = this.db.replaceWith(path.join(this.directory, previous.file_name));
+    if (restored.success) {
+      return `The backup could not be restored: ${error}`;
+    }
+
+    const problems = [
+      `The backup could not be restored: ${error}`,
+      `putting back the previous database failed: ${restored.error}`,
+    ];
+    const reopened = this.db.reopen();
+    if (!reopened.success) {
+      problems.push(`reopening the database failed: ${reopened.error}`);
+    }
+    return `${problems.join('; ')}. The previous database is kept in backup ${previous.file_name}`;
+  }
+
+  private async backupIfDue() {
+    const backups = this.getBackups();
+    const latest = backups.data?.[0];
+    if (backups.success && latest && Date.now() - new Date(latest.created_at).getTime() < BACKUP_INTERVAL) {
+      return;
+    }
+
+    const result = await this.createBackup();
+    if (!result.success) {
+      console.error('Automatic backup failed:', result.error);
+    }
+  }
+
+  private async writeBackup(): Promise<DatabaseResult<DatabaseBackup>> {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true });
+      const fileName = createBackupFileName();
+      const result = await this.db.backupTo(path.join(this.directory, fileName));
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+      return { success: true, data: this.describeBackup(fileName) };
+    } catch (error) {
+      console.error('Error writing backup:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private removeOldBackups() {
+    for (const backup of (this.getBackups().data || []).slice(MAX_BACKUPS)) {
+      fs.rmSync(path.join(this.directory, backup.file_name), { force: true });
+    }
+  }
+
+  private describeBackup(fileName: string): DatabaseBackup {
+    const file = path.join(this.directory, fileName);
+    let schemaVersion = 0;
+    try {
+      const db = new Database(file, { readonly: true, fileMustExist: true });
+      schemaVersion = db.pragma('user_version', { simple: true }) as number;
+      db.close();
+    } catch {
+      // Unreadable copies are listed with version 0 and refused on restore
+    }
+
+    const stats = fs.statSync(file);
+    return {
+      file_name: fileName,
+      size: stats.size,
+      schema_version: schemaVersion,
+      created_at: stats.mtime.toISOString(),
+    };
+  }
+
+  // Why the file cannot be restored, or undefined when it can
+  private validateBackup(file: string): string | undefined {
+    let db: Database.Database | undefined;
+    try {
+      db = new Database(file, { readonly: true, fileMustExist: true });
+      const version = db.pragma('user_version', { simple: true }) as number;
+      const hasTasks = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'tasks'").get();
+
+      if (version === 0 || !hasTasks) {
+        return 'The backup is not an Openza database';
+      }
+      if (version > this.db.getLatestSchemaVersion()) {
+        return `The backup was made by a newer version of Openza (schema ${version}, this version supports up to ${this.db.getLatestSchemaVersion()})`;
+      }
+      if (db.pragma('integrity_check', { simple: true }) !== 'ok') {
+        return 'The backup is damaged and failed the integrity check';
+      }
+      return undefined;
+    } catch (error) {
+      return `The backup could not be read: ${(error as Error).message}`;
+    } finally {
+      db?.close();
+    }
+  }
+}
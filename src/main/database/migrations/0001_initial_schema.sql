@@ -1,10 +1,7 @@
 -- Openza Database Schema
 -- Local-first task management with wrapper pattern for external integrations
 
--- Enable modern SQLite features
-PRAGMA journal_mode = WAL;
-PRAGMA synchronous = NORMAL;
-PRAGMA foreign_keys = ON;
+-- migrate:up
 
 -- Core projects table with integration support
 CREATE TABLE IF NOT EXISTS projects (
@@ -168,4 +165,19 @@ INSERT OR IGNORE INTO labels (id, name, color, created_at) VALUES
   ('label_urgent', 'urgent', '#ef4444', CURRENT_TIMESTAMP),
   ('label_important', 'important', '#f59e0b', CURRENT_TIMESTAMP),
   ('label_learning', 'learning', '#3b82f6', CURRENT_TIMESTAMP),
-  ('label_review', 'review', '#8b5cf6', CURRENT_TIMESTAMP);
\ No newline at end of file
+  ('label_review', 'review', '#8b5cf6', CURRENT_TIMESTAMP);
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS task_search_insert;
+DROP TRIGGER IF EXISTS task_search_update;
+DROP TRIGGER IF EXISTS task_search_delete;
+DROP TABLE IF EXISTS task_search;
+
+DROP TABLE IF EXISTS task_labels;
+DROP TABLE IF EXISTS time_entries;
+DROP TABLE IF EXISTS task_enhancements;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS labels;
+DROP TABLE IF EXISTS projects;
+DROP TABLE IF EXISTS integrations;
@@ -0,0 +1,39 @@
+-- The original FTS triggers updated the external content index in place,
+-- which corrupts it once a title changes; recreate them and rebuild
+
+-- migrate:up
+
+DROP TRIGGER IF EXISTS task_search_update;
+DROP TRIGGER IF EXISTS task_search_delete;
+
+-- External content tables must be given the old values through the 'delete' command
+CREATE TRIGGER task_search_update AFTER UPDATE ON tasks BEGIN
+  INSERT INTO task_search(task_search, rowid, title, description, notes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.notes);
+  INSERT INTO task_search(rowid, title, description, notes)
+  VALUES (new.rowid, new.title, new.description, new.notes);
+END;
+
+CREATE TRIGGER task_search_delete AFTER DELETE ON tasks BEGIN
+  INSERT INTO task_search(task_search, rowid, title, description, notes)
+  VALUES ('delete', old.rowid, old.title, old.description, old.notes);
+END;
+
+INSERT INTO task_search(task_search) VALUES ('rebuild');
+
+-- migrate:down
+
+DROP TRIGGER IF EXISTS task_search_update;
+DROP TRIGGER IF EXISTS task_search_delete;
+
+CREATE TRIGGER task_search_update AFTER UPDATE ON tasks BEGIN
+  UPDATE task_search SET 
+    title = new.title, 
+    description = new.description, 
+    notes = new.notes 
+  WHERE rowid = new.rowid;
+END;
+
+CREATE TRIGGER task_search_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_search WHERE rowid = old.rowid;
+END;
@@ -0,0 +1,11 @@
+-- Track synced task enhancements, e.g. checklist items of MS To-Do tasks
+
+-- migrate:up
+
+ALTER TABLE task_enhancements ADD COLUMN integrations TEXT; -- JSON: {"msToDo": {"id": "...", "list_id": "..."}}
+ALTER TABLE task_enhancements ADD COLUMN updated_at DATETIME;
+
+-- migrate:down
+
+ALTER TABLE task_enhancements DROP COLUMN updated_at;
+ALTER TABLE task_enhancements DROP COLUMN integrations;
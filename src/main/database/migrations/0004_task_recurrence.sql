@@ -0,0 +1,9 @@
+-- Repeating tasks
+
+-- migrate:up
+
+ALTER TABLE tasks ADD COLUMN recurrence TEXT; -- RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
+
+-- migrate:down
+
+ALTER TABLE tasks DROP COLUMN recurrence;
@@ -0,0 +1,29 @@
+-- Sync conflicts awaiting resolution, and at most one running timer
+
+-- migrate:up
+
+-- Sync conflicts awaiting resolution
+CREATE TABLE IF NOT EXISTS sync_conflicts (
+  id TEXT PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  integration TEXT NOT NULL, -- 'todoist', 'msToDo', etc.
+  external_id TEXT,
+  fields TEXT NOT NULL, -- JSON: [{"field": "title", "local": "...", "remote": "...", "base": "..."}]
+  local_updated_at DATETIME,
+  remote_updated_at DATETIME,
+  status TEXT DEFAULT 'pending', -- 'pending' | 'resolved'
+  resolution TEXT, -- 'local' | 'remote' | 'merge'
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  resolved_at DATETIME,
+  FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_conflicts_task_id ON sync_conflicts(task_id, status);
+
+-- At most one running timer (an entry without end_time) at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running ON time_entries((1)) WHERE end_time IS NULL;
+
+-- migrate:down
+
+DROP INDEX IF EXISTS idx_time_entries_running;
+DROP TABLE IF EXISTS sync_conflicts;
@@ -0,0 +1,16 @@
+-- Task changes made in the app, with the task rows before and after them for undo and redo
+
+-- migrate:up
+
+CREATE TABLE operation_journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  description TEXT NOT NULL, -- e.g. 'Task deleted'
+  undo TEXT NOT NULL, -- JSON: task snapshots that revert the operation
+  redo TEXT NOT NULL, -- JSON: task snapshots that apply it again
+  undone BOOLEAN DEFAULT FALSE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+
+DROP TABLE operation_journal;
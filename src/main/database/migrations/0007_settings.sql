@@ -0,0 +1,13 @@
+-- App settings stored with the data they apply to, as JSON values by key
+
+-- migrate:up
+
+CREATE TABLE settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL, -- JSON
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+
+DROP TABLE settings;
@@ -0,0 +1,25 @@
+-- Sections grouping the tasks of a project, like Todoist's sections
+
+-- migrate:up
+
+CREATE TABLE sections (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  sort_order INTEGER DEFAULT 0,
+  integrations TEXT, -- JSON: {"todoist": {"id": "123", "synced_at": "..."}}
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_sections_project_id ON sections(project_id);
+
+ALTER TABLE tasks ADD COLUMN section_id TEXT REFERENCES sections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_tasks_section_id ON tasks(section_id) WHERE section_id IS NOT NULL;
+
+-- migrate:down
+
+DROP INDEX idx_tasks_section_id;
+ALTER TABLE tasks DROP COLUMN section_id;
+DROP TABLE sections;
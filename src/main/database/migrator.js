@@ -0,0 +1,176 @@
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const MIGRATIONS_DIRECTORY = path.join(__dirname, 'migrations');
+
+// e.g. 0004_task_recurrence.sql
+const MIGRATION_FILE = /^(\d+)_(\w+)\.sql$/;
+const UP_MARKER = /^-- migrate:up\s*$/m;
+const DOWN_MARKER = /^-- migrate:down\s*$/m;
+
+/**
+ * Migrations of a folder of NNNN_name.sql files, in version order.
+ *
+ * Each file holds the SQL that applies the migration after a "-- migrate:up"
+ * line and the SQL that reverts it after a "-- migrate:down" line.
+ */
+export const loadMigrations = (directory = MIGRATIONS_DIRECTORY) => {
+  const migrations = fs.readdirSync(directory)
+    .filter(fileName => MIGRATION_FILE.test(fileName))
+    .map(fileName => {
+      const [, version, name] = fileName.match(MIGRATION_FILE);
+      const sql = fs.readFileSync(path.join(directory, fileName), 'utf8');
+      const upStart = sql.search(UP_MARKER);
+      const downStart = sql.search(DOWN_MARKER);
+      if (upStart === -1 || downStart < upStart) {
+        throw new Error(`Migration ${fileName} needs a "-- migrate:up" section followed by "-- migrate:down"`);
+      }
+
+      const up = sql.slice(upStart, downStart).replace(UP_MARKER, '').trim();
+      return {
+        version: Number(version),
+        name,
+        up,
+        down: sql.slice(downStart).replace(DOWN_MARKER, '').trim(),
+        checksum: crypto.createHash('sha256').update(up).digest('hex'),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version === migrations[index - 1].version) {
+      throw new Error(`Two migrations have version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+};
+
+/**
+ * Applies and reverts schema migrations of a database.
+ *
+ * PRAGMA user_version holds the version of the last applied migration and the
+ * schema_migrations table the checksum of each one. A migration file edited
+ * after it was applied no longer matches its checksum and stops the database
+ * from opening, since the change would never reach existing databases. Ship
+ * a new migration instead.
+ */
+export class Migrator {
+  constructor(db, migrations = loadMigrations()) {
+    this.db = db;
+    this.migrations = migrations;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    this.recordLegacyMigrations();
+  }
+
+  getCurrentVersion() {
+    return this.db.pragma('user_version', { simple: true });
+  }
+
+  getLatestVersion() {
+    return this.migrations.length > 0 ? this.migrations[this.migrations.length - 1].version : 0;
+  }
+
+  getPendingMigrations() {
+    const current = this.getCurrentVersion();
+    return this.migrations.filter(migration => migration.version > current);
+  }
+
+  // Throws when the database was migrated by a newer release or a migration file changed since
+  verify() {
+    const current = this.getCurrentVersion();
+    if (current > this.getLatestVersion()) {
+      throw new Error(`Database schema version ${current} is newer than this version of Openza supports (${this.getLatestVersion()})`);
+    }
+
+    for (const applied of this.getAppliedMigrations()) {
+      const migration = this.migrations.find(item => item.version === applied.version);
+      if (!migration) {
+        throw new Error(`Applied migration ${applied.version}_${applied.name} is missing`);
+      }
+      if (migration.checksum !== applied.checksum) {
+        throw new Error(`Migration ${applied.version}_${applied.name} was changed after it was applied`);
+      }
+    }
+  }
+
+  // Applies the pending migrations up to target, each in its own transaction
+  migrate(target = this.getLatestVersion()) {
+    this.verify();
+    const pending = this.getPendingMigrations().filter(migration => migration.version <= target);
+
+    for (const migration of pending) {
+      console.log(`Running migration ${migration.version}_${migration.name}`);
+      this.runInTransaction(() => {
+        this.db.exec(migration.up);
+        this.db.prepare('INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, migration.checksum);
+        this.db.pragma(`user_version = ${migration.version}`);
+      });
+    }
+
+    return pending;
+  }
+
+  // Reverts the applied migrations above target, newest first. Meant for development.
+  rollback(target) {
+    const current = this.getCurrentVersion();
+    const applied = this.migrations
+      .filter(migration => migration.version > target && migration.version <= current)
+      .reverse();
+
+    applied.forEach((migration, index) => {
+      console.log(`Reverting migration ${migration.version}_${migration.name}`);
+      const previous = applied[index + 1]?.version ?? target;
+      this.runInTransaction(() => {
+        this.db.exec(migration.down);
+        this.db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+        this.db.pragma(`user_version = ${previous}`);
+      });
+    });
+
+    return applied;
+  }
+
+  getAppliedMigrations() {
+    return this.db.prepare('SELECT * FROM schema_migrations ORDER BY version').all();
+  }
+
+  // Databases from before schema_migrations only have user_version; their
+  // migrations are taken to match the current files
+  recordLegacyMigrations() {
+    const current = this.getCurrentVersion();
+    if (current === 0 || this.getAppliedMigrations().length > 0) {
+      return;
+    }
+
+    const insert = this.db.prepare('INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)');
+    this.runInTransaction(() => {
+      for (const migration of this.migrations.filter(item => item.version <= current)) {
+        insert.run(migration.version, migration.name, migration.checksum);
+      }
+    });
+  }
+
+  runInTransaction(fn) {
+    this.db.transaction(() => {
+      // Tables may be dropped or rebuilt before the rows referring to them
+      this.db.pragma('defer_foreign_keys = ON');
+      fn();
+    })();
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { Migrator, loadMigrations } from './migrator.js';
+
+const migrations = loadMigrations();
+const latest = migrations[migrations.length - 1].version;
+
+const openDatabase = () => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+};
+
+// Tables, indexes and triggers, without the migration bookkeeping
+const describeSchema = (db: Database.Database) =>
+  (db.prepare(`
+    SELECT type, name, sql FROM sqlite_master
+    WHERE name NOT LIKE 'sqlite_%' AND name != 'schema_migrations'
+    ORDER BY type, name
+  `).all() as { type: string; name: string; sql: string | null }[])
+    .map(item => `${item.type} ${item.name}: ${(item.sql || '').replace(/\s+/g, ' ')}`);
+
+const migratedTo = (version: number) => {
+  const db = openDatabase();
+  new Migrator(db, migrations).migrate(version);
+  return db;
+};
+
+const latestSchema = describeSchema(migratedTo(latest));
+
+// Every version but the latest, which has nothing left to migrate
+const earlierVersions = migrations.map(migration => migration.version).filter(version => version < latest);
+
+const addTask = (db: Database.Database) =>
+  db.prepare("INSERT INTO tasks (id, title, project_id) VALUES ('task_migrated', 'Migrated task', 'proj_inbox')").run();
+
+describe('Migrator', () => {
+  it.each(earlierVersions)('migrates a database of version %i to the latest one and back', version => {
+    const db = migratedTo(version);
+    const schema = describeSchema(db);
+    addTask(db);
+
+    const migrator = new Migrator(db, migrations);
+    migrator.migrate();
+
+    expect(describeSchema(db)).toEqual(latestSchema);
+    expect(db.prepare("SELECT rowid FROM task_search WHERE task_search MATCH 'migrated'").all()).toHaveLength(1);
+    expect(db.pragma('foreign_key_check')).toEqual([]);
+
+    migrator.rollback(version);
+
+    expect(migrator.getCurrentVersion()).toBe(version);
+    expect(describeSchema(db)).toEqual(schema);
+    expect(db.prepare("SELECT title FROM tasks WHERE id = 'task_migrated'").get()).toEqual({ title: 'Migrated task' });
+  });
+
+  it('migrates a database released before schema_migrations, which only has user_version 1', () => {
+    const db = migratedTo(1);
+    addTask(db);
+    db.exec('DROP TABLE schema_migrations');
+
+    new Migrator(db, migrations).migrate();
+
+    expect(describeSchema(db)).toEqual(latestSchema);
+    expect(db.prepare('SELECT version FROM schema_migrations ORDER BY version').all())
+      .toEqual(migrations.map(migration => ({ version: migration.version })));
+  });
+
+  it('reverts every migration and applies them again', () => {
+    const db = migratedTo(latest);
+    const migrator = new Migrator(db, migrations);
+
+    migrator.rollback(0);
+
+    expect(migrator.getCurrentVersion()).toBe(0);
+    expect(describeSchema(db)).toEqual([]);
+
+    migrator.migrate();
+    expect(describeSchema(db)).toEqual(latestSchema);
+  });
+
+  it('refuses migrations edited after they were applied', () => {
+    const db = migratedTo(latest);
+    const edited = migrations.map(migration => migration.version === 1 ? { ...migration, checksum: 'edited' } : migration);
+
+    expect(() => new Migrator(db, edited).migrate()).toThrow('was changed after it was applied');
+  });
+});
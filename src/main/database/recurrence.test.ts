@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { anchorRule, getNextOccurrence, parseRecurrenceText } from './recurrence.js';
+import type { RecurrenceRule } from '../../types/database.js';
+
+// Follows a series from its first occurrence the way completing each task does
+const series = (text: string, start: string, length: number) => {
+  const rule = anchorRule(parseRecurrenceText(text)!, start);
+  const dates = [start];
+  while (dates.length < length) {
+    dates.push(getNextOccurrence(rule, dates[dates.length - 1])!);
+  }
+  return dates;
+};
+
+describe('getNextOccurrence', () => {
+  it('repeats daily and weekly rules', () => {
+    expect(getNextOccurrence({ frequency: 'daily', interval: 3 }, '2026-10-30')).toBe('2026-11-02');
+    expect(getNextOccurrence({ frequency: 'weekly', interval: 1, by_day: ['MO', 'FR'] }, '2026-10-20')).toBe('2026-10-23');
+  });
+
+  it('uses the last day of months shorter than the rule day', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, by_month_day: 31 };
+    expect(getNextOccurrence(rule, '2026-01-31')).toBe('2026-02-28');
+    expect(getNextOccurrence(rule, '2026-02-28')).toBe('2026-03-31');
+  });
+
+  it('stops after the until date', () => {
+    expect(getNextOccurrence({ frequency: 'daily', interval: 1, until: '2026-10-20' }, '2026-10-20')).toBeUndefined();
+  });
+});
+
+describe('anchorRule', () => {
+  it('keeps monthly series on the day they started', () => {
+    expect(series('every month', '2026-01-31', 5)).toEqual(['2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31']);
+  });
+
+  it('keeps yearly series on the date they started', () => {
+    expect(series('every year', '2028-02-29', 5)).toEqual(['2028-02-29', '2029-02-28', '2030-02-28', '2031-02-28', '2032-02-29']);
+    expect(series('every year', '2027-02-28', 2)).toEqual(['2027-02-28', '2028-02-28']);
+  });
+
+  it('leaves days written in the rule alone', () => {
+    expect(anchorRule({ frequency: 'monthly', interval: 1, by_month_day: 15 }, '2026-01-31').by_month_day).toBe(15);
+    expect(anchorRule({ frequency: 'weekly', interval: 1 }, '2026-01-31')).toEqual({ frequency: 'weekly', interval: 1 });
+  });
+});
@@ -0,0 +1,352 @@
+import type {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceWeekday,
+} from '../../types/database.js';
+
+const WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WEEKDAY_NAMES: Record<RecurrenceWeekday, string> = {
+  MO: 'monday',
+  TU: 'tuesday',
+  WE: 'wednesday',
+  TH: 'thursday',
+  FR: 'friday',
+  SA: 'saturday',
+  SU: 'sunday',
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const WORKDAYS: RecurrenceWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+// Dates are handled as UTC midnights so DST changes never shift a day
+const toDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * 86400000);
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const ordinal = (day: number): string => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st'
+    : day % 10 === 2 && day !== 12 ? 'nd'
+    : day % 10 === 3 && day !== 13 ? 'rd'
+    : 'th';
+  return `${day}${suffix}`;
+};
+
+/**
+ * Parse an RRULE string (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYMONTH, UNTIL, COUNT)
+ */
+export const parseRRule = (rrule: string): RecurrenceRule | undefined => {
+  const parts = new Map(
+    rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean).map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.toUpperCase(), value.toUpperCase()] as [string, string];
+    })
+  );
+
+  const frequency = parts.get('FREQ')?.toLowerCase() as RecurrenceFrequency | undefined;
+  if (!frequency || !(frequency in FREQUENCY_UNITS)) {
+    return undefined;
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: Number(parts.get('INTERVAL') || 1) };
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    return undefined;
+  }
+
+  if (parts.has('BYDAY')) {
+    const days = parts.get('BYDAY')!.split(',') as RecurrenceWeekday[];
+    if (days.some(day => !WEEKDAYS.includes(day))) {
+      return undefined;
+    }
+    rule.by_day = days;
+  }
+  if (parts.has('BYMONTHDAY')) {
+    rule.by_month_day = Number(parts.get('BYMONTHDAY'));
+  }
+  if (parts.has('BYMONTH')) {
+    rule.by_month = Number(parts.get('BYMONTH'));
+  }
+  if (parts.has('UNTIL')) {
+    const until = parts.get('UNTIL')!.replace(/^(\d{4})(\d{2})(\d{2}).*$/, '$1-$2-$3');
+    rule.until = /^\d{4}-\d{2}-\d{2}$/.test(until) ? until : undefined;
+  }
+  if (parts.has('COUNT')) {
+    rule.count = Number(parts.get('COUNT'));
+  }
+
+  const invalid = (rule.by_month_day !== undefined && !(rule.by_month_day >= 1 && rule.by_month_day <= 31))
+    || (rule.by_month !== undefined && !(rule.by_month >= 1 && rule.by_month <= 12))
+    || (parts.has('UNTIL') && !rule.until)
+    || (rule.count !== undefined && !(Number.isInteger(rule.count) && rule.count >= 1));
+
+  return invalid ? undefined : rule;
+};
+
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.by_day?.length) parts.push(`BYDAY=${rule.by_day.join(',')}`);
+  if (rule.by_month_day) parts.push(`BYMONTHDAY=${rule.by_month_day}`);
+  if (rule.by_month) parts.push(`BYMONTH=${rule.by_month}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+const parseWeekday = (word: string): RecurrenceWeekday | undefined =>
+  (Object.keys(WEEKDAY_NAMES) as RecurrenceWeekday[])
+    .find(day => word.length >= 2 && WEEKDAY_NAMES[day].startsWith(word.replace(/s$/, '')));
+
+const parseMonth = (word: string): number | undefined => {
+  const index = MONTH_NAMES.findIndex(month => word.length >= 3 && month.startsWith(word));
+  return index === -1 ? undefined : index + 1;
+};
+
+/**
+ * Parse natural language such as "every day", "every other week", "every mon, wed",
+ * "every 2 weeks on friday", "every month on the 15th", "every jan 1" or
+ * "weekdays until 2025-12-31". Todoist due strings use the same phrasing; a
+ * trailing time ("at 9am") is ignored.
+ */
+export const parseRecurrenceText = (text: string): RecurrenceRule | undefined => {
+  let input = text.toLowerCase().trim()
+    .replace(/!/g, '')
+    .replace(/\s+at\s+.*$/, '')
+    .replace(/\s+/g, ' ');
+
+  let until: string | undefined;
+  let count: number | undefined;
+  const untilMatch = input.match(/\s+(?:until|ending)\s+(\d{4}-\d{2}-\d{2})$/);
+  if (untilMatch) {
+    until = untilMatch[1];
+    input = input.slice(0, untilMatch.index);
+  }
+  const countMatch = input.match(/,?\s+(?:for\s+)?(\d+)\s+times$/);
+  if (countMatch) {
+    count = Number(countMatch[1]);
+    input = input.slice(0, countMatch.index);
+  }
+
+  const rule = parseRecurrencePhrase(input);
+  return rule && { ...rule, ...(until && { until }), ...(count && { count }) };
+};
+
+const parseRecurrencePhrase = (input: string): RecurrenceRule | undefined => {
+  const shorthands: Record<string, RecurrenceRule> = {
+    daily: { frequency: 'daily', interval: 1 },
+    everyday: { frequency: 'daily', interval: 1 },
+    weekly: { frequency: 'weekly', interval: 1 },
+    monthly: { frequency: 'monthly', interval: 1 },
+    yearly: { frequency: 'yearly', interval: 1 },
+    annually: { frequency: 'yearly', interval: 1 },
+    weekdays: { frequency: 'weekly', interval: 1, by_day: WORKDAYS },
+  };
+
+  const onMatch = input.match(/^(daily|weekly|monthly|yearly|annually) on (.+)$/);
+  if (onMatch) {
+    return parseRecurrencePhrase(`every ${FREQUENCY_UNITS[shorthands[onMatch[1]].frequency]} on ${onMatch[2]}`);
+  }
+  if (shorthands[input]) {
+    return { ...shorthands[input] };
+  }
+
+  const match = input.match(/^(?:every|each) (.+)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  let rest = match[1];
+  let interval = 1;
+  const intervalMatch = rest.match(/^(other|\d+) (.+)$/);
+  if (intervalMatch) {
+    interval = intervalMatch[1] === 'other' ? 2 : Number(intervalMatch[1]);
+    rest = intervalMatch[2];
+  }
+  if (interval < 1) {
+    return undefined;
+  }
+
+  // "every 2 weeks on monday", "every month on the 15th"
+  const [unitPart, detail] = rest.split(/ on (?:the )?/);
+  const unit = (Object.keys(FREQUENCY_UNITS) as RecurrenceFrequency[])
+    .find(frequency => unitPart === FREQUENCY_UNITS[frequency] || unitPart === `${FREQUENCY_UNITS[frequency]}s`);
+
+  if (unit) {
+    const rule: RecurrenceRule = { frequency: unit, interval };
+    if (!detail) {
+      return rule;
+    }
+    const days = parseWeekdays(detail);
+    const monthDay = detail.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+    if (unit === 'weekly' && days) {
+      return { ...rule, by_day: days };
+    }
+    if (unit === 'monthly' && monthDay) {
+      return { ...rule, by_month_day: Number(monthDay[1]) };
+    }
+    if (unit === 'yearly') {
+      const yearly = parseMonthDay(detail);
+      return yearly && { ...rule, ...yearly };
+    }
+    return undefined;
+  }
+
+  if (rest === 'weekday' || rest === 'workday') {
+    return { frequency: 'weekly', interval, by_day: WORKDAYS };
+  }
+  if (rest === 'weekend') {
+    return { frequency: 'weekly', interval, by_day: ['SA', 'SU'] };
+  }
+
+  const days = parseWeekdays(rest);
+  if (days) {
+    return { frequency: 'weekly', interval, by_day: days };
+  }
+
+  const monthDay = rest.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+  if (monthDay) {
+    return { frequency: 'monthly', interval, by_month_day: Number(monthDay[1]) };
+  }
+
+  const yearly = parseMonthDay(rest);
+  return yearly && { frequency: 'yearly', interval, ...yearly };
+};
+
+const parseWeekdays = (text: string): RecurrenceWeekday[] | undefined => {
+  const words = text.split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean);
+  const days = words.map(parseWeekday);
+  return days.length > 0 && days.every(Boolean) ? days as RecurrenceWeekday[] : undefined;
+};
+
+// "jan 15", "january 15th", "15 january"
+const parseMonthDay = (text: string): Pick<RecurrenceRule, 'by_month' | 'by_month_day'> | undefined => {
+  const match = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?$/) || text.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const [monthWord, day] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+  const month = parseMonth(monthWord);
+  return month && Number(day) <= 31 ? { by_month: month, by_month_day: Number(day) } : undefined;
+};
+
+/**
+ * Describe a rule in words, in a form parseRecurrenceText (and Todoist) reads back
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  const every = rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`;
+  let text = every;
+
+  if (rule.frequency === 'daily' && rule.interval === 1) {
+    text = 'every day';
+  } else if (rule.frequency === 'weekly' && rule.by_day?.length) {
+    const isWorkdays = rule.by_day.length === WORKDAYS.length && WORKDAYS.every(day => rule.by_day!.includes(day));
+    const days = isWorkdays ? 'weekday' : rule.by_day.map(day => WEEKDAY_NAMES[day]).join(', ');
+    text = rule.interval === 1 ? `every ${days}` : `${every} on ${days}`;
+  } else if (rule.frequency === 'monthly' && rule.by_month_day) {
+    text = `${every} on the ${ordinal(rule.by_month_day)}`;
+  } else if (rule.frequency === 'yearly' && rule.by_month && rule.by_month_day) {
+    const date = `${MONTH_NAMES[rule.by_month - 1]} ${rule.by_month_day}`;
+    text = rule.interval === 1 ? `every ${date}` : `${every} on ${date}`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+  if (rule.until) {
+    text += ` until ${rule.until}`;
+  }
+  return text;
+};
+
+// Stored rules that no longer parse are shown as they are
+export const describeRRule = (rrule: string): string => {
+  const rule = parseRRule(rrule);
+  return rule ? describeRecurrence(rule) : rrule;
+};
+
+/**
+ * The rule with the day (and for yearly rules the month) of its first
+ * occurrence written in. Without it, each occurrence would repeat the day of
+ * the one before, and a series on the 31st would stay on the 28th after February.
+ */
+export const anchorRule = (rule: RecurrenceRule, date: string): RecurrenceRule => {
+  const start = toDate(date);
+  if (rule.frequency === 'monthly') {
+    return { ...rule, by_month_day: rule.by_month_day || start.getUTCDate() };
+  }
+  if (rule.frequency === 'yearly') {
+    return { ...rule, by_month: rule.by_month || start.getUTCMonth() + 1, by_month_day: rule.by_month_day || start.getUTCDate() };
+  }
+  return rule;
+};
+
+/**
+ * The first date matching the rule strictly after `after` (YYYY-MM-DD), or
+ * undefined once the rule's UNTIL date has passed. COUNT is not applied here;
+ * callers decrement it on each generated occurrence.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, after: string): string | undefined => {
+  const start = toDate(after);
+  let next: Date | undefined;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(start, rule.interval);
+      break;
+
+    case 'weekly': {
+      if (!rule.by_day?.length) {
+        next = addDays(start, 7 * rule.interval);
+        break;
+      }
+      // Weeks start on Monday; only every interval-th week from the current one counts
+      const weekStart = addDays(start, -((start.getUTCDay() + 6) % 7));
+      for (let offset = 1; offset <= 7 * rule.interval + 7 && !next; offset++) {
+        const candidate = addDays(start, offset);
+        const week = Math.floor((candidate.getTime() - weekStart.getTime()) / (7 * 86400000));
+        if (week % rule.interval === 0 && rule.by_day.includes(WEEKDAYS[candidate.getUTCDay()])) {
+          next = candidate;
+        }
+      }
+      break;
+    }
+
+    case 'monthly':
+    case 'yearly': {
+      const months = rule.frequency === 'monthly' ? rule.interval : 12 * rule.interval;
+      const day = rule.by_month_day || start.getUTCDate();
+      let year = start.getUTCFullYear();
+      let month = rule.frequency === 'yearly' && rule.by_month ? rule.by_month - 1 : start.getUTCMonth();
+      // An explicit day later in the current period comes before moving on a full interval
+      for (let step = 0; step <= 48 && !next; step++) {
+        const total = year * 12 + month + (step === 0 ? 0 : months);
+        year = Math.floor(total / 12);
+        month = total % 12;
+        // Short months use their last day
+        const candidate = new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month))));
+        if (candidate > start) {
+          next = candidate;
+        }
+      }
+      break;
+    }
+  }
+
+  if (!next || (rule.until && toDateString(next) > rule.until)) {
+    return undefined;
+  }
+  return toDateString(next);
+};
@@ -0,0 +1,573 @@
+import {
+  formatCalDavTodo,
+  parseCalDavTodo,
+  toLocalPriority,
+  toLocalStatus,
+  toLocalRecurrence,
+} from '../sync/caldav.js';
+
+export const DATA_ARCHIVE_VERSION = 1;
+
+export const CSV_FIELDS = [
+  'id', 'title', 'description', 'project', 'priority', 'status', 'due_date', 'due_time',
+  'recurrence', 'labels', 'estimated_duration', 'context', 'notes', 'completed_at',
+];
+
+const TASK_STATUSES = ['pending', 'in_progress', 'completed', 'cancelled'];
+const TASK_CONTEXTS = ['work', 'personal', 'errands', 'home', 'office'];
+
+// Joined columns of queried tasks; labels are kept since imports match them by name
+const JOINED_TASK_FIELDS = ['project_name', 'project_color', 'checklist', 'subtasks', 'depth', 'time_entries', 'is_local'];
+
+// CSV
+
+const escapeCsv = (value) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Rows of an RFC 4180 CSV file; quoted fields may hold commas, quotes and line breaks
+ */
+export const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const splitNames = (value) =>
+  (value || '').split(',').map(name => name.trim()).filter(Boolean);
+
+// Dates in other formats are read by the JS date parser as local dates
+const toDateString = (value) => {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(value.trim())) {
+    return value.trim().slice(0, 10);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    return undefined;
+  }
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Keys of the external items an entity is synced with, e.g. "todoist:123"
+ */
+const getIntegrationKeys = (integrations) =>
+  Object.entries(integrations || {}).flatMap(([name, data]) => {
+    const id = data?.id ?? data?.page_id ?? data?.issue_id ?? data?.uid
+      ?? (data?.issue_number !== undefined ? `${data.repository}#${data.issue_number}` : undefined);
+    return id !== undefined ? [`${name}:${id}`] : [];
+  });
+
+// Parents come before their children so references can be checked while importing
+const sortByDepth = (items) => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const depth = (item, seen = new Set()) => {
+    const parent = item.parent_id ? byId.get(item.parent_id) : undefined;
+    if (!parent || seen.has(item.id)) return 0;
+    seen.add(item.id);
+    return depth(parent, seen) + 1;
+  };
+  return items
+    .map(item => ({ item, depth: depth(item) }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ item }) => item);
+};
+
+/**
+ * Export of the local database, and import of such exports or of files from other apps.
+ *
+ * JSON archives hold every project, section, label, task and time entry. CSV and
+ * iCalendar files hold tasks only, with projects and labels by name. Imported
+ * items that are already in the database, by id or by the ids of the
+ * services they are synced with, are skipped, so an archive can be imported
+ * again without duplicating anything.
+ */
+export class DataTransfer {
+  processed = 0;
+  skipped = 0;
+  errors = [];
+  integrationKeys = new Set();
+
+  constructor(db) {
+    this.db = db;
+  }
+
+  exportData(format) {
+    const tasks = this.getResult(this.db.getTasks(), 'tasks');
+
+    switch (format) {
+      case 'json':
+        return JSON.stringify(this.createArchive(tasks), null, 2);
+      case 'csv':
+        return this.exportCsv(tasks);
+      case 'ical':
+        return this.exportICal(tasks);
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  importData(format, content, options = {}) {
+    this.processed = 0;
+    this.skipped = 0;
+    this.errors = [];
+
+    try {
+      this.integrationKeys = new Set(this.getResult(this.db.getTasks(), 'tasks')
+        .flatMap(task => getIntegrationKeys(task.integrations)));
+
+      this.db.runInTransaction(() => {
+        switch (format) {
+          case 'json':
+            return this.importArchive(JSON.parse(content));
+          case 'csv':
+            return this.importCsv(content, options);
+          case 'ical':
+            return this.importICal(content);
+          default:
+            throw new Error(`Unsupported import format: ${format}`);
+        }
+      });
+    } catch (error) {
+      console.error('Error importing data:', error);
+      // The transaction was rolled back, so nothing was imported
+      return {
+        success: false,
+        processed: 0,
+        skipped: 0,
+        errors: [{ id: format, error: error.message }],
+      };
+    }
+
+    return {
+      success: this.errors.length === 0,
+      processed: this.processed,
+      skipped: this.skipped,
+      errors: this.errors,
+    };
+  }
+
+  getResult(result, name) {
+    if (!result.success) {
+      throw new Error(result.error || `Failed to load ${name}`);
+    }
+    return result.data || [];
+  }
+
+  // Export
+  createArchive(tasks) {
+    return {
+      format: 'openza',
+      version: DATA_ARCHIVE_VERSION,
+      exported_at: new Date().toISOString(),
+      projects: this.getResult(this.db.getProjects(), 'projects'),
+      sections: this.getResult(this.db.getSections(), 'sections'),
+      labels: this.getResult(this.db.getLabels(), 'labels'),
+      tasks: tasks.map(task => Object.fromEntries(
+        Object.entries(task).filter(([key]) => !JOINED_TASK_FIELDS.includes(key))
+      ) ),
+      time_entries: this.getResult(this.db.getTimeEntries(), 'time entries'),
+    };
+  }
+
+  exportCsv(tasks) {
+    const values = (task) => ({
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      project: task.project_name,
+      priority: task.priority,
+      status: task.status,
+      due_date: task.due_date,
+      due_time: task.due_time,
+      recurrence: task.recurrence,
+      labels: task.labels?.map(label => label.name).join(', '),
+      estimated_duration: task.estimated_duration,
+      context: task.context,
+      notes: task.notes,
+      completed_at: task.completed_at,
+    });
+
+    const rows = [CSV_FIELDS, ...tasks.map(task => CSV_FIELDS.map(field => values(task)[field]))];
+    return `${rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
+  }
+
+  exportICal(tasks) {
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Openza//Openza Desktop//EN',
+      ...tasks.map(formatCalDavTodo),
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n');
+  }
+
+  // Import
+  recordError(id, error) {
+    this.errors.push({ id, error: error || 'Unknown error' });
+  }
+
+  isSyncedTask(integrations) {
+    return getIntegrationKeys(integrations).some(key => this.integrationKeys.has(key));
+  }
+
+  importArchive(archive) {
+    if (archive?.format !== 'openza' || !Array.isArray(archive.tasks)) {
+      throw new Error('Not an Openza export');
+    }
+    if (archive.version > DATA_ARCHIVE_VERSION) {
+      throw new Error(`This export is from a newer version of Openza (archive version ${archive.version})`);
+    }
+
+    const labelIds = this.importLabels(archive.labels || []);
+    const projectIds = this.importProjects(archive.projects || []);
+    const sectionIds = this.importSections(archive.sections || [], projectIds);
+    const taskIds = new Map();
+
+    for (const task of sortByDepth(archive.tasks)) {
+      if (this.db.getTaskById(task.id).success) {
+        taskIds.set(task.id, task.id);
+        this.skipped++;
+        continue;
+      }
+      if (this.isSyncedTask(task.integrations)) {
+        this.skipped++;
+        continue;
+      }
+
+      const parentId = task.parent_id && (taskIds.get(task.parent_id)
+        || (this.db.getTaskById(task.parent_id).success ? task.parent_id : undefined));
+      const created = this.createTask({
+        ...task,
+        project_id: task.project_id && projectIds.get(task.project_id),
+        section_id: task.section_id && sectionIds.get(task.section_id),
+        parent_id: parentId || undefined,
+      }, (task.labels || []).map(label => labelIds.get(label.id) || this.findOrCreateLabel(label.name, label.color)));
+
+      if (created) {
+        taskIds.set(task.id, created.id);
+        if (task.completed_at) {
+          // createTask sets the completion time to now
+          this.db.updateTask(created.id, { completed_at: task.completed_at, updated_at: task.updated_at });
+        }
+      }
+    }
+
+    for (const entry of archive.time_entries || []) {
+      this.importTimeEntry(entry, taskIds);
+    }
+  }
+
+  importSections(sections, projectIds) {
+    const ids = new Map();
+
+    for (const section of sections) {
+      if (this.db.getSectionById(section.id).success) {
+        ids.set(section.id, section.id);
+        this.skipped++;
+        continue;
+      }
+
+      // Sections of projects that were not imported are left out
+      const projectId = projectIds.get(section.project_id);
+      if (!projectId) {
+        this.skipped++;
+        continue;
+      }
+
+      const created = this.db.createSection({
+        id: section.id,
+        name: section.name,
+        project_id: projectId,
+        sort_order: section.sort_order,
+        integrations: section.integrations,
+      });
+
+      if (!created.success) {
+        this.recordError(section.id, created.error);
+        continue;
+      }
+      ids.set(section.id, section.id);
+      this.processed++;
+    }
+
+    return ids;
+  }
+
+  importLabels(labels) {
+    const ids = new Map();
+    for (const label of labels) {
+      // Labels are matched by name, like synced labels
+      ids.set(label.id, this.findOrCreateLabel(label.name, label.color, label.description));
+    }
+    return ids;
+  }
+
+  importProjects(projects) {
+    const ids = new Map();
+
+    for (const project of sortByDepth(projects)) {
+      const existingId = this.db.getProjectById(project.id).success
+        ? project.id
+        : this.findProjectByIntegration(project.integrations);
+      if (existingId) {
+        ids.set(project.id, existingId);
+        this.skipped++;
+        continue;
+      }
+
+      const created = this.db.createProject({
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        icon: project.icon,
+        parent_id: project.parent_id && ids.get(project.parent_id),
+        sort_order: project.sort_order,
+        is_favorite: project.is_favorite,
+        integrations: project.integrations,
+      });
+
+      if (!created.success) {
+        this.recordError(project.id, created.error);
+        continue;
+      }
+
+      if (project.is_archived) {
+        this.db.updateProject(project.id, { is_archived: true });
+      }
+      ids.set(project.id, project.id);
+      this.processed++;
+    }
+
+    return ids;
+  }
+
+  findProjectByIntegration(integrations) {
+    for (const [name, data] of Object.entries(integrations || {})) {
+      const project = data?.id !== undefined ? this.db.getProjectByExternalId(name, String(data.id)) : undefined;
+      if (project?.success) {
+        return project.data.id;
+      }
+    }
+    return undefined;
+  }
+
+  importTimeEntry(entry, taskIds) {
+    const taskId = taskIds.get(entry.task_id);
+    // Entries of tasks that were not imported are left out
+    if (!taskId || this.db.getTimeEntryById(entry.id).success) {
+      this.skipped++;
+      return;
+    }
+
+    const created = this.db.createTimeEntry({
+      id: entry.id,
+      task_id: taskId,
+      start_time: entry.start_time,
+      end_time: entry.end_time,
+      description: entry.description,
+      energy_used: entry.energy_used,
+      focus_quality: entry.focus_quality,
+    });
+
+    if (created.success) {
+      this.processed++;
+    } else {
+      this.recordError(entry.id, created.error);
+    }
+  }
+
+  importCsv(content, options) {
+    const [headers, ...rows] = parseCsv(content);
+    if (!headers) {
+      throw new Error('The CSV file is empty');
+    }
+
+    const normalized = headers.map(header => header.trim().toLowerCase());
+    const columns = new Map(CSV_FIELDS.map(field => {
+      const header = options.column_map ? options.column_map[field] : field;
+      return [field, header ? normalized.indexOf(header.trim().toLowerCase()) : -1];
+    }));
+    if (columns.get('title') < 0) {
+      throw new Error('No title column found');
+    }
+
+    rows.forEach((row, index) => {
+      const get = (field) => {
+        const column = columns.get(field);
+        return column >= 0 ? row[column]?.trim() || undefined : undefined;
+      };
+      const rowId = `row ${index + 2}`;
+      const title = get('title');
+      if (!title) {
+        this.recordError(rowId, 'Missing title');
+        return;
+      }
+
+      const id = get('id');
+      if (id && this.db.getTaskById(id).success) {
+        this.skipped++;
+        return;
+      }
+
+      const status = get('status')?.toLowerCase();
+      const context = get('context')?.toLowerCase();
+      const priority = parseInt(get('priority') || '', 10);
+      const duration = parseInt(get('estimated_duration') || '', 10);
+      const recurrence = get('recurrence');
+      const projectName = get('project');
+
+      const created = this.createTask({
+        id,
+        title,
+        description: get('description'),
+        project_id: projectName ? this.findOrCreateProject(projectName) : undefined,
+        priority: priority >= 1 && priority <= 4 ? priority : undefined,
+        status: status && TASK_STATUSES.includes(status) ? status : undefined,
+        due_date: toDateString(get('due_date')),
+        due_time: get('due_time')?.match(/^\d{1,2}:\d{2}/) ? get('due_time').padStart(5, '0').slice(0, 5) : undefined,
+        recurrence: recurrence && toLocalRecurrence(recurrence),
+        estimated_duration: duration > 0 ? duration : undefined,
+        context: context && TASK_CONTEXTS.includes(context) ? context : undefined,
+        notes: get('notes'),
+      }, splitNames(get('labels')).map(name => this.findOrCreateLabel(name)), rowId);
+
+      const completedAt = get('completed_at');
+      if (created && completedAt && !isNaN(new Date(completedAt).getTime())) {
+        this.db.updateTask(created.id, { completed_at: new Date(completedAt).toISOString() });
+      }
+    });
+  }
+
+  importICal(content) {
+    const components = content.match(/^BEGIN:VTODO$[\s\S]*?^END:VTODO$/gim) || [];
+    if (components.length === 0) {
+      throw new Error('No tasks found in the iCalendar file');
+    }
+
+    const todos = components.flatMap(data => {
+      const todo = parseCalDavTodo({ href: '', data }, '');
+      return todo ? [todo] : [];
+    });
+    const taskIds = new Map();
+
+    for (const todo of sortByDepth(todos.map(todo => ({ ...todo, id: todo.uid, parent_id: todo.related_to })))) {
+      // Exports and imports use the task id as UID; tasks synced over CalDAV have it in their integrations
+      if (this.db.getTaskById(todo.uid).success || this.integrationKeys.has(`caldav:${todo.uid}`)) {
+        this.skipped++;
+        continue;
+      }
+
+      const parentId = todo.related_to && (taskIds.get(todo.related_to)
+        || (this.db.getTaskById(todo.related_to).success ? todo.related_to : undefined));
+
+      const created = this.createTask({
+        id: todo.uid,
+        title: todo.summary || 'Untitled task',
+        description: todo.description,
+        parent_id: parentId || undefined,
+        priority: toLocalPriority(todo.priority),
+        status: toLocalStatus(todo.status),
+        due_date: todo.due?.slice(0, 10),
+        due_time: todo.due?.slice(11) || undefined,
+        recurrence: toLocalRecurrence(todo.rrule),
+        context: 'personal',
+      }, todo.categories.map(name => this.findOrCreateLabel(name)), todo.uid);
+
+      if (created) {
+        taskIds.set(todo.uid, created.id);
+        if (todo.completed) {
+          this.db.updateTask(created.id, { completed_at: todo.completed });
+        }
+      }
+    }
+  }
+
+  createTask(data, labelIds, itemId = data.id || data.title) {
+    const created = this.db.createTask(data);
+    if (!created.success) {
+      this.recordError(itemId, created.error);
+      return undefined;
+    }
+
+    if (labelIds.length > 0) {
+      this.db.setTaskLabels(created.data.id, labelIds);
+    }
+    this.processed++;
+    return created.data;
+  }
+
+  findOrCreateProject(name) {
+    const existing = this.getResult(this.db.getProjects(), 'projects')
+      .find(project => project.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      return existing.id;
+    }
+
+    const created = this.db.createProject({ name });
+    if (!created.success) {
+      this.recordError(name, created.error);
+      return undefined;
+    }
+    this.processed++;
+    return created.data.id;
+  }
+
+  findOrCreateLabel(name, color, description) {
+    const existing = this.db.getLabelByName(name);
+    if (existing.success) {
+      return existing.data.id;
+    }
+
+    const created = this.db.createLabel({ name, color, description });
+    if (!created.success) {
+      throw new Error(created.error || `Failed to create label ${name}`);
+    }
+    this.processed++;
+    return created.data.id;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DatabaseManager } from './DatabaseManager.js';
+import { DataTransfer } from './transfer.js';
+
+const db = DatabaseManager.getInstance();
+
+const calendar = (...todos: string[][]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//EN',
+  ...todos.flatMap(lines => ['BEGIN:VTODO', ...lines, 'END:VTODO']),
+  'END:VCALENDAR',
+  '',
+].join('\r\n');
+
+const tasksTitled = (title: string) => db.getTasks().data!.filter(task => task.title === title);
+
+describe('iCalendar import', () => {
+  it('skips tasks imported before', () => {
+    const content = calendar(
+      ['UID:milk@example.com', 'SUMMARY:Buy milk'],
+      ['UID:bottles@example.com', 'SUMMARY:Return bottles', 'RELATED-TO:milk@example.com'],
+    );
+
+    const first = new DataTransfer(db).importData('ical', content);
+    const second = new DataTransfer(db).importData('ical', content);
+
+    expect(first).toMatchObject({ success: true, processed: 2, skipped: 0 });
+    expect(second).toMatchObject({ success: true, processed: 0, skipped: 2 });
+    expect(tasksTitled('Buy milk')).toHaveLength(1);
+    expect(tasksTitled('Return bottles')[0].parent_id).toBe(tasksTitled('Buy milk')[0].id);
+  });
+
+  it('skips tasks exported from this database', () => {
+    db.createTask({ title: 'Call the bank' });
+
+    const result = new DataTransfer(db).importData('ical', new DataTransfer(db).exportData('ical'));
+
+    expect(result.processed).toBe(0);
+    expect(tasksTitled('Call the bank')).toHaveLength(1);
+  });
+});
+
+describe('JSON export', () => {
+  it('leaves out fields joined when reading tasks', () => {
+    db.createTask({ title: 'Plan trip' });
+
+    const archive = JSON.parse(new DataTransfer(db).exportData('json'));
+
+    const task = archive.tasks.find((candidate: { title: string }) => candidate.title === 'Plan trip');
+    expect(task).not.toHaveProperty('is_local');
+    expect(task).not.toHaveProperty('project_name');
+  });
+});
@@ -1,5 +1,12 @@
 import { ipcMain } from 'electron';
 import { DatabaseManager } from '../database/DatabaseManager.js';
+import { TodoistSyncEngine } from '../sync/TodoistSyncEngine.js';
+import { GitHubSyncEngine } from '../sync/GitHubSyncEngine.js';
+import { NotionSyncEngine } from '../sync/NotionSyncEngine.js';
+import { LinearSyncEngine } from '../sync/LinearSyncEngine.js';
+import { CalDavSyncEngine } from '../sync/CalDavSyncEngine.js';
+import { DataTransfer } from '../database/transfer.js';
+import { DatabaseBackups } from '../database/backups.js';
 import {
   CreateTaskData,
   UpdateTaskData,
@@ -8,15 +15,52 @@ import {
   TaskFilters,
   ProjectFilters,
 } from '../../types/database.js';
+import type {
+  UpdateProjectData,
+  CreateSectionData,
+  UpdateSectionData,
+  MutationOptions,
+  UpdateTimeEntryData,
+  StatisticsRange,
+  CreateTaskEnhancementData,
+  UpdateTaskEnhancementData,
+  TaskEnhancementType,
+  CreateLabelData,
+  UpdateLabelData,
+  IntegrationName,
+  UpdateIntegrationData,
+  SyncResult,
+  SyncConflictFilters,
+  CreateSyncConflictData,
+  ConflictResolution,
+  SyncField,
+  DataFormat,
+  ImportOptions,
+  AppSettings,
+} from '../../types/database.js';
 
 let dbManager: DatabaseManager;
+let backups: DatabaseBackups;
+
+// Writes are refused while a backup is being restored, as the restored
+// database would drop them
+function handleWrite(channel: string, listener: Parameters<typeof ipcMain.handle>[1]) {
+  ipcMain.handle(channel, (event, ...args) => {
+    if (backups.isRestoring()) {
+      return { success: false, error: 'A backup is being restored, try again in a moment' };
+    }
+    return listener(event, ...args);
+  });
+}
 
 export function initializeDatabaseHandlers() {
   // Initialize database manager
   dbManager = DatabaseManager.getInstance();
+  backups = new DatabaseBackups(dbManager, dbManager.getBackupDirectory());
+  backups.start();
 
   // Task operations
-  ipcMain.handle('db:createTask', async (event, taskData: CreateTaskData) => {
+  handleWrite('db:createTask', async (event, taskData: CreateTaskData) => {
     return dbManager.createTask(taskData);
   });
 
@@ -28,16 +72,29 @@ export function initializeDatabaseHandlers() {
     return dbManager.getTasks(filters);
   });
 
-  ipcMain.handle('db:updateTask', async (event, id: string, updates: UpdateTaskData) => {
-    return dbManager.updateTask(id, updates);
+  ipcMain.handle('db:getTaskTree', async (_event, id: string) => {
+    return dbManager.getTaskTree(id);
   });
 
-  ipcMain.handle('db:deleteTask', async (event, id: string) => {
-    return dbManager.deleteTask(id);
+  handleWrite('db:updateTask', async (event, id: string, updates: UpdateTaskData, options?: MutationOptions) => {
+    if (options?.undoable === false) {
+      return dbManager.updateTask(id, updates);
+    }
+    const description = updates.status === 'completed' ? 'Task completed' : 'Task updated';
+    // Completing a task can complete its subtasks too
+    const taskIds = updates.status === 'completed' ? [id, ...dbManager.getDescendantIds(id)] : [id];
+    return dbManager.recordOperation(description, taskIds, () => dbManager.updateTaskWithSubtasks(id, updates));
+  });
+
+  handleWrite('db:deleteTask', async (event, id: string, options?: MutationOptions) => {
+    if (options?.undoable === false) {
+      return dbManager.deleteTask(id);
+    }
+    return dbManager.recordOperation('Task deleted', [id, ...dbManager.getDescendantIds(id)], () => dbManager.deleteTask(id));
   });
 
   // Project operations
-  ipcMain.handle('db:createProject', async (event, projectData: CreateProjectData) => {
+  handleWrite('db:createProject', async (event, projectData: CreateProjectData) => {
     return dbManager.createProject(projectData);
   });
 
@@ -49,8 +106,120 @@ export function initializeDatabaseHandlers() {
     return dbManager.getProjects(filters);
   });
 
+  handleWrite('db:updateProject', async (_event, id: string, updates: UpdateProjectData) => {
+    return dbManager.updateProject(id, updates);
+  });
+
+  handleWrite('db:deleteProject', async (_event, id: string, reassignTo?: string) => {
+    return dbManager.deleteProject(id, reassignTo);
+  });
+
+  handleWrite('db:reorderProjects', async (_event, parentId: string | null, orderedIds: string[]) => {
+    return dbManager.reorderProjects(parentId, orderedIds);
+  });
+
+  // Section operations
+  ipcMain.handle('db:getSections', async (_event, projectId?: string) => {
+    return dbManager.getSections(projectId);
+  });
+
+  handleWrite('db:createSection', async (_event, sectionData: CreateSectionData) => {
+    return dbManager.createSection(sectionData);
+  });
+
+  handleWrite('db:updateSection', async (_event, id: string, updates: UpdateSectionData) => {
+    return dbManager.updateSection(id, updates);
+  });
+
+  handleWrite('db:deleteSection', async (_event, id: string) => {
+    return dbManager.deleteSection(id);
+  });
+
+  handleWrite('db:reorderSections', async (_event, projectId: string, orderedIds: string[]) => {
+    return dbManager.reorderSections(projectId, orderedIds);
+  });
+
+  // Label operations
+  ipcMain.handle('db:getLabels', async () => {
+    return dbManager.getLabels();
+  });
+
+  handleWrite('db:createLabel', async (_event, labelData: CreateLabelData) => {
+    return dbManager.createLabel(labelData);
+  });
+
+  handleWrite('db:updateLabel', async (_event, id: string, updates: UpdateLabelData) => {
+    return dbManager.updateLabel(id, updates);
+  });
+
+  handleWrite('db:deleteLabel', async (_event, id: string) => {
+    return dbManager.deleteLabel(id);
+  });
+
+  handleWrite('db:addTaskLabel', async (_event, taskId: string, labelId: string) => {
+    return dbManager.addTaskLabel(taskId, labelId);
+  });
+
+  handleWrite('db:removeTaskLabel', async (_event, taskId: string, labelId: string) => {
+    return dbManager.removeTaskLabel(taskId, labelId);
+  });
+
+  handleWrite('db:setTaskLabels', async (_event, taskId: string, labelIds: string[]) => {
+    return dbManager.setTaskLabels(taskId, labelIds);
+  });
+
+  // Task enhancement operations
+  ipcMain.handle('db:getTaskEnhancements', async (_event, taskId: string, type?: TaskEnhancementType) => {
+    return dbManager.getTaskEnhancements(taskId, type);
+  });
+
+  handleWrite('db:createTaskEnhancement', async (_event, enhancementData: CreateTaskEnhancementData) => {
+    return dbManager.createTaskEnhancement(enhancementData);
+  });
+
+  handleWrite('db:updateTaskEnhancement', async (_event, id: string, updates: UpdateTaskEnhancementData) => {
+    return dbManager.updateTaskEnhancement(id, updates);
+  });
+
+  handleWrite('db:deleteTaskEnhancement', async (_event, id: string) => {
+    return dbManager.deleteTaskEnhancement(id);
+  });
+
+  handleWrite('db:reorderTaskEnhancements', async (_event, taskId: string, orderedIds: string[]) => {
+    return dbManager.reorderTaskEnhancements(taskId, orderedIds);
+  });
+
+  // Time tracking operations
+  handleWrite('db:startTimer', async (_event, taskId: string, description?: string) => {
+    return dbManager.startTimer(taskId, description);
+  });
+
+  handleWrite('db:stopTimer', async () => {
+    return dbManager.stopTimer();
+  });
+
+  ipcMain.handle('db:getRunningTimer', async () => {
+    return dbManager.getRunningTimer();
+  });
+
+  ipcMain.handle('db:getTimeEntries', async (_event, taskId: string) => {
+    return dbManager.getTimeEntries(taskId);
+  });
+
+  handleWrite('db:createTimeEntry', async (_event, entryData: CreateTimeEntryData) => {
+    return dbManager.createTimeEntry(entryData);
+  });
+
+  handleWrite('db:updateTimeEntry', async (_event, id: string, updates: UpdateTimeEntryData) => {
+    return dbManager.updateTimeEntry(id, updates);
+  });
+
+  handleWrite('db:deleteTimeEntry', async (_event, id: string) => {
+    return dbManager.deleteTimeEntry(id);
+  });
+
   // Integration operations
-  ipcMain.handle('db:updateTaskIntegration', async (event, taskId: string, integration: string, data: any) => {
+  handleWrite('db:updateTaskIntegration', async (event, taskId: string, integration: string, data: any) => {
     return dbManager.updateTaskIntegration(taskId, integration, data);
   });
 
@@ -58,6 +227,51 @@ export function initializeDatabaseHandlers() {
     return dbManager.getTasksByIntegration(integration);
   });
 
+  ipcMain.handle('db:getIntegration', async (_event, name: IntegrationName) => {
+    return dbManager.getIntegration(name);
+  });
+
+  handleWrite('db:saveIntegrationState', async (_event, name: IntegrationName, data: UpdateIntegrationData) => {
+    return dbManager.saveIntegrationState(name, data);
+  });
+
+  // Sync operations
+  ipcMain.handle('db:sync', async (_event, integration: IntegrationName, accessToken: string): Promise<SyncResult> => {
+    // Queued with backups and restores, which must not swap the database mid-sync
+    return backups.enqueue(async () => {
+      switch (integration) {
+        case 'todoist':
+          return new TodoistSyncEngine(dbManager, accessToken).sync();
+        case 'github':
+          return new GitHubSyncEngine(dbManager, accessToken).sync();
+        case 'notion':
+          return new NotionSyncEngine(dbManager, accessToken).sync();
+        case 'linear':
+          return new LinearSyncEngine(dbManager, accessToken).sync();
+        case 'caldav':
+          return new CalDavSyncEngine(dbManager, accessToken).sync();
+        default:
+          return { success: false, operations: [], conflicts: [], error: `Sync is not supported for ${integration}` };
+      }
+    });
+  });
+
+  // Sync conflict operations
+  ipcMain.handle('db:getSyncConflicts', async (_event, filters: SyncConflictFilters) => {
+    return dbManager.getSyncConflicts(filters);
+  });
+
+  handleWrite('db:saveSyncConflict', async (_event, conflictData: CreateSyncConflictData) => {
+    return dbManager.saveSyncConflict(conflictData);
+  });
+
+  handleWrite(
+    'db:resolveSyncConflict',
+    async (_event, id: string, resolution: ConflictResolution, choices?: Partial<Record<SyncField, 'local' | 'remote'>>) => {
+      return dbManager.resolveSyncConflict(id, resolution, choices);
+    }
+  );
+
   // Search operations
   ipcMain.handle('db:searchTasks', async (event, searchTerm: string) => {
     return dbManager.searchTasks(searchTerm);
@@ -68,6 +282,10 @@ export function initializeDatabaseHandlers() {
     return dbManager.getTaskStatistics();
   });
 
+  ipcMain.handle('db:getProductivityStatistics', async (_event, range: StatisticsRange) => {
+    return dbManager.getProductivityStatistics(range);
+  });
+
   // Maintenance operations
   ipcMain.handle('db:vacuum', async (event) => {
     return dbManager.vacuum();
@@ -130,22 +348,29 @@ export function initializeDatabaseHandlers() {
   });
 
   // Bulk operations
-  ipcMain.handle('db:bulkUpdateTasks', async (event, updates: Array<{ id: string; data: UpdateTaskData }>) => {
+  handleWrite('db:bulkUpdateTasks', async (event, updates: Array<{ id: string; data: UpdateTaskData }>) => {
     const results = [];
-    const errors = [];
-
-    for (const update of updates) {
-      try {
-        const result = dbManager.updateTask(update.id, update.data);
-        if (result.success) {
-          results.push(result.data);
-        } else {
-          errors.push({ id: update.id, error: result.error });
+    const errors: Array<{ id: string; error?: string }> = [];
+    const description = updates.length === 1 ? 'Task updated' : `${updates.length} tasks updated`;
+
+    const taskIds = updates.flatMap(update => update.data.status === 'completed'
+      ? [update.id, ...dbManager.getDescendantIds(update.id)]
+      : [update.id]);
+
+    dbManager.recordOperation(description, taskIds, () => {
+      for (const update of updates) {
+        try {
+          const result = dbManager.updateTaskWithSubtasks(update.id, update.data);
+          if (result.success) {
+            results.push(result.data);
+          } else {
+            errors.push({ id: update.id, error: result.error });
+          }
+        } catch (error) {
+          errors.push({ id: update.id, error: (error as Error).message });
         }
-      } catch (error) {
-        errors.push({ id: update.id, error: (error as Error).message });
       }
-    }
+    });
 
     return {
       success: errors.length === 0,
@@ -154,22 +379,28 @@ export function initializeDatabaseHandlers() {
     };
   });
 
-  ipcMain.handle('db:bulkDeleteTasks', async (event, taskIds: string[]) => {
+  handleWrite('db:bulkDeleteTasks', async (event, taskIds: string[]) => {
     const results = [];
-    const errors = [];
-
-    for (const id of taskIds) {
-      try {
-        const result = dbManager.deleteTask(id);
-        if (result.success) {
-          results.push(id);
-        } else {
-          errors.push({ id, error: result.error });
+    const errors: Array<{ id: string; error?: string }> = [];
+    const description = taskIds.length === 1 ? 'Task deleted' : `${taskIds.length} tasks deleted`;
+
+    // Selected subtasks of other selected tasks are deleted along with those
+    const subtaskIds = new Set(taskIds.flatMap(id => dbManager.getDescendantIds(id)));
+
+    dbManager.recordOperation(description, [...taskIds, ...subtaskIds], () => {
+      for (const id of taskIds.filter(taskId => !subtaskIds.has(taskId))) {
+        try {
+          const result = dbManager.deleteTask(id);
+          if (result.success) {
+            results.push(id);
+          } else {
+            errors.push({ id, error: result.error });
+          }
+        } catch (error) {
+          errors.push({ id, error: (error as Error).message });
         }
-      } catch (error) {
-        errors.push({ id, error: (error as Error).message });
       }
-    }
+    });
 
     return {
       success: errors.length === 0,
@@ -178,25 +409,81 @@ export function initializeDatabaseHandlers() {
     };
   });
 
+  // Import/export
+  ipcMain.handle('db:exportData', async (_event, format: DataFormat) => {
+    try {
+      return { success: true, data: new DataTransfer(dbManager).exportData(format) };
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  });
+
+  handleWrite('db:importData', async (_event, format: DataFormat, content: string, options?: ImportOptions) => {
+    return new DataTransfer(dbManager).importData(format, content, options);
+  });
+
+  // Undo/redo
+  handleWrite('db:undo', async () => {
+    return dbManager.undo();
+  });
+
+  handleWrite('db:redo', async () => {
+    return dbManager.redo();
+  });
+
+  // Settings
+  ipcMain.handle('db:getSettings', async () => {
+    return dbManager.getSettings();
+  });
+
+  handleWrite('db:updateSettings', async (_event, updates: Partial<AppSettings>) => {
+    return dbManager.updateSettings(updates);
+  });
+
+  // Backups
+  ipcMain.handle('db:getBackups', async () => {
+    return backups.getBackups();
+  });
+
+  ipcMain.handle('db:createBackup', async () => {
+    return backups.createBackup();
+  });
+
+  ipcMain.handle('db:restoreBackup', async (_event, fileName: string) => {
+    return backups.restoreBackup(fileName);
+  });
+
   // Database health check
   ipcMain.handle('db:healthCheck', async (event) => {
     try {
-      // Try to run a simple query
-      const result = dbManager.getProjects({ limit: 1 });
-      
-      if (result.success) {
+      const result = dbManager.checkIntegrity();
+      if (!result.success) {
         return {
-          success: true,
-          status: 'healthy',
-          message: 'Database is accessible and responding'
+          success: false,
+          status: 'error',
+          message: result.error
         };
-      } else {
+      }
+
+      const { errors, foreign_key_violations } = result.data!;
+      if (errors.length > 0 || foreign_key_violations.length > 0) {
         return {
           success: false,
           status: 'error',
-          message: result.error
+          message: errors.length > 0
+            ? `Integrity check failed: ${errors[0]}`
+            : `${foreign_key_violations.length} rows refer to rows that no longer exist`,
+          integrity: result.data
         };
       }
+
+      return {
+        success: true,
+        status: 'healthy',
+        message: 'Database passed the integrity and foreign key checks',
+        integrity: result.data
+      };
     } catch (error) {
       return {
         success: false,
@@ -210,6 +497,9 @@ export function initializeDatabaseHandlers() {
 }
 
 export function closeDatabaseHandlers() {
+  if (backups) {
+    backups.stop();
+  }
   if (dbManager) {
     dbManager.close();
   }
@@ -0,0 +1,292 @@
+import { getChangedFields, mergeSyncFields, toTaskUpdates, SYNC_FIELDS, getPendingConflictFields, getPulledUpdatedAt } from './conflicts.js';
+import {
+  CalDavClient,
+  calDavTaskId,
+  calDavCalendarProjectId,
+  parseCalDavTodo,
+  toCalDavTodoProperties,
+  updateCalDavTodo,
+  toCalDavIntegration,
+  toLocalStatus,
+  toLocalPriority,
+  toLocalRecurrence,
+  convertCalDavCategory,
+  convertCalDavCalendarToProject,
+} from './caldav.js';
+
+/**
+ * Sync between the local database and the task lists of a CalDAV server.
+ *
+ * Calendars that support VTODO become projects and their tasks become local
+ * tasks, with CATEGORIES as labels and RELATED-TO as the parent task. Each
+ * sync lists every task of the chosen calendars, so tasks deleted on the
+ * server are deleted locally. Local edits are written back with If-Match on
+ * the ETag of the last sync; a task changed on the server in the meantime is
+ * rejected with 412 and merged on the next sync instead.
+ */
+export class CalDavSyncEngine {
+  operations = [];
+  conflicts = [];
+
+  constructor(db, password) {
+    this.db = db;
+    this.password = password;
+  }
+
+  async sync() {
+    try {
+      this.operations = [];
+      this.conflicts = [];
+
+      const config = this.db.getIntegration('caldav').data?.config?.caldav;
+      if (!config?.server_url || !config.username) {
+        throw new Error('No CalDAV server configured');
+      }
+
+      const client = new CalDavClient(config.username, this.password, config.server_url);
+      const calendars = (await client.getCalendars())
+        .filter(calendar => !config.calendar_urls?.length || config.calendar_urls.includes(calendar.url));
+
+      const todos = [];
+      for (const calendar of calendars) {
+        const resources = await client.getTodos(calendar.url);
+        resources.forEach(resource => {
+          const todo = parseCalDavTodo(resource, calendar.url);
+          if (todo) {
+            todos.push(todo);
+          }
+        });
+      }
+
+      this.db.runInTransaction(() => {
+        this.applyCalendars(calendars);
+        this.applyTodos(todos);
+        this.removeDeletedTodos(calendars, todos);
+      });
+
+      const pushed = await this.pushChanges(client, calendars);
+      if (pushed.length > 0) {
+        this.db.runInTransaction(() => this.applyTodos(pushed));
+      }
+
+      const saved = this.db.saveIntegrationState('caldav', {
+        is_active: true,
+        last_sync_at: new Date().toISOString(),
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error || 'Failed to save CalDAV sync state');
+      }
+
+      return {
+        success: true,
+        operations: this.operations,
+        conflicts: this.conflicts,
+      };
+    } catch (error) {
+      console.error('Error syncing CalDAV:', error);
+      return {
+        success: false,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        error: error.message,
+      };
+    }
+  }
+
+  // Push
+  async pushChanges(client, calendars) {
+    const result = this.db.getTasksByIntegration('caldav');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load synced tasks');
+    }
+
+    const conflicts = this.db.getSyncConflicts({ status: 'pending', integration: 'caldav' });
+    const pendingFields = getPendingConflictFields(conflicts.data || []);
+    const updated = [];
+
+    for (const task of result.data || []) {
+      const snapshot = task.source_task?.caldav;
+      // Tasks of calendars that are no longer synced are left as they are
+      if (!snapshot || !calendars.some(calendar => calendar.url === snapshot.calendar_url)) {
+        continue;
+      }
+
+      const blocked = pendingFields.get(task.id) || [];
+      const changed = getChangedFields(task, this.toFieldValues(snapshot)).filter(field => !blocked.includes(field));
+      if (changed.length === 0) {
+        continue;
+      }
+
+      const ics = updateCalDavTodo(snapshot.ics, toCalDavTodoProperties(task, changed));
+      try {
+        const etag = await client.updateTodo(snapshot.href, ics, snapshot.etag);
+        updated.push(parseCalDavTodo({ href: snapshot.href, etag, data: ics }, snapshot.calendar_url));
+        this.operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: snapshot.uid });
+      } catch (error) {
+        if (/CalDAV error 412/.test(error.message)) {
+          console.warn(`CalDAV task ${snapshot.uid} changed on the server, merging on the next sync`);
+        } else {
+          // One rejected task (e.g. a read-only calendar) should not stop the rest
+          console.error(`CalDAV rejected update for task ${snapshot.uid}:`, error);
+        }
+      }
+    }
+
+    return updated;
+  }
+
+  toFieldValues(snapshot) {
+    return {
+      title: snapshot.summary,
+      description: snapshot.description,
+      priority: toLocalPriority(snapshot.priority),
+      status: toLocalStatus(snapshot.status),
+      due_date: snapshot.due?.slice(0, 10),
+      recurrence: toLocalRecurrence(snapshot.rrule),
+    };
+  }
+
+  // Pull
+  applyCalendars(calendars) {
+    for (const calendar of calendars) {
+      const project = convertCalDavCalendarToProject(calendar);
+      const existing = this.db.getProjectById(project.id);
+      const data = {
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        icon: project.icon,
+        integrations: {
+          caldav: { calendar_url: calendar.url, synced_at: new Date().toISOString() },
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateProject(project.id, data)
+        : this.db.createProject({ id: project.id, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save project ${project.name}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'project',
+        local_id: project.id,
+        external_id: calendar.url,
+      });
+    }
+  }
+
+  applyTodos(todos) {
+    const uids = new Set(todos.map(todo => todo.uid));
+
+    for (const todo of todos) {
+      const localId = calDavTaskId(todo.uid);
+      const existing = this.db.getTaskById(localId);
+
+      const remote = this.toFieldValues(todo);
+      const previous = existing.data?.source_task?.caldav;
+      const { values, conflicts } = existing.success && previous
+        ? mergeSyncFields(
+            existing.data,
+            this.toFieldValues(previous),
+            remote,
+            previous.last_modified,
+            todo.last_modified,
+            SYNC_FIELDS
+          )
+        : { values: remote, conflicts: [] };
+
+      // Parents in calendars that are not synced are left out
+      const parentId = todo.related_to && calDavTaskId(todo.related_to);
+      const hasParent = !!parentId && (uids.has(todo.related_to) || this.db.getTaskById(parentId).success);
+
+      const data = {
+        ...values,
+        title: values.title || todo.summary,
+        project_id: calDavCalendarProjectId(todo.calendar_url),
+        parent_id: hasParent ? parentId : undefined,
+        due_time: values.due_date === remote.due_date ? todo.due?.slice(11) || undefined : existing.data?.due_time,
+        source_task: { ...existing.data?.source_task, caldav: todo },
+        integrations: {
+          ...existing.data?.integrations,
+          caldav: toCalDavIntegration(todo),
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateTask(localId, {
+            ...data,
+            ...toTaskUpdates(values),
+            parent_id: data.parent_id || null,
+            due_time: data.due_time || null,
+            completed_at: values.status === 'completed' ? todo.completed : undefined,
+            updated_at: getPulledUpdatedAt(values, remote, todo.last_modified),
+          })
+        : this.db.createTask({ id: localId, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save task ${todo.uid}`);
+      }
+
+      if (conflicts.length > 0) {
+        this.db.saveSyncConflict({
+          task_id: localId,
+          integration: 'caldav',
+          external_id: todo.uid,
+          fields: conflicts,
+          local_updated_at: existing.data?.updated_at,
+          remote_updated_at: todo.last_modified,
+        });
+        this.conflicts.push({
+          type: 'update',
+          entity: 'task',
+          local_id: localId,
+          external_id: todo.uid,
+          data: conflicts,
+          conflict: true,
+        });
+      }
+
+      if (!existing.success && todo.completed) {
+        this.db.updateTask(localId, { completed_at: todo.completed });
+      }
+
+      this.db.setTaskLabelsByName(localId, todo.categories.map((name, index) => {
+        const { color, sort_order } = convertCalDavCategory(name, index);
+        return { name, color, sort_order };
+      }));
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'task',
+        local_id: localId,
+        external_id: todo.uid,
+      });
+    }
+  }
+
+  // Every task of a synced calendar is listed, so missing ones were deleted on the server
+  removeDeletedTodos(calendars, todos) {
+    const uids = new Set(todos.map(todo => todo.uid));
+    const result = this.db.getTasksByIntegration('caldav');
+
+    for (const task of result.data || []) {
+      const integration = task.integrations?.caldav;
+      if (!integration?.uid || uids.has(integration.uid)
+        || !calendars.some(calendar => calendar.url === integration.calendar_url)) {
+        continue;
+      }
+
+      // Local subtasks outlive their parent
+      for (const child of this.db.getTasks({ parent_id: task.id }).data || []) {
+        this.db.updateTask(child.id, { parent_id: null });
+      }
+
+      this.db.deleteTask(task.id);
+      this.operations.push({ type: 'delete', entity: 'task', local_id: task.id, external_id: integration.uid });
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { DatabaseManager } from '../database/DatabaseManager.js';
+import { CalDavSyncEngine } from './CalDavSyncEngine.js';
+
+const db = DatabaseManager.getInstance();
+
+const SERVER_URL = 'https://dav.example.com/calendars/user/';
+const CALENDAR_URL = `${SERVER_URL}tasks/`;
+
+const todo = (uid: string, lines: string[] = [], lastModified = '20261001T000000Z') => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VTODO',
+  `UID:${uid}`,
+  'SUMMARY:Task',
+  `LAST-MODIFIED:${lastModified}`,
+  ...lines,
+  'END:VTODO',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const multistatus = (responses: string[]) =>
+  `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${responses.join('')}</d:multistatus>`;
+
+const response = (href: string, props: string) =>
+  `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+// The tasks on the server by uid; PUT requests replace them and are kept
+let todos = new Map<string, string>();
+let puts: Array<{ url: string; body: string; etag?: string }> = [];
+
+const sync = () => new CalDavSyncEngine(db, 'password').sync();
+
+beforeAll(() => {
+  db.saveIntegrationState('caldav', { config: { caldav: { server_url: SERVER_URL, username: 'user' } } });
+});
+
+beforeEach(() => {
+  todos = new Map();
+  puts = [];
+  vi.stubGlobal('fetch', async (url: string, init: { method: string; body?: string; headers: Record<string, string> }) => {
+    let body = '';
+    if (init.method === 'PROPFIND' && url === CALENDAR_URL.replace(/tasks\/$/, '')) {
+      // The server URL is the calendar home
+      body = multistatus([
+        response(CALENDAR_URL, '<d:resourcetype><d:collection/><c:calendar/></d:resourcetype><d:displayname>Tasks</d:displayname>'),
+      ]);
+    } else if (init.method === 'PROPFIND') {
+      body = multistatus([]);
+    } else if (init.method === 'REPORT') {
+      body = multistatus([...todos].map(([uid, ics]) =>
+        response(`${CALENDAR_URL}${uid}.ics`, `<d:getetag>"${uid}"</d:getetag><c:calendar-data>${escapeXml(ics)}</c:calendar-data>`)));
+    } else if (init.method === 'PUT') {
+      puts.push({ url, body: init.body!, etag: init.headers['If-Match'] });
+    }
+    return init.method === 'PUT'
+      ? new Response(null, { status: 204, headers: { etag: '"new"' } })
+      : new Response(body, { status: 207 });
+  });
+});
+
+describe('CalDavSyncEngine', () => {
+  it('imports the tasks of VTODO calendars', async () => {
+    todos.set('a', todo('a', ['DESCRIPTION:Notes', 'DUE:20261020T090000', 'CATEGORIES:home,errands']));
+
+    const result = await sync();
+
+    expect(result.success).toBe(true);
+    const task = db.getTaskById('caldav_a').data!;
+    expect(task).toMatchObject({ title: 'Task', description: 'Notes', due_date: '2026-10-20', due_time: '09:00' });
+    expect(task.labels?.map(label => label.name)).toEqual(['home', 'errands']);
+  });
+
+  it('clears the description and due date when the server removes them', async () => {
+    todos.set('b', todo('b', ['DESCRIPTION:Notes', 'DUE:20261020T090000']));
+    await sync();
+
+    todos.set('b', todo('b', [], '20261002T000000Z'));
+    await sync();
+
+    const task = db.getTaskById('caldav_b').data!;
+    expect(task.description).toBeFalsy();
+    expect(task.due_date).toBeFalsy();
+    expect(task.due_time).toBeFalsy();
+    expect(puts).toEqual([]);
+  });
+
+  it('writes local edits back with the ETag of the last sync', async () => {
+    todos.set('c', todo('c', ['DESCRIPTION:Notes']));
+    await sync();
+    db.updateTask('caldav_c', { title: 'Edited locally', description: null });
+
+    await sync();
+
+    expect(puts).toHaveLength(1);
+    expect(puts[0]).toMatchObject({ url: `${CALENDAR_URL}c.ics`, etag: '"c"' });
+    expect(puts[0].body).toContain('SUMMARY:Edited locally');
+    expect(puts[0].body).not.toContain('DESCRIPTION');
+  });
+
+  it('deletes tasks that are gone from the server', async () => {
+    todos.set('d', todo('d'));
+    await sync();
+
+    todos.delete('d');
+    await sync();
+
+    expect(db.getTaskById('caldav_d').success).toBe(false);
+  });
+});
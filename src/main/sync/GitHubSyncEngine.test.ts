@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { DatabaseManager } from '../database/DatabaseManager.js';
+import { GitHubSyncEngine } from './GitHubSyncEngine.js';
+import type { GitHubIssue } from './github.js';
+
+const db = DatabaseManager.getInstance();
+
+const REPOSITORY = 'openza/example';
+const REPOSITORY_URL = `https://api.github.com/repos/${REPOSITORY}`;
+
+const issue = (values: Partial<GitHubIssue> & { id: number }): GitHubIssue => ({
+  number: values.id,
+  title: 'Issue',
+  body: 'Details',
+  state: 'open',
+  labels: [],
+  assignees: [],
+  milestone: null,
+  created_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  closed_at: null,
+  html_url: `https://github.com/${REPOSITORY}/issues/${values.id}`,
+  ...values,
+});
+
+// The issues of the repository by number; state changes update them and are kept
+let issues = new Map<number, GitHubIssue>();
+let patches: Array<{ number: number; state: string }> = [];
+
+const sync = (...updated: GitHubIssue[]) => {
+  updated.forEach(item => issues.set(item.number, item));
+  return new GitHubSyncEngine(db, 'token').sync();
+};
+
+const json = (data: unknown) => new Response(JSON.stringify(data), { status: 200 });
+
+beforeAll(() => {
+  db.saveIntegrationState('github', { config: { github: { repository: REPOSITORY } } });
+});
+
+beforeEach(() => {
+  issues = new Map();
+  patches = [];
+  vi.stubGlobal('fetch', async (url: string, init: { method?: string; body?: string }) => {
+    const path = url.replace(REPOSITORY_URL, '');
+    if (init.method === 'PATCH') {
+      const number = Number(path.split('/').pop());
+      const { state } = JSON.parse(init.body!);
+      patches.push({ number, state });
+      const updated = { ...issues.get(number)!, state, updated_at: new Date().toISOString() };
+      issues.set(number, updated);
+      return json(updated);
+    }
+    if (path.startsWith('/issues?')) {
+      return json([...issues.values()]);
+    }
+    return json([]);
+  });
+});
+
+describe('GitHubSyncEngine', () => {
+  it('imports issues as tasks of the repository with their labels', async () => {
+    const result = await sync(issue({ id: 1, labels: [{ id: 10, name: 'bug', color: 'd73a4a', description: null }] }));
+
+    expect(result.success).toBe(true);
+    const task = db.getTaskById('github_1').data!;
+    expect(task).toMatchObject({ title: 'Issue', description: 'Details', project_id: 'github_repo_openza/example', status: 'pending' });
+    expect(task.labels?.map(label => label.name)).toEqual(['bug']);
+  });
+
+  it('clears the description when the issue body is removed', async () => {
+    await sync(issue({ id: 2 }));
+    await sync(issue({ id: 2, body: null, updated_at: '2026-10-02T00:00:00Z' }));
+
+    expect(db.getTaskById('github_2').data!.description).toBeFalsy();
+  });
+
+  it('closes the issue of a task completed locally while taking the remote title', async () => {
+    await sync(issue({ id: 3 }));
+    db.updateTask('github_3', { status: 'completed' });
+
+    // The issue was renamed before the local edit, so there is no conflict
+    await sync(issue({ id: 3, title: 'Renamed on GitHub', updated_at: '2026-10-02T00:00:00Z' }));
+
+    expect(patches).toEqual([{ number: 3, state: 'closed' }]);
+    expect(db.getTaskById('github_3').data).toMatchObject({ title: 'Renamed on GitHub', status: 'completed' });
+  });
+});
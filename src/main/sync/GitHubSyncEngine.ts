@@ -0,0 +1,322 @@
+import type { DatabaseManager } from '../database/DatabaseManager.js';
+import { getChangedFields, mergeSyncFields, toTaskUpdates, getPendingConflictFields, getPulledUpdatedAt } from './conflicts.js';
+import {
+  GitHubClient,
+  GITHUB_API_URL,
+  gitHubTaskId,
+  gitHubMilestoneProjectId,
+  gitHubRepositoryProjectId,
+  toGitHubSnapshot,
+  toGitHubIntegration,
+  convertGitHubLabel,
+  convertGitHubMilestoneToProject,
+  convertGitHubRepositoryToProject,
+} from './github.js';
+import type { GitHubIssue, GitHubLabel, GitHubMilestone } from './github.js';
+import type {
+  Project,
+  SyncOperation,
+  SyncResult,
+  SyncField,
+  SyncFieldValues,
+  GitHubConfig,
+  GitHubTaskData,
+} from '../../types/database.js';
+
+// GitHub owns the issue text; only closing and reopening is written back
+const GITHUB_SYNC_FIELDS: SyncField[] = ['status'];
+
+/**
+ * The sync token is "<repository>@<latest updated_at>", so switching the
+ * configured repository starts over with a full sync.
+ */
+const parseSyncToken = (token: string | undefined, repository: string): string | undefined => {
+  const separator = token?.lastIndexOf('@') ?? -1;
+  return separator > 0 && token!.slice(0, separator) === repository ? token!.slice(separator + 1) : undefined;
+};
+
+/**
+ * Sync between the local database and the issues of one GitHub repository.
+ *
+ * Issues matching the configured filters become tasks, milestones become
+ * projects and issue labels become local labels. The first sync imports open
+ * issues; later ones fetch everything updated since the last run. Completing
+ * or reopening a synced task closes or reopens its issue.
+ */
+export class GitHubSyncEngine {
+  private db: DatabaseManager;
+  private accessToken: string;
+  private client!: GitHubClient;
+  private operations: SyncOperation[] = [];
+  private conflicts: SyncOperation[] = [];
+
+  constructor(db: DatabaseManager, accessToken: string) {
+    this.db = db;
+    this.accessToken = accessToken;
+  }
+
+  async sync(): Promise<SyncResult> {
+    try {
+      this.operations = [];
+      this.conflicts = [];
+
+      const config = this.getConfig();
+      if (!config?.repository) {
+        throw new Error('No GitHub repository configured');
+      }
+
+      this.client = new GitHubClient(this.accessToken, config.api_url || GITHUB_API_URL);
+      const integration = this.db.getIntegration('github');
+      const since = parseSyncToken(integration.data?.sync_token, config.repository);
+
+      const [milestones, labels, issues] = await Promise.all([
+        this.client.getMilestones(config.repository),
+        this.client.getLabels(config.repository),
+        this.client.getIssues(config, since ? { state: 'all', since } : { state: 'open' }),
+      ]);
+
+      this.db.runInTransaction(() => {
+        this.applyProjects(config.repository, milestones);
+        this.applyLabels(labels);
+        this.applyIssues(config.repository, issues);
+      });
+
+      const pushed = await this.pushStateChanges(config.repository);
+      if (pushed.length > 0) {
+        this.db.runInTransaction(() => this.applyIssues(config.repository, pushed));
+      }
+
+      const latest = [...issues, ...pushed].reduce<string | undefined>(
+        (max, issue) => (!max || issue.updated_at > max ? issue.updated_at : max),
+        since
+      );
+      const syncToken = `${config.repository}@${latest || new Date().toISOString()}`;
+
+      const saved = this.db.saveIntegrationState('github', {
+        is_active: true,
+        sync_token: syncToken,
+        last_sync_at: new Date().toISOString(),
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error || 'Failed to save GitHub sync state');
+      }
+
+      return {
+        success: true,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        last_sync_token: syncToken,
+      };
+    } catch (error) {
+      console.error('Error syncing GitHub:', error);
+      return {
+        success: false,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  private getConfig(): GitHubConfig | undefined {
+    return this.db.getIntegration('github').data?.config?.github;
+  }
+
+  // Push
+  private async pushStateChanges(repository: string): Promise<GitHubIssue[]> {
+    const result = this.db.getTasksByIntegration('github');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load synced tasks');
+    }
+
+    const conflicts = this.db.getSyncConflicts({ status: 'pending', integration: 'github' });
+    const pendingFields = getPendingConflictFields(conflicts.data || []);
+    const updated: GitHubIssue[] = [];
+
+    for (const task of result.data || []) {
+      const snapshot = task.source_task?.github;
+      const taskIntegration = task.integrations?.github;
+      // Issues from a previously configured repository are left as they are
+      if (!snapshot || taskIntegration?.repository !== repository || pendingFields.get(task.id)?.includes('status')) {
+        continue;
+      }
+
+      const changed = getChangedFields(task, this.toFieldValues(snapshot), GITHUB_SYNC_FIELDS);
+      const isCompleted = task.status === 'completed';
+      if (!changed.includes('status') || isCompleted === (snapshot.state === 'closed')) {
+        continue;
+      }
+
+      try {
+        updated.push(await this.client.updateIssueState(repository, snapshot.number, isCompleted ? 'closed' : 'open'));
+        this.operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: String(snapshot.id) });
+      } catch (error) {
+        // One rejected issue (e.g. no write access) should not stop the rest
+        console.error(`GitHub rejected state change for issue #${snapshot.number}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  private toFieldValues(snapshot: GitHubTaskData): SyncFieldValues {
+    return {
+      title: snapshot.title,
+      description: snapshot.body || undefined,
+      status: snapshot.state === 'closed' ? 'completed' : 'pending',
+    };
+  }
+
+  // Pull
+  private applyProjects(repository: string, milestones: GitHubMilestone[]) {
+    const projects: Array<[Project, GitHubMilestone | undefined]> = [
+      [convertGitHubRepositoryToProject(repository), undefined],
+      ...milestones.map((milestone): [Project, GitHubMilestone] => [
+        convertGitHubMilestoneToProject(milestone, repository),
+        milestone,
+      ]),
+    ];
+
+    for (const [project, milestone] of projects) {
+      const externalId = milestone ? String(milestone.id) : repository;
+      const existing = this.db.getProjectById(project.id);
+      const data = {
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        icon: project.icon,
+        sort_order: project.sort_order,
+        integrations: {
+          github: {
+            milestone_number: milestone?.number,
+            repository,
+            synced_at: new Date().toISOString(),
+          },
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateProject(project.id, { ...data, is_archived: project.is_archived })
+        : this.db.createProject({ id: project.id, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save project ${project.name}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'project',
+        local_id: project.id,
+        external_id: externalId,
+      });
+    }
+  }
+
+  private applyLabels(labels: GitHubLabel[]) {
+    labels.forEach((label, index) => {
+      // Labels are matched by name so GitHub labels merge with local ones
+      const converted = convertGitHubLabel(label, index);
+      const existing = this.db.getLabelByName(label.name);
+      const data = {
+        color: converted.color,
+        description: converted.description,
+      };
+
+      const result = existing.success
+        ? this.db.updateLabel(existing.data!.id, data)
+        : this.db.createLabel({ name: label.name, sort_order: converted.sort_order, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save label ${label.name}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'label',
+        local_id: result.data!.id,
+        external_id: String(label.id),
+      });
+    });
+  }
+
+  private applyIssues(repository: string, issues: GitHubIssue[]) {
+    for (const issue of issues) {
+      const localId = gitHubTaskId(issue);
+      const externalId = String(issue.id);
+      const existing = this.db.getTaskById(localId);
+
+      const snapshot = toGitHubSnapshot(issue);
+      const remote = this.toFieldValues(snapshot);
+      const previous = existing.data?.source_task?.github;
+      const { values, conflicts } = existing.success && previous
+        ? mergeSyncFields(
+            existing.data!,
+            this.toFieldValues(previous),
+            remote,
+            previous.updated_at,
+            issue.updated_at,
+            GITHUB_SYNC_FIELDS
+          )
+        : { values: remote, conflicts: [] };
+
+      const projectId = issue.milestone ? gitHubMilestoneProjectId(issue.milestone) : gitHubRepositoryProjectId(repository);
+      const data = {
+        title: issue.title,
+        description: issue.body || undefined,
+        status: values.status,
+        project_id: this.db.getProjectById(projectId).success ? projectId : undefined,
+        source_task: { ...existing.data?.source_task, github: snapshot },
+        integrations: {
+          ...existing.data?.integrations,
+          github: toGitHubIntegration(issue, repository),
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateTask(localId, {
+            ...data,
+            ...toTaskUpdates(data, ['description']),
+            completed_at: values.status === 'completed' ? issue.closed_at || undefined : undefined,
+            updated_at: getPulledUpdatedAt(values, remote, issue.updated_at),
+          })
+        : this.db.createTask({ id: localId, ...data, priority: 3 });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save issue #${issue.number}`);
+      }
+
+      if (conflicts.length > 0) {
+        this.db.saveSyncConflict({
+          task_id: localId,
+          integration: 'github',
+          external_id: externalId,
+          fields: conflicts,
+          local_updated_at: existing.data?.updated_at,
+          remote_updated_at: issue.updated_at,
+        });
+        this.conflicts.push({
+          type: 'update',
+          entity: 'task',
+          local_id: localId,
+          external_id: externalId,
+          data: conflicts,
+          conflict: true,
+        });
+      }
+
+      if (!existing.success && issue.closed_at) {
+        this.db.updateTask(localId, { completed_at: issue.closed_at });
+      }
+
+      this.db.setTaskLabelsByName(localId, issue.labels.map(label => ({ name: convertGitHubLabel(label).name })));
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'task',
+        local_id: localId,
+        external_id: externalId,
+      });
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import { getChangedFields, mergeSyncFields, toTaskUpdates, getPendingConflictFields, getPulledUpdatedAt } from './conflicts.js';
+import {
+  LinearClient,
+  LINEAR_API_URL,
+  linearTaskId,
+  getLinearIssueProjectId,
+  getLinearIssueProjects,
+  findWorkflowState,
+  toLocalStatus,
+  toLocalPriority,
+  toLinearSnapshot,
+  toLinearIntegration,
+  convertLinearLabel,
+} from './linear.js';
+
+// Linear owns the issue text; only moving between workflow states is written back
+const LINEAR_SYNC_FIELDS = ['status'];
+
+/**
+ * The sync token is "<team ids>@<latest updatedAt>", so changing the team
+ * filter starts over with a full sync.
+ */
+const getTeamScope = (config) => [...(config.team_ids || [])].sort().join(',') || 'all';
+
+const parseSyncToken = (token, scope) => {
+  const separator = token?.lastIndexOf('@') ?? -1;
+  return separator > 0 && token.slice(0, separator) === scope ? token.slice(separator + 1) : undefined;
+};
+
+/**
+ * Sync between the local database and the Linear issues assigned to the user.
+ *
+ * Issues become tasks grouped into projects for their Linear project, cycle
+ * or team, and workflow states map to task statuses. The first sync imports
+ * unfinished issues; later ones fetch everything updated since the last run.
+ * Changing a synced task's status moves its issue to the first workflow
+ * state of that kind in its team.
+ */
+export class LinearSyncEngine {
+  operations = [];
+  conflicts = [];
+
+  constructor(db, apiKey) {
+    this.db = db;
+    this.apiKey = apiKey;
+  }
+
+  async sync() {
+    try {
+      this.operations = [];
+      this.conflicts = [];
+
+      const config = this.db.getIntegration('linear').data?.config?.linear || {};
+      const client = new LinearClient(this.apiKey, config.api_url || LINEAR_API_URL);
+      const integration = this.db.getIntegration('linear');
+      const scope = getTeamScope(config);
+      const since = parseSyncToken(integration.data?.sync_token, scope);
+
+      const [teams, issues] = await Promise.all([
+        client.getTeams(),
+        client.getAssignedIssues(config, since),
+      ]);
+
+      this.db.runInTransaction(() => {
+        this.applyProjects(issues);
+        this.applyIssues(issues);
+      });
+
+      const pushed = await this.pushStateChanges(client, teams);
+      if (pushed.length > 0) {
+        this.db.runInTransaction(() => {
+          this.applyProjects(pushed);
+          this.applyIssues(pushed);
+        });
+      }
+
+      const latest = [...issues, ...pushed].reduce(
+        (max, issue) => (!max || issue.updatedAt > max ? issue.updatedAt : max),
+        since
+      );
+      const syncToken = `${scope}@${latest || new Date().toISOString()}`;
+
+      const saved = this.db.saveIntegrationState('linear', {
+        is_active: true,
+        sync_token: syncToken,
+        last_sync_at: new Date().toISOString(),
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error || 'Failed to save Linear sync state');
+      }
+
+      return {
+        success: true,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        last_sync_token: syncToken,
+      };
+    } catch (error) {
+      console.error('Error syncing Linear:', error);
+      return {
+        success: false,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        error: error.message,
+      };
+    }
+  }
+
+  // Push
+  async pushStateChanges(client, teams) {
+    const result = this.db.getTasksByIntegration('linear');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load synced tasks');
+    }
+
+    const conflicts = this.db.getSyncConflicts({ status: 'pending', integration: 'linear' });
+    const pendingFields = getPendingConflictFields(conflicts.data || []);
+    const updated = [];
+
+    for (const task of result.data || []) {
+      const snapshot = task.source_task?.linear;
+      if (!snapshot || pendingFields.get(task.id)?.includes('status')) {
+        continue;
+      }
+
+      const changed = getChangedFields(task, this.toFieldValues(snapshot), LINEAR_SYNC_FIELDS);
+      if (!changed.includes('status')) {
+        continue;
+      }
+
+      const team = teams.find(candidate => candidate.id === snapshot.team.id);
+      const state = team && findWorkflowState(team, task.status);
+      if (!state) {
+        console.warn(`No workflow state of ${snapshot.team.key} matches status ${task.status}`);
+        continue;
+      }
+
+      try {
+        updated.push(await client.updateIssueState(snapshot.id, state.id));
+        this.operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: snapshot.id });
+      } catch (error) {
+        // One rejected issue (e.g. a removed team) should not stop the rest
+        console.error(`Linear rejected state change for ${snapshot.identifier}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  toFieldValues(snapshot) {
+    return {
+      title: snapshot.title,
+      description: snapshot.description,
+      priority: toLocalPriority(snapshot.priority),
+      status: toLocalStatus(snapshot.state.type),
+      due_date: snapshot.dueDate,
+    };
+  }
+
+  // Pull
+  applyProjects(issues) {
+    for (const [project, integration] of getLinearIssueProjects(issues)) {
+      const existing = this.db.getProjectById(project.id);
+      const data = {
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        icon: project.icon,
+        sort_order: project.sort_order,
+        integrations: { linear: integration },
+      };
+
+      const result = existing.success
+        ? this.db.updateProject(project.id, { ...data, is_archived: project.is_archived })
+        : this.db.createProject({ id: project.id, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save project ${project.name}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'project',
+        local_id: project.id,
+        external_id: integration.project_id || integration.cycle_id || integration.team_id,
+      });
+    }
+  }
+
+  applyIssues(issues) {
+    for (const issue of issues) {
+      const localId = linearTaskId(issue);
+      const existing = this.db.getTaskById(localId);
+
+      const snapshot = toLinearSnapshot(issue);
+      const remote = this.toFieldValues(snapshot);
+      const previous = existing.data?.source_task?.linear;
+      const { values, conflicts } = existing.success && previous
+        ? mergeSyncFields(
+            existing.data,
+            this.toFieldValues(previous),
+            remote,
+            previous.updatedAt,
+            issue.updatedAt,
+            LINEAR_SYNC_FIELDS
+          )
+        : { values: remote, conflicts: [] };
+
+      const data = {
+        title: issue.title,
+        description: issue.description || undefined,
+        priority: remote.priority,
+        status: values.status,
+        due_date: remote.due_date,
+        project_id: getLinearIssueProjectId(issue),
+        source_task: { ...existing.data?.source_task, linear: snapshot },
+        integrations: {
+          ...existing.data?.integrations,
+          linear: toLinearIntegration(issue),
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateTask(localId, {
+            ...data,
+            ...toTaskUpdates(data, ['description', 'due_date']),
+            completed_at: values.status === 'completed' ? issue.completedAt || undefined : undefined,
+            updated_at: getPulledUpdatedAt(values, remote, issue.updatedAt),
+          })
+        : this.db.createTask({ id: localId, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save issue ${issue.identifier}`);
+      }
+
+      if (conflicts.length > 0) {
+        this.db.saveSyncConflict({
+          task_id: localId,
+          integration: 'linear',
+          external_id: issue.id,
+          fields: conflicts,
+          local_updated_at: existing.data?.updated_at,
+          remote_updated_at: issue.updatedAt,
+        });
+        this.conflicts.push({
+          type: 'update',
+          entity: 'task',
+          local_id: localId,
+          external_id: issue.id,
+          data: conflicts,
+          conflict: true,
+        });
+      }
+
+      if (!existing.success && issue.completedAt) {
+        this.db.updateTask(localId, { completed_at: issue.completedAt });
+      }
+
+      this.db.setTaskLabelsByName(localId, issue.labels.nodes.map((label, index) => {
+        const { color, sort_order } = convertLinearLabel(label, index);
+        return { name: label.name, color, sort_order };
+      }));
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'task',
+        local_id: localId,
+        external_id: issue.id,
+      });
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DatabaseManager } from '../database/DatabaseManager.js';
+import { LinearSyncEngine } from './LinearSyncEngine.js';
+import type { LinearIssue, LinearTeam } from './linear.js';
+
+const db = DatabaseManager.getInstance();
+
+const team: LinearTeam = {
+  id: 'team1',
+  key: 'ENG',
+  name: 'Engineering',
+  color: null,
+  states: {
+    nodes: [
+      { id: 'todo', name: 'Todo', type: 'unstarted', position: 0 },
+      { id: 'doing', name: 'In Progress', type: 'started', position: 1 },
+      { id: 'done', name: 'Done', type: 'completed', position: 2 },
+    ],
+  },
+};
+
+const issue = (values: Partial<LinearIssue> & { id: string }): LinearIssue => ({
+  identifier: `ENG-${values.id}`,
+  title: 'Issue',
+  description: 'Details',
+  priority: 2,
+  dueDate: '2026-10-20',
+  url: `https://linear.app/issue/${values.id}`,
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  completedAt: null,
+  canceledAt: null,
+  state: { id: 'todo', name: 'Todo', type: 'unstarted' },
+  team: { id: team.id, key: team.key, name: team.name, color: team.color },
+  project: null,
+  cycle: null,
+  labels: { nodes: [] },
+  assignee: null,
+  ...values,
+});
+
+const connection = <T>(nodes: T[]) => ({ nodes, pageInfo: { hasNextPage: false, endCursor: null } });
+
+// A GraphQL server answering the queries the engine makes; state changes are kept
+const server = new Map<string, LinearIssue>();
+let issues: LinearIssue[] = [];
+let stateChanges: Array<{ id: string; stateId: string }> = [];
+
+const sync = (pulled: LinearIssue[]) => {
+  issues = pulled;
+  pulled.forEach(item => server.set(item.id, item));
+  return new LinearSyncEngine(db, 'key').sync();
+};
+
+beforeEach(() => {
+  stateChanges = [];
+  vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+    const { query, variables } = JSON.parse(init.body);
+    let data: unknown;
+    if (query.includes('query Teams')) {
+      data = { teams: connection([team]) };
+    } else if (query.includes('query AssignedIssues')) {
+      data = { issues: connection(issues) };
+    } else {
+      stateChanges.push(variables);
+      const state = team.states.nodes.find(candidate => candidate.id === variables.stateId)!;
+      const updated = { ...server.get(variables.id)!, state, updatedAt: new Date().toISOString() };
+      data = { issueUpdate: { success: true, issue: updated } };
+    }
+    return { ok: true, status: 200, json: async () => ({ data }) };
+  });
+});
+
+describe('LinearSyncEngine', () => {
+  it('imports assigned issues as tasks of their team', async () => {
+    const result = await sync([issue({ id: 'a' })]);
+
+    expect(result.success).toBe(true);
+    expect(db.getTaskById('linear_a').data).toMatchObject({
+      title: 'Issue',
+      description: 'Details',
+      project_id: 'linear_team_team1',
+      due_date: '2026-10-20',
+      status: 'pending',
+    });
+  });
+
+  it('clears the description and due date when Linear clears them', async () => {
+    await sync([issue({ id: 'b' })]);
+    await sync([issue({ id: 'b', description: null, dueDate: null, updatedAt: '2026-10-02T00:00:00Z' })]);
+
+    const task = db.getTaskById('linear_b').data!;
+    expect(task.description).toBeFalsy();
+    expect(task.due_date).toBeFalsy();
+  });
+
+  it('moves the issue to a workflow state matching a local status change', async () => {
+    await sync([issue({ id: 'c' })]);
+    db.updateTask('linear_c', { status: 'in_progress' });
+
+    await sync([]);
+
+    expect(stateChanges).toEqual([{ id: 'c', stateId: 'doing' }]);
+    expect(db.getTaskById('linear_c').data!.status).toBe('in_progress');
+  });
+
+  it('keeps a local status change while taking the remote text', async () => {
+    await sync([issue({ id: 'd' })]);
+    db.updateTask('linear_d', { status: 'completed' });
+
+    // The pulled issue changed before the local edit, so there is no conflict
+    await sync([issue({ id: 'd', title: 'Renamed in Linear', updatedAt: '2026-10-02T00:00:00Z' })]);
+
+    expect(db.getTaskById('linear_d').data).toMatchObject({ title: 'Renamed in Linear', status: 'completed' });
+  });
+});
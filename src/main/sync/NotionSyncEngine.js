@@ -0,0 +1,322 @@
+import { getChangedFields, mergeSyncFields, toTaskUpdates, getPendingConflictFields, getPulledUpdatedAt } from './conflicts.js';
+import {
+  NotionClient,
+  NOTION_API_URL,
+  notionTaskId,
+  notionProjectId,
+  getNotionMappings,
+  readNotionPageFields,
+  toNotionSnapshot,
+  toNotionIntegration,
+  toNotionStatusProperty,
+  toNotionDateProperty,
+  convertNotionOptionToLabel,
+  convertNotionDatabaseToProject,
+} from './notion.js';
+
+// Notion owns the page content; status and due date are written back
+const NOTION_SYNC_FIELDS = ['status', 'due_date'];
+
+/**
+ * The sync token is "<database id>@<latest last_edited_time>", so switching
+ * the configured database starts over with a full sync.
+ */
+const parseSyncToken = (token, databaseId) => {
+  const separator = token?.lastIndexOf('@') ?? -1;
+  return separator > 0 && token.slice(0, separator) === databaseId ? token.slice(separator + 1) : undefined;
+};
+
+/**
+ * Sync between the local database and one Notion database.
+ *
+ * Pages become tasks of a project named after the database, with their fields
+ * read from the properties chosen in property_mappings. Later syncs only query
+ * pages edited since the last run. Local status and due date changes are
+ * written back to the mapped properties.
+ */
+export class NotionSyncEngine {
+  operations = [];
+  conflicts = [];
+
+  constructor(db, accessToken) {
+    this.db = db;
+    this.accessToken = accessToken;
+  }
+
+  async sync() {
+    try {
+      this.operations = [];
+      this.conflicts = [];
+
+      const config = this.db.getIntegration('notion').data?.config?.notion;
+      if (!config?.database_id) {
+        throw new Error('No Notion database configured');
+      }
+
+      const client = new NotionClient(this.accessToken, config.api_url || NOTION_API_URL);
+      const integration = this.db.getIntegration('notion');
+      const since = parseSyncToken(integration.data?.sync_token, config.database_id);
+
+      const database = await client.getDatabase(config.database_id);
+      const mappings = getNotionMappings(config, database);
+      const pages = await client.queryDatabase(config.database_id, since);
+
+      this.db.runInTransaction(() => {
+        this.applyDatabase(database, mappings);
+        this.applyPages(pages, database, mappings);
+      });
+
+      const pushed = await this.pushChanges(client, config, database, mappings);
+      if (pushed.length > 0) {
+        this.db.runInTransaction(() => this.applyPages(pushed, database, mappings));
+      }
+
+      const latest = [...pages, ...pushed].reduce(
+        (max, page) => (!max || page.last_edited_time > max ? page.last_edited_time : max),
+        since
+      );
+      const syncToken = `${config.database_id}@${latest || new Date().toISOString()}`;
+
+      const saved = this.db.saveIntegrationState('notion', {
+        is_active: true,
+        sync_token: syncToken,
+        last_sync_at: new Date().toISOString(),
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error || 'Failed to save Notion sync state');
+      }
+
+      return {
+        success: true,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        last_sync_token: syncToken,
+      };
+    } catch (error) {
+      console.error('Error syncing Notion:', error);
+      return {
+        success: false,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        error: error.message,
+      };
+    }
+  }
+
+  // Push
+  async pushChanges(
+    client,
+    config,
+    database,
+    mappings
+  ) {
+    const result = this.db.getTasksByIntegration('notion');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load synced tasks');
+    }
+
+    const conflicts = this.db.getSyncConflicts({ status: 'pending', integration: 'notion' });
+    const pendingFields = getPendingConflictFields(conflicts.data || []);
+    const updated = [];
+
+    for (const task of result.data || []) {
+      const snapshot = task.source_task?.notion;
+      // Pages from a previously configured database are left as they are
+      if (!snapshot || task.integrations?.notion?.database_id !== config.database_id) {
+        continue;
+      }
+
+      const base = this.toFieldValues(snapshot, database, mappings);
+      const blocked = pendingFields.get(task.id) || [];
+      const changed = getChangedFields(task, base, NOTION_SYNC_FIELDS).filter(field => !blocked.includes(field));
+      const properties = this.toProperties(task, base, changed, database, mappings);
+
+      if (Object.keys(properties).length === 0) {
+        continue;
+      }
+
+      try {
+        updated.push(await client.updatePage(snapshot.id, properties));
+        this.operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: snapshot.id });
+      } catch (error) {
+        // One rejected page (e.g. a removed option) should not stop the rest
+        console.error(`Notion rejected update for page ${snapshot.id}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  toProperties(
+    task,
+    base,
+    changed,
+    database,
+    mappings
+  ) {
+    const properties = {};
+
+    if (changed.includes('status') && mappings.status) {
+      const status = toNotionStatusProperty(task.status, database, mappings);
+      // A checkbox only knows done and not done, so in_progress is not an edit
+      const unchanged = status && 'checkbox' in status && status.checkbox === (base.status === 'completed');
+      if (!status) {
+        console.warn(`No option in "${mappings.status}" matches status ${task.status}`);
+      } else if (!unchanged) {
+        properties[mappings.status] = status;
+      }
+    }
+
+    if (changed.includes('due_date') && mappings.due_date) {
+      properties[mappings.due_date] = toNotionDateProperty(task.due_date, task.due_time);
+    }
+
+    return properties;
+  }
+
+  toFieldValues(snapshot, database, mappings) {
+    const fields = readNotionPageFields(snapshot, database, mappings);
+    return {
+      title: fields.title,
+      description: fields.description,
+      priority: fields.priority,
+      status: fields.status,
+      due_date: fields.due_date,
+    };
+  }
+
+  // Pull
+  applyDatabase(database, mappings) {
+    const project = convertNotionDatabaseToProject(database);
+    const existing = this.db.getProjectById(project.id);
+    const data = {
+      name: project.name,
+      description: project.description,
+      color: project.color,
+      icon: project.icon,
+    };
+
+    const result = existing.success
+      ? this.db.updateProject(project.id, data)
+      : this.db.createProject({ id: project.id, ...data });
+
+    if (!result.success) {
+      throw new Error(result.error || `Failed to save project ${project.name}`);
+    }
+
+    this.operations.push({
+      type: existing.success ? 'update' : 'create',
+      entity: 'project',
+      local_id: project.id,
+      external_id: database.id,
+    });
+
+    // Options of the mapped multi-select become labels, matched by name
+    const options = mappings.labels ? database.properties[mappings.labels]?.multi_select?.options || [] : [];
+    options.forEach((option, index) => {
+      const label = convertNotionOptionToLabel(option, index);
+      const existingLabel = this.db.getLabelByName(label.name);
+      const labelResult = existingLabel.success
+        ? this.db.updateLabel(existingLabel.data.id, { color: label.color })
+        : this.db.createLabel({ name: label.name, color: label.color, sort_order: label.sort_order });
+
+      if (!labelResult.success) {
+        throw new Error(labelResult.error || `Failed to save label ${label.name}`);
+      }
+
+      this.operations.push({
+        type: existingLabel.success ? 'update' : 'create',
+        entity: 'label',
+        local_id: labelResult.data.id,
+        external_id: option.id,
+      });
+    });
+  }
+
+  applyPages(pages, database, mappings) {
+    const projectId = notionProjectId(database.id);
+
+    for (const page of pages) {
+      const localId = notionTaskId(page);
+      const existing = this.db.getTaskById(localId);
+
+      if (page.archived) {
+        if (existing.success) {
+          this.db.deleteTask(localId);
+          this.operations.push({ type: 'delete', entity: 'task', local_id: localId, external_id: page.id });
+        }
+        continue;
+      }
+
+      const fields = readNotionPageFields(page, database, mappings);
+      const snapshot = toNotionSnapshot(page, mappings);
+      const remote = this.toFieldValues(snapshot, database, mappings);
+      const previous = existing.data?.source_task?.notion;
+      const { values, conflicts } = existing.success && previous
+        ? mergeSyncFields(
+            existing.data,
+            this.toFieldValues(previous, database, mappings),
+            remote,
+            previous.last_edited_time,
+            page.last_edited_time,
+            NOTION_SYNC_FIELDS
+          )
+        : { values: remote, conflicts: [] };
+
+      const data = {
+        ...values,
+        project_id: projectId,
+        due_time: values.due_date === remote.due_date ? fields.due_time : existing.data?.due_time,
+        source_task: { ...existing.data?.source_task, notion: snapshot },
+        integrations: {
+          ...existing.data?.integrations,
+          notion: toNotionIntegration(page, database.id),
+        },
+      };
+
+      // Fields without a mapped property are local only and never cleared
+      const mapped = (['description', 'due_date']).filter(field => mappings[field]);
+      const result = existing.success
+        ? this.db.updateTask(localId, {
+            ...data,
+            ...toTaskUpdates(values, mapped),
+            ...(mappings.due_date && { due_time: data.due_time || null }),
+            updated_at: getPulledUpdatedAt(values, remote, page.last_edited_time),
+          })
+        : this.db.createTask({ id: localId, ...data, title: fields.title });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save page ${page.id}`);
+      }
+
+      if (conflicts.length > 0) {
+        this.db.saveSyncConflict({
+          task_id: localId,
+          integration: 'notion',
+          external_id: page.id,
+          fields: conflicts,
+          local_updated_at: existing.data?.updated_at,
+          remote_updated_at: page.last_edited_time,
+        });
+        this.conflicts.push({
+          type: 'update',
+          entity: 'task',
+          local_id: localId,
+          external_id: page.id,
+          data: conflicts,
+          conflict: true,
+        });
+      }
+
+      this.db.setTaskLabelsByName(localId, fields.labels.map(option => ({ name: option.name })));
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'task',
+        local_id: localId,
+        external_id: page.id,
+      });
+    }
+  }
+}
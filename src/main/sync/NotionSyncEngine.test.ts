@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { DatabaseManager } from '../database/DatabaseManager.js';
+import { NotionSyncEngine } from './NotionSyncEngine.js';
+import type { NotionDatabase, NotionPage, NotionPropertyValue } from './notion.js';
+
+const db = DatabaseManager.getInstance();
+
+const NOTION_URL = 'https://api.notion.com/v1';
+
+const statusOptions = [
+  { id: 'todo', name: 'Not started', color: 'default' },
+  { id: 'done', name: 'Done', color: 'green' },
+];
+
+const database: NotionDatabase = {
+  id: 'db1',
+  title: [{ plain_text: 'Tasks' }],
+  url: 'https://www.notion.so/db1',
+  properties: {
+    Name: { id: 'title', name: 'Name', type: 'title' },
+    Notes: { id: 'notes', name: 'Notes', type: 'rich_text' },
+    Status: {
+      id: 'status',
+      name: 'Status',
+      type: 'status',
+      status: {
+        options: statusOptions,
+        groups: [{ name: 'To-do', option_ids: ['todo'] }, { name: 'Complete', option_ids: ['done'] }],
+      },
+    },
+    Due: { id: 'due', name: 'Due', type: 'date' },
+    Tags: { id: 'tags', name: 'Tags', type: 'multi_select', multi_select: { options: [{ id: 'home', name: 'home', color: 'blue' }] } },
+  },
+};
+
+const text = (value: string) => [{ plain_text: value }];
+
+const page = (
+  id: string,
+  values: { title?: string; notes?: string; status?: string; due?: string | null; tags?: string[] } = {},
+  lastEdited = '2026-10-01T00:00:00.000Z'
+): NotionPage => {
+  const { title = 'Page', notes = 'Notes', status = 'Not started', due = '2026-10-20', tags = [] } = values;
+  const properties: Record<string, NotionPropertyValue> = {
+    Name: { id: 'title', type: 'title', title: text(title) },
+    Notes: { id: 'notes', type: 'rich_text', rich_text: notes ? text(notes) : [] },
+    Status: { id: 'status', type: 'status', status: statusOptions.find(option => option.name === status)! },
+    Due: { id: 'due', type: 'date', date: due ? { start: due, end: null, time_zone: null } : null },
+    Tags: { id: 'tags', type: 'multi_select', multi_select: tags.map(name => ({ id: name, name, color: 'blue' })) },
+  };
+  return { id, url: `https://www.notion.so/${id}`, created_time: '2026-10-01T00:00:00.000Z', last_edited_time: lastEdited, archived: false, properties };
+};
+
+// The pages of the database by id; updates are applied to them and kept
+let pages = new Map<string, NotionPage>();
+let updates: Array<{ id: string; properties: Record<string, unknown> }> = [];
+
+const sync = (...edited: NotionPage[]) => {
+  edited.forEach(item => pages.set(item.id, item));
+  return new NotionSyncEngine(db, 'secret').sync();
+};
+
+const json = (data: unknown) => new Response(JSON.stringify(data), { status: 200 });
+
+beforeAll(() => {
+  db.saveIntegrationState('notion', {
+    config: {
+      notion: {
+        database_id: 'db1',
+        property_mappings: { title: 'Name', description: 'Notes', status: 'Status', due_date: 'Due', labels: 'Tags' },
+      },
+    },
+  });
+});
+
+beforeEach(() => {
+  pages = new Map();
+  updates = [];
+  vi.stubGlobal('fetch', async (url: string, init: { method?: string; body?: string }) => {
+    const path = url.replace(NOTION_URL, '');
+    if (init.method === 'PATCH') {
+      const id = path.split('/').pop()!;
+      const { properties } = JSON.parse(init.body!);
+      updates.push({ id, properties });
+      const current = pages.get(id)!;
+      const updated = { ...current, properties: { ...current.properties, ...properties }, last_edited_time: new Date().toISOString() };
+      pages.set(id, updated);
+      return json(updated);
+    }
+    if (path === '/databases/db1/query') {
+      return json({ results: [...pages.values()], has_more: false, next_cursor: null });
+    }
+    return json(database);
+  });
+});
+
+describe('NotionSyncEngine', () => {
+  it('imports pages as tasks of the database project', async () => {
+    const result = await sync(page('a', { tags: ['home'] }));
+
+    expect(result.success).toBe(true);
+    const task = db.getTaskById('notion_a').data!;
+    expect(task).toMatchObject({ title: 'Page', description: 'Notes', due_date: '2026-10-20', status: 'pending', project_id: 'notion_db_db1' });
+    expect(task.labels?.map(label => label.name)).toEqual(['home']);
+  });
+
+  it('clears the description and due date when the properties are emptied in Notion', async () => {
+    await sync(page('b'));
+    await sync(page('b', { notes: '', due: null }, '2026-10-02T00:00:00.000Z'));
+
+    const task = db.getTaskById('notion_b').data!;
+    expect(task.description).toBeFalsy();
+    expect(task.due_date).toBeFalsy();
+    expect(updates).toEqual([]);
+  });
+
+  it('writes a local status change back while taking the remote title', async () => {
+    await sync(page('c'));
+    db.updateTask('notion_c', { status: 'completed' });
+
+    // The page was renamed before the local edit, so there is no conflict
+    await sync(page('c', { title: 'Renamed in Notion' }, '2026-10-02T00:00:00.000Z'));
+
+    expect(updates).toEqual([{ id: 'c', properties: { Status: { status: { name: 'Done' } } } }]);
+    expect(db.getTaskById('notion_c').data).toMatchObject({ title: 'Renamed in Notion', status: 'completed' });
+  });
+});
@@ -0,0 +1,675 @@
+import { SYNC_FIELDS, getChangedFields, mergeSyncFields, toTaskUpdates, getPendingConflictFields, getPulledUpdatedAt } from './conflicts.js';
+import { parseRRule, parseRecurrenceText, formatRRule, describeRecurrence } from '../database/recurrence.js';
+
+const TODOIST_SYNC_URL = 'https://api.todoist.com/api/v1/sync';
+
+// Todoist only exposes color names, the local tables store hex values
+const TODOIST_COLORS = {
+  berry_red: '#b8256f',
+  red: '#db4035',
+  orange: '#ff9933',
+  yellow: '#fad000',
+  olive_green: '#afb83b',
+  lime_green: '#7ecc49',
+  green: '#299438',
+  mint_green: '#6accbc',
+  teal: '#158fad',
+  sky_blue: '#14aaf5',
+  light_blue: '#96c3eb',
+  blue: '#4073ff',
+  grape: '#884dff',
+  violet: '#af38eb',
+  lavender: '#eb96eb',
+  magenta: '#e05194',
+  salmon: '#ff8d85',
+  charcoal: '#808080',
+  grey: '#b8b8b8',
+  taupe: '#ccac93',
+};
+
+/**
+ * Todoist: 1=Normal, 2=Medium, 3=High, 4=Very High
+ * Unified: 1=High, 2=Medium, 3=Normal, 4=Low
+ * Mirrors convertTodoistPriorityToUnified in providers/todoist.
+ */
+const toUnifiedPriority = (todoistPriority) => {
+  switch (todoistPriority) {
+    case 1: return 3;
+    case 2: return 2;
+    case 3: return 1;
+    case 4: return 1;
+    default: return 2;
+  }
+};
+
+const toTodoistPriority = (unifiedPriority) => {
+  switch (unifiedPriority) {
+    case 1: return 4;
+    case 2: return 2;
+    default: return 1;
+  }
+};
+
+const toLocalDueDate = (due) =>
+  due ? due.date.slice(0, 10) : undefined;
+
+const toLocalDueTime = (due) =>
+  due && due.date.includes('T') ? due.date.slice(11, 16) : undefined;
+
+// Due strings the parser does not understand stay recurring in Todoist but have no local rule
+const toLocalRecurrence = (due) => {
+  const rule = due?.is_recurring ? parseRecurrenceText(due.string) : undefined;
+  return rule && formatRRule(rule);
+};
+
+/**
+ * Two-way sync between the local database and Todoist using the v1 Sync API.
+ *
+ * Incremental changes are pulled first and merged field by field with local
+ * edits, queueing a conflict when both sides changed the same field. Remaining
+ * local edits, found by comparing tasks with the source_task snapshot taken on
+ * the last pull, are then pushed as commands, along with tasks created locally
+ * in synced projects.
+ */
+export class TodoistSyncEngine {
+  operations = [];
+  conflicts = [];
+  closedRecurring = new Set();
+  // Tasks created locally keep their id once added: by temp_id, then by the id Todoist gave them
+  addedTempIds = new Map();
+  addedTasks = new Map();
+
+  constructor(db, accessToken) {
+    this.db = db;
+    this.accessToken = accessToken;
+  }
+
+  async sync() {
+    try {
+      this.operations = [];
+      this.conflicts = [];
+      this.closedRecurring.clear();
+      this.addedTempIds.clear();
+      this.addedTasks.clear();
+
+      const integration = this.db.getIntegration('todoist');
+      let response = await this.request(integration.data?.sync_token || '*', []);
+      this.apply(response);
+
+      const commands = this.collectLocalChanges();
+      if (commands.length > 0) {
+        // The response carries the pushed items back, refreshing their snapshots
+        response = await this.request(response.sync_token, commands);
+        this.checkCommandStatus(commands, response);
+        this.linkAddedTasks(response);
+        this.apply(response);
+      }
+
+      const saved = this.db.saveIntegrationState('todoist', {
+        is_active: true,
+        sync_token: response.sync_token,
+        last_sync_at: new Date().toISOString(),
+      });
+
+      if (!saved.success) {
+        throw new Error(saved.error || 'Failed to save Todoist sync state');
+      }
+
+      return {
+        success: true,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        last_sync_token: response.sync_token,
+      };
+    } catch (error) {
+      console.error('Error syncing Todoist:', error);
+      return {
+        success: false,
+        operations: this.operations,
+        conflicts: this.conflicts,
+        error: error.message,
+      };
+    }
+  }
+
+  apply(response) {
+    this.db.runInTransaction(() => {
+      this.applyProjects(response.projects || []);
+      this.applySections(response.sections || []);
+      this.applyLabels(response.labels || []);
+      this.applyItems(response.items || []);
+    });
+  }
+
+  async request(syncToken, commands) {
+    const response = await fetch(TODOIST_SYNC_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.accessToken}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        sync_token: syncToken,
+        resource_types: JSON.stringify(['projects', 'sections', 'labels', 'items']),
+        commands: JSON.stringify(commands),
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Todoist sync failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  // Push
+  collectLocalChanges() {
+    const result = this.db.getTasksByIntegration('todoist');
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load synced tasks');
+    }
+
+    const commands = [];
+    const conflicts = this.db.getSyncConflicts({ status: 'pending', integration: 'todoist' });
+    const pendingFields = getPendingConflictFields(conflicts.data || []);
+
+    for (const task of result.data || []) {
+      const snapshot = task.source_task?.todoist;
+      if (!snapshot || task.integrations?.todoist?.sync_enabled === false) {
+        continue;
+      }
+
+      // Fields waiting on conflict resolution are left alone until the user decides
+      const blocked = pendingFields.get(task.id) || [];
+      const changed = getChangedFields(task, this.toFieldValues(snapshot))
+        .filter(field => !blocked.includes(field));
+
+      const args = this.toCommandArgs(task, snapshot, changed);
+      const isCompleted = task.status === 'completed';
+      const statusChanged = changed.includes('status') && isCompleted !== snapshot.completed;
+
+      if (Object.keys(args).length > 0) {
+        commands.push({ type: 'item_update', uuid: crypto.randomUUID(), args: { id: snapshot.id, ...args } });
+      }
+
+      if (statusChanged) {
+        if (isCompleted && snapshot.due?.is_recurring) {
+          this.closedRecurring.add(snapshot.id);
+        }
+        commands.push({
+          type: isCompleted ? 'item_close' : 'item_uncomplete',
+          uuid: crypto.randomUUID(),
+          args: { id: snapshot.id },
+        });
+      }
+
+      // Todoist changes an item's section by moving it; moved to its project, it leaves the section.
+      // Only moves between sections synced with Todoist are pushed.
+      const section = task.section_id ? this.db.getSectionById(task.section_id).data : undefined;
+      const sectionId = section?.integrations?.todoist?.id;
+      const pulledSection = snapshot.section_id ? this.db.getSectionById(`todoist_section_${snapshot.section_id}`).data : undefined;
+      const sectionChanged = section?.id !== pulledSection?.id && (!section || !!sectionId);
+
+      if (sectionChanged) {
+        commands.push({
+          type: 'item_move',
+          uuid: crypto.randomUUID(),
+          args: sectionId ? { id: snapshot.id, section_id: sectionId } : { id: snapshot.id, project_id: snapshot.project_id },
+        });
+      }
+
+      if (Object.keys(args).length > 0 || statusChanged || sectionChanged) {
+        this.operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: snapshot.id });
+      }
+    }
+
+    return [...commands, ...this.collectNewTasks()];
+  }
+
+  // Tasks created locally in a synced project, parents ahead of their subtasks
+  collectNewTasks() {
+    const projects = this.db.getProjects();
+    if (!projects.success) {
+      throw new Error(projects.error || 'Failed to load projects');
+    }
+
+    const newTasks = new Map();
+    const projectIds = new Map();
+    for (const project of projects.data || []) {
+      // Projects deleted in Todoist are archived here and take no new items
+      if (!project.integrations?.todoist || project.is_archived) {
+        continue;
+      }
+      projectIds.set(project.id, project.integrations.todoist.id);
+      for (const task of this.db.getTasks({ project_id: project.id }).data || []) {
+        if (!task.source_task?.todoist && !task.integrations?.todoist) {
+          newTasks.set(task.id, task);
+        }
+      }
+    }
+
+    const commands = [];
+    const tempIds = new Map();
+
+    const add = (task) => {
+      if (tempIds.has(task.id)) {
+        return;
+      }
+      const newParent = task.parent_id ? newTasks.get(task.parent_id) : undefined;
+      if (newParent) {
+        add(newParent);
+      }
+
+      const tempId = crypto.randomUUID();
+      tempIds.set(task.id, tempId);
+      this.addedTempIds.set(tempId, task.id);
+
+      const parent = task.parent_id ? this.db.getTaskById(task.parent_id).data : undefined;
+      const section = task.section_id ? this.db.getSectionById(task.section_id).data : undefined;
+      const due = this.toDue(task);
+
+      commands.push({
+        type: 'item_add',
+        uuid: crypto.randomUUID(),
+        temp_id: tempId,
+        args: {
+          content: task.title,
+          description: task.description || '',
+          project_id: projectIds.get(task.project_id),
+          priority: toTodoistPriority(task.priority),
+          labels: task.labels?.map(label => label.name) || [],
+          ...(due && { due }),
+          ...(section?.integrations?.todoist && { section_id: section.integrations.todoist.id }),
+          ...(newParent ? { parent_id: tempIds.get(newParent.id) } : parent?.source_task?.todoist && { parent_id: parent.source_task.todoist.id }),
+        },
+      });
+
+      if (task.status === 'completed') {
+        commands.push({ type: 'item_close', uuid: crypto.randomUUID(), args: { id: tempId } });
+      }
+
+      this.operations.push({ type: 'create', entity: 'task', local_id: task.id });
+    };
+
+    newTasks.forEach(add);
+    return commands;
+  }
+
+  linkAddedTasks(response) {
+    for (const [tempId, itemId] of Object.entries(response.temp_id_mapping || {})) {
+      const taskId = this.addedTempIds.get(tempId);
+      if (taskId) {
+        this.addedTasks.set(itemId, taskId);
+      }
+    }
+  }
+
+  // Local id of an item: the task it was added from, or the one pulled for it
+  getLocalTaskId(itemId) {
+    return this.addedTasks.get(itemId)
+      || this.db.getTaskByExternalId('todoist', itemId).data?.id
+      || `todoist_${itemId}`;
+  }
+
+  toCommandArgs(task, snapshot, changed) {
+    const args = {};
+
+    if (changed.includes('title')) {
+      args.content = task.title;
+    }
+
+    if (changed.includes('description')) {
+      args.description = task.description || '';
+    }
+
+    // Priority is only sent when it maps to a different unified value, so the
+    // original Todoist priority survives round trips
+    if (changed.includes('priority')) {
+      args.priority = toTodoistPriority(task.priority);
+    }
+
+    if (changed.includes('due_date') || changed.includes('recurrence')) {
+      args.due = this.toDue(task, snapshot, changed);
+    }
+
+    return args;
+  }
+
+  // Todoist keeps the recurrence in the due string; an unchanged series keeps its original wording
+  toDue(task, snapshot, changed = []) {
+    const rule = task.recurrence ? parseRRule(task.recurrence) : undefined;
+    const string = !changed.includes('recurrence') && snapshot?.due?.is_recurring
+      ? snapshot.due.string
+      : rule && describeRecurrence(rule);
+
+    if (!task.due_date && !string) {
+      return null;
+    }
+
+    return {
+      ...(task.due_date && { date: task.due_date }),
+      ...(string && { string, lang: 'en' }),
+    };
+  }
+
+  toFieldValues(snapshot) {
+    return {
+      title: snapshot.content,
+      description: snapshot.description || undefined,
+      priority: toUnifiedPriority(snapshot.priority),
+      status: snapshot.completed ? 'completed' : 'pending',
+      due_date: toLocalDueDate(snapshot.due),
+      recurrence: toLocalRecurrence(snapshot.due),
+    };
+  }
+
+  checkCommandStatus(commands, response) {
+    for (const command of commands) {
+      const status = response.sync_status?.[command.uuid];
+      if (status && status !== 'ok') {
+        console.error(`Todoist rejected ${command.type} for item ${command.args.id ?? command.temp_id}:`, status.error);
+      }
+    }
+  }
+
+  // Pull
+  applyProjects(projects) {
+    const parents = [];
+
+    for (const project of projects) {
+      const localId = `todoist_project_${project.id}`;
+      const existing = this.db.getProjectById(localId);
+
+      if (project.is_deleted) {
+        // Archive rather than delete so local tasks keep their project
+        if (existing.success) {
+          this.db.updateProject(localId, { is_archived: true });
+          this.operations.push({ type: 'delete', entity: 'project', local_id: localId, external_id: project.id });
+        }
+        continue;
+      }
+
+      const data = {
+        name: project.name,
+        color: TODOIST_COLORS[project.color] || '#808080',
+        sort_order: project.child_order,
+        is_favorite: project.is_favorite,
+        integrations: {
+          todoist: {
+            id: project.id,
+            synced_at: new Date().toISOString(),
+            sync_enabled: true,
+            sync_fields: ['name', 'color'],
+          },
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateProject(localId, { ...data, is_archived: project.is_archived })
+        : this.db.createProject({ id: localId, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save project ${project.id}`);
+      }
+
+      if (project.parent_id) {
+        parents.push([localId, `todoist_project_${project.parent_id}`]);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'project',
+        local_id: localId,
+        external_id: project.id,
+      });
+    }
+
+    for (const [projectId, parentId] of parents) {
+      if (this.db.getProjectById(parentId).success) {
+        this.db.updateProject(projectId, { parent_id: parentId });
+      }
+    }
+  }
+
+  applySections(sections) {
+    for (const section of sections) {
+      const localId = `todoist_section_${section.id}`;
+      const existing = this.db.getSectionById(localId);
+
+      if (section.is_deleted || section.is_archived) {
+        // The section's tasks stay in their project
+        if (existing.success) {
+          this.db.deleteSection(localId);
+          this.operations.push({ type: 'delete', entity: 'section', local_id: localId, external_id: section.id });
+        }
+        continue;
+      }
+
+      const projectId = `todoist_project_${section.project_id}`;
+      if (!this.db.getProjectById(projectId).success) {
+        continue;
+      }
+
+      const data = {
+        name: section.name,
+        project_id: projectId,
+        sort_order: section.section_order,
+        integrations: {
+          todoist: {
+            id: section.id,
+            synced_at: new Date().toISOString(),
+            sync_enabled: true,
+            sync_fields: ['name'],
+          },
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateSection(localId, data)
+        : this.db.createSection({ id: localId, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save section ${section.id}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'section',
+        local_id: localId,
+        external_id: section.id,
+      });
+    }
+  }
+
+  applyLabels(labels) {
+    for (const label of labels) {
+      if (label.is_deleted) {
+        continue;
+      }
+
+      // Labels are matched by name so Todoist labels merge with local ones
+      const existing = this.db.getLabelByName(label.name);
+      const data = {
+        color: TODOIST_COLORS[label.color] || '#808080',
+        sort_order: label.item_order,
+        integrations: {
+          ...existing.data?.integrations,
+          todoist: {
+            id: label.id,
+            synced_at: new Date().toISOString(),
+            sync_enabled: true,
+            sync_fields: ['name'],
+          },
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateLabel(existing.data.id, data)
+        : this.db.createLabel({ name: label.name, ...data });
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save label ${label.name}`);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'label',
+        local_id: result.data.id,
+        external_id: label.id,
+      });
+    }
+  }
+
+  applyItems(items) {
+    const parents = [];
+
+    for (const item of items) {
+      const localId = this.getLocalTaskId(item.id);
+      const existing = this.db.getTaskById(localId);
+
+      if (item.is_deleted) {
+        if (existing.success) {
+          this.detachSubtasks(localId);
+          this.db.deleteTask(localId);
+          this.operations.push({ type: 'delete', entity: 'task', local_id: localId, external_id: item.id });
+        }
+        continue;
+      }
+
+      const snapshot = this.toSnapshot(item);
+      const remote = this.toFieldValues(snapshot);
+      const previous = existing.data?.source_task?.todoist;
+      const { values, conflicts } = existing.success && previous
+        ? mergeSyncFields(existing.data, this.toFieldValues(previous), remote, previous.date_modified, item.updated_at)
+        : { values: remote, conflicts: [] };
+
+      // Closing a recurring item moves it to the next date instead of completing it
+      if (this.closedRecurring.has(item.id) && !item.checked) {
+        Object.assign(values, { status: remote.status, due_date: remote.due_date });
+      }
+
+      const projectId = `todoist_project_${item.project_id}`;
+      const sectionId = item.section_id && `todoist_section_${item.section_id}`;
+      const localSectionId = sectionId && this.db.getSectionById(sectionId).success ? sectionId : undefined;
+      // A section change made in Todoist replaces the local one, otherwise the task stays where it was put locally
+      const sectionMoved = (previous?.section_id || undefined) !== snapshot.section_id;
+      const data = {
+        ...values,
+        project_id: this.db.getProjectById(projectId).success ? projectId : undefined,
+        due_time: values.due_date === remote.due_date ? toLocalDueTime(item.due) : existing.data?.due_time,
+        source_task: { ...existing.data?.source_task, todoist: snapshot },
+        integrations: {
+          ...existing.data?.integrations,
+          todoist: this.toIntegration(item),
+        },
+      };
+
+      const result = existing.success
+        ? this.db.updateTask(localId, {
+            ...data,
+            ...toTaskUpdates(values),
+            ...(sectionMoved && { section_id: localSectionId || null }),
+            parent_id: item.parent_id ? undefined : null,
+            due_time: data.due_time || null,
+            completed_at: values.status === 'completed' ? item.completed_at || undefined : undefined,
+            updated_at: getPulledUpdatedAt(values, remote, item.updated_at),
+          })
+        : this.db.createTask({ id: localId, ...data, section_id: localSectionId, title: item.content });
+
+      if (conflicts.length > 0) {
+        this.db.saveSyncConflict({
+          task_id: localId,
+          integration: 'todoist',
+          external_id: item.id,
+          fields: conflicts,
+          local_updated_at: existing.data?.updated_at,
+          remote_updated_at: item.updated_at,
+        });
+        this.conflicts.push({
+          type: 'update',
+          entity: 'task',
+          local_id: localId,
+          external_id: item.id,
+          data: conflicts,
+          conflict: true,
+        });
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || `Failed to save task ${item.id}`);
+      }
+
+      if (!existing.success && item.completed_at) {
+        this.db.updateTask(localId, { completed_at: item.completed_at });
+      }
+
+      this.db.setTaskLabelsByName(localId, item.labels.map(name => ({ name })));
+
+      if (item.parent_id) {
+        parents.push([localId, this.getLocalTaskId(item.parent_id)]);
+      }
+
+      this.operations.push({
+        type: existing.success ? 'update' : 'create',
+        entity: 'task',
+        local_id: localId,
+        external_id: item.id,
+      });
+    }
+
+    // Subtasks may arrive before their parents, so link them once all items exist
+    for (const [taskId, parentId] of parents) {
+      if (this.db.getTaskById(parentId).success) {
+        this.db.updateTask(taskId, { parent_id: parentId });
+      }
+    }
+  }
+
+  // Todoist deletes subtasks along with their parent, but keep any local ones valid
+  detachSubtasks(taskId) {
+    const children = this.db.getTasks({ parent_id: taskId });
+    for (const child of children.data || []) {
+      this.db.updateTask(child.id, { parent_id: null });
+    }
+  }
+
+  toSnapshot(item) {
+    return {
+      id: item.id,
+      content: item.content,
+      description: item.description,
+      project_id: item.project_id,
+      section_id: item.section_id || undefined,
+      parent_id: item.parent_id || undefined,
+      order: item.child_order,
+      priority: item.priority,
+      labels: item.labels,
+      completed: item.checked,
+      due: item.due ? {
+        date: item.due.date,
+        string: item.due.string,
+        timezone: item.due.timezone || undefined,
+        is_recurring: item.due.is_recurring,
+      } : undefined,
+      url: `https://app.todoist.com/app/task/${item.id}`,
+      comment_count: 0,
+      assignee: item.responsible_uid || undefined,
+      assigner: item.assigned_by_uid || undefined,
+      created_at: item.added_at,
+      date_modified: item.updated_at,
+    };
+  }
+
+  toIntegration(item) {
+    return {
+      id: item.id,
+      synced_at: new Date().toISOString(),
+      last_modified: item.updated_at,
+      sync_enabled: true,
+      sync_fields: SYNC_FIELDS,
+      project_id: item.project_id,
+      section_id: item.section_id || undefined,
+      parent_id: item.parent_id || undefined,
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DatabaseManager } from '../database/DatabaseManager.js';
+import { TodoistSyncEngine } from './TodoistSyncEngine.js';
+
+type Item = Record<string, unknown> & { id: string };
+
+const db = DatabaseManager.getInstance();
+
+const project = { id: 'p1', name: 'Work', color: 'red', parent_id: null, child_order: 1, is_favorite: false, is_archived: false, is_deleted: false };
+
+const item = (values: Item): Item => ({
+  content: 'Task',
+  description: 'Notes',
+  project_id: 'p1',
+  section_id: null,
+  parent_id: null,
+  child_order: 1,
+  priority: 1,
+  labels: [],
+  checked: false,
+  is_deleted: false,
+  due: { date: '2026-10-20T09:00:00', string: 'Oct 20 9am' },
+  responsible_uid: null,
+  assigned_by_uid: null,
+  added_at: '2026-10-01T00:00:00Z',
+  updated_at: '2026-10-01T00:00:00Z',
+  completed_at: null,
+  ...values,
+});
+
+// Todoist answers each request with the next response; the commands of every request are kept
+let responses: Record<string, unknown>[] = [];
+let commands: Array<{ type: string; args: Record<string, unknown> }> = [];
+
+// Pushed items are not sent back, so edits of earlier tests are pushed again on every sync
+const commandsFor = (id: string) => commands.filter(command => command.args.id === id);
+
+const sync = (...pulled: Item[][]) => {
+  responses = pulled.map((items, index) => ({ sync_token: `token${index}`, full_sync: false, items, projects: [project] }));
+  return new TodoistSyncEngine(db, 'token').sync();
+};
+
+beforeEach(() => {
+  commands = [];
+  vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+    commands.push(...JSON.parse(new URLSearchParams(init.body).get('commands') || '[]'));
+    return { ok: true, json: async () => responses.shift() || { sync_token: 'last', full_sync: false } };
+  });
+});
+
+describe('TodoistSyncEngine', () => {
+  it('imports new items as tasks', async () => {
+    const result = await sync([item({ id: '1' })]);
+
+    expect(result.success).toBe(true);
+    expect(db.getTaskById('todoist_1').data).toMatchObject({
+      title: 'Task',
+      description: 'Notes',
+      project_id: 'todoist_project_p1',
+      due_date: '2026-10-20',
+      due_time: '09:00',
+    });
+  });
+
+  it('clears fields cleared in Todoist without pushing them back', async () => {
+    await sync([item({ id: '2' })]);
+    await sync([item({ id: '2', description: '', due: null, updated_at: '2026-10-02T00:00:00Z' })]);
+
+    const task = db.getTaskById('todoist_2').data!;
+    expect(task.description).toBeFalsy();
+    expect(task.due_date).toBeFalsy();
+    expect(task.due_time).toBeFalsy();
+
+    await sync([]);
+    expect(commandsFor('2')).toEqual([]);
+  });
+
+  it('keeps and pushes local edits while taking remote changes to other fields', async () => {
+    await sync([item({ id: '3' })]);
+    db.updateTask('todoist_3', { title: 'Edited locally' });
+
+    await sync([item({ id: '3', description: 'Changed in Todoist', updated_at: '2026-10-02T00:00:00Z' })]);
+
+    expect(db.getTaskById('todoist_3').data).toMatchObject({ title: 'Edited locally', description: 'Changed in Todoist' });
+    expect(commandsFor('3')).toEqual([
+      expect.objectContaining({ type: 'item_update', args: { id: '3', content: 'Edited locally' } }),
+    ]);
+  });
+
+  it('pushes a due date cleared locally', async () => {
+    await sync([item({ id: '4' })]);
+    db.updateTask('todoist_4', { due_date: null, due_time: null });
+
+    await sync([]);
+
+    expect(commandsFor('4')).toEqual([expect.objectContaining({ type: 'item_update', args: { id: '4', due: null } })]);
+  });
+
+  it('queues a conflict when both sides changed a field', async () => {
+    await sync([item({ id: '5' })]);
+    db.updateTask('todoist_5', { title: 'Local title' });
+
+    const result = await sync([item({ id: '5', content: 'Remote title', updated_at: '2099-01-01T00:00:00Z' })]);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(db.getTaskById('todoist_5').data!.title).toBe('Local title');
+    expect(commandsFor('5')).toEqual([]);
+  });
+
+  it('adds tasks created locally in a Todoist project and links them to the new items', async () => {
+    await sync([item({ id: '6' })]);
+    const task = db.createTask({ title: 'Written locally', project_id: 'todoist_project_p1', priority: 1 }).data!;
+
+    // Todoist assigns the added item an id and sends it back
+    vi.stubGlobal('fetch', async (_url: string, init: { body: string }) => {
+      const sent = JSON.parse(new URLSearchParams(init.body).get('commands') || '[]');
+      commands.push(...sent);
+      const added = sent.find((command: { type: string }) => command.type === 'item_add');
+      return {
+        ok: true,
+        json: async () => ({
+          sync_token: 'next',
+          full_sync: false,
+          ...(added && {
+            temp_id_mapping: { [added.temp_id]: '7' },
+            items: [item({ id: '7', content: 'Written locally', description: '', due: null, priority: 4 })],
+          }),
+        }),
+      };
+    });
+    await new TodoistSyncEngine(db, 'token').sync();
+
+    expect(commands).toContainEqual(expect.objectContaining({
+      type: 'item_add',
+      args: { content: 'Written locally', description: '', project_id: 'p1', priority: 4, labels: [] },
+    }));
+    expect(db.getTaskById(task.id).data!.source_task?.todoist?.id).toBe('7');
+    expect(db.getTaskById('todoist_7').success).toBe(false);
+
+    commands = [];
+    await new TodoistSyncEngine(db, 'token').sync();
+    expect(commands.filter(command => command.type === 'item_add')).toEqual([]);
+  });
+});
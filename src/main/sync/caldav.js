@@ -0,0 +1,486 @@
+import { parseRRule, formatRRule } from '../database/recurrence.js';
+import { SYNC_FIELDS } from './conflicts.js';
+
+const DAV_NAMESPACES = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:x="http://apple.com/ns/ical/"';
+
+const TODO_QUERY = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${DAV_NAMESPACES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VTODO"/></c:comp-filter></c:filter>
+</c:calendar-query>`;
+
+const XML_ENTITIES = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const decodeXml = (text) => {
+  const cdata = text.match(/^<!\[CDATA\[([\s\S]*)\]\]>$/);
+  if (cdata) {
+    return cdata[1];
+  }
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCharCode(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCharCode(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+};
+
+// Servers choose their own namespace prefixes, so elements are matched by local name
+const getElements = (xml, name) =>
+  [...xml.matchAll(new RegExp(`<(?:[\\w-]+:)?${name}(?=[\\s/>])[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, 'g'))]
+    .map(match => match[1] ?? '');
+
+const getText = (xml, name) => {
+  const element = xml === undefined ? undefined : getElements(xml, name)[0]?.trim();
+  return element ? decodeXml(element) : undefined;
+};
+
+const parseMultistatus = (xml) =>
+  getElements(xml, 'response').map(response => ({
+    href: getText(response, 'href') || '',
+    props: getElements(response, 'propstat')
+      .filter(propstat => /\s2\d\d\s/.test(getText(propstat, 'status') || ''))
+      .map(propstat => getElements(propstat, 'prop')[0] || '')
+      .join(''),
+  }));
+
+/**
+ * Minimal CalDAV client authenticated with a username and (app) password.
+ * Works in both processes against Nextcloud, Radicale or any RFC 4791 server.
+ */
+export class CalDavClient {
+  constructor(username, password, serverUrl) {
+    if (!password || typeof password !== 'string' || password.trim() === '') {
+      throw new Error('Invalid CalDAV password');
+    }
+    if (!serverUrl) {
+      throw new Error('No CalDAV server configured');
+    }
+    const credentials = new TextEncoder().encode(`${username}:${password}`);
+    this.authorization = `Basic ${btoa(String.fromCharCode(...credentials))}`;
+    this.serverUrl = serverUrl.endsWith('/') ? serverUrl : `${serverUrl}/`;
+  }
+
+  resolve(href) {
+    return new URL(href, this.serverUrl).toString();
+  }
+
+  async request(url, method, options = {}) {
+    const response = await fetch(this.resolve(url), {
+      method,
+      body: options.body,
+      headers: {
+        'Authorization': this.authorization,
+        ...(options.body ? { 'Content-Type': 'application/xml; charset=utf-8' } : {}),
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`CalDAV error ${response.status}: ${response.statusText}`);
+    }
+
+    return response;
+  }
+
+  async propfind(url, depth, props) {
+    const response = await this.request(url, 'PROPFIND', {
+      body: `<?xml version="1.0" encoding="utf-8"?><d:propfind ${DAV_NAMESPACES}><d:prop>${props}</d:prop></d:propfind>`,
+      headers: { 'Depth': String(depth) },
+    });
+    return parseMultistatus(await response.text());
+  }
+
+  async findHref(url, property, prefix) {
+    const [response] = await this.propfind(url, 0, `<${prefix}:${property}/>`);
+    const href = getText(getElements(response?.props || '', property)[0], 'href');
+    return href && this.resolve(href);
+  }
+
+  /**
+   * Calendars of the user's calendar home that can hold tasks.
+   * The server URL may be the DAV root, the principal or the calendar home itself.
+   */
+  async getCalendars() {
+    const principal = await this.findHref(this.serverUrl, 'current-user-principal', 'd') || this.serverUrl;
+    const home = await this.findHref(principal, 'calendar-home-set', 'c') || principal;
+    const responses = await this.propfind(home, 1, '<d:resourcetype/><d:displayname/><c:supported-calendar-component-set/><x:calendar-color/>');
+
+    return responses
+      .filter(({ props }) => getElements(getElements(props, 'resourcetype')[0] || '', 'calendar').length > 0)
+      .filter(({ props }) => {
+        // Without a component set the calendar accepts every component
+        const components = getElements(props, 'supported-calendar-component-set')[0];
+        return !components || /name="VTODO"/i.test(components);
+      })
+      .map(({ href, props }) => {
+        const url = this.resolve(href);
+        return {
+          url,
+          name: getText(props, 'displayname') || decodeURIComponent(url.replace(/\/$/, '').split('/').pop() || url),
+          color: getText(props, 'calendar-color')?.slice(0, 7),
+        };
+      });
+  }
+
+  async getTodos(calendarUrl) {
+    const response = await this.request(calendarUrl, 'REPORT', { body: TODO_QUERY, headers: { 'Depth': '1' } });
+
+    return parseMultistatus(await response.text())
+      .map(({ href, props }) => ({
+        href: this.resolve(href),
+        etag: getText(props, 'getetag'),
+        data: getText(props, 'calendar-data') || '',
+      }))
+      .filter(resource => resource.data.includes('BEGIN:VTODO'));
+  }
+
+  /**
+   * Replace a task resource only if it is still at the given ETag.
+   * A changed resource fails with 412, left for the next sync to merge.
+   */
+  async updateTodo(href, ics, etag) {
+    const response = await this.request(href, 'PUT', {
+      body: ics,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        ...(etag ? { 'If-Match': etag } : {}),
+      },
+    });
+    // Servers may leave out the ETag when they alter the data; the next sync fetches it
+    return response.headers.get('etag') || undefined;
+  }
+}
+
+// iCalendar
+
+const unfoldLines = (ics) =>
+  ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line !== '');
+
+// Content lines are folded at 75 octets; characters are close enough for the text Openza writes
+const foldLine = (line) => {
+  const parts = [];
+  let rest = line;
+  while (rest.length > 74) {
+    parts.push(rest.slice(0, 74));
+    rest = rest.slice(74);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+};
+
+const parseLine = (line) => {
+  let quoted = false;
+  let separator = line.length;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      separator = i;
+      break;
+    }
+  }
+
+  const [name, ...params] = line.slice(0, separator).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map(param => {
+      const [key, ...value] = param.split('=');
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: line.slice(separator + 1),
+  };
+};
+
+const unescapeText = (value) =>
+  value.replace(/\\([nN\\;,])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const escapeText = (value) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Splits on commas that are not escaped
+const splitList = (value) =>
+  value.split(/(?<!\\),/).map(unescapeText).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Top-level properties of the first VTODO; nested components such as VALARM are skipped
+ */
+const getTodoProperties = (ics) => {
+  const properties = [];
+  let inTodo = false;
+  let nested = 0;
+
+  for (const line of unfoldLines(ics)) {
+    const property = parseLine(line);
+    if (!inTodo) {
+      inTodo = property.name === 'BEGIN' && property.value.toUpperCase() === 'VTODO';
+      continue;
+    }
+    if (property.name === 'END' && property.value.toUpperCase() === 'VTODO' && nested === 0) {
+      return properties;
+    }
+    if (property.name === 'BEGIN') nested++;
+    else if (property.name === 'END') nested--;
+    else if (nested === 0) properties.push(property);
+  }
+
+  return undefined;
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+/**
+ * DATE or DATE-TIME value as a local date, with the time for DATE-TIMEs.
+ * UTC times are converted; TZID and floating times are taken as wall-clock time.
+ */
+const parseICalDate = (value) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) {
+    return `${year}-${month}-${day}`;
+  }
+  if (!utc) {
+    return `${year}-${month}-${day}T${hours}:${minutes}`;
+  }
+  const date = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Timestamps such as LAST-MODIFIED, as ISO strings
+const parseICalTimestamp = (value) => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z?$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.000Z` : undefined;
+};
+
+const formatICalTimestamp = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Status and priority
+
+const STATUS_TO_LOCAL = {
+  'NEEDS-ACTION': 'pending',
+  'IN-PROCESS': 'in_progress',
+  'COMPLETED': 'completed',
+  'CANCELLED': 'cancelled',
+};
+
+export const toLocalStatus = (status) => STATUS_TO_LOCAL[status] || 'pending';
+
+export const toCalDavStatus = (status) =>
+  (Object.keys(STATUS_TO_LOCAL) ).find(key => STATUS_TO_LOCAL[key] === status) || 'NEEDS-ACTION';
+
+/**
+ * PRIORITY runs from 1 (highest) to 9 (lowest), 0 meaning undefined.
+ * Clients like Nextcloud Tasks use 1-4 for high, 5 for medium and 6-9 for low.
+ */
+export const toLocalPriority = (priority) => {
+  if (priority >= 1 && priority <= 4) return 1;
+  if (priority === 5) return 2;
+  if (priority >= 6 && priority <= 9) return 4;
+  return 3;
+};
+
+export const toCalDavPriority = (priority) => [1, 5, 0, 9][priority - 1] ?? 0;
+
+// Local ids; UIDs are unique across calendars
+export const calDavTaskId = (uid) => `caldav_${uid}`;
+export const calDavCalendarProjectId = (calendarUrl) =>
+  `caldav_calendar_${calendarUrl.replace(/^https?:\/\//, '').replace(/\W+/g, '_').replace(/^_|_$/g, '')}`;
+
+/**
+ * VTODO resource as stored in source_task.caldav, undefined for resources without one
+ */
+export const parseCalDavTodo = (resource, calendarUrl) => {
+  const properties = getTodoProperties(resource.data);
+  const uid = properties?.find(property => property.name === 'UID')?.value;
+  if (!properties || !uid) {
+    return undefined;
+  }
+
+  const get = (name) => properties.find(property => property.name === name);
+  const completed = parseICalTimestamp(get('COMPLETED')?.value);
+  const status = (get('STATUS')?.value.toUpperCase() || (completed ? 'COMPLETED' : 'NEEDS-ACTION'));
+  // RELTYPE defaults to PARENT
+  const parent = properties.find(property =>
+    property.name === 'RELATED-TO' && (property.params.RELTYPE || 'PARENT').toUpperCase() === 'PARENT');
+
+  return {
+    uid,
+    href: resource.href,
+    etag: resource.etag,
+    calendar_url: calendarUrl,
+    summary: unescapeText(get('SUMMARY')?.value || ''),
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION').value) : undefined,
+    status: status in STATUS_TO_LOCAL ? status : 'NEEDS-ACTION',
+    priority: parseInt(get('PRIORITY')?.value || '0', 10) || 0,
+    due: get('DUE') && parseICalDate(get('DUE').value),
+    categories: properties.filter(property => property.name === 'CATEGORIES').flatMap(property => splitList(property.value)),
+    related_to: parent?.value,
+    rrule: get('RRULE')?.value,
+    created: parseICalTimestamp(get('CREATED')?.value),
+    last_modified: parseICalTimestamp(get('LAST-MODIFIED')?.value || get('DTSTAMP')?.value),
+    completed,
+    ics: resource.data,
+  };
+};
+
+/**
+ * Content lines for the task fields that changed; undefined removes a property
+ */
+export const toCalDavTodoProperties = (task, fields) => {
+  const properties = {};
+
+  if (fields.includes('title')) {
+    properties.SUMMARY = `SUMMARY:${escapeText(task.title)}`;
+  }
+  if (fields.includes('description')) {
+    properties.DESCRIPTION = task.description ? `DESCRIPTION:${escapeText(task.description)}` : undefined;
+  }
+  if (fields.includes('priority')) {
+    properties.PRIORITY = `PRIORITY:${toCalDavPriority(task.priority)}`;
+  }
+  if (fields.includes('status')) {
+    const isCompleted = task.status === 'completed';
+    properties.STATUS = `STATUS:${toCalDavStatus(task.status)}`;
+    properties.COMPLETED = isCompleted
+      ? `COMPLETED:${formatICalTimestamp(task.completed_at ? new Date(task.completed_at) : new Date())}`
+      : undefined;
+    properties['PERCENT-COMPLETE'] = isCompleted ? 'PERCENT-COMPLETE:100' : undefined;
+  }
+  if (fields.includes('due_date')) {
+    properties.DUE = !task.due_date
+      ? undefined
+      : task.due_time
+        ? `DUE:${formatICalTimestamp(new Date(`${task.due_date}T${task.due_time}`))}`
+        : `DUE;VALUE=DATE:${task.due_date.replace(/-/g, '')}`;
+  }
+  if (fields.includes('recurrence')) {
+    properties.RRULE = task.recurrence ? `RRULE:${task.recurrence}` : undefined;
+  }
+
+  return properties;
+};
+
+/**
+ * Task as a standalone VTODO component for iCalendar files; the task id is the UID
+ */
+export const formatCalDavTodo = (task) => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}`,
+    `DTSTAMP:${formatICalTimestamp(new Date())}`,
+    `CREATED:${formatICalTimestamp(new Date(task.created_at))}`,
+    ...(task.updated_at ? [`LAST-MODIFIED:${formatICalTimestamp(new Date(task.updated_at))}`] : []),
+    ...Object.values(toCalDavTodoProperties(task, SYNC_FIELDS)).filter((line) => !!line),
+    ...(task.labels?.length ? [`CATEGORIES:${task.labels.map(label => escapeText(label.name)).join(',')}`] : []),
+    ...(task.parent_id ? [`RELATED-TO;RELTYPE=PARENT:${task.parent_id}`] : []),
+    'END:VTODO',
+  ];
+  return lines.map(foldLine).join('\r\n');
+};
+
+/**
+ * Rewrite properties of the VTODO in a resource, keeping everything else as it was
+ */
+export const updateCalDavTodo = (ics, properties) => {
+  const now = formatICalTimestamp(new Date());
+  const replaced = {
+    ...properties,
+    'LAST-MODIFIED': `LAST-MODIFIED:${now}`,
+    'DTSTAMP': `DTSTAMP:${now}`,
+  };
+
+  const lines = [];
+  // Only the first VTODO; later ones are overrides of single occurrences
+  let state = 'before';
+  let nested = 0;
+  let written = false;
+
+  for (const line of unfoldLines(ics)) {
+    const { name, value } = parseLine(line);
+    const isTodoBoundary = (name === 'BEGIN' || name === 'END') && value.toUpperCase() === 'VTODO';
+
+    if (state === 'before' && name === 'BEGIN' && isTodoBoundary) {
+      state = 'todo';
+      lines.push(line);
+      continue;
+    }
+
+    // Properties come before sub-components such as VALARM
+    if (state === 'todo' && !written && nested === 0 && (name === 'BEGIN' || (name === 'END' && isTodoBoundary))) {
+      lines.push(...Object.values(replaced).filter((added) => !!added));
+      written = true;
+    }
+
+    if (state === 'todo' && name === 'END' && isTodoBoundary && nested === 0) {
+      state = 'after';
+    } else if (state === 'todo' && (name === 'BEGIN' || name === 'END')) {
+      nested += name === 'BEGIN' ? 1 : -1;
+    } else if (state === 'todo' && nested === 0 && name in replaced) {
+      continue;
+    }
+    lines.push(line);
+  }
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const toCalDavIntegration = (todo) => ({
+  uid: todo.uid,
+  href: todo.href,
+  calendar_url: todo.calendar_url,
+  synced_at: new Date().toISOString(),
+});
+
+/**
+ * Category as a local label; labels are matched by name
+ */
+export const convertCalDavCategory = (name, index = 0) => ({
+  id: `caldav_label_${name}`,
+  name,
+  color: '#808080',
+  sort_order: index,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * Calendars become projects, like Microsoft To-Do lists
+ */
+export const convertCalDavCalendarToProject = (calendar) => ({
+  id: calDavCalendarProjectId(calendar.url),
+  name: calendar.name,
+  description: 'CalDAV task list',
+  color: calendar.color || '#0082c9', // Nextcloud blue
+  icon: 'caldav',
+  sort_order: 0,
+  is_favorite: false,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+// Only rules the local recurrence engine understands are kept
+export const toLocalRecurrence = (rrule) => {
+  const rule = rrule ? parseRRule(rrule) : undefined;
+  return rule && formatRRule(rule);
+};
+
+export const convertCalDavTodoToTask = (todo) => ({
+  id: calDavTaskId(todo.uid),
+  title: todo.summary,
+  description: todo.description,
+  project_id: calDavCalendarProjectId(todo.calendar_url),
+  parent_id: todo.related_to ? calDavTaskId(todo.related_to) : undefined,
+  priority: toLocalPriority(todo.priority),
+  status: toLocalStatus(todo.status),
+  due_date: todo.due?.slice(0, 10),
+  due_time: todo.due?.slice(11) || undefined,
+  recurrence: toLocalRecurrence(todo.rrule),
+  energy_level: 2,
+  context: 'personal',
+  focus_time: false,
+  created_at: todo.created || todo.last_modified || new Date().toISOString(),
+  updated_at: todo.last_modified,
+  completed_at: todo.completed,
+  source_task: { caldav: todo },
+  integrations: { caldav: toCalDavIntegration(todo) },
+  labels: todo.categories.map(convertCalDavCategory),
+});
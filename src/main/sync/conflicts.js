@@ -0,0 +1,84 @@
+export const SYNC_FIELDS = ['title', 'description', 'priority', 'status', 'due_date', 'recurrence'];
+
+// Sync fields a provider can leave empty
+const CLEARABLE_FIELDS = ['description', 'due_date', 'recurrence'];
+
+// Treat missing and empty values alike so '' and undefined never look like an edit
+const sameValue = (a, b) =>
+  (a === undefined || a === null || a === '' ? undefined : a) ===
+  (b === undefined || b === null || b === '' ? undefined : b);
+
+const isAfter = (a, b) =>
+  !!a && (!b || Date.parse(a) > Date.parse(b));
+
+/**
+ * Fields that differ between the local task and the snapshot taken on the last sync
+ */
+export const getChangedFields = (
+  local,
+  base,
+  fields = SYNC_FIELDS
+) => fields.filter(field => !sameValue(local[field], base[field]));
+
+/**
+ * Three-way merge of a synced task.
+ *
+ * Starts from the remote values and keeps every field edited locally since the
+ * last sync. A field conflicts when the task was edited after the provider's last
+ * known modification (local updated_at vs the snapshot's modification time), the
+ * provider has changed since that snapshot, and both sides moved the same field
+ * to different values.
+ */
+export const mergeSyncFields = (
+  local,
+  base,
+  remote,
+  baseModifiedAt,
+  remoteModifiedAt,
+  fields = SYNC_FIELDS
+) => {
+  const values = { ...remote };
+  const conflicts = [];
+  const bothModified = isAfter(local.updated_at, baseModifiedAt) && remoteModifiedAt !== baseModifiedAt;
+
+  for (const field of getChangedFields(local, base, fields)) {
+    Object.assign(values, { [field]: local[field] });
+
+    if (bothModified && !sameValue(remote[field], local[field]) && !sameValue(remote[field], base[field])) {
+      conflicts.push({ field, local: local[field], remote: remote[field], base: base[field] });
+    }
+  }
+
+  return { values, conflicts };
+};
+
+/**
+ * Merged sync fields as updates for a task that already exists. updateTask
+ * leaves undefined fields alone, so a field the provider knows (one of
+ * fields) that was cleared on either side is written as null.
+ */
+export const toTaskUpdates = (values, fields = SYNC_FIELDS) => {
+  const updates = { ...values };
+
+  for (const field of CLEARABLE_FIELDS) {
+    if (fields.includes(field) && !values[field]) {
+      Object.assign(updates, { [field]: null });
+    }
+  }
+
+  return updates;
+};
+
+/**
+ * The fields of each task waiting on a pending conflict. Pushes leave them out
+ * until the user has picked a side.
+ */
+export const getPendingConflictFields = (conflicts) =>
+  new Map(conflicts.map(conflict => [conflict.task_id, conflict.fields.map(f => f.field)]));
+
+/**
+ * The modification time to store with a pulled task. Unedited tasks take the
+ * provider's so later local edits stand out; tasks that kept local edits keep
+ * their own so the edits are still pushed.
+ */
+export const getPulledUpdatedAt = (values, remote, remoteModifiedAt) => (getChangedFields(values, remote).length > 0 ? undefined : remoteModifiedAt);
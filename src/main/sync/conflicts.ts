@@ -0,0 +1,102 @@
+import type {
+  Task,
+  SyncField,
+  SyncFieldValues,
+  SyncConflict,
+  SyncConflictField,
+  UpdateTaskData,
+} from '../../types/database.js';
+
+export const SYNC_FIELDS: SyncField[] = ['title', 'description', 'priority', 'status', 'due_date', 'recurrence'];
+
+// Sync fields a provider can leave empty
+const CLEARABLE_FIELDS: SyncField[] = ['description', 'due_date', 'recurrence'];
+
+export interface FieldMergeResult {
+  values: SyncFieldValues;
+  conflicts: SyncConflictField[];
+}
+
+// Treat missing and empty values alike so '' and undefined never look like an edit
+const sameValue = (a: unknown, b: unknown): boolean =>
+  (a === undefined || a === null || a === '' ? undefined : a) ===
+  (b === undefined || b === null || b === '' ? undefined : b);
+
+const isAfter = (a: string | undefined, b: string | undefined): boolean =>
+  !!a && (!b || Date.parse(a) > Date.parse(b));
+
+/**
+ * Fields that differ between the local task and the snapshot taken on the last sync
+ */
+export const getChangedFields = (
+  local: SyncFieldValues,
+  base: SyncFieldValues,
+  fields: SyncField[] = SYNC_FIELDS
+): SyncField[] => fields.filter(field => !sameValue(local[field], base[field]));
+
+/**
+ * Three-way merge of a synced task.
+ *
+ * Starts from the remote values and keeps every field edited locally since the
+ * last sync. A field conflicts when the task was edited after the provider's last
+ * known modification (local updated_at vs the snapshot's modification time), the
+ * provider has changed since that snapshot, and both sides moved the same field
+ * to different values.
+ */
+export const mergeSyncFields = (
+  local: Task,
+  base: SyncFieldValues,
+  remote: SyncFieldValues,
+  baseModifiedAt: string | undefined,
+  remoteModifiedAt: string | undefined,
+  fields: SyncField[] = SYNC_FIELDS
+): FieldMergeResult => {
+  const values: SyncFieldValues = { ...remote };
+  const conflicts: SyncConflictField[] = [];
+  const bothModified = isAfter(local.updated_at, baseModifiedAt) && remoteModifiedAt !== baseModifiedAt;
+
+  for (const field of getChangedFields(local, base, fields)) {
+    Object.assign(values, { [field]: local[field] });
+
+    if (bothModified && !sameValue(remote[field], local[field]) && !sameValue(remote[field], base[field])) {
+      conflicts.push({ field, local: local[field], remote: remote[field], base: base[field] });
+    }
+  }
+
+  return { values, conflicts };
+};
+
+/**
+ * Merged sync fields as updates for a task that already exists. updateTask
+ * leaves undefined fields alone, so a field the provider knows (one of
+ * fields) that was cleared on either side is written as null.
+ */
+export const toTaskUpdates = (values: SyncFieldValues, fields: SyncField[] = SYNC_FIELDS): UpdateTaskData => {
+  const updates: UpdateTaskData = { ...values };
+
+  for (const field of CLEARABLE_FIELDS) {
+    if (fields.includes(field) && !values[field]) {
+      Object.assign(updates, { [field]: null });
+    }
+  }
+
+  return updates;
+};
+
+/**
+ * The fields of each task waiting on a pending conflict. Pushes leave them out
+ * until the user has picked a side.
+ */
+export const getPendingConflictFields = (conflicts: SyncConflict[]): Map<string, SyncField[]> =>
+  new Map(conflicts.map(conflict => [conflict.task_id, conflict.fields.map(f => f.field)]));
+
+/**
+ * The modification time to store with a pulled task. Unedited tasks take the
+ * provider's so later local edits stand out; tasks that kept local edits keep
+ * their own so the edits are still pushed.
+ */
+export const getPulledUpdatedAt = (
+  values: SyncFieldValues,
+  remote: SyncFieldValues,
+  remoteModifiedAt: string | undefined
+): string | undefined => (getChangedFields(values, remote).length > 0 ? undefined : remoteModifiedAt);
@@ -0,0 +1,219 @@
+export const GITHUB_API_URL = 'https://api.github.com';
+
+const PAGE_SIZE = 100;
+
+const parseRepository = (repository) => {
+  const trimmed = repository.trim();
+  if (!/^[\w.-]+\/[\w.-]+$/.test(trimmed)) {
+    throw new Error(`Invalid GitHub repository "${repository}", expected owner/name`);
+  }
+  return trimmed;
+};
+
+// "<https://api.github.com/...&page=2>; rel="next", <...>; rel="last""
+const getNextPage = (link) =>
+  link?.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean)?.[1];
+
+/**
+ * Minimal GitHub REST client authenticated with a personal access token.
+ * Works in both processes; the base URL can point at GitHub Enterprise or a test server.
+ */
+export class GitHubClient {
+  constructor(token, baseUrl = GITHUB_API_URL) {
+    if (!token || typeof token !== 'string' || token.trim() === '') {
+      throw new Error('Invalid GitHub access token');
+    }
+    this.token = token.trim();
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async request(url, options = {}) {
+    const response = await fetch(url.startsWith('http') ? url : `${this.baseUrl}${url}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`GitHub API error ${response.status}: ${errorData.message || response.statusText}`);
+    }
+
+    return {
+      data: await response.json(),
+      next: getNextPage(response.headers.get('link')),
+    };
+  }
+
+  // Follows the Link header until the last page
+  async getAllPages(path) {
+    const items = [];
+    let url = path;
+
+    while (url) {
+      const page = await this.request(url);
+      items.push(...page.data);
+      url = page.next;
+    }
+
+    return items;
+  }
+
+  async getAuthenticatedUser() {
+    return (await this.request('/user')).data;
+  }
+
+  async getRepository(repository) {
+    return (await this.request(`/repos/${parseRepository(repository)}`)).data;
+  }
+
+  /**
+   * Issues of the configured repository matching its label and assignee filters.
+   * The issues endpoint also returns pull requests, which are left out.
+   */
+  async getIssues(config, options = {}) {
+    const params = new URLSearchParams({
+      state: options.state || 'open',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: String(PAGE_SIZE),
+    });
+    if (config.label_filter?.length) {
+      params.set('labels', config.label_filter.join(','));
+    }
+    if (config.assignee_filter) {
+      params.set('assignee', config.assignee_filter);
+    }
+    if (options.since) {
+      params.set('since', options.since);
+    }
+
+    const issues = await this.getAllPages(`/repos/${parseRepository(config.repository)}/issues?${params}`);
+    return issues.filter(issue => !issue.pull_request);
+  }
+
+  async getIssue(repository, issueNumber) {
+    return (await this.request(`/repos/${parseRepository(repository)}/issues/${issueNumber}`)).data;
+  }
+
+  async getMilestones(repository) {
+    return this.getAllPages(`/repos/${parseRepository(repository)}/milestones?state=all&per_page=${PAGE_SIZE}`);
+  }
+
+  async getLabels(repository) {
+    return this.getAllPages(`/repos/${parseRepository(repository)}/labels?per_page=${PAGE_SIZE}`);
+  }
+
+  /**
+   * Close an issue as completed, or reopen it
+   */
+  async updateIssueState(repository, issueNumber, state) {
+    const { data } = await this.request(`/repos/${parseRepository(repository)}/issues/${issueNumber}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ state, state_reason: state === 'closed' ? 'completed' : 'reopened' }),
+    });
+    return data;
+  }
+}
+
+// Local ids; issue and milestone ids are unique across repositories
+export const gitHubTaskId = (issue) => `github_${issue.id}`;
+export const gitHubMilestoneProjectId = (milestone) => `github_milestone_${milestone.id}`;
+export const gitHubRepositoryProjectId = (repository) => `github_repo_${repository.toLowerCase()}`;
+
+const toLabelData = (label) =>
+  typeof label === 'string' ? { name: label, color: 'ededed' } : { name: label.name, color: label.color };
+
+/**
+ * Issue as stored in source_task.github
+ */
+export const toGitHubSnapshot = (issue) => ({
+  id: issue.id,
+  number: issue.number,
+  title: issue.title,
+  body: issue.body || undefined,
+  state: issue.state,
+  labels: issue.labels.map(toLabelData),
+  assignees: issue.assignees.map(({ login }) => ({ login })),
+  milestone: issue.milestone
+    ? { id: issue.milestone.id, number: issue.milestone.number, title: issue.milestone.title }
+    : undefined,
+  created_at: issue.created_at,
+  updated_at: issue.updated_at,
+  closed_at: issue.closed_at || undefined,
+  html_url: issue.html_url,
+});
+
+export const toGitHubIntegration = (issue, repository) => ({
+  issue_number: issue.number,
+  repository,
+  synced_at: new Date().toISOString(),
+});
+
+/**
+ * GitHub label as a local label; labels are matched by name like Todoist's
+ */
+export const convertGitHubLabel = (label, index = 0) => {
+  const { name, color } = toLabelData(label);
+  return {
+    id: `github_label_${name}`,
+    name,
+    color: `#${color}`,
+    description: typeof label === 'string' ? undefined : label.description || undefined,
+    sort_order: index,
+    created_at: new Date().toISOString(),
+  };
+};
+
+/**
+ * Milestones become projects so issues group the way they do on GitHub
+ */
+export const convertGitHubMilestoneToProject = (milestone, repository) => ({
+  id: gitHubMilestoneProjectId(milestone),
+  name: milestone.title,
+  description: milestone.description || `Milestone in ${repository}`,
+  color: '#24292f', // GitHub dark
+  icon: 'github',
+  sort_order: milestone.number,
+  is_favorite: false,
+  is_archived: milestone.state === 'closed',
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * Project for issues without a milestone
+ */
+export const convertGitHubRepositoryToProject = (repository) => ({
+  id: gitHubRepositoryProjectId(repository),
+  name: repository,
+  description: `GitHub issues in ${repository}`,
+  color: '#24292f',
+  icon: 'github',
+  sort_order: 0,
+  is_favorite: false,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+export const convertGitHubIssueToTask = (issue, repository) => ({
+  id: gitHubTaskId(issue),
+  title: issue.title,
+  description: issue.body || undefined,
+  project_id: issue.milestone ? gitHubMilestoneProjectId(issue.milestone) : gitHubRepositoryProjectId(repository),
+  priority: 3, // GitHub has no priority; normal shows no badge
+  status: issue.state === 'closed' ? 'completed' : 'pending',
+  energy_level: 2,
+  context: 'work',
+  focus_time: false,
+  created_at: issue.created_at,
+  updated_at: issue.updated_at,
+  completed_at: issue.closed_at || undefined,
+  source_task: { github: toGitHubSnapshot(issue) },
+  integrations: { github: toGitHubIntegration(issue, repository) },
+  labels: issue.labels.map(convertGitHubLabel),
+});
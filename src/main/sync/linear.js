@@ -0,0 +1,306 @@
+export const LINEAR_API_URL = 'https://api.linear.app/graphql';
+
+const PAGE_SIZE = 100;
+
+const ISSUE_FIELDS = `
+  id identifier title description priority dueDate url createdAt updatedAt completedAt canceledAt
+  state { id name type }
+  team { id key name color }
+  project { id name description color completedAt canceledAt }
+  cycle { id number name completedAt }
+  labels { nodes { id name color } }
+  assignee { id name }
+`;
+
+/**
+ * Minimal Linear GraphQL client authenticated with a personal API key.
+ * Works in both processes; the endpoint can point at a test server.
+ */
+export class LinearClient {
+  constructor(apiKey, endpoint = LINEAR_API_URL) {
+    if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === '') {
+      throw new Error('Invalid Linear API key');
+    }
+    this.apiKey = apiKey.trim();
+    this.endpoint = endpoint;
+  }
+
+  async request(query, variables = {}) {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        // Personal API keys are sent as is, without a Bearer prefix
+        'Authorization': this.apiKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+
+    // GraphQL errors can arrive with a 200 status
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || body.errors?.length || !body.data) {
+      throw new Error(`Linear API error ${response.status}: ${body.errors?.[0]?.message || response.statusText}`);
+    }
+
+    return body.data;
+  }
+
+  // Follows endCursor until the last page of a top-level connection
+  async getAllPages(field, query, variables = {}) {
+    const items = [];
+    let after = null;
+
+    do {
+      const data = await this.request(query, { ...variables, first: PAGE_SIZE, after });
+      const page = data[field];
+      items.push(...page.nodes);
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+
+    return items;
+  }
+
+  async getViewer() {
+    const data = await this.request(
+      'query Viewer { viewer { id name email } }'
+    );
+    return data.viewer;
+  }
+
+  /**
+   * Teams the key can see, with their workflow states
+   */
+  async getTeams() {
+    return this.getAllPages('teams', `
+      query Teams($first: Int, $after: String) {
+        teams(first: $first, after: $after) {
+          nodes { id key name color states { nodes { id name type position } } }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `);
+  }
+
+  /**
+   * Issues assigned to the key's user in the configured teams. Without
+   * `since` only unfinished issues are returned.
+   */
+  async getAssignedIssues(config, since) {
+    const filter = {
+      assignee: { isMe: { eq: true } },
+    };
+    if (config.team_ids?.length) {
+      filter.team = { id: { in: config.team_ids } };
+    }
+    if (since) {
+      filter.updatedAt = { gt: since };
+    } else {
+      filter.state = { type: { nin: ['completed', 'canceled'] } };
+    }
+
+    return this.getAllPages('issues', `
+      query AssignedIssues($filter: IssueFilter, $first: Int, $after: String) {
+        issues(filter: $filter, first: $first, after: $after, orderBy: updatedAt) {
+          nodes { ${ISSUE_FIELDS} }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    `, { filter });
+  }
+
+  /**
+   * Move an issue to another workflow state of its team
+   */
+  async updateIssueState(issueId, stateId) {
+    const data = await this.request(`
+      mutation UpdateIssueState($id: String!, $stateId: String!) {
+        issueUpdate(id: $id, input: { stateId: $stateId }) {
+          success
+          issue { ${ISSUE_FIELDS} }
+        }
+      }
+    `, { id: issueId, stateId });
+
+    if (!data.issueUpdate.success) {
+      throw new Error(`Linear did not update issue ${issueId}`);
+    }
+    return data.issueUpdate.issue;
+  }
+}
+
+// Task status of each kind of Linear workflow state, and the kinds to move to for a status
+const STATE_TYPE_TO_STATUS = {
+  triage: 'pending',
+  backlog: 'pending',
+  unstarted: 'pending',
+  started: 'in_progress',
+  completed: 'completed',
+  canceled: 'cancelled',
+};
+
+const STATUS_TO_STATE_TYPES = {
+  pending: ['unstarted', 'backlog', 'triage'],
+  in_progress: ['started'],
+  completed: ['completed'],
+  cancelled: ['canceled'],
+};
+
+export const toLocalStatus = (type) => STATE_TYPE_TO_STATUS[type] || 'pending';
+
+/**
+ * First workflow state of the team matching a local status, e.g. "Todo" for pending
+ */
+export const findWorkflowState = (team, status) => {
+  const states = [...team.states.nodes].sort((a, b) => a.position - b.position);
+  for (const type of STATUS_TO_STATE_TYPES[status]) {
+    const state = states.find(candidate => candidate.type === type);
+    if (state) {
+      return state;
+    }
+  }
+  return undefined;
+};
+
+// Linear: 1 urgent .. 4 low, 0 for none, which shows like medium
+export const toLocalPriority = (priority) => (priority >= 1 && priority <= 4 ? priority : 3);
+
+// Local ids; Linear ids are UUIDs, unique across teams
+export const linearTaskId = (issue) => `linear_${issue.id}`;
+export const linearTeamProjectId = (team) => `linear_team_${team.id}`;
+export const linearProjectProjectId = (project) => `linear_project_${project.id}`;
+export const linearCycleProjectId = (cycle) => `linear_cycle_${cycle.id}`;
+
+/**
+ * Project an issue belongs to: its Linear project, else its cycle, else its team
+ */
+export const getLinearIssueProjectId = (issue) => {
+  if (issue.project) return linearProjectProjectId(issue.project);
+  if (issue.cycle) return linearCycleProjectId(issue.cycle);
+  return linearTeamProjectId(issue.team);
+};
+
+/**
+ * Issue as stored in source_task.linear
+ */
+export const toLinearSnapshot = (issue) => ({
+  id: issue.id,
+  identifier: issue.identifier,
+  title: issue.title,
+  description: issue.description || undefined,
+  priority: issue.priority,
+  state: { id: issue.state.id, name: issue.state.name, type: issue.state.type },
+  team: { id: issue.team.id, key: issue.team.key, name: issue.team.name },
+  project: issue.project ? { id: issue.project.id, name: issue.project.name } : undefined,
+  cycle: issue.cycle
+    ? { id: issue.cycle.id, number: issue.cycle.number, name: issue.cycle.name || undefined }
+    : undefined,
+  labels: issue.labels.nodes.map(({ name, color }) => ({ name, color })),
+  assignee: issue.assignee ? { id: issue.assignee.id, name: issue.assignee.name } : undefined,
+  dueDate: issue.dueDate || undefined,
+  createdAt: issue.createdAt,
+  updatedAt: issue.updatedAt,
+  completedAt: issue.completedAt || undefined,
+  canceledAt: issue.canceledAt || undefined,
+  url: issue.url,
+});
+
+export const toLinearIntegration = (issue) => ({
+  issue_id: issue.id,
+  identifier: issue.identifier,
+  team_id: issue.team.id,
+  synced_at: new Date().toISOString(),
+});
+
+/**
+ * Linear label as a local label; labels are matched by name like Todoist's
+ */
+export const convertLinearLabel = (label, index = 0) => ({
+  id: `linear_label_${label.name}`,
+  name: label.name,
+  color: label.color,
+  sort_order: index,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * Teams become projects for issues outside of a Linear project or cycle
+ */
+export const convertLinearTeamToProject = (team) => ({
+  id: linearTeamProjectId(team),
+  name: team.name,
+  description: `Linear issues of team ${team.key}`,
+  color: team.color || '#5e6ad2', // Linear indigo
+  icon: 'linear',
+  sort_order: 0,
+  is_favorite: false,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+export const convertLinearProjectToProject = (project) => ({
+  id: linearProjectProjectId(project),
+  name: project.name,
+  description: project.description || undefined,
+  color: project.color,
+  icon: 'linear',
+  sort_order: 1,
+  is_favorite: false,
+  is_archived: !!(project.completedAt || project.canceledAt),
+  created_at: new Date().toISOString(),
+});
+
+export const convertLinearCycleToProject = (cycle, team) => ({
+  id: linearCycleProjectId(cycle),
+  name: `${team.key} ${cycle.name || `Cycle ${cycle.number}`}`,
+  description: `Cycle ${cycle.number} of team ${team.name}`,
+  color: team.color || '#5e6ad2',
+  icon: 'linear',
+  sort_order: 2,
+  is_favorite: false,
+  is_archived: !!cycle.completedAt,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * Teams, projects and cycles referenced by the issues, each once, paired
+ * with the integration record of the project they become
+ */
+export const getLinearIssueProjects = (issues) => {
+  const projects = new Map();
+  const syncedAt = new Date().toISOString();
+
+  for (const issue of issues) {
+    const team = convertLinearTeamToProject(issue.team);
+    projects.set(team.id, [team, { team_id: issue.team.id, synced_at: syncedAt }]);
+
+    if (issue.project) {
+      const project = convertLinearProjectToProject(issue.project);
+      projects.set(project.id, [project, { team_id: issue.team.id, project_id: issue.project.id, synced_at: syncedAt }]);
+    }
+    if (issue.cycle) {
+      const cycle = convertLinearCycleToProject(issue.cycle, issue.team);
+      projects.set(cycle.id, [cycle, { team_id: issue.team.id, cycle_id: issue.cycle.id, synced_at: syncedAt }]);
+    }
+  }
+
+  return [...projects.values()];
+};
+
+export const convertLinearIssueToTask = (issue) => ({
+  id: linearTaskId(issue),
+  title: issue.title,
+  description: issue.description || undefined,
+  project_id: getLinearIssueProjectId(issue),
+  priority: toLocalPriority(issue.priority),
+  status: toLocalStatus(issue.state.type),
+  due_date: issue.dueDate || undefined,
+  energy_level: 2,
+  context: 'work',
+  focus_time: false,
+  created_at: issue.createdAt,
+  updated_at: issue.updatedAt,
+  completed_at: issue.completedAt || undefined,
+  source_task: { linear: toLinearSnapshot(issue) },
+  integrations: { linear: toLinearIntegration(issue) },
+  labels: issue.labels.nodes.map(convertLinearLabel),
+});
@@ -0,0 +1,310 @@
+export const NOTION_API_URL = 'https://api.notion.com/v1';
+export const NOTION_VERSION = '2022-06-28';
+
+const PAGE_SIZE = 100;
+
+// Property types that can hold each task field
+export const NOTION_PROPERTY_TYPES = {
+  title: ['title'],
+  description: ['rich_text'],
+  status: ['status', 'select', 'checkbox'],
+  due_date: ['date'],
+  priority: ['select'],
+  labels: ['multi_select'],
+};
+
+// Notion only exposes color names, the local tables store hex values
+const NOTION_COLORS = {
+  default: '#9b9a97',
+  gray: '#9b9a97',
+  brown: '#937264',
+  orange: '#ffa344',
+  yellow: '#ffdc49',
+  green: '#4dab9a',
+  blue: '#529cca',
+  purple: '#9a6dd7',
+  pink: '#e255a1',
+  red: '#ff7369',
+};
+
+/**
+ * Minimal Notion REST client authenticated with an internal integration token.
+ * The database has to be shared with the integration in Notion.
+ */
+export class NotionClient {
+  constructor(token, baseUrl = NOTION_API_URL) {
+    if (!token || typeof token !== 'string' || token.trim() === '') {
+      throw new Error('Invalid Notion integration token');
+    }
+    this.token = token.trim();
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async request(path, options = {}) {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Notion-Version': NOTION_VERSION,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Notion API error ${response.status}: ${errorData.message || response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  // Follows next_cursor until the last page of results
+  async getAllPages(path, body) {
+    const items = [];
+    let cursor;
+
+    do {
+      const page = await this.request(path, {
+        method: 'POST',
+        body: JSON.stringify({ ...body, page_size: PAGE_SIZE, ...(cursor && { start_cursor: cursor }) }),
+      });
+      items.push(...page.results);
+      cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+    } while (cursor);
+
+    return items;
+  }
+
+  /**
+   * Databases shared with the integration
+   */
+  async searchDatabases() {
+    return this.getAllPages('/search', { filter: { property: 'object', value: 'database' } });
+  }
+
+  async getDatabase(databaseId) {
+    return this.request(`/databases/${databaseId}`);
+  }
+
+  /**
+   * All pages of a database, or only those edited at or after `since`
+   */
+  async queryDatabase(databaseId, since) {
+    return this.getAllPages(`/databases/${databaseId}/query`, {
+      ...(since && { filter: { timestamp: 'last_edited_time', last_edited_time: { on_or_after: since } } }),
+      sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+    });
+  }
+
+  async updatePage(pageId, properties) {
+    return this.request(`/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ properties }),
+    });
+  }
+}
+
+const toPlainText = (text) =>
+  (text || []).map(part => part.plain_text).join('');
+
+export const getNotionDatabaseTitle = (database) =>
+  toPlainText(database.title) || 'Untitled database';
+
+/**
+ * Properties of the database that can hold a task field
+ */
+export const getCompatibleProperties = (database, field) =>
+  Object.values(database.properties).filter(property => NOTION_PROPERTY_TYPES[field].includes(property.type));
+
+// Property names that usually hold a field in Notion's task templates
+const PROPERTY_NAME_HINTS = {
+  title: /^(name|title|task)/i,
+  description: /^(description|notes?|summary)/i,
+  status: /^(status|state|done)/i,
+  due_date: /^(due|deadline|date)/i,
+  priority: /^priority/i,
+  labels: /^(tags?|labels?)/i,
+};
+
+/**
+ * Best guess at a property mapping, used until the user picks one
+ */
+export const getDefaultPropertyMappings = (database) => {
+  const mappings = {};
+
+  for (const field of Object.keys(NOTION_PROPERTY_TYPES) ) {
+    const candidates = getCompatibleProperties(database, field);
+    const named = candidates.find(property => PROPERTY_NAME_HINTS[field].test(property.name));
+    // Every database has one title property, and a Notion status property is almost certainly the task state
+    const property = named || (field === 'title' || (field === 'status' && candidates[0]?.type === 'status') ? candidates[0] : undefined);
+    if (property) {
+      mappings[field] = property.name;
+    }
+  }
+
+  return mappings;
+};
+
+const toLocalStatusOption = (option, schema) => {
+  // Status properties sort their options into To-do, In progress and Complete groups
+  const group = schema?.status?.groups.find(g => g.option_ids.includes(option.id))?.name || option.name;
+  if (/complete|done|closed|finished/i.test(group)) return 'completed';
+  if (/progress|doing|started|active/i.test(group)) return 'in_progress';
+  if (/cancel|won.?t|archived/i.test(group)) return 'cancelled';
+  return 'pending';
+};
+
+const toLocalStatus = (
+  value,
+  schema
+) => {
+  if (value?.type === 'checkbox') {
+    return value.checkbox ? 'completed' : 'pending';
+  }
+
+  const option = value?.type === 'status' ? value.status : value?.select;
+  return option ? toLocalStatusOption(option, schema) : 'pending';
+};
+
+const toLocalPriority = (option) => {
+  const name = option?.name || '';
+  if (/urgent|highest|high|p1|critical/i.test(name)) return 1;
+  if (/medium|p2/i.test(name)) return 2;
+  if (/low|p4/i.test(name)) return 4;
+  return 3;
+};
+
+/**
+ * Task fields of a page according to the configured property mappings
+ */
+export const readNotionPageFields = (
+  page,
+  database,
+  mappings
+) => {
+  const property = (field) => (mappings[field] ? page.properties[mappings[field]] : undefined);
+  const titleProperty = property('title') || Object.values(page.properties).find(value => value.type === 'title');
+  const date = property('due_date')?.date;
+
+  return {
+    title: toPlainText(titleProperty?.title) || 'Untitled',
+    description: toPlainText(property('description')?.rich_text) || undefined,
+    status: toLocalStatus(property('status'), mappings.status ? database.properties[mappings.status] : undefined),
+    due_date: date ? date.start.slice(0, 10) : undefined,
+    due_time: date && date.start.includes('T') ? date.start.slice(11, 16) : undefined,
+    priority: toLocalPriority(property('priority')?.select),
+    labels: property('labels')?.multi_select || [],
+  };
+};
+
+/**
+ * Property value that stores a local status, or undefined when the mapped
+ * property has no suitable option
+ */
+export const toNotionStatusProperty = (
+  status,
+  database,
+  mappings
+) => {
+  const schema = mappings.status ? database.properties[mappings.status] : undefined;
+  if (!schema) {
+    return undefined;
+  }
+
+  if (schema.type === 'checkbox') {
+    return { checkbox: status === 'completed' };
+  }
+
+  const options = (schema.type === 'status' ? schema.status?.options : schema.select?.options) || [];
+  const option = options.find(o => toLocalStatusOption(o, schema) === status);
+
+  return option ? { [schema.type]: { name: option.name } } : undefined;
+};
+
+export const toNotionDateProperty = (dueDate, dueTime) => ({
+  date: dueDate
+    ? dueTime
+      ? { start: `${dueDate}T${dueTime}:00`, time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+      : { start: dueDate }
+    : null,
+});
+
+export const notionTaskId = (page) => `notion_${page.id.replace(/-/g, '')}`;
+export const notionProjectId = (databaseId) => `notion_db_${databaseId.replace(/-/g, '')}`;
+
+/**
+ * Page as stored in source_task.notion
+ */
+export const toNotionSnapshot = (page, mappings) => {
+  const status = mappings.status ? page.properties[mappings.status] : undefined;
+  const title = Object.values(page.properties).find(value => value.type === 'title');
+  return {
+    id: page.id,
+    title: toPlainText(title?.title),
+    // Option name as shown in Notion
+    status: status?.status?.name || status?.select?.name || (status?.type === 'checkbox' ? String(status.checkbox) : ''),
+    properties: page.properties,
+    created_time: page.created_time,
+    last_edited_time: page.last_edited_time,
+  };
+};
+
+export const toNotionIntegration = (page, databaseId) => ({
+  page_id: page.id,
+  database_id: databaseId,
+  synced_at: new Date().toISOString(),
+});
+
+export const convertNotionOptionToLabel = (option, index = 0) => ({
+  id: `notion_label_${option.id}`,
+  name: option.name,
+  color: NOTION_COLORS[option.color] || NOTION_COLORS.default,
+  sort_order: index,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * The synced database becomes a single project
+ */
+export const convertNotionDatabaseToProject = (database) => ({
+  id: notionProjectId(database.id),
+  name: getNotionDatabaseTitle(database),
+  description: 'Notion database',
+  color: '#37352f', // Notion dark
+  icon: 'notion',
+  sort_order: 0,
+  is_favorite: false,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+export const convertNotionPageToTask = (page, database, mappings) => {
+  const fields = readNotionPageFields(page, database, mappings);
+  return {
+    id: notionTaskId(page),
+    title: fields.title,
+    description: fields.description,
+    project_id: notionProjectId(database.id),
+    priority: fields.priority,
+    status: fields.status,
+    due_date: fields.due_date,
+    due_time: fields.due_time,
+    energy_level: 2,
+    context: 'work',
+    focus_time: false,
+    created_at: page.created_time,
+    updated_at: page.last_edited_time,
+    source_task: { notion: toNotionSnapshot(page, mappings) },
+    integrations: { notion: toNotionIntegration(page, database.id) },
+    labels: fields.labels.map(convertNotionOptionToLabel),
+  };
+};
+
+/**
+ * Mappings of the integration, falling back to guesses for unmapped fields
+ */
+export const getNotionMappings = (config, database) => ({
+  ...getDefaultPropertyMappings(database),
+  ...config.property_mappings,
+});
@@ -0,0 +1,389 @@
+import type {
+  Task,
+  Project,
+  Label,
+  TaskStatus,
+  NotionConfig,
+  NotionTaskData,
+  NotionIntegration,
+} from '../../types/database.js';
+
+export const NOTION_API_URL = 'https://api.notion.com/v1';
+export const NOTION_VERSION = '2022-06-28';
+
+const PAGE_SIZE = 100;
+
+// Task fields that can be read from a Notion property, and the property types that can hold them
+export type NotionMappedField = 'title' | 'description' | 'status' | 'due_date' | 'priority' | 'labels';
+
+export const NOTION_PROPERTY_TYPES: Record<NotionMappedField, string[]> = {
+  title: ['title'],
+  description: ['rich_text'],
+  status: ['status', 'select', 'checkbox'],
+  due_date: ['date'],
+  priority: ['select'],
+  labels: ['multi_select'],
+};
+
+// Notion only exposes color names, the local tables store hex values
+const NOTION_COLORS: Record<string, string> = {
+  default: '#9b9a97',
+  gray: '#9b9a97',
+  brown: '#937264',
+  orange: '#ffa344',
+  yellow: '#ffdc49',
+  green: '#4dab9a',
+  blue: '#529cca',
+  purple: '#9a6dd7',
+  pink: '#e255a1',
+  red: '#ff7369',
+};
+
+// API shapes, trimmed to the fields Openza reads
+export interface NotionRichText {
+  plain_text: string;
+}
+
+export interface NotionOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface NotionPropertySchema {
+  id: string;
+  name: string;
+  type: string;
+  status?: { options: NotionOption[]; groups: Array<{ name: string; option_ids: string[] }> };
+  select?: { options: NotionOption[] };
+  multi_select?: { options: NotionOption[] };
+}
+
+export interface NotionDatabase {
+  id: string;
+  title: NotionRichText[];
+  url: string;
+  properties: Record<string, NotionPropertySchema>;
+}
+
+export interface NotionPropertyValue {
+  id: string;
+  type: string;
+  title?: NotionRichText[];
+  rich_text?: NotionRichText[];
+  status?: NotionOption | null;
+  select?: NotionOption | null;
+  multi_select?: NotionOption[];
+  date?: { start: string; end: string | null; time_zone: string | null } | null;
+  checkbox?: boolean;
+}
+
+export interface NotionPage {
+  id: string;
+  url: string;
+  created_time: string;
+  last_edited_time: string;
+  archived: boolean;
+  properties: Record<string, NotionPropertyValue>;
+}
+
+interface NotionList<T> {
+  results: T[];
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+/**
+ * Minimal Notion REST client authenticated with an internal integration token.
+ * The database has to be shared with the integration in Notion.
+ */
+export class NotionClient {
+  private token: string;
+  private baseUrl: string;
+
+  constructor(token: string, baseUrl: string = NOTION_API_URL) {
+    if (!token || typeof token !== 'string' || token.trim() === '') {
+      throw new Error('Invalid Notion integration token');
+    }
+    this.token = token.trim();
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(path: string, options: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Notion-Version': NOTION_VERSION,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({})) as { message?: string };
+      throw new Error(`Notion API error ${response.status}: ${errorData.message || response.statusText}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  // Follows next_cursor until the last page of results
+  private async getAllPages<T>(path: string, body: Record<string, unknown>): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page: NotionList<T> = await this.request<NotionList<T>>(path, {
+        method: 'POST',
+        body: JSON.stringify({ ...body, page_size: PAGE_SIZE, ...(cursor && { start_cursor: cursor }) }),
+      });
+      items.push(...page.results);
+      cursor = page.has_more && page.next_cursor ? page.next_cursor : undefined;
+    } while (cursor);
+
+    return items;
+  }
+
+  /**
+   * Databases shared with the integration
+   */
+  async searchDatabases(): Promise<NotionDatabase[]> {
+    return this.getAllPages<NotionDatabase>('/search', { filter: { property: 'object', value: 'database' } });
+  }
+
+  async getDatabase(databaseId: string): Promise<NotionDatabase> {
+    return this.request<NotionDatabase>(`/databases/${databaseId}`);
+  }
+
+  /**
+   * All pages of a database, or only those edited at or after `since`
+   */
+  async queryDatabase(databaseId: string, since?: string): Promise<NotionPage[]> {
+    return this.getAllPages<NotionPage>(`/databases/${databaseId}/query`, {
+      ...(since && { filter: { timestamp: 'last_edited_time', last_edited_time: { on_or_after: since } } }),
+      sorts: [{ timestamp: 'last_edited_time', direction: 'ascending' }],
+    });
+  }
+
+  async updatePage(pageId: string, properties: Record<string, unknown>): Promise<NotionPage> {
+    return this.request<NotionPage>(`/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ properties }),
+    });
+  }
+}
+
+const toPlainText = (text: NotionRichText[] | undefined): string =>
+  (text || []).map(part => part.plain_text).join('');
+
+export const getNotionDatabaseTitle = (database: NotionDatabase): string =>
+  toPlainText(database.title) || 'Untitled database';
+
+/**
+ * Properties of the database that can hold a task field
+ */
+export const getCompatibleProperties = (database: NotionDatabase, field: NotionMappedField): NotionPropertySchema[] =>
+  Object.values(database.properties).filter(property => NOTION_PROPERTY_TYPES[field].includes(property.type));
+
+// Property names that usually hold a field in Notion's task templates
+const PROPERTY_NAME_HINTS: Record<NotionMappedField, RegExp> = {
+  title: /^(name|title|task)/i,
+  description: /^(description|notes?|summary)/i,
+  status: /^(status|state|done)/i,
+  due_date: /^(due|deadline|date)/i,
+  priority: /^priority/i,
+  labels: /^(tags?|labels?)/i,
+};
+
+/**
+ * Best guess at a property mapping, used until the user picks one
+ */
+export const getDefaultPropertyMappings = (database: NotionDatabase): Record<string, string> => {
+  const mappings: Record<string, string> = {};
+
+  for (const field of Object.keys(NOTION_PROPERTY_TYPES) as NotionMappedField[]) {
+    const candidates = getCompatibleProperties(database, field);
+    const named = candidates.find(property => PROPERTY_NAME_HINTS[field].test(property.name));
+    // Every database has one title property, and a Notion status property is almost certainly the task state
+    const property = named || (field === 'title' || (field === 'status' && candidates[0]?.type === 'status') ? candidates[0] : undefined);
+    if (property) {
+      mappings[field] = property.name;
+    }
+  }
+
+  return mappings;
+};
+
+const toLocalStatusOption = (option: NotionOption, schema: NotionPropertySchema | undefined): TaskStatus => {
+  // Status properties sort their options into To-do, In progress and Complete groups
+  const group = schema?.status?.groups.find(g => g.option_ids.includes(option.id))?.name || option.name;
+  if (/complete|done|closed|finished/i.test(group)) return 'completed';
+  if (/progress|doing|started|active/i.test(group)) return 'in_progress';
+  if (/cancel|won.?t|archived/i.test(group)) return 'cancelled';
+  return 'pending';
+};
+
+const toLocalStatus = (
+  value: NotionPropertyValue | undefined,
+  schema: NotionPropertySchema | undefined
+): TaskStatus => {
+  if (value?.type === 'checkbox') {
+    return value.checkbox ? 'completed' : 'pending';
+  }
+
+  const option = value?.type === 'status' ? value.status : value?.select;
+  return option ? toLocalStatusOption(option, schema) : 'pending';
+};
+
+const toLocalPriority = (option: NotionOption | null | undefined): number => {
+  const name = option?.name || '';
+  if (/urgent|highest|high|p1|critical/i.test(name)) return 1;
+  if (/medium|p2/i.test(name)) return 2;
+  if (/low|p4/i.test(name)) return 4;
+  return 3;
+};
+
+export interface NotionPageFields {
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  due_date?: string;
+  due_time?: string;
+  priority: number;
+  labels: NotionOption[];
+}
+
+/**
+ * Task fields of a page according to the configured property mappings
+ */
+export const readNotionPageFields = (
+  page: Pick<NotionPage, 'properties'>,
+  database: NotionDatabase,
+  mappings: Record<string, string>
+): NotionPageFields => {
+  const property = (field: NotionMappedField) => (mappings[field] ? page.properties[mappings[field]] : undefined);
+  const titleProperty = property('title') || Object.values(page.properties).find(value => value.type === 'title');
+  const date = property('due_date')?.date;
+
+  return {
+    title: toPlainText(titleProperty?.title) || 'Untitled',
+    description: toPlainText(property('description')?.rich_text) || undefined,
+    status: toLocalStatus(property('status'), mappings.status ? database.properties[mappings.status] : undefined),
+    due_date: date ? date.start.slice(0, 10) : undefined,
+    due_time: date && date.start.includes('T') ? date.start.slice(11, 16) : undefined,
+    priority: toLocalPriority(property('priority')?.select),
+    labels: property('labels')?.multi_select || [],
+  };
+};
+
+/**
+ * Property value that stores a local status, or undefined when the mapped
+ * property has no suitable option
+ */
+export const toNotionStatusProperty = (
+  status: TaskStatus,
+  database: NotionDatabase,
+  mappings: Record<string, string>
+): Record<string, unknown> | undefined => {
+  const schema = mappings.status ? database.properties[mappings.status] : undefined;
+  if (!schema) {
+    return undefined;
+  }
+
+  if (schema.type === 'checkbox') {
+    return { checkbox: status === 'completed' };
+  }
+
+  const options = (schema.type === 'status' ? schema.status?.options : schema.select?.options) || [];
+  const option = options.find(o => toLocalStatusOption(o, schema) === status);
+
+  return option ? { [schema.type]: { name: option.name } } : undefined;
+};
+
+export const toNotionDateProperty = (dueDate: string | undefined, dueTime?: string): Record<string, unknown> => ({
+  date: dueDate
+    ? dueTime
+      ? { start: `${dueDate}T${dueTime}:00`, time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+      : { start: dueDate }
+    : null,
+});
+
+export const notionTaskId = (page: Pick<NotionPage, 'id'>) => `notion_${page.id.replace(/-/g, '')}`;
+export const notionProjectId = (databaseId: string) => `notion_db_${databaseId.replace(/-/g, '')}`;
+
+/**
+ * Page as stored in source_task.notion
+ */
+export const toNotionSnapshot = (page: NotionPage, mappings: Record<string, string>): NotionTaskData => {
+  const status = mappings.status ? page.properties[mappings.status] : undefined;
+  const title = Object.values(page.properties).find(value => value.type === 'title');
+  return {
+    id: page.id,
+    title: toPlainText(title?.title),
+    // Option name as shown in Notion
+    status: status?.status?.name || status?.select?.name || (status?.type === 'checkbox' ? String(status.checkbox) : ''),
+    properties: page.properties,
+    created_time: page.created_time,
+    last_edited_time: page.last_edited_time,
+  };
+};
+
+export const toNotionIntegration = (page: NotionPage, databaseId: string): NotionIntegration => ({
+  page_id: page.id,
+  database_id: databaseId,
+  synced_at: new Date().toISOString(),
+});
+
+export const convertNotionOptionToLabel = (option: NotionOption, index = 0): Label => ({
+  id: `notion_label_${option.id}`,
+  name: option.name,
+  color: NOTION_COLORS[option.color] || NOTION_COLORS.default,
+  sort_order: index,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * The synced database becomes a single project
+ */
+export const convertNotionDatabaseToProject = (database: NotionDatabase): Project => ({
+  id: notionProjectId(database.id),
+  name: getNotionDatabaseTitle(database),
+  description: 'Notion database',
+  color: '#37352f', // Notion dark
+  icon: 'notion',
+  sort_order: 0,
+  is_favorite: false,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+export const convertNotionPageToTask = (page: NotionPage, database: NotionDatabase, mappings: Record<string, string>): Task => {
+  const fields = readNotionPageFields(page, database, mappings);
+  return {
+    id: notionTaskId(page),
+    title: fields.title,
+    description: fields.description,
+    project_id: notionProjectId(database.id),
+    priority: fields.priority,
+    status: fields.status,
+    due_date: fields.due_date,
+    due_time: fields.due_time,
+    energy_level: 2,
+    context: 'work',
+    focus_time: false,
+    created_at: page.created_time,
+    updated_at: page.last_edited_time,
+    source_task: { notion: toNotionSnapshot(page, mappings) },
+    integrations: { notion: toNotionIntegration(page, database.id) },
+    labels: fields.labels.map(convertNotionOptionToLabel),
+  };
+};
+
+/**
+ * Mappings of the integration, falling back to guesses for unmapped fields
+ */
+export const getNotionMappings = (config: NotionConfig, database: NotionDatabase): Record<string, string> => ({
+  ...getDefaultPropertyMappings(database),
+  ...config.property_mappings,
+});
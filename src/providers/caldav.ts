@@ -0,0 +1,75 @@
+import { lazy } from 'react';
+import { Server } from 'lucide-react';
+import {
+  CalDavClient,
+  parseCalDavTodo,
+  convertCalDavTodoToTask,
+  convertCalDavCategory,
+  convertCalDavCalendarToProject,
+} from '../main/sync/caldav';
+import type { CalDavCalendar } from '../main/sync/caldav';
+import { STORAGE_KEYS } from '../utils/secureStorage';
+import type { CalDavTaskData, Label } from '../types/database';
+import type { TaskProviderDefinition } from './types';
+
+interface CalDavData {
+  calendars: CalDavCalendar[];
+  todos: CalDavTaskData[];
+}
+
+export const calDavProvider: TaskProviderDefinition<CalDavData> = {
+  id: 'caldav',
+  name: 'CalDAV',
+  shortName: 'CalDAV',
+  auth: { type: 'token', storageKey: STORAGE_KEYS.CALDAV_PASSWORD },
+  capabilities: { create: false, update: false, complete: false, delete: false, localSync: true },
+  settings: {
+    icon: Server,
+    description: 'See task lists from Nextcloud, Radicale or another CalDAV server',
+    Section: lazy(() => import('../components/CalDavSection')),
+  },
+
+  fetch: async password => {
+    const integration = await window.electron.database.getIntegration('caldav');
+    const config = integration.success ? integration.data!.config?.caldav : undefined;
+    if (!password || !config?.server_url) {
+      return { calendars: [], todos: [] };
+    }
+
+    const client = new CalDavClient(config.username, password, config.server_url);
+    // No calendars chosen means all task lists
+    const calendars = (await client.getCalendars())
+      .filter(calendar => !config.calendar_urls?.length || config.calendar_urls.includes(calendar.url));
+
+    const todos: CalDavTaskData[] = [];
+    for (const calendar of calendars) {
+      for (const resource of await client.getTodos(calendar.url)) {
+        const todo = parseCalDavTodo(resource, calendar.url);
+        if (todo) {
+          todos.push(todo);
+        }
+      }
+    }
+    return { calendars, todos };
+  },
+
+  convert: ({ calendars, todos }) => {
+    const labels = new Map<string, Label>();
+    todos.flatMap(todo => todo.categories).forEach(name => {
+      if (!labels.has(name)) {
+        labels.set(name, convertCalDavCategory(name, labels.size));
+      }
+    });
+
+    return {
+      tasks: todos.map(convertCalDavTodoToTask),
+      projects: calendars.map(convertCalDavCalendarToProject),
+      labels: [...labels.values()],
+    };
+  },
+
+  // A wrong or revoked app password
+  isAuthError: error => /CalDAV error (401|403)/.test(error.message),
+
+  describeTask: task => task.source_task?.caldav?.status,
+};
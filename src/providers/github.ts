@@ -0,0 +1,69 @@
+import { lazy } from 'react';
+import { Github } from 'lucide-react';
+import {
+  GitHubClient,
+  GITHUB_API_URL,
+  convertGitHubIssueToTask,
+  convertGitHubLabel,
+  convertGitHubMilestoneToProject,
+  convertGitHubRepositoryToProject,
+} from '../main/sync/github';
+import type { GitHubIssue, GitHubLabel, GitHubMilestone } from '../main/sync/github';
+import { STORAGE_KEYS } from '../utils/secureStorage';
+import type { TaskProviderDefinition } from './types';
+
+interface GitHubData {
+  repository: string;
+  issues: GitHubIssue[];
+  milestones: GitHubMilestone[];
+  labels: GitHubLabel[];
+}
+
+export const gitHubProvider: TaskProviderDefinition<GitHubData | null> = {
+  id: 'github',
+  name: 'GitHub Issues',
+  shortName: 'GitHub',
+  auth: { type: 'token', storageKey: STORAGE_KEYS.GITHUB_TOKEN },
+  capabilities: { create: false, update: false, complete: false, delete: false, localSync: true },
+  settings: {
+    icon: Github,
+    description: 'Track issues of a repository as tasks',
+    Section: lazy(() => import('../components/GitHubSection')),
+  },
+
+  fetch: async token => {
+    const integration = await window.electron.database.getIntegration('github');
+    const config = integration.success ? integration.data!.config?.github : undefined;
+    if (!token || !config?.repository) {
+      // Connected but no repository chosen yet
+      return null;
+    }
+
+    const client = new GitHubClient(token, config.api_url || GITHUB_API_URL);
+    const [issues, milestones, labels] = await Promise.all([
+      client.getIssues(config),
+      client.getMilestones(config.repository),
+      client.getLabels(config.repository),
+    ]);
+
+    return { repository: config.repository, issues, milestones, labels };
+  },
+
+  convert: data => data ? {
+    tasks: data.issues.map(issue => convertGitHubIssueToTask(issue, data.repository)),
+    projects: [
+      convertGitHubRepositoryToProject(data.repository),
+      ...data.milestones.filter(milestone => milestone.state === 'open')
+        .map(milestone => convertGitHubMilestoneToProject(milestone, data.repository)),
+    ],
+    labels: data.labels.map(convertGitHubLabel),
+  } : { tasks: [], projects: [], labels: [] },
+
+  // A revoked or under-scoped token
+  isAuthError: error => /GitHub API error (401|403)/.test(error.message),
+
+  describeTask: task => {
+    const github = task.integrations?.github;
+    return github?.issue_number ? `${github.repository}#${github.issue_number}` : undefined;
+  },
+};
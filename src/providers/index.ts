@@ -0,0 +1,34 @@
+import { todoistProvider } from './todoist';
+import { msToDoProvider } from './msToDo';
+import { gitHubProvider } from './github';
+import { notionProvider } from './notion';
+import { linearProvider } from './linear';
+import { calDavProvider } from './caldav';
+import type { Task } from '../types/database';
+import type { TaskProvider, TaskProviderDefinition } from './types';
+
+export type * from './types';
+
+// Kept in registration order, which is also the fallback order for the active provider
+const registry = new Map<TaskProvider, TaskProviderDefinition>();
+
+export const registerTaskProvider = <TRaw>(provider: TaskProviderDefinition<TRaw>) => {
+  registry.set(provider.id, provider as TaskProviderDefinition);
+};
+
+export const getTaskProviders = (): TaskProviderDefinition[] => [...registry.values()];
+
+export const getTaskProvider = (id: TaskProvider): TaskProviderDefinition | undefined => registry.get(id);
+
+/**
+ * The provider a task was fetched from, or undefined for local tasks
+ */
+export const getTaskProviderForTask = (task: Task): TaskProviderDefinition | undefined =>
+  getTaskProviders().find(provider => task.source_task?.[provider.id]);
+
+registerTaskProvider(todoistProvider);
+registerTaskProvider(msToDoProvider);
+registerTaskProvider(gitHubProvider);
+registerTaskProvider(notionProvider);
+registerTaskProvider(linearProvider);
+registerTaskProvider(calDavProvider);
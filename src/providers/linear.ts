@@ -0,0 +1,67 @@
+import { lazy } from 'react';
+import { Layers } from 'lucide-react';
+import {
+  LinearClient,
+  LINEAR_API_URL,
+  convertLinearIssueToTask,
+  convertLinearLabel,
+  getLinearIssueProjects,
+} from '../main/sync/linear';
+import type { LinearIssue } from '../main/sync/linear';
+import { STORAGE_KEYS } from '../utils/secureStorage';
+import type { Label } from '../types/database';
+import type { TaskProviderDefinition } from './types';
+
+export const linearProvider: TaskProviderDefinition<LinearIssue[]> = {
+  id: 'linear',
+  name: 'Linear',
+  shortName: 'Linear',
+  auth: { type: 'token', storageKey: STORAGE_KEYS.LINEAR_TOKEN },
+  capabilities: { create: false, update: false, complete: false, delete: false, localSync: true },
+  settings: {
+    icon: Layers,
+    description: 'See Linear issues assigned to you',
+    Section: lazy(() => import('../components/LinearSection')),
+  },
+  // Linear names its priorities urgent to low
+  priorities: {
+    1: { label: 'Urgent', color: 'bg-orange-600', textColor: 'text-white', icon: '🚨' },
+    2: { label: 'High', color: 'bg-red-500', textColor: 'text-white', icon: '🔥' },
+    3: { label: 'Medium', color: 'bg-blue-500', textColor: 'text-white', icon: '📋' },
+  },
+
+  fetch: async token => {
+    if (!token) {
+      return [];
+    }
+    const integration = await window.electron.database.getIntegration('linear');
+    // No team filter configured means issues of all teams
+    const config = (integration.success ? integration.data!.config?.linear : undefined) || {};
+
+    const client = new LinearClient(token, config.api_url || LINEAR_API_URL);
+    return client.getAssignedIssues(config);
+  },
+
+  convert: issues => {
+    const labels = new Map<string, Label>();
+    issues.flatMap(issue => issue.labels.nodes).forEach(label => {
+      if (!labels.has(label.name)) {
+        labels.set(label.name, convertLinearLabel(label, labels.size));
+      }
+    });
+
+    return {
+      tasks: issues.map(convertLinearIssueToTask),
+      projects: getLinearIssueProjects(issues).map(([project]) => project),
+      labels: [...labels.values()],
+    };
+  },
+
+  // A revoked API key
+  isAuthError: error => /Linear API error (400|401|403)/.test(error.message),
+
+  describeTask: task => {
+    const linear = task.source_task?.linear;
+    return linear && `${linear.identifier} · ${linear.state.name}`;
+  },
+};
@@ -0,0 +1,291 @@
+import { getMsToDoClient, getMsToDoTasksWithListsAndCategories, mapOutlookCategoryColor } from '../utils/msToDoClient';
+import type { MsToDoTask, MsToDoTaskList, OutlookCategory } from '../utils/msToDoClient';
+import type { Task, Project, CreateTaskData, UpdateTaskData, MsToDoTaskData, RecurrenceRule, RecurrenceWeekday } from '../types/database';
+import { WEEKDAY_NAMES, formatRRule } from '../main/database/recurrence';
+import { convertUtcToUserTimezone } from '../utils/dateUtils';
+import type { TaskProviderDefinition } from './types';
+
+/**
+ * Convert Microsoft To-Do importance to priority number
+ * MS To-Do: low | normal | high (UI only shows normal/high via star button)
+ * Local: 1-4 (1=highest, 4=lowest)
+ */
+const convertImportanceToPriority = (importance: 'low' | 'normal' | 'high'): number => {
+  switch (importance) {
+    case 'high': return 1;    // Starred tasks → High priority badge
+    case 'normal': return 3;  // Regular tasks → No badge (normal)
+    case 'low': return 4;     // Rare/system → No badge (low)
+    default: return 3;        // Default to normal (no badge)
+  }
+};
+
+/**
+ * Convert local priority (1-4) to Microsoft To-Do importance
+ */
+const convertPriorityToImportance = (priority: number): MsToDoTaskData['importance'] => {
+  if (priority <= 1) return 'high';
+  if (priority >= 4) return 'low';
+  return 'normal';
+};
+
+/**
+ * Convert Microsoft To-Do status to local task status
+ * MS To-Do: notStarted | inProgress | completed | waitingOnOthers | deferred
+ * Local: pending | in_progress | completed | cancelled
+ */
+const convertStatusToLocal = (status: string): 'pending' | 'in_progress' | 'completed' | 'cancelled' => {
+  switch (status) {
+    case 'completed': return 'completed';
+    case 'inProgress': return 'in_progress';
+    case 'deferred': return 'cancelled';
+    case 'waitingOnOthers':
+    case 'notStarted':
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Convert a Graph recurrence pattern to an RRULE.
+ * Relative patterns ("third friday") have no local equivalent and are left to Microsoft To-Do.
+ */
+const convertRecurrenceToLocal = (recurrence: MsToDoTask['recurrence']): string | undefined => {
+  if (!recurrence) return undefined;
+  const { pattern, range } = recurrence;
+  const until = range.type === 'endDate' ? range.endDate : undefined;
+  const count = range.type === 'numbered' ? range.numberOfOccurrences : undefined;
+  const base = { interval: pattern.interval || 1, until, count };
+  let rule: RecurrenceRule;
+
+  switch (pattern.type) {
+    case 'daily':
+      rule = { frequency: 'daily', ...base };
+      break;
+    case 'weekly':
+      rule = {
+        frequency: 'weekly',
+        ...base,
+        by_day: (pattern.daysOfWeek || [])
+          .map(day => (Object.keys(WEEKDAY_NAMES) as RecurrenceWeekday[]).find(code => WEEKDAY_NAMES[code] === day))
+          .filter((day): day is RecurrenceWeekday => !!day),
+      };
+      break;
+    case 'absoluteMonthly':
+      rule = { frequency: 'monthly', ...base, by_month_day: pattern.dayOfMonth };
+      break;
+    case 'absoluteYearly':
+      rule = { frequency: 'yearly', ...base, by_month: pattern.month, by_month_day: pattern.dayOfMonth };
+      break;
+    default:
+      return undefined;
+  }
+
+  return formatRRule(rule);
+};
+
+/**
+ * Convert Microsoft To-Do task list to local project format
+ * This allows us to display MS To-Do lists as "projects" in the UI
+ */
+const convertMsToDoListToProject = (list: MsToDoTaskList): Project => ({
+  id: `mstodo_list_${list.id}`,
+  name: list.displayName,
+  description: list.isShared ? 'Shared Microsoft To-Do list' : 'Microsoft To-Do list',
+  color: '#0078d4', // Microsoft blue
+  icon: 'mstodo', // Custom icon identifier
+  parent_id: undefined,
+  sort_order: 0,
+  is_favorite: list.wellknownListName === 'flaggedEmails', // Flag special lists as favorites
+  is_archived: false,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  integrations: {
+    msToDo: {
+      id: list.id,
+      list_id: list.id,
+      synced_at: new Date().toISOString(),
+      sync_enabled: true,
+      sync_fields: ['name', 'description'],
+    }
+  }
+});
+
+/**
+ * Convert Microsoft To-Do task to local format for unified display
+ */
+const convertMsToDoToLocalFormat = (msToDoTask: MsToDoTask, listId?: string, categories: OutlookCategory[] = []): Task => ({
+  id: `mstodo_${msToDoTask.id}`,
+  title: msToDoTask.title,
+  description: msToDoTask.body?.content || undefined,
+  project_id: listId ? `mstodo_list_${listId}` : undefined,
+  priority: convertImportanceToPriority(msToDoTask.importance),
+  status: convertStatusToLocal(msToDoTask.status),
+  due_date: msToDoTask.dueDateTime?.dateTime ? 
+    (() => {
+      const originalDateTime = msToDoTask.dueDateTime.dateTime;
+      const originalTimeZone = msToDoTask.dueDateTime.timeZone;
+      
+      // For UTC timezone tasks, convert to user's local timezone
+      if (originalTimeZone === 'UTC') {
+        return convertUtcToUserTimezone(originalDateTime);
+      } else {
+        // For tasks with proper timezone info, extract date directly
+        return originalDateTime.split('T')[0];
+      }
+    })() : undefined,
+  recurrence: convertRecurrenceToLocal(msToDoTask.recurrence),
+  energy_level: 2, // Default energy level
+  context: 'work', // Default context - could be improved with category mapping
+  focus_time: false, // Default value
+  created_at: msToDoTask.createdDateTime,
+  updated_at: msToDoTask.lastModifiedDateTime,
+  completed_at: msToDoTask.completedDateTime?.dateTime || undefined,
+  
+  // Store original MS To-Do data for reference
+  source_task: {
+    msToDo: {
+      id: msToDoTask.id,
+      title: msToDoTask.title,
+      body: msToDoTask.body,
+      completedDateTime: msToDoTask.completedDateTime,
+      dueDateTime: msToDoTask.dueDateTime,
+      startDateTime: msToDoTask.startDateTime,
+      importance: msToDoTask.importance,
+      status: msToDoTask.status,
+      categories: msToDoTask.categories,
+      hasAttachments: msToDoTask.hasAttachments,
+      isReminderOn: msToDoTask.isReminderOn,
+      recurrence: msToDoTask.recurrence,
+      createdDateTime: msToDoTask.createdDateTime,
+      lastModifiedDateTime: msToDoTask.lastModifiedDateTime,
+      bodyLastModifiedDateTime: msToDoTask.bodyLastModifiedDateTime,
+      listId,
+    }
+  },
+  
+  // Add integration tracking
+  integrations: {
+    msToDo: {
+      id: msToDoTask.id,
+      list_id: listId || '',
+      synced_at: new Date().toISOString(),
+      sync_enabled: true,
+      sync_fields: ['title', 'description', 'status', 'due_date', 'priority'],
+    }
+  },
+  
+  // Map categories to labels with actual colors from Outlook categories
+  labels: msToDoTask.categories.map((categoryName, index) => {
+    const outlookCategory = categories.find(cat => cat.displayName === categoryName);
+    const color = outlookCategory 
+      ? mapOutlookCategoryColor(outlookCategory.color)
+      : '#0078d4'; // Fallback to Microsoft blue
+      
+    return {
+      id: `mstodo_category_${categoryName}`,
+      name: categoryName,
+      color,
+      description: `Microsoft To-Do category: ${categoryName}`,
+      sort_order: index,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  })
+});
+
+// The list and Graph id of a task, also for tasks copied into the local database
+const getMsToDoIds = (task: Task) => ({
+  listId: task.source_task?.msToDo?.listId || task.project_id?.replace(/^mstodo_list_/, '') || '',
+  taskId: task.source_task?.msToDo?.id || task.id.replace(/^mstodo_/, ''),
+});
+
+type MsToDoData = Awaited<ReturnType<typeof getMsToDoTasksWithListsAndCategories>>;
+
+export const msToDoProvider: TaskProviderDefinition<MsToDoData> = {
+  id: 'msToDo',
+  name: 'Microsoft To-Do',
+  shortName: 'MS To-Do',
+  auth: {
+    type: 'oauth',
+    expiresIn: 3600,
+    scope: 'https://graph.microsoft.com/MailboxSettings.Read https://graph.microsoft.com/offline_access https://graph.microsoft.com/Tasks.Read https://graph.microsoft.com/Tasks.ReadWrite https://graph.microsoft.com/User.Read',
+  },
+  capabilities: { create: true, update: true, complete: true, delete: true, localSync: true },
+  // MS To-Do uses "Important" terminology
+  priorities: {
+    1: { label: 'Important', color: 'bg-blue-600', textColor: 'text-white', icon: '⭐' },
+  },
+
+  // The client reads its token from TokenManager and refreshes it through MSAL
+  fetch: () => getMsToDoTasksWithListsAndCategories(),
+
+  convert: data => ({
+    // Tasks carry their listId, and categories come with their colors
+    tasks: data.tasks.map(task => convertMsToDoToLocalFormat(task, task.listId, data.categories)),
+    projects: data.lists.map(convertMsToDoListToProject),
+    labels: [], // Labels are generated from categories in task conversion
+  }),
+
+  isAuthError: error => error.message.includes('access token found'),
+
+  // Runs in the renderer so MsToDoClient can refresh tokens through MSAL
+  syncLocal: async () => {
+    const { syncMsToDo } = await import('../utils/msToDoSync');
+    return syncMsToDo();
+  },
+
+  // Tasks always belong to a list, given as the mstodo_list_ project id
+  createTask: async (data: CreateTaskData) => {
+    const listId = data.project_id?.replace(/^mstodo_list_/, '');
+    if (!listId) {
+      throw new Error('Choose a Microsoft To-Do list for the task');
+    }
+    const client = await getMsToDoClient();
+    const created = await client.createTask(listId, {
+      title: data.title,
+      body: data.description || undefined,
+      importance: convertPriorityToImportance(data.priority ?? 3),
+      dueDateTime: data.due_date ? `${data.due_date}T00:00:00` : undefined,
+    });
+    return convertMsToDoToLocalFormat(created, listId);
+  },
+
+  updateTask: async (task: Task, data: UpdateTaskData) => {
+    const { listId, taskId } = getMsToDoIds(task);
+    const client = await getMsToDoClient();
+    const updated = await client.updateTask(listId, taskId, {
+      title: data.title,
+      body: data.description !== undefined ? data.description || '' : undefined,
+      importance: data.priority !== undefined ? convertPriorityToImportance(data.priority) : undefined,
+      // An empty date clears the due date
+      dueDateTime: data.due_date !== undefined ? (data.due_date ? `${data.due_date}T00:00:00` : '') : undefined,
+    });
+    // Category colors are not part of the response, so the task keeps its labels
+    return { ...convertMsToDoToLocalFormat(updated, listId), labels: task.labels };
+  },
+
+  completeTask: async (task: Task, completed: boolean) => {
+    const { listId, taskId } = getMsToDoIds(task);
+    const client = await getMsToDoClient();
+    if (completed) {
+      await client.completeTask(listId, taskId);
+    } else {
+      await client.updateTask(listId, taskId, { status: 'notStarted' });
+    }
+  },
+
+  deleteTask: async (task: Task) => {
+    const { listId, taskId } = getMsToDoIds(task);
+    const client = await getMsToDoClient();
+    await client.deleteTask(listId, taskId);
+  },
+};
+
+export {
+  convertMsToDoToLocalFormat,
+  convertMsToDoListToProject,
+  convertImportanceToPriority,
+  convertPriorityToImportance,
+  convertStatusToLocal,
+  convertRecurrenceToLocal,
+};
@@ -0,0 +1,57 @@
+import { lazy } from 'react';
+import { BookOpen } from 'lucide-react';
+import {
+  NotionClient,
+  NOTION_API_URL,
+  getNotionMappings,
+  convertNotionPageToTask,
+  convertNotionDatabaseToProject,
+  convertNotionOptionToLabel,
+} from '../main/sync/notion';
+import type { NotionDatabase, NotionPage } from '../main/sync/notion';
+import { STORAGE_KEYS } from '../utils/secureStorage';
+import type { TaskProviderDefinition } from './types';
+
+interface NotionData {
+  database: NotionDatabase;
+  mappings: Record<string, string>;
+  pages: NotionPage[];
+}
+
+export const notionProvider: TaskProviderDefinition<NotionData | null> = {
+  id: 'notion',
+  name: 'Notion',
+  shortName: 'Notion',
+  auth: { type: 'token', storageKey: STORAGE_KEYS.NOTION_TOKEN },
+  capabilities: { create: false, update: false, complete: false, delete: false, localSync: true },
+  settings: {
+    icon: BookOpen,
+    description: 'Use a Notion database as a task list',
+    Section: lazy(() => import('../components/NotionSection')),
+  },
+
+  fetch: async token => {
+    const integration = await window.electron.database.getIntegration('notion');
+    const config = integration.success ? integration.data!.config?.notion : undefined;
+    if (!token || !config?.database_id) {
+      // Connected but no database chosen yet
+      return null;
+    }
+
+    const client = new NotionClient(token, config.api_url || NOTION_API_URL);
+    const database = await client.getDatabase(config.database_id);
+    const pages = await client.queryDatabase(config.database_id);
+
+    return { database, mappings: getNotionMappings(config, database), pages };
+  },
+
+  convert: data => data ? {
+    tasks: data.pages.map(page => convertNotionPageToTask(page, data.database, data.mappings)),
+    projects: [convertNotionDatabaseToProject(data.database)],
+    labels: (data.mappings.labels ? data.database.properties[data.mappings.labels]?.multi_select?.options || [] : [])
+      .map(convertNotionOptionToLabel),
+  } : { tasks: [], projects: [], labels: [] },
+
+  // A revoked token or a database that is no longer shared
+  isAuthError: error => /Notion API error (401|403|404)/.test(error.message),
+};
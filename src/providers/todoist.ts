@@ -0,0 +1,241 @@
+import { getTasksWithProjects, getTodoistClient } from '../utils/todoistClient';
+import type {
+  Task as TodoistTask,
+  Project as TodoistProject,
+  Section as TodoistSection,
+  Label as TodoistLabel,
+} from '@doist/todoist-api-typescript';
+import type { Task, Project, Section, Label, CreateTaskData, UpdateTaskData } from '../types/database';
+import { convertUtcToUserTimezone } from '../utils/dateUtils';
+import { parseRecurrenceText, formatRRule } from '../main/database/recurrence';
+import type { TaskProviderDefinition } from './types';
+
+/**
+ * Convert Todoist priority to unified priority system
+ * Todoist: 1=Normal, 2=Medium, 3=High, 4=Very High
+ * Unified: 1=High, 2=Medium, 3=Normal, 4=Low
+ */
+const convertTodoistPriorityToUnified = (todoistPriority: number): number => {
+  switch (todoistPriority) {
+    case 1: return 3; // Normal → Normal
+    case 2: return 2; // Medium → Medium  
+    case 3: return 1; // High → High
+    case 4: return 1; // Very High → High (map to same as High)
+    default: return 2; // Default to Medium
+  }
+};
+
+/**
+ * Convert unified priority back to Todoist priority
+ * Unified: 1=High, 2=Medium, 3=Normal, 4=Low
+ * Todoist: 4=Very High, 2=Medium, 1=Normal; Low has no Todoist equivalent
+ */
+const convertUnifiedPriorityToTodoist = (priority: number): number => {
+  switch (priority) {
+    case 1: return 4; // High → Very High, shown as p1 in Todoist
+    case 2: return 2; // Medium → Medium
+    case 3: return 1; // Normal → Normal
+    case 4: return 1; // Low → Normal
+    default: return 1;
+  }
+};
+
+// Todoist's own id, also for tasks copied into the local database
+const getTodoistTaskId = (task: Task): string =>
+  task.source_task?.todoist?.id || task.id.replace(/^todoist_/, '');
+
+// Convert Todoist tasks to local format for unified display
+const convertTodoistToLocalFormat = (todoistTask: TodoistTask, allLabels: TodoistLabel[]): Task => ({
+  id: `todoist_${todoistTask.id}`,
+  title: todoistTask.content,
+  description: todoistTask.description || undefined,
+  project_id: todoistTask.projectId,
+  section_id: todoistTask.sectionId || undefined,
+  parent_id: todoistTask.parentId ? `todoist_${todoistTask.parentId}` : undefined,
+  priority: convertTodoistPriorityToUnified(todoistTask.priority),
+  status: todoistTask.isCompleted ? 'completed' : 'pending',
+  due_date: todoistTask.due ? 
+    (() => {
+      // Handle Todoist's actual structure: date field can contain UTC datetime
+      const dateValue = todoistTask.due.date;
+      
+      // Check if the date field contains a UTC datetime string (ends with Z)
+      if (dateValue && dateValue.includes('T') && dateValue.endsWith('Z')) {
+        // This is a UTC datetime in the date field - convert to user timezone
+        return convertUtcToUserTimezone(dateValue);
+      }
+      
+      // If there's a datetime with timezone information, handle it properly
+      if (todoistTask.due.datetime && todoistTask.due.timezone) {
+        // For UTC datetime, convert to user timezone
+        if (todoistTask.due.timezone === 'UTC' || todoistTask.due.datetime.endsWith('Z')) {
+          return convertUtcToUserTimezone(todoistTask.due.datetime);
+        } else {
+          // For other timezones, extract the date part from datetime
+          return todoistTask.due.datetime.split('T')[0];
+        }
+      }
+      
+      // For simple date strings (YYYY-MM-DD format), use directly
+      return dateValue;
+    })() : undefined,
+  recurrence: todoistTask.due?.isRecurring
+    ? (() => {
+        const rule = parseRecurrenceText(todoistTask.due.string);
+        return rule && formatRRule(rule);
+      })()
+    : undefined,
+  energy_level: 2,
+  context: 'work',
+  focus_time: false,
+  created_at: todoistTask.createdAt,
+  updated_at: todoistTask.createdAt,
+  source_task: {
+    todoist: {
+      id: todoistTask.id,
+      content: todoistTask.content,
+      description: todoistTask.description,
+      project_id: todoistTask.projectId,
+      section_id: todoistTask.sectionId || undefined,
+      parent_id: todoistTask.parentId,
+      order: todoistTask.order,
+      priority: todoistTask.priority,
+      labels: todoistTask.labels,
+      completed: todoistTask.isCompleted,
+      due: todoistTask.due ? {
+        date: todoistTask.due.date,
+        datetime: todoistTask.due.datetime || undefined,
+        string: todoistTask.due.string,
+        timezone: todoistTask.due.timezone || undefined,
+        is_recurring: todoistTask.due.isRecurring,
+      } : undefined,
+      url: todoistTask.url,
+      comment_count: todoistTask.commentCount,
+      created_at: todoistTask.createdAt,
+      date_modified: todoistTask.createdAt
+    }
+  },
+  // Map Todoist labels to the expected Label format
+  labels: todoistTask.labels?.map(labelName => {
+    const labelData = allLabels.find(l => l.name === labelName);
+    return {
+      id: labelData?.id || `todoist_label_${labelName}`,
+      name: labelName,
+      color: labelData?.color || '#808080',
+      description: `Todoist label: ${labelName}`,
+      sort_order: 0,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+  }) || []
+});
+
+// Projects and labels keep Todoist's ids and color names, which the badges understand
+const convertTodoistProject = (project: TodoistProject): Project => ({
+  id: project.id,
+  name: project.name,
+  color: project.color,
+  parent_id: project.parentId || undefined,
+  sort_order: project.order ?? 0,
+  is_favorite: project.isFavorite,
+  is_archived: false,
+  created_at: new Date().toISOString(),
+});
+
+const convertTodoistSection = (section: TodoistSection): Section => ({
+  id: section.id,
+  name: section.name,
+  project_id: section.projectId,
+  sort_order: section.sectionOrder,
+  created_at: section.addedAt,
+  updated_at: section.updatedAt,
+});
+
+const convertTodoistLabel = (label: TodoistLabel): Label => ({
+  id: label.id,
+  name: label.name,
+  color: label.color,
+  sort_order: label.order ?? 0,
+  created_at: new Date().toISOString(),
+});
+
+type TodoistData = Awaited<ReturnType<typeof getTasksWithProjects>>;
+
+export const todoistProvider: TaskProviderDefinition<TodoistData> = {
+  id: 'todoist',
+  name: 'Todoist',
+  shortName: 'Todoist',
+  auth: {
+    type: 'oauth',
+    expiresIn: 86400 * 365, // Todoist tokens are long-lived (1 year)
+    scope: 'data:read_write,data:delete,project:delete',
+  },
+  capabilities: { create: true, update: true, complete: true, delete: true, localSync: true },
+
+  // The client reads its token from TokenManager
+  fetch: () => getTasksWithProjects(),
+
+  convert: data => ({
+    tasks: data.tasks.map(task => convertTodoistToLocalFormat(task, data.labels)),
+    projects: data.projects.map(convertTodoistProject),
+    sections: data.sections.filter(section => !section.isArchived && !section.isDeleted).map(convertTodoistSection),
+    labels: data.labels.map(convertTodoistLabel),
+  }),
+
+  isAuthError: error => error.message.includes('No Todoist access token'),
+
+  // Without a project the task goes to the Todoist inbox
+  createTask: async (data: CreateTaskData) => {
+    const client = await getTodoistClient();
+    const args = {
+      content: data.title,
+      description: data.description || undefined,
+      projectId: data.project_id || undefined,
+      sectionId: data.section_id || undefined,
+      priority: convertUnifiedPriorityToTodoist(data.priority ?? 3),
+    };
+    const created = await client.addTask(data.due_date ? { ...args, dueDate: data.due_date } : args);
+    return convertTodoistToLocalFormat(created, []);
+  },
+
+  updateTask: async (task: Task, data: UpdateTaskData) => {
+    const client = await getTodoistClient();
+    const id = getTodoistTaskId(task);
+    const changes = {
+      ...(data.title !== undefined && { content: data.title }),
+      ...(data.description !== undefined && { description: data.description || '' }),
+      ...(data.priority !== undefined && { priority: convertUnifiedPriorityToTodoist(data.priority) }),
+      ...(data.due_date !== undefined && (data.due_date ? { dueDate: data.due_date } : { dueString: 'no date' })),
+    };
+
+    // Todoist changes a task's section by moving it; moved to its project, it leaves the section
+    let updated = data.section_id !== undefined
+      ? (await client.moveTasks([id], data.section_id ? { sectionId: data.section_id } : { projectId: task.project_id! }))[0]
+      : undefined;
+    if (!updated || Object.keys(changes).length > 0) {
+      updated = await client.updateTask(id, changes);
+    }
+    // Label colors are not part of the response, so the task keeps the ones it has
+    return { ...convertTodoistToLocalFormat(updated, []), labels: task.labels };
+  },
+
+  completeTask: async (task: Task, completed: boolean) => {
+    const client = await getTodoistClient();
+    if (completed) {
+      await client.closeTask(getTodoistTaskId(task));
+    } else {
+      await client.reopenTask(getTodoistTaskId(task));
+    }
+  },
+
+  deleteTask: async (task: Task) => {
+    const client = await getTodoistClient();
+    await client.deleteTask(getTodoistTaskId(task));
+  },
+};
+
+export {
+  convertTodoistToLocalFormat,
+  convertTodoistPriorityToUnified,
+  convertUnifiedPriorityToTodoist,
+};
@@ -0,0 +1,75 @@
+import type { ComponentType, LazyExoticComponent } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import type { Task, Project, Section, Label, CreateTaskData, UpdateTaskData, SyncResult } from '../types/database';
+
+export type TaskProvider = 'todoist' | 'msToDo' | 'github' | 'notion' | 'linear' | 'caldav';
+
+export interface ProviderTaskData {
+  tasks: Task[];
+  projects: Project[];
+  sections?: Section[]; // For services that group a project's tasks
+  labels: Label[];
+}
+
+/**
+ * How a provider's credentials are stored.
+ * OAuth tokens go through TokenManager, pasted tokens are kept in secure storage as is.
+ */
+export type ProviderAuth =
+  | { type: 'oauth'; expiresIn: number; scope: string }
+  | { type: 'token'; storageKey: string };
+
+export interface ProviderCapabilities {
+  create: boolean;
+  update: boolean;
+  complete: boolean;
+  delete: boolean;
+  // Tasks can be copied into the local database through window.electron.database.sync
+  localSync: boolean;
+}
+
+export interface PriorityDisplay {
+  label: string;
+  color: string;
+  textColor: string;
+  icon: string;
+}
+
+export interface ProviderSettings {
+  icon: LucideIcon;
+  description: string;
+  // Lazy so settings components, which use authManager, are not loaded with the registry
+  Section: LazyExoticComponent<ComponentType>;
+}
+
+/**
+ * A task service shown alongside local tasks.
+ *
+ * fetch() loads raw data with the stored token and convert() turns it into
+ * local tasks, projects and labels for unified display. The write methods
+ * are optional; capabilities tell the UI which of them exist.
+ */
+export interface TaskProviderDefinition<TRaw = unknown> {
+  id: TaskProvider;
+  name: string;
+  shortName: string;
+  auth: ProviderAuth;
+  capabilities: ProviderCapabilities;
+  settings?: ProviderSettings;
+  // Overrides of the default priority badges, for services with their own wording
+  priorities?: Partial<Record<1 | 2 | 3 | 4, PriorityDisplay>>;
+
+  fetch(token: string | null): Promise<TRaw>;
+  convert(raw: TRaw): ProviderTaskData;
+  // Errors retrying cannot fix, such as a revoked token
+  isAuthError?(error: Error): boolean;
+  // Short reference shown when hovering the source badge
+  describeTask?(task: Task): string | undefined;
+  // Syncs in the renderer instead of the main process
+  syncLocal?(): Promise<SyncResult>;
+
+  createTask?(data: CreateTaskData): Promise<Task>;
+  updateTask?(task: Task, data: UpdateTaskData): Promise<Task>;
+  completeTask?(task: Task, completed: boolean): Promise<void>;
+  deleteTask?(task: Task): Promise<void>;
+}
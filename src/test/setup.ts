@@ -0,0 +1,16 @@
+import { vi } from 'vitest';
+
+// Main process code keeps the database in Electron's userData directory; each test file gets an empty one
+vi.mock('electron', async () => {
+  const fs = await import('fs');
+  const os = await import('os');
+  const path = await import('path');
+  const userData = fs.mkdtempSync(path.join(os.tmpdir(), 'openza-test-'));
+
+  return {
+    app: {
+      getPath: () => userData,
+      isPackaged: false,
+    },
+  };
+});
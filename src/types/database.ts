@@ -16,17 +16,30 @@ export interface Project extends BaseEntity {
   is_favorite: boolean;
   is_archived: boolean;
   integrations?: ExternalIntegrations;
+
+  // Joined fields (from queries)
+  task_count?: number; // Open tasks
+}
+
+// A heading grouping the tasks of a project
+export interface Section extends BaseEntity {
+  name: string;
+  project_id: string;
+  sort_order: number;
+  integrations?: ExternalIntegrations;
 }
 
 export interface Task extends BaseEntity {
   title: string;
   description?: string;
   project_id?: string;
+  section_id?: string; // Section of the task's project
   parent_id?: string;
   priority: number; // 1-4 (1=highest, 4=lowest)
   status: TaskStatus;
   due_date?: string; // ISO date string
   due_time?: string; // HH:MM format
+  recurrence?: string; // RRULE, e.g. FREQ=WEEKLY;BYDAY=MO
   
   // Enhanced local features
   estimated_duration?: number; // minutes
@@ -47,6 +60,10 @@ export interface Task extends BaseEntity {
   project_color?: string;
   labels?: Label[];
   time_entries?: TimeEntry[];
+  checklist?: { completed: number; total: number }; // Checkpoint enhancements
+  subtasks?: { completed: number; total: number }; // Direct subtasks
+  depth?: number; // Levels below the root task, from getTaskTree
+  is_local?: boolean; // Read from the local database, unlike tasks fetched from a provider
 }
 
 export interface Label extends BaseEntity {
@@ -78,6 +95,7 @@ export interface TaskEnhancement extends BaseEntity {
   content: string;
   sort_order: number;
   completed: boolean;
+  integrations?: ExternalIntegrations; // e.g. the matching MS To-Do checklist item
 }
 
 export interface Integration extends BaseEntity {
@@ -92,7 +110,20 @@ export interface Integration extends BaseEntity {
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskContext = 'work' | 'personal' | 'errands' | 'home' | 'office';
 export type TaskEnhancementType = 'note' | 'checkpoint' | 'resource' | 'link';
-export type IntegrationName = 'todoist' | 'msToDo' | 'notion' | 'github' | 'linear';
+export type IntegrationName = 'todoist' | 'msToDo' | 'notion' | 'github' | 'linear' | 'caldav';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// Parsed form of Task.recurrence
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  by_day?: RecurrenceWeekday[];
+  by_month_day?: number;
+  by_month?: number; // 1-12
+  until?: string; // YYYY-MM-DD inclusive
+  count?: number; // Occurrences left, including the current one
+}
 
 // External integration types
 export interface ExternalIntegrations {
@@ -100,6 +131,8 @@ export interface ExternalIntegrations {
   msToDo?: MsToDoIntegration;
   notion?: NotionIntegration;
   github?: GitHubIntegration;
+  linear?: LinearIntegration;
+  caldav?: CalDavIntegration;
   [key: string]: any;
 }
 
@@ -110,6 +143,7 @@ export interface TodoistIntegration {
   sync_enabled: boolean;
   sync_fields: string[];
   project_id?: string;
+  section_id?: string;
   parent_id?: string;
 }
 
@@ -120,6 +154,7 @@ export interface MsToDoIntegration {
   last_modified?: string;
   sync_enabled: boolean;
   sync_fields: string[];
+  delta_link?: string; // Lists only: Graph delta link for the list's tasks
 }
 
 export interface NotionIntegration {
@@ -129,17 +164,36 @@ export interface NotionIntegration {
 }
 
 export interface GitHubIntegration {
-  issue_number: number;
+  issue_number?: number; // Set on tasks
+  milestone_number?: number; // Set on milestone projects
   repository: string;
   synced_at: string;
 }
 
+export interface LinearIntegration {
+  issue_id?: string; // Set on tasks
+  identifier?: string; // Set on tasks, e.g. ENG-123
+  team_id: string;
+  project_id?: string; // Set on Linear project projects
+  cycle_id?: string; // Set on cycle projects
+  synced_at: string;
+}
+
+export interface CalDavIntegration {
+  uid?: string; // Set on tasks
+  href?: string; // Resource URL of the task's VTODO
+  calendar_url: string;
+  synced_at: string;
+}
+
 // External task data (complete original tasks)
 export interface ExternalTaskData {
   todoist?: TodoistTaskData;
   msToDo?: MsToDoTaskData;
   notion?: NotionTaskData;
   github?: GitHubTaskData;
+  linear?: LinearTaskData;
+  caldav?: CalDavTaskData;
   [key: string]: any;
 }
 
@@ -159,6 +213,7 @@ export interface TodoistTaskData {
     datetime?: string;
     string: string;
     timezone?: string;
+    is_recurring?: boolean;
   };
   url: string;
   comment_count: number;
@@ -192,12 +247,33 @@ export interface MsToDoTaskData {
   categories: string[];
   hasAttachments: boolean;
   isReminderOn: boolean;
+  recurrence?: MsToDoRecurrence | null;
   createdDateTime: string;
   lastModifiedDateTime: string;
   bodyLastModifiedDateTime: string;
   listId?: string; // Additional field to track which list this task belongs to
 }
 
+// Graph patternedRecurrence
+export interface MsToDoRecurrence {
+  pattern: {
+    type: 'daily' | 'weekly' | 'absoluteMonthly' | 'relativeMonthly' | 'absoluteYearly' | 'relativeYearly';
+    interval: number;
+    daysOfWeek?: string[]; // e.g. 'monday'
+    dayOfMonth?: number;
+    month?: number;
+    firstDayOfWeek?: string;
+    index?: string;
+  };
+  range: {
+    type: 'endDate' | 'noEnd' | 'numbered';
+    startDate: string;
+    endDate?: string;
+    numberOfOccurrences?: number;
+    recurrenceTimeZone?: string;
+  };
+}
+
 export interface NotionTaskData {
   id: string;
   title: string;
@@ -215,18 +291,65 @@ export interface GitHubTaskData {
   state: 'open' | 'closed';
   labels: Array<{ name: string; color: string }>;
   assignees: Array<{ login: string }>;
-  milestone?: { title: string };
+  milestone?: { id?: number; number?: number; title: string };
   created_at: string;
   updated_at: string;
+  closed_at?: string;
   html_url: string;
 }
 
+export type LinearWorkflowStateType = 'triage' | 'backlog' | 'unstarted' | 'started' | 'completed' | 'canceled';
+
+export interface LinearTaskData {
+  id: string;
+  identifier: string;
+  title: string;
+  description?: string;
+  priority: number; // 0 none, 1 urgent, 2 high, 3 medium, 4 low
+  state: { id: string; name: string; type: LinearWorkflowStateType };
+  team: { id: string; key: string; name: string };
+  project?: { id: string; name: string };
+  cycle?: { id: string; number: number; name?: string };
+  labels: Array<{ name: string; color: string }>;
+  assignee?: { id: string; name: string };
+  dueDate?: string; // YYYY-MM-DD
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  canceledAt?: string;
+  url: string;
+}
+
+export type CalDavTodoStatus = 'NEEDS-ACTION' | 'IN-PROCESS' | 'COMPLETED' | 'CANCELLED';
+
+// VTODO as stored in source_task.caldav; ics keeps the resource so unknown properties survive updates
+export interface CalDavTaskData {
+  uid: string;
+  href: string;
+  etag?: string;
+  calendar_url: string;
+  summary: string;
+  description?: string;
+  status: CalDavTodoStatus;
+  priority: number; // 0 undefined, 1 highest to 9 lowest
+  due?: string; // YYYY-MM-DD or YYYY-MM-DDTHH:MM in local time
+  categories: string[];
+  related_to?: string; // UID of the parent VTODO
+  rrule?: string;
+  created?: string;
+  last_modified?: string;
+  completed?: string;
+  ics: string;
+}
+
 // Integration configuration types
 export interface IntegrationConfig {
   todoist?: TodoistConfig;
   msToDo?: MsToDoConfig;
   notion?: NotionConfig;
   github?: GitHubConfig;
+  linear?: LinearConfig;
+  caldav?: CalDavConfig;
 }
 
 export interface TodoistConfig {
@@ -251,21 +374,37 @@ export interface MsToDoConfig {
 export interface NotionConfig {
   access_token?: string;
   database_id: string;
-  property_mappings: Record<string, string>;
+  property_mappings: Record<string, string>; // Task field -> Notion property name, e.g. { due_date: 'Deadline' }
+  api_url?: string; // Defaults to https://api.notion.com/v1
 }
 
 export interface GitHubConfig {
   access_token?: string;
-  repository: string;
-  label_filter?: string[];
-  assignee_filter?: string;
+  repository: string; // owner/name
+  label_filter?: string[]; // Issues must have all of these labels
+  assignee_filter?: string; // Login, '*' for any assignee or 'none'
+  api_url?: string; // GitHub Enterprise, defaults to https://api.github.com
+}
+
+export interface LinearConfig {
+  access_token?: string;
+  team_ids?: string[]; // Only issues of these teams, all teams when empty
+  api_url?: string; // Defaults to https://api.linear.app/graphql
+}
+
+export interface CalDavConfig {
+  server_url: string; // CalDAV root or principal URL, e.g. https://cloud.example.com/remote.php/dav
+  username: string;
+  calendar_urls?: string[]; // Only these task lists, all VTODO calendars when empty
 }
 
 // Query and filter types
 export interface TaskFilters {
   status?: TaskStatus | TaskStatus[];
   project_id?: string;
+  section_id?: string | null; // null for tasks outside any section
   parent_id?: string;
+  include_subtasks?: boolean; // With parent_id, subtasks of any depth instead of direct ones
   due_date_from?: string;
   due_date_to?: string;
   energy_level?: number;
@@ -273,7 +412,8 @@ export interface TaskFilters {
   focus_time?: boolean;
   has_integration?: IntegrationName;
   search?: string;
-  labels?: string[];
+  labels?: string[]; // Label names
+  labels_match?: 'any' | 'all'; // Defaults to 'any'
   limit?: number;
   offset?: number;
 }
@@ -292,11 +432,13 @@ export interface CreateTaskData {
   title: string;
   description?: string;
   project_id?: string;
+  section_id?: string;
   parent_id?: string;
   priority?: number;
   status?: TaskStatus;
   due_date?: string;
   due_time?: string;
+  recurrence?: string;
   estimated_duration?: number;
   energy_level?: number;
   context?: TaskContext;
@@ -308,21 +450,25 @@ export interface CreateTaskData {
 
 export interface UpdateTaskData {
   title?: string;
-  description?: string;
+  description?: string | null;
   project_id?: string;
-  parent_id?: string;
+  section_id?: string | null;
+  parent_id?: string | null;
   priority?: number;
   status?: TaskStatus;
-  due_date?: string;
-  due_time?: string;
+  due_date?: string | null;
+  due_time?: string | null;
+  recurrence?: string | null;
   estimated_duration?: number;
   actual_duration?: number;
   energy_level?: number;
   context?: TaskContext;
   focus_time?: boolean;
   notes?: string;
+  source_task?: ExternalTaskData;
   integrations?: ExternalIntegrations;
   completed_at?: string;
+  updated_at?: string; // Defaults to now; sync sets it to the provider's modification time
 }
 
 export interface CreateProjectData {
@@ -337,6 +483,57 @@ export interface CreateProjectData {
   integrations?: ExternalIntegrations;
 }
 
+export interface UpdateProjectData {
+  name?: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+  parent_id?: string | null;
+  sort_order?: number;
+  is_favorite?: boolean;
+  is_archived?: boolean;
+  integrations?: ExternalIntegrations;
+}
+
+export interface CreateSectionData {
+  id?: string;
+  name: string;
+  project_id: string;
+  sort_order?: number;
+  integrations?: ExternalIntegrations;
+}
+
+export interface UpdateSectionData {
+  name?: string;
+  project_id?: string;
+  sort_order?: number;
+  integrations?: ExternalIntegrations;
+}
+
+export interface CreateLabelData {
+  id?: string;
+  name: string;
+  color?: string;
+  description?: string;
+  sort_order?: number;
+  integrations?: ExternalIntegrations;
+}
+
+export interface UpdateLabelData {
+  name?: string;
+  color?: string;
+  description?: string;
+  sort_order?: number;
+  integrations?: ExternalIntegrations;
+}
+
+export interface UpdateIntegrationData {
+  is_active?: boolean;
+  config?: IntegrationConfig;
+  last_sync_at?: string;
+  sync_token?: string;
+}
+
 export interface CreateTimeEntryData {
   id?: string;
   task_id: string;
@@ -347,6 +544,33 @@ export interface CreateTimeEntryData {
   focus_quality?: number;
 }
 
+export interface CreateTaskEnhancementData {
+  id?: string;
+  task_id: string;
+  type: TaskEnhancementType;
+  content: string;
+  sort_order?: number; // Defaults to the end of the task's list
+  completed?: boolean;
+  integrations?: ExternalIntegrations;
+}
+
+export interface UpdateTaskEnhancementData {
+  type?: TaskEnhancementType;
+  content?: string;
+  sort_order?: number;
+  completed?: boolean;
+  integrations?: ExternalIntegrations;
+  updated_at?: string; // Defaults to now; sync sets it to the time the item was synced
+}
+
+export interface UpdateTimeEntryData {
+  start_time?: string;
+  end_time?: string;
+  description?: string;
+  energy_used?: number;
+  focus_quality?: number;
+}
+
 // Database operation result types
 export interface DatabaseResult<T = any> {
   success: boolean;
@@ -359,12 +583,97 @@ export interface BulkOperationResult {
   success: boolean;
   processed: number;
   errors: Array<{ id: string; error: string }>;
+  skipped?: number; // Imports: items that were already in the database
+}
+
+// Import/export types
+export type DataFormat = 'json' | 'csv' | 'ical';
+
+// Task columns that can be read from a CSV file
+export type CsvField =
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'project'
+  | 'priority'
+  | 'status'
+  | 'due_date'
+  | 'due_time'
+  | 'recurrence'
+  | 'labels'
+  | 'estimated_duration'
+  | 'context'
+  | 'notes'
+  | 'completed_at';
+
+export interface ImportOptions {
+  // CSV header of each imported field; without a map, columns named like a field are read
+  column_map?: Partial<Record<CsvField, string>>;
+}
+
+export interface DataArchive {
+  format: 'openza';
+  version: number;
+  exported_at: string;
+  projects: Project[];
+  sections?: Section[]; // Missing in archives from before sections
+  labels: Label[];
+  tasks: Task[];
+  time_entries: TimeEntry[];
+}
+
+// Backup types
+export interface DatabaseBackup {
+  file_name: string;
+  size: number;
+  schema_version: number;
+  created_at: string;
+}
+
+export interface ForeignKeyViolation {
+  table: string;
+  rowid: number;
+  parent: string;
+  fkid: number;
+}
+
+export interface IntegrityReport {
+  // Messages from PRAGMA integrity_check, empty when it reports ok
+  errors: string[];
+  foreign_key_violations: ForeignKeyViolation[];
+}
+
+// Undo/redo types
+export interface MutationOptions {
+  // False for changes that are not the user's own, e.g. from a sync
+  undoable?: boolean;
+}
+
+export interface JournalEntry {
+  id: number;
+  description: string;
+  undone: boolean;
+  created_at: string;
+}
+
+// Settings types
+// What completing a task with open subtasks does: complete them too, refuse, or leave them open
+export type SubtaskCompletion = 'cascade' | 'block' | 'independent';
+
+export interface QuickCaptureSettings {
+  shortcut: string; // Electron accelerator, e.g. CommandOrControl+Shift+Space
+  projectId: string; // Project new captures go to
+}
+
+export interface AppSettings {
+  subtask_completion: SubtaskCompletion;
+  quick_capture: QuickCaptureSettings;
 }
 
 // Sync operation types
 export interface SyncOperation {
   type: 'create' | 'update' | 'delete';
-  entity: 'task' | 'project' | 'label';
+  entity: 'task' | 'project' | 'section' | 'label';
   local_id: string;
   external_id?: string;
   data?: any;
@@ -379,6 +688,50 @@ export interface SyncResult {
   error?: string;
 }
 
+// Sync conflicts
+export type SyncField = 'title' | 'description' | 'priority' | 'status' | 'due_date' | 'recurrence';
+export type SyncFieldValues = Partial<Pick<Task, SyncField>>;
+export type ConflictResolution = 'local' | 'remote' | 'merge';
+
+export interface SyncConflictField {
+  field: SyncField;
+  local: SyncFieldValues[SyncField];
+  remote: SyncFieldValues[SyncField];
+  base: SyncFieldValues[SyncField];
+}
+
+export interface SyncConflict {
+  id: string;
+  task_id: string;
+  integration: IntegrationName;
+  external_id?: string;
+  fields: SyncConflictField[];
+  local_updated_at?: string;
+  remote_updated_at?: string;
+  status: 'pending' | 'resolved';
+  resolution?: ConflictResolution;
+  created_at: string;
+  resolved_at?: string;
+
+  // Joined data
+  task_title?: string;
+}
+
+export interface CreateSyncConflictData {
+  task_id: string;
+  integration: IntegrationName;
+  external_id?: string;
+  fields: SyncConflictField[];
+  local_updated_at?: string;
+  remote_updated_at?: string;
+}
+
+export interface SyncConflictFilters {
+  status?: 'pending' | 'resolved';
+  integration?: IntegrationName;
+  task_id?: string;
+}
+
 // Statistics and analytics types
 export interface TaskStatistics {
   total: number;
@@ -391,12 +744,30 @@ export interface TaskStatistics {
   by_energy_level: Record<number, number>;
 }
 
+export interface StatisticsRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface ProductivityTrendPoint {
+  date: string; // YYYY-MM-DD; the Monday of the week for weekly points
+  completed: number;
+  time_tracked: number; // minutes
+}
+
 export interface ProductivityStatistics {
+  range: StatisticsRange;
   tasks_completed_today: number;
   tasks_completed_this_week: number;
+  tasks_completed: number; // within the range
   total_time_tracked: number; // minutes
   average_task_duration: number; // minutes
+  estimate_accuracy?: number; // 0-100, only when tasks have both an estimate and tracked time
+  estimated_minutes: number; // over tasks with both an estimate and tracked time
+  actual_minutes: number;
   productivity_score: number; // 0-100
+  completions_by_day: ProductivityTrendPoint[];
+  completions_by_week: ProductivityTrendPoint[];
   energy_distribution: Record<number, number>;
   context_distribution: Record<string, number>;
 }
\ No newline at end of file
@@ -14,10 +14,43 @@ import {
   BulkOperationResult,
   TaskStatistics,
 } from './database.js';
+import type {
+  UpdateProjectData,
+  Section,
+  CreateSectionData,
+  UpdateSectionData,
+  ProductivityStatistics,
+  StatisticsRange,
+  TaskEnhancement,
+  TaskEnhancementType,
+  CreateTaskEnhancementData,
+  UpdateTaskEnhancementData,
+  TimeEntry,
+  UpdateTimeEntryData,
+  CreateLabelData,
+  UpdateLabelData,
+  Integration,
+  IntegrationName,
+  UpdateIntegrationData,
+  SyncResult,
+  SyncConflict,
+  SyncConflictFilters,
+  CreateSyncConflictData,
+  ConflictResolution,
+  SyncField,
+  DataFormat,
+  ImportOptions,
+  DatabaseBackup,
+  IntegrityReport,
+  MutationOptions,
+  JournalEntry,
+  AppSettings,
+  QuickCaptureSettings,
+} from './database.js';
 
 export interface ElectronAPI {
   send: (channel: string, data?: any) => void;
-  on: (channel: string, func: (...args: any[]) => void) => void;
+  on: (channel: string, func: (...args: any[]) => void) => () => void; // Returns a function removing the listener
 
   secureStorage: {
     set: (key: string, value: string) => Promise<{ success: boolean; error?: string }>;
@@ -128,28 +161,88 @@ export interface ElectronAPI {
     signOut: () => Promise<{ success: boolean; error?: string }>;
   };
 
+  quickCapture: {
+    getSettings: () => Promise<{ success: boolean; settings?: QuickCaptureSettings & { registered: boolean }; error?: string }>;
+    saveSettings: (settings: Partial<QuickCaptureSettings>) => Promise<{
+      success: boolean;
+      settings?: QuickCaptureSettings & { registered: boolean };
+      error?: string;
+    }>;
+    close: () => Promise<{ success: boolean }>;
+    taskCreated: (task: Task) => Promise<{ success: boolean }>;
+  };
+
   database: {
     // Task operations
     createTask: (taskData: CreateTaskData) => Promise<DatabaseResult<Task>>;
     getTaskById: (id: string) => Promise<DatabaseResult<Task>>;
     getTasks: (filters?: TaskFilters) => Promise<DatabaseResult<Task[]>>;
-    updateTask: (id: string, updates: UpdateTaskData) => Promise<DatabaseResult<Task>>;
-    deleteTask: (id: string) => Promise<DatabaseResult<boolean>>;
+    getTaskTree: (id: string) => Promise<DatabaseResult<Task[]>>;
+    updateTask: (id: string, updates: UpdateTaskData, options?: MutationOptions) => Promise<DatabaseResult<Task>>;
+    deleteTask: (id: string, options?: MutationOptions) => Promise<DatabaseResult<boolean>>;
 
     // Project operations
     createProject: (projectData: CreateProjectData) => Promise<DatabaseResult<Project>>;
     getProjectById: (id: string) => Promise<DatabaseResult<Project>>;
     getProjects: (filters?: ProjectFilters) => Promise<DatabaseResult<Project[]>>;
+    updateProject: (id: string, updates: UpdateProjectData) => Promise<DatabaseResult<Project>>;
+    deleteProject: (id: string, reassignTo?: string) => Promise<DatabaseResult<boolean>>;
+    reorderProjects: (parentId: string | null, orderedIds: string[]) => Promise<DatabaseResult<Project[]>>;
+
+    // Section operations
+    getSections: (projectId?: string) => Promise<DatabaseResult<Section[]>>;
+    createSection: (sectionData: CreateSectionData) => Promise<DatabaseResult<Section>>;
+    updateSection: (id: string, updates: UpdateSectionData) => Promise<DatabaseResult<Section>>;
+    deleteSection: (id: string) => Promise<DatabaseResult<boolean>>;
+    reorderSections: (projectId: string, orderedIds: string[]) => Promise<DatabaseResult<Section[]>>;
+
+    // Label operations
+    getLabels: () => Promise<DatabaseResult<Label[]>>;
+    createLabel: (labelData: CreateLabelData) => Promise<DatabaseResult<Label>>;
+    updateLabel: (id: string, updates: UpdateLabelData) => Promise<DatabaseResult<Label>>;
+    deleteLabel: (id: string) => Promise<DatabaseResult<boolean>>;
+    addTaskLabel: (taskId: string, labelId: string) => Promise<DatabaseResult<Task>>;
+    removeTaskLabel: (taskId: string, labelId: string) => Promise<DatabaseResult<Task>>;
+    setTaskLabels: (taskId: string, labelIds: string[]) => Promise<DatabaseResult<boolean>>;
+
+    // Task enhancement operations
+    getTaskEnhancements: (taskId: string, type?: TaskEnhancementType) => Promise<DatabaseResult<TaskEnhancement[]>>;
+    createTaskEnhancement: (enhancementData: CreateTaskEnhancementData) => Promise<DatabaseResult<TaskEnhancement>>;
+    updateTaskEnhancement: (id: string, updates: UpdateTaskEnhancementData) => Promise<DatabaseResult<TaskEnhancement>>;
+    deleteTaskEnhancement: (id: string) => Promise<DatabaseResult<boolean>>;
+    reorderTaskEnhancements: (taskId: string, orderedIds: string[]) => Promise<DatabaseResult<TaskEnhancement[]>>;
+
+    // Time tracking operations
+    startTimer: (taskId: string, description?: string) => Promise<DatabaseResult<TimeEntry>>;
+    stopTimer: () => Promise<DatabaseResult<TimeEntry>>;
+    getRunningTimer: () => Promise<DatabaseResult<TimeEntry | null>>;
+    getTimeEntries: (taskId: string) => Promise<DatabaseResult<TimeEntry[]>>;
+    createTimeEntry: (entryData: CreateTimeEntryData) => Promise<DatabaseResult<TimeEntry>>;
+    updateTimeEntry: (id: string, updates: UpdateTimeEntryData) => Promise<DatabaseResult<TimeEntry>>;
+    deleteTimeEntry: (id: string) => Promise<DatabaseResult<boolean>>;
 
     // Integration operations
     updateTaskIntegration: (taskId: string, integration: string, data: any) => Promise<DatabaseResult<Task>>;
     getTasksByIntegration: (integration: string) => Promise<DatabaseResult<Task[]>>;
+    getIntegration: (name: IntegrationName) => Promise<DatabaseResult<Integration>>;
+    saveIntegrationState: (name: IntegrationName, data: UpdateIntegrationData) => Promise<DatabaseResult<Integration>>;
+
+    // Sync operations
+    sync: (integration: IntegrationName, accessToken: string) => Promise<SyncResult>;
+    getSyncConflicts: (filters?: SyncConflictFilters) => Promise<DatabaseResult<SyncConflict[]>>;
+    saveSyncConflict: (conflictData: CreateSyncConflictData) => Promise<DatabaseResult<SyncConflict>>;
+    resolveSyncConflict: (
+      id: string,
+      resolution: ConflictResolution,
+      choices?: Partial<Record<SyncField, 'local' | 'remote'>>
+    ) => Promise<DatabaseResult<SyncConflict>>;
 
     // Search operations
     searchTasks: (searchTerm: string) => Promise<DatabaseResult<Task[]>>;
 
     // Statistics
     getTaskStatistics: () => Promise<DatabaseResult<TaskStatistics>>;
+    getProductivityStatistics: (range: StatisticsRange) => Promise<DatabaseResult<ProductivityStatistics>>;
 
     // Convenience methods
     getTodayTasks: () => Promise<DatabaseResult<Task[]>>;
@@ -164,6 +257,23 @@ export interface ElectronAPI {
     bulkUpdateTasks: (updates: Array<{ id: string; data: UpdateTaskData }>) => Promise<BulkOperationResult>;
     bulkDeleteTasks: (taskIds: string[]) => Promise<BulkOperationResult>;
 
+    // Import/export
+    exportData: (format: DataFormat) => Promise<DatabaseResult<string>>;
+    importData: (format: DataFormat, content: string, options?: ImportOptions) => Promise<BulkOperationResult>;
+
+    // Undo/redo
+    undo: () => Promise<DatabaseResult<JournalEntry>>;
+    redo: () => Promise<DatabaseResult<JournalEntry>>;
+
+    // Settings
+    getSettings: () => Promise<DatabaseResult<AppSettings>>;
+    updateSettings: (updates: Partial<AppSettings>) => Promise<DatabaseResult<AppSettings>>;
+
+    // Backups
+    getBackups: () => Promise<DatabaseResult<DatabaseBackup[]>>;
+    createBackup: () => Promise<DatabaseResult<DatabaseBackup>>;
+    restoreBackup: (fileName: string) => Promise<DatabaseResult<DatabaseBackup>>;
+
     // Maintenance
     vacuum: () => Promise<DatabaseResult<boolean>>;
     analyze: () => Promise<DatabaseResult<boolean>>;
@@ -171,6 +281,7 @@ export interface ElectronAPI {
       success: boolean;
       status: 'healthy' | 'error';
       message: string;
+      integrity?: IntegrityReport;
     }>;
   };
 }
@@ -1,6 +1,11 @@
 import { secureStorage, STORAGE_KEYS } from './secureStorage';
+import { getTaskProviders, getTaskProvider } from '../providers';
+import type { TaskProvider } from '../providers';
 
-export type TaskProvider = 'todoist' | 'msToDo';
+export type { TaskProvider };
+
+// TokenManager only knows the OAuth providers
+type OAuthProvider = 'todoist' | 'msToDo';
 
 export interface ProviderAuthState {
   isAuthenticated: boolean;
@@ -11,24 +16,22 @@ export interface AuthState {
   isAuthenticated: boolean;
   isLoading: boolean;
   activeProvider: TaskProvider | null;
-  providers: {
-    todoist: ProviderAuthState;
-    msToDo: ProviderAuthState;
-  };
+  providers: Record<TaskProvider, ProviderAuthState>;
   // Legacy support for existing components
   token: string | null;
 }
 
+const getSignedOutProviders = () => Object.fromEntries(
+  getTaskProviders().map(provider => [provider.id, { isAuthenticated: false, token: null }])
+) as Record<TaskProvider, ProviderAuthState>;
+
 class AuthManager {
   private static instance: AuthManager;
   private authState: AuthState = {
     isAuthenticated: false,
     isLoading: true,
     activeProvider: null,
-    providers: {
-      todoist: { isAuthenticated: false, token: null },
-      msToDo: { isAuthenticated: false, token: null },
-    },
+    providers: getSignedOutProviders(),
     token: null, // Legacy support
   };
   private listeners: Set<(state: AuthState) => void> = new Set();
@@ -90,58 +93,33 @@ class AuthManager {
         }
       }
 
-      // Now check authentication status using TokenManager for both providers
-      const [todoistAuthenticated, msToDoAuthenticated] = await Promise.all([
-        tokenManager.isAuthenticated('todoist'),
-        tokenManager.isAuthenticated('msToDo'),
-      ]);
-      
-      // Get actual tokens if authenticated
-      const [todoistToken, msToDoToken] = await Promise.all([
-        todoistAuthenticated ? tokenManager.getValidAccessToken('todoist') : Promise.resolve(null),
-        msToDoAuthenticated ? tokenManager.getValidAccessToken('msToDo') : Promise.resolve(null),
-      ]);
-
-      const todoistAuth = { isAuthenticated: todoistAuthenticated, token: todoistToken };
-      const msToDoAuth = { isAuthenticated: msToDoAuthenticated, token: msToDoToken };
-      
-      // Determine active provider based on stored preference
-      let activeProvider: TaskProvider | null = null;
-      let legacyToken: string | null = null;
-      
-      // Check if stored active provider is valid and authenticated
-      if (storedActiveProvider && (storedActiveProvider === 'todoist' || storedActiveProvider === 'msToDo')) {
-        const storedProvider = storedActiveProvider as TaskProvider;
-        
-        if (storedProvider === 'todoist' && todoistAuth.isAuthenticated) {
-          activeProvider = 'todoist';
-          legacyToken = todoistToken;
-        } else if (storedProvider === 'msToDo' && msToDoAuth.isAuthenticated) {
-          activeProvider = 'msToDo';
-          legacyToken = msToDoToken;
+      // OAuth tokens come from TokenManager, pasted tokens are kept in secure storage as they are
+      const providerStates = await Promise.all(getTaskProviders().map(async (provider): Promise<[TaskProvider, ProviderAuthState]> => {
+        if (provider.auth.type === 'token') {
+          const token = await secureStorage.getItem(provider.auth.storageKey);
+          return [provider.id, { isAuthenticated: !!token, token }];
         }
-      }
-      
-      // Fallback to default behavior if no valid stored preference
-      if (!activeProvider) {
-        if (todoistAuth.isAuthenticated) {
-          activeProvider = 'todoist';
-          legacyToken = todoistToken;
-        } else if (msToDoAuth.isAuthenticated) {
-          activeProvider = 'msToDo';
-          legacyToken = msToDoToken;
-        }
-      }
+        const id = provider.id as OAuthProvider;
+        const isAuthenticated = await tokenManager.isAuthenticated(id);
+        const token = isAuthenticated ? await tokenManager.getValidAccessToken(id) : null;
+        return [provider.id, { isAuthenticated, token }];
+      }));
+      const providers = Object.fromEntries(providerStates) as Record<TaskProvider, ProviderAuthState>;
+
+      // Prefer the stored active provider, then the first authenticated one
+      const storedProvider = storedActiveProvider && getTaskProvider(storedActiveProvider as TaskProvider)
+        ? storedActiveProvider as TaskProvider
+        : null;
+      const activeProvider = storedProvider && providers[storedProvider].isAuthenticated
+        ? storedProvider
+        : providerStates.find(([, state]) => state.isAuthenticated)?.[0] || null;
 
       this.authState = {
-        isAuthenticated: !!(todoistAuth.isAuthenticated || msToDoAuth.isAuthenticated),
+        isAuthenticated: providerStates.some(([, state]) => state.isAuthenticated),
         isLoading: false,
         activeProvider,
-        providers: {
-          todoist: todoistAuth,
-          msToDo: msToDoAuth,
-        },
-        token: legacyToken,
+        providers,
+        token: activeProvider ? providers[activeProvider].token : null,
       };
     } catch (error) {
       console.error('Auth initialization failed:', error);
@@ -149,10 +127,7 @@ class AuthManager {
         isAuthenticated: false,
         isLoading: false,
         activeProvider: null,
-        providers: {
-          todoist: { isAuthenticated: false, token: null },
-          msToDo: { isAuthenticated: false, token: null },
-        },
+        providers: getSignedOutProviders(),
         token: null,
       };
     }
@@ -166,22 +141,27 @@ class AuthManager {
   }
 
   async setProviderToken(provider: TaskProvider, token: string): Promise<void> {
-    // Both providers now use TokenManager
-    console.warn('setProviderToken is deprecated - tokens should be managed by TokenManager or specific auth managers');
-    
+    const auth = getTaskProvider(provider)!.auth;
+    // OAuth providers now use TokenManager; pasted tokens are stored here
+    if (auth.type === 'oauth') {
+      console.warn('setProviderToken is deprecated - tokens should be managed by TokenManager or specific auth managers');
+    }
+
     try {
-      const { tokenManager } = await import('./tokenManager');
-      
-      const tokenResponse = {
-        access_token: token,
-        token_type: 'Bearer',
-        expires_in: provider === 'todoist' ? 86400 * 365 : 3600, // Todoist: 1 year, MS To-Do: 1 hour
-        scope: provider === 'todoist' 
-          ? 'data:read_write,data:delete,project:delete'
-          : 'https://graph.microsoft.com/MailboxSettings.Read https://graph.microsoft.com/offline_access https://graph.microsoft.com/Tasks.Read https://graph.microsoft.com/Tasks.ReadWrite https://graph.microsoft.com/User.Read'
-      };
-      
-      await tokenManager.storeToken(provider, tokenResponse);
+      if (auth.type === 'token') {
+        await secureStorage.setItem(auth.storageKey, token);
+      } else {
+        const { tokenManager } = await import('./tokenManager');
+
+        const tokenResponse = {
+          access_token: token,
+          token_type: 'Bearer',
+          expires_in: auth.expiresIn,
+          scope: auth.scope,
+        };
+
+        await tokenManager.storeToken(provider as OAuthProvider, tokenResponse);
+      }
       
       // Update provider auth state
       this.authState.providers[provider] = {
@@ -210,10 +190,15 @@ class AuthManager {
   }
 
   async clearProviderToken(provider: TaskProvider): Promise<void> {
-    // Both providers now use TokenManager
+    // OAuth providers now use TokenManager
     try {
-      const { tokenManager } = await import('./tokenManager');
-      await tokenManager.clearToken(provider);
+      const auth = getTaskProvider(provider)!.auth;
+      if (auth.type === 'token') {
+        await secureStorage.removeItem(auth.storageKey);
+      } else {
+        const { tokenManager } = await import('./tokenManager');
+        await tokenManager.clearToken(provider as OAuthProvider);
+      }
     } catch (error) {
       console.warn(`Failed to clear token for ${provider} via TokenManager:`, error);
       // Fallback to old method for backward compatibility
@@ -230,8 +215,10 @@ class AuthManager {
     
     // If this was the active provider, switch to another authenticated provider or clear
     if (this.authState.activeProvider === provider) {
-      const otherProvider = provider === 'todoist' ? 'msToDo' : 'todoist';
-      if (this.authState.providers[otherProvider].isAuthenticated) {
+      const otherProvider = getTaskProviders()
+        .map(p => p.id)
+        .find(p => p !== provider && this.authState.providers[p].isAuthenticated);
+      if (otherProvider) {
         this.authState.activeProvider = otherProvider;
         this.authState.token = this.authState.providers[otherProvider].token;
       } else {
@@ -242,10 +229,7 @@ class AuthManager {
     }
     
     // Update overall auth state
-    this.authState.isAuthenticated = !!(
-      this.authState.providers.todoist.isAuthenticated || 
-      this.authState.providers.msToDo.isAuthenticated
-    );
+    this.authState.isAuthenticated = Object.values(this.authState.providers).some(p => p.isAuthenticated);
     this.authState.isLoading = false;
     
     this.notifyListeners();
@@ -25,7 +25,13 @@ export const config = {
 } as const;
 
 // Secure config utilities for accessing main process config
-export const getOAuthConfig = async (provider: 'todoist' | 'msToDo') => {
+export const getOAuthConfig = async (provider: 'todoist' | 'msToDo'): Promise<{
+  clientId?: string;
+  redirectUri?: string;
+  tenantId?: string;
+  protocolScheme?: string;
+  timeoutMinutes?: number;
+}> => {
   if (typeof window !== 'undefined' && window.electron?.config?.getOAuthConfig) {
     const result = await window.electron.config.getOAuthConfig(provider);
     
@@ -170,6 +170,37 @@ export const formatCreatedDate = (dateString: string | null): string => {
   }
 };
 
+/**
+ * Formats a duration in minutes as "45m" or "1h 05m"
+ */
+export const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) {
+    return `${rest}m`;
+  }
+  return `${hours}h ${String(rest).padStart(2, '0')}m`;
+};
+
+/**
+ * Formats elapsed seconds as a running clock, e.g. "4:07" or "1:04:07"
+ */
+export const formatElapsed = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
+
+/**
+ * Formats a date as YYYY-MM-DD in the local timezone
+ */
+export const toDateString = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
 /**
  * Converts a UTC datetime string to user's local timezone and returns date in YYYY-MM-DD format
  * This handles Microsoft To-Do API responses that come with UTC timezone
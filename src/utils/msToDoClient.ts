@@ -1,7 +1,6 @@
 import { secureStorage, STORAGE_KEYS } from './secureStorage';
 import { tokenManager } from './tokenManager';
-import { msToDoAuthManager } from './msToDoAuth';
-import { authManager } from './auth';
+import type { MsToDoRecurrence } from '../types/database';
 
 // Microsoft Graph API Types for To-Do
 export interface MsToDoTaskList {
@@ -36,6 +35,7 @@ export interface MsToDoTask {
   categories: string[];
   hasAttachments: boolean;
   isReminderOn: boolean;
+  recurrence?: MsToDoRecurrence | null;
   createdDateTime: string;
   lastModifiedDateTime: string;
   bodyLastModifiedDateTime: string;
@@ -60,6 +60,18 @@ export interface MsToDoApiResponse<T> {
   '@odata.nextLink'?: string;
 }
 
+export interface MsToDoDeltaResponse<T> {
+  value: (T & { '@removed'?: { reason: string } })[];
+  '@odata.nextLink'?: string;
+  '@odata.deltaLink'?: string;
+}
+
+export interface MsToDoDeltaResult<T> {
+  items: T[];
+  removedIds: string[];
+  deltaLink: string;
+}
+
 export interface MsToDoError {
   error: {
     code: string;
@@ -86,6 +98,7 @@ export interface UpdateMsToDoTaskArgs {
   importance?: 'low' | 'normal' | 'high';
   status?: 'notStarted' | 'inProgress' | 'completed' | 'waitingOnOthers' | 'deferred';
   categories?: string[];
+  recurrence?: MsToDoRecurrence | null;
 }
 
 class MsToDoClient {
@@ -176,6 +189,11 @@ class MsToDoClient {
       );
     }
 
+    // Deletes answer 204 with no body
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
     return response.json();
   }
 
@@ -205,18 +223,7 @@ class MsToDoClient {
    * Get tasks from a specific task list
    */
   async getTasks(listId: string, cursor?: string): Promise<{ tasks: MsToDoTask[]; nextCursor?: string }> {
-    let endpoint = `/me/todo/lists/${listId}/tasks`;
-    
-    if (cursor) {
-      // Extract the URL from the cursor
-      const url = new URL(cursor);
-      // Remove the base URL path (/v1.0) to avoid duplication
-      let path = url.pathname + url.search;
-      if (path.startsWith('/v1.0/')) {
-        path = path.substring(5); // Remove '/v1.0'
-      }
-      endpoint = path;
-    }
+    const endpoint = cursor ? this.toEndpoint(cursor) : `/me/todo/lists/${listId}/tasks`;
 
     const response = await this.makeRequest<MsToDoApiResponse<MsToDoTask>>(endpoint);
     
@@ -226,6 +233,72 @@ class MsToDoClient {
     };
   }
 
+  /**
+   * Get a single task
+   */
+  async getTask(listId: string, taskId: string): Promise<MsToDoTask> {
+    return this.makeRequest<MsToDoTask>(`/me/todo/lists/${listId}/tasks/${taskId}`);
+  }
+
+  /**
+   * Get task lists changed since the given delta link, or all lists when none is given
+   */
+  async getTaskListsDelta(deltaLink?: string): Promise<MsToDoDeltaResult<MsToDoTaskList>> {
+    return this.getDelta<MsToDoTaskList>(deltaLink || '/me/todo/lists/delta');
+  }
+
+  /**
+   * Get tasks in a list changed since the given delta link, or all tasks when none is given
+   */
+  async getTasksDelta(listId: string, deltaLink?: string): Promise<MsToDoDeltaResult<MsToDoTask>> {
+    return this.getDelta<MsToDoTask>(deltaLink || `/me/todo/lists/${listId}/tasks/delta`);
+  }
+
+  /**
+   * Follow a delta query through all of its pages
+   */
+  private async getDelta<T extends { id: string }>(link: string): Promise<MsToDoDeltaResult<T>> {
+    const items: T[] = [];
+    const removedIds: string[] = [];
+    let next: string | undefined = link;
+
+    while (next) {
+      const response: MsToDoDeltaResponse<T> = await this.makeRequest<MsToDoDeltaResponse<T>>(this.toEndpoint(next));
+
+      for (const item of response.value) {
+        if (item['@removed']) {
+          removedIds.push(item.id);
+        } else {
+          items.push(item);
+        }
+      }
+
+      if (response['@odata.deltaLink']) {
+        return { items, removedIds, deltaLink: response['@odata.deltaLink'] };
+      }
+      next = response['@odata.nextLink'];
+    }
+
+    throw new Error('Microsoft To-Do delta query ended without a delta link');
+  }
+
+  /**
+   * Convert an absolute Graph URL (next or delta link) into an API endpoint
+   */
+  private toEndpoint(link: string): string {
+    if (!link.startsWith('http')) {
+      return link;
+    }
+
+    const url = new URL(link);
+    // Remove the base URL path (/v1.0) to avoid duplication
+    let path = url.pathname + url.search;
+    if (path.startsWith('/v1.0/')) {
+      path = path.substring(5); // Remove '/v1.0'
+    }
+    return path;
+  }
+
   /**
    * Get all tasks from all task lists with pagination support
    */
@@ -345,6 +418,10 @@ class MsToDoClient {
       body.categories = updates.categories;
     }
 
+    if (updates.recurrence !== undefined) {
+      body.recurrence = updates.recurrence;
+    }
+
     return this.makeRequest<MsToDoTask>(`/me/todo/lists/${listId}/tasks/${taskId}`, {
       method: 'PATCH',
       body: JSON.stringify(body),
@@ -393,6 +470,33 @@ class MsToDoClient {
       }
     );
   }
+
+  /**
+   * Update a checklist item
+   */
+  async updateChecklistItem(
+    listId: string,
+    taskId: string,
+    itemId: string,
+    updates: { displayName?: string; isChecked?: boolean }
+  ): Promise<MsToDoChecklistItem> {
+    return this.makeRequest<MsToDoChecklistItem>(
+      `/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${itemId}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      }
+    );
+  }
+
+  /**
+   * Delete a checklist item
+   */
+  async deleteChecklistItem(listId: string, taskId: string, itemId: string): Promise<void> {
+    await this.makeRequest<void>(`/me/todo/lists/${listId}/tasks/${taskId}/checklistItems/${itemId}`, {
+      method: 'DELETE',
+    });
+  }
 }
 
 /**
@@ -471,7 +575,7 @@ export const getMsToDoTasksWithLists = async (): Promise<{ tasks: MsToDoTask[];
  * Get tasks with their associated lists and categories (with colors)
  */
 export const getMsToDoTasksWithListsAndCategories = async (): Promise<{ 
-  tasks: MsToDoTask[]; 
+  tasks: (MsToDoTask & { listId: string })[]; 
   lists: MsToDoTaskList[]; 
   categories: OutlookCategory[] 
 }> => {
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DatabaseManager } from '../main/database/DatabaseManager.js';
+import { syncMsToDo } from './msToDoSync';
+import type { MsToDoTask } from './msToDoClient';
+
+vi.mock('./msToDoClient', async (importOriginal) => {
+  const original = await importOriginal<typeof import('./msToDoClient')>();
+  return { ...original, getMsToDoClient: async () => original.createMsToDoClient('token') };
+});
+
+// The renderer reaches the database over IPC; the tests call it directly
+const db = DatabaseManager.getInstance();
+vi.stubGlobal('window', { electron: { database: db } });
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+
+const msToDoTask = (values: Partial<MsToDoTask> & { id: string }): MsToDoTask => ({
+  title: 'Task',
+  body: { content: 'Notes', contentType: 'text' },
+  dueDateTime: { dateTime: '2026-10-20T00:00:00.0000000', timeZone: 'UTC' },
+  importance: 'normal',
+  status: 'notStarted',
+  categories: [],
+  hasAttachments: false,
+  isReminderOn: false,
+  createdDateTime: '2026-10-01T00:00:00Z',
+  lastModifiedDateTime: '2026-10-01T00:00:00Z',
+  bodyLastModifiedDateTime: '2026-10-01T00:00:00Z',
+  ...values,
+});
+
+// Graph answers the list and task delta queries with the changed tasks; every request is kept
+let changedTasks: MsToDoTask[] = [];
+let requests: string[] = [];
+
+const sync = (tasks: MsToDoTask[]) => {
+  changedTasks = tasks;
+  return syncMsToDo();
+};
+
+beforeEach(() => {
+  requests = [];
+  vi.stubGlobal('fetch', async (url: string) => {
+    const path = url.replace(GRAPH_URL, '');
+    requests.push(path);
+    let body: unknown = { value: [] };
+    if (path.startsWith('/me/todo/lists/delta')) {
+      body = { value: [{ id: 'list1', displayName: 'Tasks', isOwner: true, isShared: false }], '@odata.deltaLink': `${GRAPH_URL}/me/todo/lists/delta?token=1` };
+    } else if (path.startsWith('/me/todo/lists/list1/tasks/delta')) {
+      body = { value: changedTasks, '@odata.deltaLink': `${GRAPH_URL}/me/todo/lists/list1/tasks/delta?token=1` };
+    }
+    return new Response(JSON.stringify(body), { status: 200 });
+  });
+});
+
+const checklistRequests = () => requests.filter(path => path.endsWith('/checklistItems'));
+
+describe('syncMsToDo', () => {
+  it('clears the description and due date when Microsoft To-Do clears them', async () => {
+    await sync([msToDoTask({ id: 'a' })]);
+    expect(db.getTaskById('mstodo_a').data).toMatchObject({ description: 'Notes', due_date: '2026-10-20' });
+
+    await sync([msToDoTask({ id: 'a', body: undefined, dueDateTime: undefined, lastModifiedDateTime: '2026-10-02T00:00:00Z' })]);
+
+    const task = db.getTaskById('mstodo_a').data!;
+    expect(task.description).toBeFalsy();
+    expect(task.due_date).toBeFalsy();
+  });
+
+  it('only fetches the checklists of new and changed tasks', async () => {
+    await sync([msToDoTask({ id: 'b' }), msToDoTask({ id: 'c' })]);
+    expect(checklistRequests()).toHaveLength(2);
+
+    requests = [];
+    await sync([msToDoTask({ id: 'b' }), msToDoTask({ id: 'c', lastModifiedDateTime: '2026-10-02T00:00:00Z' })]);
+    expect(checklistRequests()).toEqual(['/me/todo/lists/list1/tasks/c/checklistItems']);
+  });
+});
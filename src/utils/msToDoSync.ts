@@ -0,0 +1,487 @@
+import { getMsToDoClient } from './msToDoClient';
+import type { MsToDoTask, MsToDoTaskList, UpdateMsToDoTaskArgs } from './msToDoClient';
+import {
+  convertMsToDoToLocalFormat,
+  convertMsToDoListToProject,
+  convertImportanceToPriority,
+  convertPriorityToImportance,
+  convertStatusToLocal,
+  convertRecurrenceToLocal,
+} from '../providers/msToDo';
+import { getChangedFields, getPendingConflictFields, getPulledUpdatedAt, mergeSyncFields, toTaskUpdates } from '../main/sync/conflicts';
+import { WEEKDAY_NAMES, parseRRule } from '../main/database/recurrence';
+import type {
+  Task,
+  Project,
+  SyncOperation,
+  SyncResult,
+  SyncField,
+  SyncFieldValues,
+  SyncConflictField,
+  MsToDoTaskData,
+  MsToDoRecurrence,
+  TaskStatus,
+  TaskEnhancement,
+  ExternalIntegrations,
+} from '../types/database';
+
+type MsToDoClient = Awaited<ReturnType<typeof getMsToDoClient>>;
+
+// Changes a sync makes to tasks are not the user's to undo
+const SYNC_WRITE = { undoable: false };
+
+/**
+ * Convert local task status to Microsoft To-Do status
+ */
+const convertStatusToMsToDo = (status: TaskStatus): MsToDoTaskData['status'] => {
+  switch (status) {
+    case 'completed': return 'completed';
+    case 'in_progress': return 'inProgress';
+    case 'cancelled': return 'deferred';
+    case 'pending':
+    default:
+      return 'notStarted';
+  }
+};
+
+/**
+ * Convert a local RRULE to a Graph recurrence starting on the task's due date.
+ * Graph needs the weekday or day of month spelled out, so they default to the start date's.
+ */
+const convertRecurrenceToMsToDo = (recurrence: string | undefined, startDate: string): MsToDoRecurrence | null => {
+  const rule = recurrence ? parseRRule(recurrence) : undefined;
+  if (!rule) return null;
+
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const weekday = Object.values(WEEKDAY_NAMES)[(start.getUTCDay() + 6) % 7];
+  const dayOfMonth = rule.by_month_day || start.getUTCDate();
+  const patterns: Record<typeof rule.frequency, MsToDoRecurrence['pattern']> = {
+    daily: { type: 'daily', interval: rule.interval },
+    weekly: {
+      type: 'weekly',
+      interval: rule.interval,
+      daysOfWeek: rule.by_day?.length ? rule.by_day.map(day => WEEKDAY_NAMES[day]) : [weekday],
+      firstDayOfWeek: 'monday',
+    },
+    monthly: { type: 'absoluteMonthly', interval: rule.interval, dayOfMonth },
+    yearly: { type: 'absoluteYearly', interval: rule.interval, dayOfMonth, month: rule.by_month || start.getUTCMonth() + 1 },
+  };
+
+  return {
+    pattern: patterns[rule.frequency],
+    range: rule.until
+      ? { type: 'endDate', startDate, endDate: rule.until }
+      : rule.count
+        ? { type: 'numbered', startDate, numberOfOccurrences: rule.count }
+        : { type: 'noEnd', startDate },
+  };
+};
+
+// Only status, importance and recurrence are written back, so only they can conflict
+const MS_TODO_SYNC_FIELDS: SyncField[] = ['status', 'priority', 'recurrence'];
+
+const toFieldValues = (msToDoTask: Pick<MsToDoTaskData, 'status' | 'importance' | 'recurrence'>): SyncFieldValues => ({
+  status: convertStatusToLocal(msToDoTask.status),
+  priority: convertImportanceToPriority(msToDoTask.importance),
+  recurrence: convertRecurrenceToLocal(msToDoTask.recurrence),
+});
+
+const listProjectId = (listId: string) => `mstodo_list_${listId}`;
+const taskId = (msToDoTaskId: string) => `mstodo_${msToDoTaskId}`;
+
+const unwrap = <T>(result: { success: boolean; data?: T; error?: string }, message: string): T => {
+  if (!result.success) {
+    throw new Error(result.error || message);
+  }
+  return result.data!;
+};
+
+const checklistLink = (itemId: string, listId: string, syncedAt: string): ExternalIntegrations => ({
+  msToDo: { id: itemId, list_id: listId, synced_at: syncedAt, sync_enabled: true, sync_fields: ['content', 'completed'] },
+});
+
+// Unlinked items and items edited after their last sync still need to reach Microsoft To-Do
+const hasLocalChecklistChanges = (items: TaskEnhancement[]) =>
+  items.some(item => !item.integrations?.msToDo || (item.updated_at || '') > item.integrations.msToDo.synced_at);
+
+/**
+ * Two-way sync of a task's checklist with its checkpoint enhancements.
+ * Items edited locally since their last sync are pushed; otherwise Microsoft To-Do wins.
+ */
+const syncChecklist = async (client: MsToDoClient, listId: string, msToDoTaskId: string, taskId: string) => {
+  const database = window.electron.database;
+  const localItems: TaskEnhancement[] = unwrap(
+    await database.getTaskEnhancements(taskId, 'checkpoint'),
+    'Failed to load checklist'
+  );
+  const remoteItems = await client.getChecklistItems(listId, msToDoTaskId);
+  const now = new Date().toISOString();
+
+  for (const item of localItems) {
+    const linked = item.integrations?.msToDo;
+    const remoteItem = linked && remoteItems.find(remote => remote.id === linked.id);
+
+    if (!linked) {
+      let created = await client.createChecklistItem(listId, msToDoTaskId, item.content);
+      if (item.completed) {
+        created = await client.updateChecklistItem(listId, msToDoTaskId, created.id, { isChecked: true });
+      }
+      await database.updateTaskEnhancement(item.id, { integrations: checklistLink(created.id, listId, now), updated_at: now });
+    } else if (!remoteItem) {
+      // Removed in Microsoft To-Do
+      await database.deleteTaskEnhancement(item.id);
+    } else if ((item.updated_at || '') > linked.synced_at) {
+      await client.updateChecklistItem(listId, msToDoTaskId, remoteItem.id, {
+        displayName: item.content,
+        isChecked: item.completed,
+      });
+      await database.updateTaskEnhancement(item.id, { integrations: checklistLink(remoteItem.id, listId, now), updated_at: now });
+    } else if (remoteItem.displayName !== item.content || remoteItem.isChecked !== item.completed) {
+      await database.updateTaskEnhancement(item.id, {
+        content: remoteItem.displayName,
+        completed: remoteItem.isChecked,
+        integrations: checklistLink(remoteItem.id, listId, now),
+        updated_at: now,
+      });
+    }
+  }
+
+  const linkedIds = localItems.map(item => item.integrations?.msToDo?.id);
+  for (const remoteItem of remoteItems.filter(remote => !linkedIds.includes(remote.id))) {
+    const created: TaskEnhancement = unwrap(await database.createTaskEnhancement({
+      task_id: taskId,
+      type: 'checkpoint',
+      content: remoteItem.displayName,
+      completed: remoteItem.isChecked,
+    }), `Failed to save checklist item ${remoteItem.displayName}`);
+    await database.updateTaskEnhancement(created.id, { integrations: checklistLink(remoteItem.id, listId, now), updated_at: now });
+  }
+};
+
+/**
+ * Remove a synced checklist item from Microsoft To-Do before it is deleted locally,
+ * so the next sync does not bring it back
+ */
+export const deleteMsToDoChecklistItem = async (task: Task, item: TaskEnhancement) => {
+  const linked = item.integrations?.msToDo;
+  const msToDoTaskId = task.source_task?.msToDo?.id;
+  if (!linked || !msToDoTaskId) {
+    return;
+  }
+
+  const client = await getMsToDoClient();
+  await client.deleteChecklistItem(linked.list_id, msToDoTaskId, linked.id);
+};
+
+const recordConflict = async (
+  task: Task,
+  msToDoTask: MsToDoTask,
+  fields: SyncConflictField[],
+  conflicts: SyncOperation[]
+) => {
+  await window.electron.database.saveSyncConflict({
+    task_id: task.id,
+    integration: 'msToDo',
+    external_id: msToDoTask.id,
+    fields,
+    local_updated_at: task.updated_at,
+    remote_updated_at: msToDoTask.lastModifiedDateTime,
+  });
+  // The push and the pull can both see the same conflict; report it once
+  if (conflicts.some(c => c.local_id === task.id)) {
+    return;
+  }
+  conflicts.push({
+    type: 'update',
+    entity: 'task',
+    local_id: task.id,
+    external_id: msToDoTask.id,
+    data: fields,
+    conflict: true,
+  });
+};
+
+/**
+ * Push local status, importance and recurrence edits back to Microsoft To-Do.
+ * Edits are found by comparing each synced task with the source_task
+ * snapshot stored on the last pull. The current remote task is fetched first
+ * so edits made on both sides are queued as conflicts instead of overwritten.
+ */
+const pushLocalChanges = async (client: MsToDoClient, operations: SyncOperation[], conflicts: SyncOperation[]) => {
+  const database = window.electron.database;
+  const tasks: Task[] = unwrap(await database.getTasksByIntegration('msToDo'), 'Failed to load synced tasks');
+  const pendingFields = getPendingConflictFields(unwrap(
+    await database.getSyncConflicts({ status: 'pending', integration: 'msToDo' }),
+    'Failed to load sync conflicts'
+  ));
+
+  for (const task of tasks) {
+    const snapshot = task.source_task?.msToDo;
+    const listId = task.integrations?.msToDo?.list_id || snapshot?.listId;
+    if (!snapshot || !listId || task.integrations?.msToDo?.sync_enabled === false) {
+      continue;
+    }
+
+    const checklist: TaskEnhancement[] = unwrap(
+      await database.getTaskEnhancements(task.id, 'checkpoint'),
+      'Failed to load checklist'
+    );
+    if (hasLocalChecklistChanges(checklist)) {
+      await syncChecklist(client, listId, snapshot.id, task.id);
+    }
+
+    // Fields waiting on conflict resolution are left alone until the user decides
+    const blocked = pendingFields.get(task.id) || [];
+    let changed = getChangedFields(task, toFieldValues(snapshot), MS_TODO_SYNC_FIELDS)
+      .filter(field => !blocked.includes(field));
+
+    if (changed.length === 0) {
+      continue;
+    }
+
+    const remoteTask = await client.getTask(listId, snapshot.id);
+    const merge = mergeSyncFields(
+      task,
+      toFieldValues(snapshot),
+      toFieldValues(remoteTask),
+      snapshot.lastModifiedDateTime,
+      remoteTask.lastModifiedDateTime,
+      changed
+    );
+    if (merge.conflicts.length > 0) {
+      await recordConflict(task, remoteTask, merge.conflicts, conflicts);
+      changed = changed.filter(field => !merge.conflicts.some(c => c.field === field));
+    }
+
+    const updates: UpdateMsToDoTaskArgs = {};
+    if (changed.includes('status')) {
+      updates.status = convertStatusToMsToDo(task.status);
+    }
+    if (changed.includes('priority')) {
+      updates.importance = convertPriorityToImportance(task.priority);
+    }
+    if (changed.includes('recurrence')) {
+      // Graph only accepts a recurrence on tasks with a due date
+      const startDate = task.due_date || new Date().toISOString().slice(0, 10);
+      updates.recurrence = convertRecurrenceToMsToDo(task.recurrence, startDate);
+      if (updates.recurrence && !task.due_date) {
+        updates.dueDateTime = `${startDate}T00:00:00`;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      continue;
+    }
+
+    const updated = updates.status === 'completed' && Object.keys(updates).length === 1
+      ? await client.completeTask(listId, snapshot.id)
+      : await client.updateTask(listId, snapshot.id, updates);
+
+    // Refresh the snapshot so the same edit is not pushed again
+    await database.updateTask(task.id, {
+      source_task: { ...task.source_task, msToDo: { ...updated, listId } },
+      completed_at: updated.completedDateTime?.dateTime,
+    }, SYNC_WRITE);
+
+    operations.push({ type: 'update', entity: 'task', local_id: task.id, external_id: snapshot.id });
+  }
+};
+
+const applyList = async (list: MsToDoTaskList, operations: SyncOperation[]) => {
+  const database = window.electron.database;
+  const converted = convertMsToDoListToProject(list);
+  const existing = await database.getProjectById(converted.id);
+
+  // Keep the task delta link stored on the project between syncs
+  const integrations = {
+    ...converted.integrations,
+    msToDo: { ...converted.integrations!.msToDo!, delta_link: existing.data?.integrations?.msToDo?.delta_link },
+  };
+
+  if (existing.success) {
+    unwrap(await database.updateProject(converted.id, {
+      name: converted.name,
+      description: converted.description,
+      is_favorite: converted.is_favorite,
+      is_archived: false,
+      integrations,
+    }), `Failed to update list ${list.displayName}`);
+  } else {
+    unwrap(await database.createProject({
+      id: converted.id,
+      name: converted.name,
+      description: converted.description,
+      color: converted.color,
+      icon: converted.icon,
+      is_favorite: converted.is_favorite,
+      integrations,
+    }), `Failed to create list ${list.displayName}`);
+  }
+
+  operations.push({
+    type: existing.success ? 'update' : 'create',
+    entity: 'project',
+    local_id: converted.id,
+    external_id: list.id,
+  });
+};
+
+const applyTask = async (
+  client: MsToDoClient,
+  msToDoTask: MsToDoTask,
+  listId: string,
+  operations: SyncOperation[],
+  conflicts: SyncOperation[]
+) => {
+  const database = window.electron.database;
+  const converted = convertMsToDoToLocalFormat(msToDoTask, listId);
+  const existing = await database.getTaskById(converted.id);
+
+  // Status and importance edited locally survive the pull; the rest follows Microsoft To-Do
+  const previous = existing.data?.source_task?.msToDo;
+  const remote = toFieldValues(msToDoTask);
+  const merge = existing.success && previous
+    ? mergeSyncFields(
+        existing.data!,
+        toFieldValues(previous),
+        remote,
+        previous.lastModifiedDateTime,
+        msToDoTask.lastModifiedDateTime,
+        MS_TODO_SYNC_FIELDS
+      )
+    : { values: remote, conflicts: [] };
+
+  if (merge.conflicts.length > 0) {
+    await recordConflict(existing.data!, msToDoTask, merge.conflicts, conflicts);
+  }
+
+  const data = {
+    title: converted.title,
+    description: converted.description,
+    project_id: converted.project_id,
+    priority: merge.values.priority,
+    status: merge.values.status,
+    due_date: converted.due_date,
+    recurrence: merge.values.recurrence,
+    source_task: { ...existing.data?.source_task, ...converted.source_task },
+    integrations: { ...existing.data?.integrations, ...converted.integrations },
+  };
+
+  if (existing.success) {
+    unwrap(await database.updateTask(converted.id, {
+      ...data,
+      ...toTaskUpdates(data),
+      completed_at: converted.completed_at,
+      updated_at: getPulledUpdatedAt(merge.values, remote, msToDoTask.lastModifiedDateTime),
+    }, SYNC_WRITE), `Failed to update task ${msToDoTask.title}`);
+  } else {
+    unwrap(await database.createTask({ id: converted.id, ...data }), `Failed to create task ${msToDoTask.title}`);
+    if (converted.completed_at) {
+      await database.updateTask(converted.id, { completed_at: converted.completed_at }, SYNC_WRITE);
+    }
+  }
+
+  // Checklist edits change the task's modification time, so an unchanged task keeps its checklist without a request
+  if (previous?.lastModifiedDateTime !== msToDoTask.lastModifiedDateTime) {
+    await syncChecklist(client, listId, msToDoTask.id, converted.id);
+  }
+
+  operations.push({
+    type: existing.success ? 'update' : 'create',
+    entity: 'task',
+    local_id: converted.id,
+    external_id: msToDoTask.id,
+  });
+};
+
+/**
+ * Pull a single list's task changes using its stored delta link
+ */
+const pullListTasks = async (
+  client: MsToDoClient,
+  project: Project,
+  operations: SyncOperation[],
+  conflicts: SyncOperation[]
+) => {
+  const database = window.electron.database;
+  const msToDo = project.integrations!.msToDo!;
+  const delta = await client.getTasksDelta(msToDo.list_id, msToDo.delta_link);
+
+  for (const msToDoTask of delta.items) {
+    await applyTask(client, msToDoTask, msToDo.list_id, operations, conflicts);
+  }
+
+  for (const removedId of delta.removedIds) {
+    const result = await database.deleteTask(taskId(removedId), SYNC_WRITE);
+    if (result.success) {
+      operations.push({ type: 'delete', entity: 'task', local_id: taskId(removedId), external_id: removedId });
+    }
+  }
+
+  await database.updateProject(project.id, {
+    integrations: {
+      ...project.integrations,
+      msToDo: { ...msToDo, delta_link: delta.deltaLink, synced_at: new Date().toISOString() },
+    },
+  });
+};
+
+/**
+ * Sync Microsoft To-Do lists and tasks into the local database.
+ *
+ * Lists are stored as projects and tasks keep the original Graph task in
+ * source_task.msToDo. Graph delta queries keep each sync incremental: the
+ * list delta link is stored as the integration's sync_token and each list's
+ * task delta link on its project. Checklist items map to checkpoint
+ * enhancements on the task.
+ */
+export const syncMsToDo = async (): Promise<SyncResult> => {
+  const operations: SyncOperation[] = [];
+  const conflicts: SyncOperation[] = [];
+
+  try {
+    const database = window.electron.database;
+    const client = await getMsToDoClient();
+
+    await pushLocalChanges(client, operations, conflicts);
+
+    const integration = await database.getIntegration('msToDo');
+    const lists = await client.getTaskListsDelta(integration.data?.sync_token);
+
+    for (const list of lists.items) {
+      await applyList(list, operations);
+    }
+
+    // Archive rather than delete so local tasks keep their project
+    for (const removedId of lists.removedIds) {
+      const result = await database.updateProject(listProjectId(removedId), { is_archived: true });
+      if (result.success) {
+        operations.push({ type: 'delete', entity: 'project', local_id: listProjectId(removedId), external_id: removedId });
+      }
+    }
+
+    const projects: Project[] = unwrap(
+      await database.getProjects({ has_integration: 'msToDo' }),
+      'Failed to load synced lists'
+    );
+    for (const project of projects.filter(p => !p.is_archived)) {
+      await pullListTasks(client, project, operations, conflicts);
+    }
+
+    unwrap(await database.saveIntegrationState('msToDo', {
+      is_active: true,
+      sync_token: lists.deltaLink,
+      last_sync_at: new Date().toISOString(),
+    }), 'Failed to save Microsoft To-Do sync state');
+
+    return { success: true, operations, conflicts, last_sync_token: lists.deltaLink };
+  } catch (error) {
+    console.error('Error syncing Microsoft To-Do:', error);
+    return {
+      success: false,
+      operations,
+      conflicts,
+      error: error instanceof Error ? error.message : 'Failed to sync Microsoft To-Do',
+    };
+  }
+};
@@ -0,0 +1,6 @@
+import type { Project } from '../types/database';
+
+export const INBOX_PROJECT_ID = 'proj_inbox';
+
+// Projects of the local database that no sync manages
+export const isLocalProject = (project: Project): boolean => Object.keys(project.integrations || {}).length === 0;
@@ -0,0 +1,218 @@
+import { parseCsv, DATA_ARCHIVE_VERSION } from '../main/database/transfer';
+import { parseQuickAdd } from './quickAdd';
+import { convertTodoistPriorityToUnified } from '../providers/todoist';
+import { convertMsToDoListToProject, convertMsToDoToLocalFormat } from '../providers/msToDo';
+import type { MsToDoTask, MsToDoTaskList } from './msToDoClient';
+import type { DataArchive, Task, Project, Section, Label, TodoistTaskData } from '../types/database';
+
+/**
+ * Exports of other task apps as Openza archives, imported with window.electron.database.importData.
+ *
+ * Items keep the local ids a live sync gives them (todoist_<id>, todoist_section_<id>,
+ * mstodo_<id>, mstodo_list_<id>) and their original data in source_task, but no
+ * integrations. They stay local tasks until the provider is connected; its
+ * first sync then finds them by id and links them instead of adding copies.
+ */
+
+const createArchive = (projects: Project[], tasks: Task[], sections: Section[] = []): DataArchive => {
+  const labels = new Map<string, Label>();
+  tasks.flatMap(task => task.labels || []).forEach(label => {
+    if (!labels.has(label.name)) {
+      labels.set(label.name, label);
+    }
+  });
+
+  return {
+    format: 'openza',
+    version: DATA_ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    projects,
+    sections,
+    labels: [...labels.values()],
+    tasks,
+    time_entries: [],
+  };
+};
+
+export const mergeArchives = (archives: DataArchive[]): DataArchive =>
+  createArchive(
+    archives.flatMap(archive => archive.projects),
+    archives.flatMap(archive => archive.tasks),
+    archives.flatMap(archive => archive.sections || [])
+  );
+
+const generateId = (prefix: string) => `${prefix}${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+// Todoist
+
+const TODOIST_COLUMNS = ['TYPE', 'CONTENT', 'PRIORITY', 'INDENT'];
+
+/**
+ * Project templates and backups share the TYPE,CONTENT,DESCRIPTION,PRIORITY,INDENT,... layout
+ */
+export const isTodoistCsv = (content: string): boolean => {
+  const header = content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0].toUpperCase().split(',').map(column => column.trim());
+  return TODOIST_COLUMNS.every(column => header.includes(column));
+};
+
+const toTodoistLabel = (name: string, index: number): Label => ({
+  id: `todoist_label_${name}`,
+  name,
+  color: '#808080',
+  sort_order: index,
+  created_at: new Date().toISOString(),
+});
+
+/**
+ * One Todoist CSV file as a project with its tasks.
+ *
+ * Backups name each file "Project [id].csv", which gives the project its
+ * Todoist id; templates carry no ids. INDENT nests subtasks under the task
+ * above, labels are written as @name in CONTENT and DATE holds the due date
+ * as typed in Todoist, such as "every monday at 9am". PRIORITY counts from
+ * p1 like the Todoist app, not like its API. Note rows are added to the notes
+ * of the task above and the tasks below a section row belong to that section.
+ */
+export const convertTodoistCsv = (fileName: string, content: string): DataArchive => {
+  const [header, ...rows] = parseCsv(content);
+  const columns = header.map(column => column.trim().toUpperCase());
+  const nameMatch = fileName.replace(/\.csv$/i, '').match(/^(.*?)\s*(?:\[(\d+)\])?$/);
+  const todoistProjectId = nameMatch?.[2];
+  const now = new Date().toISOString();
+
+  const project: Project = {
+    id: todoistProjectId ? `todoist_project_${todoistProjectId}` : generateId('proj_'),
+    name: nameMatch?.[1] || 'Todoist',
+    color: '#e44332', // Todoist red
+    sort_order: 0,
+    is_favorite: false,
+    is_archived: false,
+    created_at: now,
+  };
+
+  const tasks: Task[] = [];
+  const sections: Section[] = [];
+  // Last task at each indent, for finding parents
+  const parents: Task[] = [];
+
+  rows.forEach((row, index) => {
+    const get = (column: string) => row[columns.indexOf(column)]?.trim() || undefined;
+    const type = get('TYPE')?.toLowerCase();
+
+    if (type === 'note') {
+      const task = tasks[tasks.length - 1];
+      if (task && get('CONTENT')) {
+        task.notes = task.notes ? `${task.notes}\n\n${get('CONTENT')}` : get('CONTENT');
+      }
+      return;
+    }
+    if (type === 'section') {
+      parents.length = 0;
+      if (get('CONTENT')) {
+        sections.push({
+          id: get('ID') ? `todoist_section_${get('ID')}` : generateId('section_'),
+          name: get('CONTENT')!,
+          project_id: project.id,
+          sort_order: sections.length,
+          created_at: now,
+        });
+      }
+      return;
+    }
+    if (type !== 'task' || !get('CONTENT')) {
+      return;
+    }
+
+    const labelNames = [...get('CONTENT')!.matchAll(/(?:^|\s)@([^\s@]+)/g)].map(match => match[1]);
+    const title = get('CONTENT')!.replace(/(?:^|\s)@[^\s@]+/g, '').trim() || get('CONTENT')!;
+    const indent = Math.max(1, parseInt(get('INDENT') || '1', 10) || 1);
+    const appPriority = parseInt(get('PRIORITY') || '4', 10);
+    const apiPriority = appPriority >= 1 && appPriority <= 4 ? 5 - appPriority : 1;
+    const due = get('DATE') ? parseQuickAdd(get('DATE')!).task : undefined;
+    const duration = parseInt(get('DURATION') || '', 10);
+    const todoistId = get('ID');
+
+    const task: Task = {
+      id: todoistId ? `todoist_${todoistId}` : generateId('task_'),
+      title,
+      description: get('DESCRIPTION'),
+      project_id: project.id,
+      section_id: sections[sections.length - 1]?.id,
+      parent_id: parents[indent - 2]?.id,
+      priority: convertTodoistPriorityToUnified(apiPriority),
+      status: 'pending',
+      due_date: due?.due_date,
+      due_time: due?.due_time,
+      recurrence: due?.recurrence,
+      estimated_duration: duration > 0 && get('DURATION_UNIT') !== 'day' ? duration : undefined,
+      energy_level: 2,
+      context: 'work',
+      focus_time: false,
+      created_at: now,
+      labels: labelNames.map(toTodoistLabel),
+    };
+
+    if (todoistId) {
+      // Todoist's view of the task at export time, as a sync would have stored it
+      const snapshot: TodoistTaskData = {
+        id: todoistId,
+        content: title,
+        description: task.description,
+        project_id: todoistProjectId || '',
+        section_id: task.section_id?.match(/^todoist_section_(.+)$/)?.[1],
+        parent_id: task.parent_id?.replace(/^todoist_/, ''),
+        order: index,
+        priority: apiPriority,
+        labels: labelNames,
+        completed: false,
+        due: task.due_date ? {
+          date: task.due_time ? `${task.due_date}T${task.due_time}:00` : task.due_date,
+          string: get('DATE')!,
+          is_recurring: !!task.recurrence,
+        } : undefined,
+        url: '',
+        comment_count: 0,
+        created_at: now,
+        date_modified: now,
+      };
+      task.source_task = { todoist: snapshot };
+    }
+
+    tasks.push(task);
+    parents[indent - 1] = task;
+    parents.length = indent;
+  });
+
+  return createArchive([project], tasks, sections);
+};
+
+// Microsoft To-Do
+
+type MsToDoExportList = MsToDoTaskList & { tasks?: MsToDoTask[] };
+
+/**
+ * Lists with their tasks as returned by Graph, e.g. GET /me/todo/lists?$expand=tasks.
+ * A bare array of lists or { lists: [...] } is accepted too. Undefined for other JSON.
+ */
+export const convertMsToDoExport = (content: string): DataArchive | undefined => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+
+  const root = data as { value?: unknown; lists?: unknown };
+  const lists = (Array.isArray(data) ? data : root?.value ?? root?.lists) as MsToDoExportList[] | undefined;
+  if (!Array.isArray(lists) || !lists.every(list => list?.id && list.displayName !== undefined && Array.isArray(list.tasks))) {
+    return undefined;
+  }
+
+  const projects = lists.map(list => ({ ...convertMsToDoListToProject(list), integrations: undefined }));
+  const tasks = lists.flatMap(list => list.tasks!.map(msToDoTask => ({
+    ...convertMsToDoToLocalFormat({ ...msToDoTask, categories: msToDoTask.categories || [] }, list.id),
+    integrations: undefined,
+  })));
+
+  return createArchive(projects, tasks);
+};
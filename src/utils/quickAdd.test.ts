@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+import type { Project } from '../types/database';
+
+// Sunday, October 18th 2026
+const now = new Date(2026, 9, 18, 10);
+const projects = [{ id: 'work', name: 'Work' }, { id: 'home', name: 'Home Renovation' }] as Project[];
+
+const parse = (input: string) => parseQuickAdd(input, { projects, now }).task;
+
+describe('parseQuickAdd', () => {
+  it('takes dates, times, projects, labels, priority and duration out of the title', () => {
+    const result = parseQuickAdd('Call bank tomorrow 3pm #Work @urgent p1 ~30m', { projects, now });
+
+    expect(result.task).toEqual({
+      title: 'Call bank',
+      due_date: '2026-10-19',
+      due_time: '15:00',
+      project_id: 'work',
+      priority: 1,
+      estimated_duration: 30,
+    });
+    expect(result.labels).toEqual(['urgent']);
+  });
+
+  it('matches project names of several words', () => {
+    expect(parse('Fix #home renovation roof p2')).toEqual({ title: 'Fix roof', project_id: 'home', priority: 2 });
+  });
+
+  it('reads weekdays', () => {
+    expect(parse('Meeting friday').due_date).toBe('2026-10-23');
+    expect(parse('Meeting on fri 10:30')).toEqual({ title: 'Meeting', due_date: '2026-10-23', due_time: '10:30' });
+    expect(parse('Meeting next wed').due_date).toBe('2026-10-21');
+    expect(parse('Meeting this sun').due_date).toBe('2026-10-18');
+    expect(parse('Meeting sunday').due_date).toBe('2026-10-25');
+  });
+
+  it('reads month dates', () => {
+    expect(parse('Dentist oct 20').due_date).toBe('2026-10-20');
+    expect(parse('Dentist 3 january').due_date).toBe('2027-01-03');
+    expect(parse('Dentist sept 1st').due_date).toBe('2027-09-01');
+  });
+
+  it('leaves words that only start like a weekday or month in the title', () => {
+    expect(parse('Wear sun cream at the beach')).toEqual({ title: 'Wear sun cream at the beach' });
+    expect(parse('Sat exam results')).toEqual({ title: 'Sat exam results' });
+    expect(parse('Send wed photos')).toEqual({ title: 'Send wed photos' });
+    expect(parse('Monitor the build')).toEqual({ title: 'Monitor the build' });
+    expect(parse('Frida birthday')).toEqual({ title: 'Frida birthday' });
+    expect(parse('Marc 5 tickets')).toEqual({ title: 'Marc 5 tickets' });
+    expect(parse('Junk 3 boxes')).toEqual({ title: 'Junk 3 boxes' });
+  });
+
+  it('reads repeats and starts them on the first matching day', () => {
+    expect(parse('Water plants every monday at 9am')).toEqual({
+      title: 'Water plants',
+      due_date: '2026-10-19',
+      due_time: '09:00',
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+    });
+    expect(parse('Pay rent every month on the 1st')).toMatchObject({ due_date: '2026-11-01', recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1' });
+  });
+});
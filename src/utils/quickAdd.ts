@@ -0,0 +1,282 @@
+import { parseRecurrenceText, formatRRule, getNextOccurrence } from '../main/database/recurrence';
+import type { CreateTaskData, Project, Label, RecurrenceRule } from '../types/database';
+
+export type QuickAddTokenType = 'date' | 'time' | 'recurrence' | 'project' | 'label' | 'priority' | 'duration';
+
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  text: string;
+  start: number; // Offset into the input
+  end: number;
+  valid: boolean; // False for a project name that does not exist
+  isNew?: boolean; // Label that will be created
+}
+
+export interface QuickAddResult {
+  task: CreateTaskData;
+  labels: string[]; // Label names
+  tokens: QuickAddToken[];
+}
+
+interface QuickAddOptions {
+  projects?: Project[];
+  labels?: Label[];
+  now?: Date;
+}
+
+interface Word {
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ABBREVIATIONS = [['sun'], ['mon'], ['tue', 'tues'], ['wed'], ['thu', 'thur', 'thurs'], ['fri'], ['sat']];
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_ABBREVIATIONS = [['jan'], ['feb'], ['mar'], ['apr'], [], ['jun'], ['jul'], ['aug'], ['sep', 'sept'], ['oct'], ['nov'], ['dec']];
+const DATE_PREFIXES = ['on', 'by', 'due'];
+
+const toDateString = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Abbreviations such as "sun" or "wed" are common words, so they only count after "on", "next" and the like
+const parseWeekday = (word: string, abbreviated = false): number | undefined => {
+  const index = WEEKDAYS.findIndex((day, i) => word === day || (abbreviated && WEEKDAY_ABBREVIATIONS[i].includes(word)));
+  return index === -1 ? undefined : index;
+};
+
+const parseMonth = (word: string): number | undefined => {
+  const index = MONTHS.findIndex((month, i) => word === month || MONTH_ABBREVIATIONS[i].includes(word));
+  return index === -1 ? undefined : index;
+};
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[_-]/g, ' ').trim();
+
+/**
+ * Match a date phrase at the start of `words`, returning the date and how many words it used.
+ * Weekdays mean the next one after today, "this monday" may be today and "next monday" is
+ * the Monday of next week. `prefixed` is set when the phrase follows "on", "by" or "due".
+ */
+const matchDate = (words: string[], today: Date, prefixed = false): { date: string; length: number } | undefined => {
+  const [first, second, third] = words;
+
+  if (first === 'today' || first === 'tod') return { date: toDateString(today), length: 1 };
+  if (first === 'tomorrow' || first === 'tmr' || first === 'tmrw') return { date: toDateString(addDays(today, 1)), length: 1 };
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(first) && !isNaN(Date.parse(first))) {
+    return { date: first, length: 1 };
+  }
+
+  const weekday = parseWeekday(first, prefixed);
+  if (weekday !== undefined) {
+    const ahead = (weekday - today.getDay() + 7) % 7 || 7;
+    return { date: toDateString(addDays(today, ahead)), length: 1 };
+  }
+
+  const thisWeekday = first === 'this' && second ? parseWeekday(second, true) : undefined;
+  if (thisWeekday !== undefined) {
+    return { date: toDateString(addDays(today, (thisWeekday - today.getDay() + 7) % 7)), length: 2 };
+  }
+
+  if (first === 'next' && second) {
+    if (second === 'week') {
+      return { date: toDateString(addDays(today, 7 - ((today.getDay() + 6) % 7))), length: 2 };
+    }
+    if (second === 'month') {
+      return { date: toDateString(new Date(today.getFullYear(), today.getMonth() + 1, 1)), length: 2 };
+    }
+    const nextWeekday = parseWeekday(second, true);
+    if (nextWeekday !== undefined) {
+      const nextMonday = addDays(today, 7 - ((today.getDay() + 6) % 7));
+      return { date: toDateString(addDays(nextMonday, (nextWeekday + 6) % 7)), length: 2 };
+    }
+  }
+
+  const inMatch = first === 'in' && second && third ? `${second} ${third}`.match(/^(\d+) (day|week|month)s?$/) : null;
+  if (inMatch) {
+    const amount = Number(inMatch[1]);
+    const date = inMatch[2] === 'month'
+      ? new Date(today.getFullYear(), today.getMonth() + amount, today.getDate())
+      : addDays(today, amount * (inMatch[2] === 'week' ? 7 : 1));
+    return { date: toDateString(date), length: 3 };
+  }
+
+  // "oct 20" or "20 oct"; a date already passed this year means next year
+  const [monthWord, dayWord] = parseMonth(first) !== undefined ? [first, second] : [second, first];
+  const month = monthWord ? parseMonth(monthWord) : undefined;
+  const day = dayWord?.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (month !== undefined && day && Number(day[1]) <= 31) {
+    let date = new Date(today.getFullYear(), month, Number(day[1]));
+    if (date < today) {
+      date = new Date(today.getFullYear() + 1, month, Number(day[1]));
+    }
+    return { date: toDateString(date), length: 2 };
+  }
+
+  return undefined;
+};
+
+const matchTime = (words: string[]): { time: string; length: number } | undefined => {
+  const joined = words[1] && /^(am|pm)$/.test(words[1]) ? `${words[0]}${words[1]}` : words[0];
+  const match = joined.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (!match || (!match[2] && !match[3])) {
+    return undefined;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return undefined;
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+
+  return {
+    time: `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`,
+    length: joined === words[0] ? 1 : 2,
+  };
+};
+
+// "~30m", "~1h", "~1h30m", "~45"
+const matchDuration = (word: string): number | undefined => {
+  const match = word.match(/^~(?:(\d+)h)?(?:(\d+)m?)?$/);
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+  return Number(match[1] || 0) * 60 + Number(match[2] || 0);
+};
+
+// Recurring tasks without a date start on the first matching day from today
+const firstOccurrence = (rule: RecurrenceRule, today: Date): string => {
+  if (!rule.by_day?.length && !rule.by_month_day) {
+    return toDateString(today);
+  }
+  return getNextOccurrence(rule, toDateString(addDays(today, -1))) || toDateString(today);
+};
+
+/**
+ * Parse quick add text such as "Call bank tomorrow 3pm #Work @urgent p1 ~30m".
+ *
+ * Recognises dates (today, tomorrow, weekdays, "on fri", "next week", "in 3 days", "oct 20",
+ * ISO dates), times ("3pm", "15:30", optionally after "at"), repeats ("every monday"),
+ * #project, @label, p1-p4 and ~duration. Each kind is taken once; later matches stay
+ * in the title. Projects and labels match by name ignoring case, with - or _ for spaces.
+ */
+export const parseQuickAdd = (input: string, options: QuickAddOptions = {}): QuickAddResult => {
+  const { projects = [], labels = [], now = new Date() } = options;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const words: Word[] = Array.from(input.matchAll(/\S+/g), match => ({
+    text: match[0],
+    lower: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+  const task: CreateTaskData = { title: '' };
+  const labelNames: string[] = [];
+  const tokens: QuickAddToken[] = [];
+  let rule: RecurrenceRule | undefined;
+
+  const addToken = (type: QuickAddTokenType, from: number, length: number, extra: Partial<QuickAddToken> = {}) => {
+    const first = words[from];
+    const last = words[from + length - 1];
+    tokens.push({ type, text: input.slice(first.start, last.end), start: first.start, end: last.end, valid: true, ...extra });
+    return length;
+  };
+
+  for (let i = 0; i < words.length;) {
+    const word = words[i];
+    const rest = words.slice(i).map(w => w.lower);
+    // "on friday", "at 3pm" take their preposition along
+    const prefixed = (prefixes: string[]) => prefixes.includes(word.lower) && rest.length > 1 ? 1 : 0;
+    let used = 0;
+
+    if (word.text.startsWith('#') && word.text.length > 1 && !task.project_id) {
+      // Longest run of words naming a project, so "#Home Renovation" works
+      for (let length = Math.min(4, words.length - i); length >= 1 && !used; length--) {
+        const name = normalizeName(words.slice(i, i + length).map(w => w.text).join(' ').slice(1));
+        const project = projects.find(p => normalizeName(p.name) === name);
+        if (project) {
+          task.project_id = project.id;
+          used = addToken('project', i, length);
+        }
+      }
+      if (!used) {
+        used = addToken('project', i, 1, { valid: false });
+      }
+    } else if (word.text.startsWith('@') && word.text.length > 1) {
+      const name = word.text.slice(1);
+      const existing = labels.find(label => normalizeName(label.name) === normalizeName(name));
+      if (!labelNames.includes(existing?.name || name)) {
+        labelNames.push(existing?.name || name);
+      }
+      used = addToken('label', i, 1, { isNew: !existing });
+    } else if (/^p[1-4]$/.test(word.lower) && task.priority === undefined) {
+      task.priority = Number(word.lower[1]);
+      used = addToken('priority', i, 1);
+    } else if (matchDuration(word.lower) !== undefined && task.estimated_duration === undefined) {
+      task.estimated_duration = matchDuration(word.lower);
+      used = addToken('duration', i, 1);
+    } else if (word.lower === 'every' && !rule) {
+      // Stop before "at" so the time stays a separate token
+      const end = rest.indexOf('at') > 0 ? rest.indexOf('at') : rest.length;
+      for (let length = Math.min(8, end); length >= 2 && !used; length--) {
+        const parsed = parseRecurrenceText(rest.slice(0, length).join(' '));
+        if (parsed) {
+          rule = parsed;
+          used = addToken('recurrence', i, length);
+        }
+      }
+    }
+
+    if (!used && !task.due_date) {
+      const offset = prefixed(DATE_PREFIXES);
+      const date = matchDate(rest.slice(offset), today, offset > 0);
+      if (date) {
+        task.due_date = date.date;
+        used = addToken('date', i, offset + date.length);
+      }
+    }
+
+    if (!used && !task.due_time) {
+      const offset = prefixed(['at']);
+      const time = matchTime(rest.slice(offset));
+      if (time) {
+        task.due_time = time.time;
+        used = addToken('time', i, offset + time.length);
+      }
+    }
+
+    i += used || 1;
+  }
+
+  if (rule) {
+    task.recurrence = formatRRule(rule);
+    task.due_date = task.due_date || firstOccurrence(rule, today);
+  }
+  if (task.due_time && !task.due_date) {
+    task.due_date = toDateString(today);
+  }
+
+  // Whatever is not a token is the title
+  let title = '';
+  let position = 0;
+  for (const token of tokens.slice().sort((a, b) => a.start - b.start)) {
+    title += input.slice(position, token.start);
+    position = token.end;
+  }
+  task.title = (title + input.slice(position)).replace(/\s+/g, ' ').trim();
+
+  return { task, labels: labelNames, tokens: tokens.sort((a, b) => a.start - b.start) };
+};
@@ -65,6 +65,27 @@ export const openTodoistSettings = async (): Promise<OpenUrlResult> => {
   return openExternalUrl('https://todoist.com/prefs/integrations');
 };
 
+/**
+ * Open GitHub personal access token settings in system browser
+ */
+export const openGitHubTokenSettings = async (): Promise<OpenUrlResult> => {
+  return openExternalUrl('https://github.com/settings/personal-access-tokens');
+};
+
+/**
+ * Open Notion integration settings in system browser
+ */
+export const openNotionIntegrations = async (): Promise<OpenUrlResult> => {
+  return openExternalUrl('https://www.notion.so/my-integrations');
+};
+
+/**
+ * Open Linear API key settings in system browser
+ */
+export const openLinearApiSettings = async (): Promise<OpenUrlResult> => {
+  return openExternalUrl('https://linear.app/settings/account/security');
+};
+
 /**
  * Open Azure Portal for app registration
  */
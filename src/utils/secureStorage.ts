@@ -1,17 +1,3 @@
-// Declare Electron API types for TypeScript
-declare global {
-  interface Window {
-    electron?: {
-      secureStorage: {
-        set: (key: string, value: string) => Promise<{ success: boolean; error?: string }>;
-        get: (key: string) => Promise<{ success: boolean; value?: string | null; error?: string }>;
-        delete: (key: string) => Promise<{ success: boolean; error?: string }>;
-        isAvailable: () => Promise<boolean>;
-      };
-    };
-  }
-}
-
 class SecureStorage {
   private get isElectron() {
     return typeof window !== 'undefined' && window.electron?.secureStorage;
@@ -133,7 +119,11 @@ class SecureStorage {
     const todoistResult = await this.removeItem(STORAGE_KEYS.TODOIST_TOKEN);
     const msToDoResult = await this.removeItem(STORAGE_KEYS.MSTODO_TOKEN);
     const msToDoRefreshResult = await this.removeItem(STORAGE_KEYS.MSTODO_REFRESH_TOKEN);
-    return todoistResult && msToDoResult && msToDoRefreshResult;
+    const gitHubResult = await this.removeItem(STORAGE_KEYS.GITHUB_TOKEN);
+    const notionResult = await this.removeItem(STORAGE_KEYS.NOTION_TOKEN);
+    const linearResult = await this.removeItem(STORAGE_KEYS.LINEAR_TOKEN);
+    const calDavResult = await this.removeItem(STORAGE_KEYS.CALDAV_PASSWORD);
+    return todoistResult && msToDoResult && msToDoRefreshResult && gitHubResult && notionResult && linearResult && calDavResult;
   }
 }
 
@@ -145,5 +135,9 @@ export const STORAGE_KEYS = {
   TODOIST_TOKEN: 'todoist_access_token',
   MSTODO_TOKEN: 'mstodo_access_token',
   MSTODO_REFRESH_TOKEN: 'mstodo_refresh_token',
+  GITHUB_TOKEN: 'github_access_token', // Personal access token, never expires
+  NOTION_TOKEN: 'notion_access_token', // Internal integration secret, never expires
+  LINEAR_TOKEN: 'linear_api_key', // Personal API key, never expires
+  CALDAV_PASSWORD: 'caldav_password', // App password for the CalDAV server
   ACTIVE_PROVIDER: 'active_provider',
 } as const;
\ No newline at end of file
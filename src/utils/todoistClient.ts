@@ -1,4 +1,4 @@
-import { TodoistApi, type GetTasksArgs, type Task, type Project, type Label } from '@doist/todoist-api-typescript';
+import { TodoistApi, type GetTasksArgs, type Task, type Project, type Section, type Label } from '@doist/todoist-api-typescript';
 import { secureStorage, STORAGE_KEYS } from './secureStorage';
 
 export const createTodoistClient = (token: string) => {
@@ -37,14 +37,15 @@ export const getAllTasks = async (args: GetTasksArgs = {}): Promise<Task[]> => {
   return allTasks;
 };
 
-export const getTasksWithProjects = async (args: GetTasksArgs = {}): Promise<{ tasks: Task[], projects: Project[], labels: Label[] }> => {
-  const [tasks, projects, labels] = await Promise.all([
+export const getTasksWithProjects = async (args: GetTasksArgs = {}): Promise<{ tasks: Task[], projects: Project[], sections: Section[], labels: Label[] }> => {
+  const [tasks, projects, sections, labels] = await Promise.all([
     getAllTasks(args),
     getAllProjects(),
+    getAllSections(),
     getAllLabels()
   ]);
   
-  return { tasks, projects, labels };
+  return { tasks, projects, sections, labels };
 };
 
 export const getAllProjects = async (): Promise<Project[]> => {
@@ -63,6 +64,24 @@ export const getAllProjects = async (): Promise<Project[]> => {
   return allProjects;
 };
 
+// Sections of all projects
+export const getAllSections = async (): Promise<Section[]> => {
+  const client = await getTodoistClient();
+  const allSections: Section[] = [];
+  let cursor: string | null = null;
+  
+  do {
+    const response = await client.getSections({
+      projectId: null,
+      ...(cursor && { cursor })
+    });
+    allSections.push(...response.results);
+    cursor = response.nextCursor;
+  } while (cursor !== null);
+  
+  return allSections;
+};
+
 export const getAllLabels = async (): Promise<Label[]> => {
   const client = await getTodoistClient();
   const allLabels: Label[] = [];
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import path from "path"
@@ -29,4 +30,8 @@ export default defineConfig({
     strictPort: true,
     host: true
   },
+  test: {
+    environment: 'node',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 })